@@ -0,0 +1,244 @@
+/* --- Local Mock AI Backend ---
+   Dependency-free Node server implementing the n8n webhook contract used
+   by sendMessageToAI (see N8nWebhookPayload / N8nWebhookResponse in
+   src/lib/ai/types.ts), so chat flows can be exercised end to end
+   without network access.
+
+   Run:   npm run mock:ai
+   Then:  VITE_N8N_WEBHOOK_URL=/mock-ai/webhook/legal-ai npm run dev
+          (Vite proxies /mock-ai to this server)
+
+   Environment:
+   MOCK_AI_PORT=8787            port to listen on
+   MOCK_AI_LATENCY_MS=600       delay before the first byte
+   MOCK_AI_TOKEN_DELAY_MS=40    delay between streamed tokens
+   MOCK_AI_STREAM_FORMAT=ndjson ndjson (n8n's format) | sse
+   MOCK_AI_ERROR_RATE=0         0–1, share of requests failing with MOCK_AI_ERROR_STATUS
+   MOCK_AI_ERROR_STATUS=500
+   MOCK_AI_SIGNING_SECRET=      when set, requests must carry a valid "secret"
+                                mode signature (src/lib/ai/signing.ts)
+   MOCK_AI_FIXTURES=./fixtures  directory of scripted replies
+
+   Per request, the header "X-Mock-Error: 503" forces a failure.
+   Answer feedback ({ "event": "feedback" }) is logged and acknowledged.
+
+   Fixtures: every *.json file in the fixtures directory holds one rule
+   or an array of rules, checked in file-name order; the first rule whose
+   `match` (case-insensitive regex) matches the message wins:
+   {
+     "match": "cheque|check bounce",
+     "language": "en",            optional, only for this language
+     "status": 503,               optional, fail with this HTTP status
+     "delayMs": 5000,             optional, overrides MOCK_AI_LATENCY_MS
+     "failAfterTokens": 8,        optional, abort the stream mid-reply
+     "response": { ... }          structured (schemaVersion) or legacy body
+   }
+--- */
+
+import { createServer } from 'node:http';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { readdirSync, readFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const readNumber = (value, fallback) => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const config = {
+  port: readNumber(process.env.MOCK_AI_PORT, 8787),
+  latencyMs: readNumber(process.env.MOCK_AI_LATENCY_MS, 600),
+  tokenDelayMs: readNumber(process.env.MOCK_AI_TOKEN_DELAY_MS, 40),
+  streamFormat: process.env.MOCK_AI_STREAM_FORMAT === 'sse' ? 'sse' : 'ndjson',
+  errorRate: readNumber(process.env.MOCK_AI_ERROR_RATE, 0),
+  errorStatus: readNumber(process.env.MOCK_AI_ERROR_STATUS, 500),
+  signingSecret: process.env.MOCK_AI_SIGNING_SECRET || '',
+  fixturesDir: resolve(__dirname, process.env.MOCK_AI_FIXTURES || './fixtures'),
+};
+
+const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+const seenNonces = new Map();
+
+const sleep = (ms) => new Promise((done) => setTimeout(done, ms));
+
+function loadFixtures() {
+  let files = [];
+  try {
+    files = readdirSync(config.fixturesDir).filter((file) => file.endsWith('.json')).sort();
+  } catch {
+    console.warn(`No fixtures directory at ${config.fixturesDir}`);
+  }
+
+  return files.flatMap((file) => {
+    try {
+      const parsed = JSON.parse(readFileSync(join(config.fixturesDir, file), 'utf8'));
+      return (Array.isArray(parsed) ? parsed : [parsed]).map((rule) => ({ ...rule, file }));
+    } catch (error) {
+      console.error(`Skipping invalid fixture ${file}: ${error.message}`);
+      return [];
+    }
+  });
+}
+
+// Reloaded per request so fixtures can be edited while the server runs
+function findFixture(message, language) {
+  return loadFixtures().find((rule) => {
+    if (rule.language && rule.language !== language) return false;
+    try {
+      return new RegExp(rule.match, 'i').test(message);
+    } catch {
+      return message.toLowerCase().includes(String(rule.match).toLowerCase());
+    }
+  });
+}
+
+function defaultReply(payload) {
+  const turns = payload.history?.length ?? 0;
+  return {
+    success: true,
+    aiResponse: payload.language === 'hi'
+      ? `(स्थानीय मॉक) आपने पूछा: "${payload.message}". इस बातचीत में पहले ${turns} संदेश हैं।`
+      : `(Local mock) You asked: "${payload.message}". This conversation has ${turns} earlier messages.`,
+    relevanceScore: 75,
+  };
+}
+
+// Answer text of a structured (schemaVersion) or legacy body
+const replyText = (body) => body.answer ?? body.aiResponse ?? body.reply ?? body.response ?? '';
+
+function verifySignature(req, rawBody) {
+  const timestamp = req.headers['x-jurisly-timestamp'];
+  const nonce = req.headers['x-jurisly-nonce'];
+  const signature = req.headers['x-jurisly-signature'];
+  if (!timestamp || !nonce || !signature) return 'missing_headers';
+  if (Math.abs(Date.now() - Number(timestamp)) > SIGNATURE_TOLERANCE_MS) return 'stale_timestamp';
+
+  const expected = 'v1=' + createHmac('sha256', config.signingSecret)
+    .update(`v1:${timestamp}:${nonce}:${rawBody}`)
+    .digest('hex');
+  if (signature.length !== expected.length || !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+    return 'bad_signature';
+  }
+
+  for (const [seen, at] of seenNonces) {
+    if (at < Date.now() - SIGNATURE_TOLERANCE_MS) seenNonces.delete(seen);
+  }
+  if (seenNonces.has(nonce)) return 'replayed_nonce';
+  seenNonces.set(nonce, Date.now());
+  return null;
+}
+
+function setCorsHeaders(res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader(
+    'Access-Control-Allow-Headers',
+    'Content-Type, Accept, Authorization, X-Jurisly-Timestamp, X-Jurisly-Nonce, X-Jurisly-Signature, X-Mock-Error'
+  );
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function streamReply(req, res, body, failAfterTokens) {
+  const sse = config.streamFormat === 'sse';
+  const write = (event) => res.write(sse ? `data: ${JSON.stringify(event)}\n\n` : `${JSON.stringify(event)}\n`);
+  let closed = false;
+  req.on('close', () => { closed = true; });
+
+  res.writeHead(200, {
+    'Content-Type': sse ? 'text/event-stream' : 'application/x-ndjson',
+    'Cache-Control': 'no-cache',
+  });
+  write({ type: 'begin' });
+
+  const tokens = replyText(body).match(/\S+\s*|\s+/g) || [];
+  for (let i = 0; i < tokens.length; i++) {
+    if (closed) return;
+    if (failAfterTokens !== undefined && i >= failAfterTokens) {
+      write({ type: 'error', content: 'Injected mid-stream failure' });
+      res.end();
+      return;
+    }
+    write({ type: 'item', content: tokens[i] });
+    await sleep(config.tokenDelayMs);
+  }
+
+  // Structured metadata (citations, confidence…) arrives on the closing event
+  const { answer: _answer, aiResponse: _aiResponse, reply: _reply, response: _response, ...metadata } = body;
+  write({ type: 'end', ...metadata });
+  if (sse) res.write('data: [DONE]\n\n');
+  res.end();
+}
+
+async function handleWebhook(req, res) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const rawBody = Buffer.concat(chunks).toString('utf8');
+
+  if (config.signingSecret) {
+    const failure = verifySignature(req, rawBody);
+    if (failure) {
+      console.log(`401 ${failure}`);
+      return sendJson(res, 401, { success: false, error: failure });
+    }
+  }
+
+  let payload;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    return sendJson(res, 400, { success: false, error: 'Body must be JSON' });
+  }
+  if (payload.event === 'feedback') {
+    const reasons = payload.reasons?.length ? ` [${payload.reasons.join(', ')}]` : '';
+    console.log(`FEEDBACK ${payload.rating}${reasons} on ${payload.messageId}${payload.comment ? `: ${payload.comment}` : ''}`);
+    return sendJson(res, 200, { success: true });
+  }
+
+  const message = String(payload.message ?? payload.query ?? '');
+  const fixture = findFixture(message, payload.language);
+  console.log(`POST ${req.url} "${message.slice(0, 60)}"${fixture ? ` → ${fixture.file}` : ''}`);
+
+  await sleep(fixture?.delayMs ?? config.latencyMs);
+
+  const forcedStatus = Number(req.headers['x-mock-error']) || fixture?.status ||
+    (Math.random() < config.errorRate ? config.errorStatus : 0);
+  if (forcedStatus) {
+    return sendJson(res, forcedStatus, { success: false, error: `Injected ${forcedStatus} error` });
+  }
+
+  const body = fixture?.response ?? defaultReply(payload);
+  const accept = req.headers.accept || '';
+  const wantsStream = payload.stream && /text\/event-stream|application\/x-ndjson/.test(accept);
+  if (wantsStream) {
+    return streamReply(req, res, body, fixture?.failAfterTokens);
+  }
+  sendJson(res, 200, body);
+}
+
+const server = createServer((req, res) => {
+  setCorsHeaders(res);
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    return res.end();
+  }
+  if (req.method !== 'POST') {
+    return sendJson(res, 405, { success: false, error: 'Use POST' });
+  }
+  handleWebhook(req, res).catch((error) => {
+    console.error(error);
+    if (!res.headersSent) sendJson(res, 500, { success: false, error: 'Mock server error' });
+    else res.end();
+  });
+});
+
+server.listen(config.port, () => {
+  console.log(`Mock AI backend on http://localhost:${config.port} (any POST path)`);
+  console.log(`Fixtures: ${config.fixturesDir} · latency ${config.latencyMs}ms · ${config.streamFormat} streams`);
+});
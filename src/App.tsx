@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
-import { SettingsProvider } from './contexts/SettingsContext';
+import { SettingsProvider, useSettings } from './contexts/SettingsContext';
 import { ChatProvider } from './contexts/ChatContext';
+import { UsageProvider } from './contexts/UsageContext';
 import { LoginPage } from './components/LoginPage';
 import { SignupPage } from './components/SignupPage';
 import { ChatPage } from './components/ChatPage';
@@ -9,6 +10,9 @@ import { SettingsPage } from './components/SettingsPage';
 import { ProfilePage } from './components/ProfilePage';
 import { ResetPassword } from './components/ResetPassword';
 import { EmailVerification } from './components/EmailVerification';
+import { JurisdictionOnboarding } from './components/JurisdictionOnboarding';
+import { LimitationCalculatorPage } from './components/LimitationCalculatorPage';
+import { LimitationRequest } from './lib/legal/limitation';
 import { Toaster } from 'sonner';
 import { AnimatePresence } from 'motion/react';
 
@@ -16,9 +20,11 @@ type Page = 'login' | 'signup' | 'chat' | 'reset-password' | 'verify-email';
 
 function AppContent() {
   const { isAuthenticated } = useAuth();
+  const { jurisdiction } = useSettings();
   const [currentPage, setCurrentPage] = useState<Page>('login');
   const [showSettings, setShowSettings] = useState(false);
   const [showProfile, setShowProfile] = useState(false);
+  const [limitationRequest, setLimitationRequest] = useState<LimitationRequest | null>(null);
 
   // Check for auth-related URL hash parameters (Supabase uses hash fragments)
   useEffect(() => {
@@ -61,6 +67,7 @@ function AppContent() {
       <ChatPage
         onNavigateProfile={() => setShowProfile(true)}
         onNavigateSettings={() => setShowSettings(true)}
+        onOpenLimitation={(request) => setLimitationRequest(request ?? {})}
       />
 
       {/* Modals */}
@@ -71,6 +78,17 @@ function AppContent() {
       <AnimatePresence>
         {showProfile && <ProfilePage onClose={() => setShowProfile(false)} />}
       </AnimatePresence>
+
+      <AnimatePresence>
+        {limitationRequest && (
+          <LimitationCalculatorPage initialRequest={limitationRequest} onClose={() => setLimitationRequest(null)} />
+        )}
+      </AnimatePresence>
+
+      {/* Onboarding: asked once until a jurisdiction is saved */}
+      <AnimatePresence>
+        {!jurisdiction && <JurisdictionOnboarding />}
+      </AnimatePresence>
     </>
   );
 }
@@ -80,8 +98,10 @@ export default function App() {
     <AuthProvider>
       <SettingsProvider>
         <ChatProvider>
-          <AppContent />
-          <Toaster position="top-center" theme="dark" />
+          <UsageProvider>
+            <AppContent />
+            <Toaster position="top-center" theme="dark" />
+          </UsageProvider>
         </ChatProvider>
       </SettingsProvider>
     </AuthProvider>
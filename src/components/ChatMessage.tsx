@@ -1,11 +1,36 @@
+import { useState } from 'react';
 import { motion } from 'motion/react';
-import { Brain, User } from 'lucide-react';
+import { Brain, User, BookOpen, Lightbulb, AlertTriangle, RotateCcw, Clock, RefreshCw, ChevronLeft, ChevronRight, Pencil, ThumbsUp, ThumbsDown, Database } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useSettings } from '../contexts/SettingsContext';
+import { LawCitation } from '../lib/ai/schema';
+import { FEEDBACK_REASONS, FeedbackReason, MessageFeedback } from '../lib/feedback';
+import { MessageText } from './MessageText';
 
 interface ChatMessageProps {
   message: string;
   isAI: boolean;
   relevance?: number;
+  citations?: LawCitation[];
+  confidence?: number;
+  suggestions?: string[];
+  onSelectSuggestion?: (suggestion: string) => void;
+  isStreaming?: boolean;
+  isPending?: boolean;
+  error?: string;
+  onRetry?: () => void;
+  variantIndex?: number;
+  variantCount?: number;
+  onSelectVariant?: (variantIndex: number) => void;
+  onRegenerate?: () => void;
+  branchIndex?: number;
+  branchCount?: number;
+  onSelectBranch?: (branchIndex: number) => void;
+  onEdit?: (text: string) => void;
+  cachedAt?: string;
+  onRefresh?: () => void;
+  feedback?: MessageFeedback;
+  onFeedback?: (feedback: MessageFeedback | null) => void;
   delay?: number;
 }
 
@@ -15,17 +40,212 @@ interface ChatMessageProps {
    Center-aligned layout with smooth animations and responsive styling
 
    Message storage format:
-   { id, sender: 'user'|'ai', text, timestamp, relevance?: number }
+   { id, sender: 'user'|'ai', text, timestamp, relevance?: number,
+     citations?, confidence?, suggestions? }
+
+   Structured answers show each cited law with its own relevance bar,
+   the backend's confidence and suggested follow-up questions. On the
+   latest reply the suggestions are chips that send the question in one tap.
 
    Styling:
    - User: Blue gradient (from-blue-600 to-cyan-600)
    - AI: Purple-black-blue gradient (from-purple-900 via-slate-900 to-blue-900)
    - Backdrop blur for glassy effect
    - Responsive max-width: 85% on mobile, 75% on desktop
+   - Blinking caret while an AI reply is still streaming in
+   - Legal citations link to the section (hover card, side panel); old
+     IPC/CrPC/Evidence Act references get their new section as a chip
+   - Failed replies show the error and a Retry action in the bubble
+   - Messages queued offline show a "waiting for connection" note
+   - AI replies can be regenerated; with several answers a 1/3 pager
+     picks the one kept in the conversation
+   - User messages can be edited, which starts a new branch; a 1/2
+     pager switches between the original and edited branches
+   - Finished AI replies can be rated; thumbs down asks for optional
+     reasons and a comment. Clicking the selected thumb clears the rating
+   - Answers reused from the response cache are marked as saved, with a
+     "Refresh answer" action that asks the backend again
 --- Chat Message Bubble Design End --- */
 
-export function ChatMessage({ message, isAI, relevance, delay = 0 }: ChatMessageProps) {
+const translations = {
+  en: {
+    relevance: 'Relevance:',
+    citedLaws: 'Cited laws',
+    confidence: 'Confidence',
+    suggestions: 'You could also ask',
+    section: 'Section',
+    retry: 'Retry',
+    pending: 'Waiting for connection – will send automatically',
+    regenerate: 'Regenerate',
+    previousAnswer: 'Previous answer',
+    nextAnswer: 'Next answer',
+    edit: 'Edit',
+    save: 'Save & send',
+    cancel: 'Cancel',
+    previousBranch: 'Previous version',
+    nextBranch: 'Next version',
+    cached: 'Saved answer from',
+    refresh: 'Refresh answer',
+    helpful: 'Helpful',
+    notHelpful: 'Not helpful',
+    feedbackTitle: 'What was wrong with this answer?',
+    feedbackComment: 'Anything else? (optional)',
+    submitFeedback: 'Send feedback',
+    reasons: {
+      wrong_law: 'Wrong law',
+      outdated: 'Outdated',
+      unclear: 'Unclear',
+      incomplete: 'Incomplete',
+      other: 'Other',
+    } as Record<FeedbackReason, string>,
+  },
+  hi: {
+    relevance: 'प्रासंगिकता:',
+    citedLaws: 'उद्धृत कानून',
+    confidence: 'विश्वास स्तर',
+    suggestions: 'आप यह भी पूछ सकते हैं',
+    section: 'धारा',
+    retry: 'पुनः प्रयास करें',
+    pending: 'कनेक्शन की प्रतीक्षा – अपने आप भेजा जाएगा',
+    regenerate: 'फिर से बनाएं',
+    previousAnswer: 'पिछला उत्तर',
+    nextAnswer: 'अगला उत्तर',
+    edit: 'संपादित करें',
+    save: 'सहेजें और भेजें',
+    cancel: 'रद्द करें',
+    previousBranch: 'पिछला संस्करण',
+    nextBranch: 'अगला संस्करण',
+    cached: 'सहेजा गया उत्तर,',
+    refresh: 'उत्तर ताज़ा करें',
+    helpful: 'उपयोगी',
+    notHelpful: 'उपयोगी नहीं',
+    feedbackTitle: 'इस उत्तर में क्या गलत था?',
+    feedbackComment: 'कुछ और? (वैकल्पिक)',
+    submitFeedback: 'प्रतिक्रिया भेजें',
+    reasons: {
+      wrong_law: 'गलत कानून',
+      outdated: 'पुराना',
+      unclear: 'अस्पष्ट',
+      incomplete: 'अधूरा',
+      other: 'अन्य',
+    } as Record<FeedbackReason, string>,
+  },
+};
+
+// "‹ 2/3 ›" control shared by answer variants and edited branches
+function Pager({
+  index,
+  count,
+  onSelect,
+  previousLabel,
+  nextLabel,
+}: {
+  index: number;
+  count: number;
+  onSelect: (index: number) => void;
+  previousLabel: string;
+  nextLabel: string;
+}) {
+  return (
+    <div className="flex items-center gap-1">
+      <button
+        onClick={() => onSelect(index - 1)}
+        disabled={index === 0}
+        aria-label={previousLabel}
+        className="p-1 rounded hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-all"
+      >
+        <ChevronLeft className="w-4 h-4" />
+      </button>
+      <span className="tabular-nums">{index + 1}/{count}</span>
+      <button
+        onClick={() => onSelect(index + 1)}
+        disabled={index === count - 1}
+        aria-label={nextLabel}
+        className="p-1 rounded hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-all"
+      >
+        <ChevronRight className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
+
+export function ChatMessage({
+  message,
+  isAI,
+  relevance,
+  citations,
+  confidence,
+  suggestions,
+  onSelectSuggestion,
+  isStreaming,
+  isPending,
+  error,
+  onRetry,
+  variantIndex,
+  variantCount,
+  onSelectVariant,
+  onRegenerate,
+  branchIndex,
+  branchCount,
+  onSelectBranch,
+  onEdit,
+  cachedAt,
+  onRefresh,
+  feedback,
+  onFeedback,
+  delay = 0,
+}: ChatMessageProps) {
   const { user } = useAuth();
+  const { language } = useSettings();
+  const t = translations[language as keyof typeof translations] || translations.en;
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message);
+  const hasVariants = !!variantCount && variantCount > 1;
+  const hasBranches = !!branchCount && branchCount > 1;
+
+  const handleSaveEdit = () => {
+    const text = draft.trim();
+    if (text && text !== message.trim() && onEdit) {
+      onEdit(text);
+    }
+    setIsEditing(false);
+  };
+
+  const [isRatingDown, setIsRatingDown] = useState(false);
+  const [reasons, setReasons] = useState<FeedbackReason[]>([]);
+  const [comment, setComment] = useState('');
+
+  const handleRateUp = () => {
+    setIsRatingDown(false);
+    onFeedback?.(feedback?.rating === 'up' ? null : { rating: 'up', createdAt: new Date().toISOString() });
+  };
+
+  const handleRateDown = () => {
+    if (feedback?.rating === 'down') {
+      onFeedback?.(null);
+      return;
+    }
+    setReasons([]);
+    setComment('');
+    setIsRatingDown((open) => !open);
+  };
+
+  const handleSubmitFeedback = () => {
+    onFeedback?.({
+      rating: 'down',
+      reasons,
+      comment: comment.trim() || undefined,
+      createdAt: new Date().toISOString(),
+    });
+    setIsRatingDown(false);
+  };
+
+  const toggleReason = (reason: FeedbackReason) => {
+    setReasons((prev) => (prev.includes(reason) ? prev.filter((r) => r !== reason) : [...prev, reason]));
+  };
+
+  const currentVariant = variantIndex ?? (variantCount ? variantCount - 1 : 0);
 
   // Get user avatar if available
   const userAvatar = user?.avatar;
@@ -99,7 +319,7 @@ export function ChatMessage({ message, isAI, relevance, delay = 0 }: ChatMessage
           transition={{ delay: delay + 0.15 }}
           className={`rounded-2xl p-4 backdrop-blur-xl border shadow-lg ${
             isAI
-              ? 'bg-gradient-to-br from-purple-900/40 via-slate-900/60 to-blue-900/40 border-purple-500/20 shadow-purple-500/10'
+              ? `bg-gradient-to-br from-purple-900/40 via-slate-900/60 to-blue-900/40 shadow-purple-500/10 ${error ? 'border-red-500/40' : 'border-purple-500/20'}`
               : 'bg-gradient-to-br from-blue-600/80 to-cyan-600/80 border-blue-400/30 shadow-blue-500/20'
           }`}
           style={{
@@ -108,16 +328,78 @@ export function ChatMessage({ message, isAI, relevance, delay = 0 }: ChatMessage
               : 'inset 0 0 40px rgba(59, 130, 246, 0.15), 0 4px 20px rgba(59, 130, 246, 0.25)',
           }}
         >
-          <div className={`leading-relaxed whitespace-pre-line ${
-            isAI ? 'text-white/95' : 'text-white'
-          }`}>
-            {message}
-          </div>
+          {isEditing ? (
+            <div className="min-w-[16rem]">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    handleSaveEdit();
+                  }
+                  if (e.key === 'Escape') setIsEditing(false);
+                }}
+                rows={Math.min(6, Math.max(2, draft.split('\n').length))}
+                autoFocus
+                className="w-full px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white placeholder-white/40 focus:outline-none focus:border-white/40 resize-none"
+              />
+              <div className="mt-2 flex justify-end gap-2 text-sm">
+                <button
+                  onClick={() => setIsEditing(false)}
+                  className="px-3 py-1.5 rounded-lg hover:bg-white/10 text-white/80 transition-all"
+                >
+                  {t.cancel}
+                </button>
+                <button
+                  onClick={handleSaveEdit}
+                  disabled={!draft.trim()}
+                  className="px-3 py-1.5 rounded-lg bg-white/20 hover:bg-white/30 text-white disabled:opacity-40 transition-all"
+                >
+                  {t.save}
+                </button>
+              </div>
+            </div>
+          ) : (message || isStreaming) && (
+            <div className={`leading-relaxed whitespace-pre-line ${
+              isAI ? 'text-white/95' : 'text-white'
+            }`}>
+              {isStreaming ? message : <MessageText text={message} />}
+              {isStreaming && (
+                <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-cyan-400/80 animate-pulse" aria-hidden="true" />
+              )}
+            </div>
+          )}
+
+          {isPending && (
+            <div className="mt-2 flex items-center gap-1.5 text-xs text-white/70">
+              <Clock className="w-3.5 h-3.5" />
+              <span>{t.pending}</span>
+            </div>
+          )}
+
+          {error && (
+            <div className={`flex items-center justify-between gap-3 text-sm ${message ? 'mt-4 pt-4 border-t border-white/10' : ''}`}>
+              <div className="flex items-center gap-2 text-red-300">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+              {onRetry && (
+                <button
+                  onClick={onRetry}
+                  className="flex-shrink-0 px-3 py-1.5 rounded-lg bg-red-500/20 border border-red-500/30 text-red-200 hover:bg-red-500/30 flex items-center gap-1.5 transition-all"
+                >
+                  <RotateCcw className="w-3.5 h-3.5" />
+                  {t.retry}
+                </button>
+              )}
+            </div>
+          )}
           
           {relevance !== undefined && (
             <div className="mt-4 pt-4 border-t border-white/10">
               <div className="flex items-center justify-between mb-2">
-                <span className="text-sm text-white/70">Relevance:</span>
+                <span className="text-sm text-white/70">{t.relevance}</span>
                 <span className="text-sm text-cyan-400">{relevance}%</span>
               </div>
               <div className="h-2 bg-white/10 rounded-full overflow-hidden">
@@ -130,6 +412,210 @@ export function ChatMessage({ message, isAI, relevance, delay = 0 }: ChatMessage
               </div>
             </div>
           )}
+
+          {citations && citations.length > 0 && (
+            <div className="mt-4 pt-4 border-t border-white/10 space-y-3">
+              <div className="flex items-center gap-2 text-sm text-white/70">
+                <BookOpen className="w-4 h-4 text-cyan-400" />
+                <span>{t.citedLaws}</span>
+              </div>
+              {citations.map((citation, index) => (
+                <div key={`${citation.act}-${citation.section ?? index}`}>
+                  <div className="flex items-start justify-between gap-3 mb-1">
+                    <div className="text-sm text-white/90">
+                      {citation.section && <span className="text-cyan-300">{t.section} {citation.section}, </span>}
+                      {citation.act}
+                      {citation.title && <span className="block text-xs text-white/50">{citation.title}</span>}
+                    </div>
+                    {citation.relevance !== undefined && (
+                      <span className="text-sm text-cyan-400 flex-shrink-0">{citation.relevance}%</span>
+                    )}
+                  </div>
+                  {citation.relevance !== undefined && (
+                    <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+                      <motion.div
+                        initial={{ width: 0 }}
+                        animate={{ width: `${citation.relevance}%` }}
+                        transition={{ duration: 1, delay: 0.3 + index * 0.1 }}
+                        className="h-full bg-gradient-to-r from-cyan-500 to-teal-500 rounded-full"
+                      />
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {confidence !== undefined && (
+            <div className="mt-3 text-xs text-white/50">
+              {t.confidence}: <span className="text-teal-300">{Math.round(confidence * 100)}%</span>
+            </div>
+          )}
+
+          {cachedAt && !isStreaming && (
+            <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-white/50">
+              <Database className="w-3.5 h-3.5 text-cyan-300/80" />
+              <span>
+                {t.cached}{' '}
+                {new Date(cachedAt).toLocaleString(language === 'hi' ? 'hi-IN' : 'en-IN', { dateStyle: 'medium', timeStyle: 'short' })}
+              </span>
+              {onRefresh && (
+                <button
+                  onClick={onRefresh}
+                  className="px-2 py-0.5 rounded-lg text-cyan-300 hover:bg-white/10 hover:text-cyan-200 flex items-center gap-1 transition-all"
+                >
+                  <RefreshCw className="w-3 h-3" />
+                  {t.refresh}
+                </button>
+              )}
+            </div>
+          )}
+
+          {suggestions && suggestions.length > 0 && (
+            <div className="mt-4 pt-4 border-t border-white/10">
+              <div className="flex items-center gap-2 text-sm text-white/70 mb-2">
+                <Lightbulb className="w-4 h-4 text-yellow-300" />
+                <span>{t.suggestions}</span>
+              </div>
+              {onSelectSuggestion ? (
+                <div className="flex flex-wrap gap-2">
+                  {suggestions.map((suggestion) => (
+                    <button
+                      key={suggestion}
+                      onClick={() => onSelectSuggestion(suggestion)}
+                      className="px-3 py-1.5 rounded-full bg-white/10 border border-white/20 text-sm text-white/90 text-left hover:bg-cyan-500/20 hover:border-cyan-400/40 transition-all"
+                    >
+                      {suggestion}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <ul className="space-y-1 text-sm text-white/80 list-disc list-inside">
+                  {suggestions.map((suggestion) => (
+                    <li key={suggestion}>{suggestion}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {isAI && !isStreaming && (hasVariants || onRegenerate || onFeedback) && (
+            <div className="mt-3 pt-3 border-t border-white/10 flex items-center justify-between gap-3 text-xs text-white/60">
+              {hasVariants && onSelectVariant ? (
+                <Pager
+                  index={currentVariant}
+                  count={variantCount ?? 1}
+                  onSelect={onSelectVariant}
+                  previousLabel={t.previousAnswer}
+                  nextLabel={t.nextAnswer}
+                />
+              ) : <span />}
+              <div className="flex items-center gap-1">
+                {onFeedback && (
+                  <>
+                    <button
+                      onClick={handleRateUp}
+                      aria-label={t.helpful}
+                      aria-pressed={feedback?.rating === 'up'}
+                      className={`p-1.5 rounded-lg hover:bg-white/10 transition-all ${
+                        feedback?.rating === 'up' ? 'text-teal-300' : 'hover:text-white'
+                      }`}
+                    >
+                      <ThumbsUp className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={handleRateDown}
+                      aria-label={t.notHelpful}
+                      aria-pressed={feedback?.rating === 'down'}
+                      className={`p-1.5 rounded-lg hover:bg-white/10 transition-all ${
+                        feedback?.rating === 'down' || isRatingDown ? 'text-red-300' : 'hover:text-white'
+                      }`}
+                    >
+                      <ThumbsDown className="w-3.5 h-3.5" />
+                    </button>
+                  </>
+                )}
+                {onRegenerate && (
+                  <button
+                    onClick={onRegenerate}
+                    className="px-2.5 py-1 rounded-lg hover:bg-white/10 hover:text-white flex items-center gap-1.5 transition-all"
+                  >
+                    <RefreshCw className="w-3.5 h-3.5" />
+                    {t.regenerate}
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {isAI && isRatingDown && (
+            <div className="mt-3 space-y-2 text-sm">
+              <div className="text-white/70">{t.feedbackTitle}</div>
+              <div className="flex flex-wrap gap-2">
+                {FEEDBACK_REASONS.map((reason) => (
+                  <button
+                    key={reason}
+                    onClick={() => toggleReason(reason)}
+                    aria-pressed={reasons.includes(reason)}
+                    className={`px-2.5 py-1 rounded-full border text-xs transition-all ${
+                      reasons.includes(reason)
+                        ? 'bg-red-500/20 border-red-400/40 text-red-200'
+                        : 'border-white/20 text-white/70 hover:bg-white/10'
+                    }`}
+                  >
+                    {t.reasons[reason]}
+                  </button>
+                ))}
+              </div>
+              <textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder={t.feedbackComment}
+                rows={2}
+                className="w-full px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white placeholder-white/40 focus:outline-none focus:border-white/40 resize-none"
+              />
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setIsRatingDown(false)}
+                  className="px-3 py-1.5 rounded-lg hover:bg-white/10 text-white/80 transition-all"
+                >
+                  {t.cancel}
+                </button>
+                <button
+                  onClick={handleSubmitFeedback}
+                  className="px-3 py-1.5 rounded-lg bg-white/20 hover:bg-white/30 text-white transition-all"
+                >
+                  {t.submitFeedback}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {!isAI && !isEditing && (hasBranches || onEdit) && (
+            <div className="mt-2 flex items-center justify-end gap-2 text-xs text-white/70">
+              {hasBranches && onSelectBranch && (
+                <Pager
+                  index={branchIndex ?? 0}
+                  count={branchCount ?? 1}
+                  onSelect={onSelectBranch}
+                  previousLabel={t.previousBranch}
+                  nextLabel={t.nextBranch}
+                />
+              )}
+              {onEdit && (
+                <button
+                  onClick={() => {
+                    setDraft(message);
+                    setIsEditing(true);
+                  }}
+                  aria-label={t.edit}
+                  className="p-1 rounded hover:bg-white/10 hover:text-white transition-all"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          )}
         </motion.div>
       </div>
     </motion.div>
@@ -1,35 +1,96 @@
 import { useState, useEffect, useRef } from 'react';
 import { ChatMessage } from './ChatMessage';
-import { MessageInput } from './MessageInput';
+import { MessageInput, ComposerInsert } from './MessageInput';
 import { Footer } from './Footer';
 import { TypingIndicator } from './TypingIndicator';
+import { IntakeProgress } from './IntakeProgress';
+import { CrisisPanel } from './CrisisPanel';
+import { JurisdictionBadge } from './JurisdictionBadge';
 import { Navbar } from './Navbar';
 import { ChatSidebar } from './ChatSidebar';
+import { StatuteBrowser } from './StatuteBrowser';
+import { DraftingWizard } from './DraftingWizard';
 import { useSettings } from '../contexts/SettingsContext';
-import { useChat, ChatMessage as ChatMessageType } from '../contexts/ChatContext';
+import { useChat, ChatMessage as ChatMessageType, toMessageVariant, getBranchSiblings } from '../contexts/ChatContext';
 import { useVoiceAssistant } from '../hooks/useVoiceAssistant';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
 import { useAuth } from '../contexts/AuthContext';
+import { useUsage } from '../contexts/UsageContext';
+import { resolveAIConfig } from '../lib/ai/config';
+import { sendAIRequest, sendAIFeedback } from '../lib/ai/client';
+import {
+  AIProviderError,
+  AIRequestCancelledError,
+  AIRequestTimeoutError,
+  AIResponse,
+  AIHistoryTurn,
+  AIStreamHandlers,
+} from '../lib/ai/types';
+import { AIResponseSchemaError } from '../lib/ai/schema';
+import { loadOutbox, saveOutbox, OutboxEntry } from '../lib/outbox';
+import { MessageFeedback } from '../lib/feedback';
+import { suggestFollowUps } from '../lib/legal/offlineEngine';
+import { deriveIntake, intakeAfterQuestion, IntakeState } from '../lib/legal/intake';
+import { detectCrisis } from '../lib/legal/crisis';
+import { getIndianState } from '../lib/legal/jurisdictions';
+import { detectLimitationRequest, LimitationRequest } from '../lib/legal/limitation';
+import { DraftContext, detectDraftRequest } from '../lib/drafting/prefill';
+import { DraftTemplateId } from '../lib/drafting/templates';
+import { createRedactor, createStreamRestorer, restoreAIResponse } from '../lib/ai/redaction';
+import { PLANS } from '../lib/billing/plans';
+import { createSendLimiter, SendLimiter } from '../lib/rateLimit';
 import { toast } from 'sonner';
+import { AnimatePresence } from 'motion/react';
 
 interface ChatPageProps {
   onNavigateProfile: () => void;
   onNavigateSettings: () => void;
+  // Opens the limitation calculator, with the case and date when a message asked for a deadline
+  onOpenLimitation: (request?: LimitationRequest) => void;
 }
 
-export function ChatPage({ onNavigateProfile, onNavigateSettings }: ChatPageProps) {
-  const { language, theme } = useSettings();
-  const { speak } = useVoiceAssistant();
-  const { user } = useAuth();
+export function ChatPage({ onNavigateProfile, onNavigateSettings, onOpenLimitation }: ChatPageProps) {
+  const { language, theme, aiProvider, aiEndpoint, redactionLevel } = useSettings();
+  const { speak, stopSpeaking } = useVoiceAssistant();
+  const { user, getAccessToken } = useAuth();
+  const { quota, consumeMessage } = useUsage();
+  const isOnline = useOnlineStatus();
   const { 
+    conversations,
     currentConversation, 
     addMessage, 
+    updateMessage,
+    removeMessage,
+    selectVariant,
+    editMessage,
+    switchBranch,
+    setMessageFeedback,
+    flagCrisis,
+    dismissCrisis,
+    getConversationJurisdiction,
+    setConversationJurisdiction,
     clearAllChats,
     exportAllChats 
   } = useChat();
   
   const [isTyping, setIsTyping] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const sendLimiterRef = useRef<SendLimiter | null>(null);
+  const [sendCooldown, setSendCooldown] = useState<{ until: number; reason: 'duplicate' | 'rate_limited' } | null>(null);
+  const [showStatutes, setShowStatutes] = useState(false);
+  const [drafting, setDrafting] = useState<{ template?: DraftTemplateId; context: DraftContext } | null>(null);
+  const [composerInsert, setComposerInsert] = useState<ComposerInsert | null>(null);
+
+  // Abort any in-flight AI request when leaving the chat
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    sendLimiterRef.current = user?.email ? createSendLimiter(user.email) : null;
+  }, [user?.email]);
 
   /* --- Smooth Scroll to Bottom ---
      Auto-scroll to newest message with smooth behavior
@@ -66,123 +127,434 @@ export function ChatPage({ onNavigateProfile, onNavigateSettings }: ChatPageProp
     toast.success(language === 'en' ? 'AI Assistant is ready!' : 'एआई सहायक तैयार है!');
   };
 
-  /* --- n8n AI Workflow Integration ---
-     PRODUCTION SETUP:
-
-     1. Configure your n8n instance with a webhook trigger:
-        - Create a new workflow in n8n
-        - Add HTTP Request node with POST trigger
-        - Webhook URL: https://your-n8n-instance.com/webhook/ai-response
-
-     2. Send messages with this payload:
-        {
-          "message": "user's message text",
-          "userId": "user@email.com",
-          "userEmail": "user@email.com",
-          "language": "en|hi",
-          "conversationId": "unique-id",
-          "timestamp": "ISO-8601 string"
-        }
-
-     3. n8n should return:
-        {
-          "success": true,
-          "aiResponse": "AI's reply text",
-          "relevanceScore": 85
-        }
-
-     4. Uncomment and use the production fetch in sendMessageToAI()
+  /* --- AI Provider Integration ---
+     Messages are answered by a pluggable provider (src/lib/ai):
+     - n8n: POST to the webhook in VITE_N8N_WEBHOOK_URL
+     - openai: any OpenAI-compatible /chat/completions endpoint
+     - mock: deterministic offline replies
 
-     TESTING:
-     - Current mock implementation returns AI responses after 2 seconds
-     - Replace mock with actual n8n webhook when ready
+     The provider is picked from Settings → AI Backend, falling back to
+     VITE_AI_PROVIDER. See src/lib/ai/types.ts for the request/response contract.
 
      SECURITY:
      - Use HTTPS only in production
-     - Add request signing/verification if needed
-     - Store n8n webhook URL in environment variables (REACT_APP_N8N_WEBHOOK_URL)
-  --- n8n Integration End --- */
-  
-  const sendMessageToAI = async (userMessage: string): Promise<string> => {
-    // Production n8n webhook integration with HTTPS and CORS
+     - n8n requests are HMAC-signed with VITE_N8N_SIGNING=secret
+       (src/lib/ai/signing.ts); "session" mode sends the Supabase access
+       token as a bearer token instead
+     - Aadhaar, PAN, phone, bank account and address details are swapped
+       for placeholders per Settings → Hide Personal Details
+       (src/lib/ai/redaction.ts)
+  --- AI Provider Integration End --- */
+
+  const resolveCurrentAIConfig = () =>
+    resolveAIConfig({
+      provider: aiProvider === 'default' ? null : aiProvider,
+      endpoint: aiEndpoint,
+    });
+
+  const sendMessageToAI = async (
+    userMessage: string,
+    conversationId: string | undefined,
+    history: AIHistoryTurn[],
+    intake: IntakeState,
+    refreshCache: boolean,
+    signal: AbortSignal,
+    handlers?: AIStreamHandlers
+  ): Promise<AIResponse> => {
+    const accessToken = await getAccessToken();
+
+    // Personal identifiers are replaced before sending and restored in the reply
+    const redactor = createRedactor(redactionLevel);
+    const message = redactor.redact(userMessage);
+    if (redactor.count() > 0) {
+      toast.info(language === 'en'
+        ? 'Personal details were hidden from the AI service'
+        : 'निजी विवरण एआई सेवा से छिपाए गए');
+    }
+    const restoreToken = createStreamRestorer(redactor);
+
+    const response = await sendAIRequest(resolveCurrentAIConfig(), {
+      message,
+      userId: user?.email,
+      language: language,
+      conversationId,
+      timestamp: new Date().toISOString(),
+      signal,
+      history: history.map((turn) => ({ ...turn, content: redactor.redact(turn.content) })),
+      intake,
+      jurisdiction: getConversationJurisdiction(conversations.find((conv) => conv.id === conversationId) ?? null) ?? undefined,
+      refreshCache,
+      accessToken: accessToken ?? undefined,
+    }, handlers && {
+      onToken: (token) => {
+        const text = restoreToken(token);
+        if (text) handlers.onToken(text);
+      },
+    });
+    return restoreAIResponse(response, redactor);
+  };
+
+  /* --- Error Bubble Text ---
+     Failed replies become a visible AI bubble with a Retry action
+     instead of being silently replaced by mock text.
+  --- */
+  const describeAIError = (error: unknown): string => {
+    if (error instanceof AIRequestTimeoutError) {
+      return language === 'en'
+        ? 'The AI took too long to respond.'
+        : 'एआई ने जवाब देने में बहुत अधिक समय लिया।';
+    }
+    if (error instanceof AIResponseSchemaError) {
+      return language === 'en'
+        ? 'The AI sent a response in an unexpected format.'
+        : 'एआई ने अप्रत्याशित प्रारूप में जवाब भेजा।';
+    }
+    if (error instanceof AIProviderError && error.status) {
+      return language === 'en'
+        ? `The AI service returned an error (${error.status}).`
+        : `एआई सेवा ने त्रुटि लौटाई (${error.status})।`;
+    }
+    if (error instanceof TypeError || !navigator.onLine) {
+      return language === 'en'
+        ? 'Could not reach the AI service. Check your connection.'
+        : 'एआई सेवा तक नहीं पहुंच सके। अपना कनेक्शन जांचें।';
+    }
+    return language === 'en'
+      ? 'Something went wrong while getting a response.'
+      : 'प्रतिक्रिया प्राप्त करते समय कुछ गलत हो गया।';
+  };
+
+  /* --- Quota Limit ---
+     Shown in the message box once the plan's daily or monthly messages
+     are used up (src/lib/billing), and as the reply when the server
+     refuses a request that the local counter still allowed.
+  --- */
+  const describeQuotaLimit = (): string => {
+    const plan = PLANS[quota.plan].name[language === 'hi' ? 'hi' : 'en'];
+    if (quota.exhausted === 'monthly') {
+      return language === 'en'
+        ? `You've used all ${quota.monthlyLimit} messages for this month on the ${plan} plan. Upgrade your plan to keep asking.`
+        : `आपने ${plan} प्लान के इस महीने के सभी ${quota.monthlyLimit} संदेश उपयोग कर लिए हैं। पूछते रहने के लिए अपना प्लान अपग्रेड करें।`;
+    }
+    return language === 'en'
+      ? `You've used all ${quota.dailyLimit} messages for today on the ${plan} plan. Upgrade your plan or come back tomorrow.`
+      : `आपने ${plan} प्लान के आज के सभी ${quota.dailyLimit} संदेश उपयोग कर लिए हैं। अपना प्लान अपग्रेड करें या कल फिर आएं।`;
+  };
+
+  /* --- Send Throttling ---
+     Every request the user starts passes the send limiter first
+     (src/lib/rateLimit.ts). Typed text is also checked for size and
+     repeats; retries and regenerations only use the rate buckets.
+     A refusal shows a countdown in the message box and keeps the draft.
+  --- */
+  const admitSend = (text?: string): boolean => {
+    const rejection = sendLimiterRef.current?.admit(text);
+    if (!rejection) return true;
+
+    if (rejection.reason === 'too_long') {
+      toast.error(language === 'en'
+        ? `That message is too long (${rejection.length} characters). Please keep it under ${rejection.maxLength}.`
+        : `यह संदेश बहुत लंबा है (${rejection.length} अक्षर)। कृपया इसे ${rejection.maxLength} से कम रखें।`);
+    } else {
+      setSendCooldown({ until: rejection.retryAt, reason: rejection.reason });
+    }
+    return false;
+  };
+
+  const describeCooldown = (seconds: number): string => {
+    const wait = seconds >= 60 ? `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}` : `${seconds}s`;
+    if (sendCooldown?.reason === 'duplicate') {
+      return language === 'en'
+        ? `You just sent that message. You can send it again in ${wait}, or ask something different.`
+        : `आपने अभी यही संदेश भेजा है। आप इसे ${wait} में फिर भेज सकते हैं, या कुछ और पूछें।`;
+    }
+    return language === 'en'
+      ? `You're sending messages quickly. You can send again in ${wait}.`
+      : `आप बहुत जल्दी संदेश भेज रहे हैं। आप ${wait} में फिर भेज सकते हैं।`;
+  };
+
+  /* --- Conversation Context ---
+     Completed turns before the question are sent as history; the provider
+     layer trims them to its configured window (src/lib/ai/contextWindow.ts).
+     Failed and still-streaming replies are left out.
+  --- */
+  const toHistoryTurns = (messages: ChatMessageType[]): AIHistoryTurn[] =>
+    messages
+      .filter((msg) => !msg.status && msg.text.trim())
+      .map((msg) => ({ role: msg.sender === 'user' ? 'user' : 'assistant', content: msg.text }));
+
+  /* --- Offline Outbox ---
+     Questions asked without connectivity are marked "pending" and queued
+     (src/lib/outbox.ts). The outbox is written through to localStorage
+     on every change so queued messages survive a reload.
+  --- */
+  useEffect(() => {
+    setOutbox(user?.email ? loadOutbox(user.email) : []);
+  }, [user?.email]);
+
+  const updateOutbox = (update: (entries: OutboxEntry[]) => OutboxEntry[]) => {
+    setOutbox((prev) => {
+      const next = update(prev);
+      if (user?.email) saveOutbox(user.email, next);
+      return next;
+    });
+  };
+
+  const queueOfflineMessage = (question: ChatMessageType, conversationId: string, charged = false) => {
+    updateMessage(question.id, { status: 'pending' }, conversationId);
+    updateOutbox((entries) => [
+      ...entries.filter((entry) => entry.messageId !== question.id),
+      { messageId: question.id, conversationId, text: question.text, queuedAt: new Date().toISOString(), charged },
+    ]);
+    toast.info(language === 'en'
+      ? "You're offline. The message will be sent when the connection returns."
+      : 'आप ऑफ़लाइन हैं। कनेक्शन लौटने पर संदेश भेजा जाएगा।');
+  };
+
+  /* --- Outbox Processing ---
+     Once back online, queued questions are answered one at a time, oldest
+     first. Each reply goes to the conversation the question was asked in
+     and is placed directly after it, with only the messages before it as
+     history. Entries whose chat or message was deleted are dropped.
+  --- */
+  useEffect(() => {
+    // Wait for the conversations to load before matching entries to them
+    if (!isOnline || isGenerating || outbox.length === 0 || conversations.length === 0) return;
+
+    const [entry] = outbox;
+    updateOutbox((entries) => entries.filter((item) => item.messageId !== entry.messageId));
+
+    const conversation = conversations.find((conv) => conv.id === entry.conversationId);
+    const questionIndex = conversation?.messages.findIndex((msg) => msg.id === entry.messageId) ?? -1;
+    if (!conversation || questionIndex < 0) return;
+
+    updateMessage(entry.messageId, { status: undefined }, entry.conversationId);
+    requestAIReply(
+      conversation.messages[questionIndex],
+      entry.conversationId,
+      conversation.messages.slice(0, questionIndex),
+      undefined,
+      entry.charged
+    );
+  }, [isOnline, isGenerating, outbox, conversations]);
+
+  /* --- AI Reply Lifecycle ---
+     Shared by new messages, retries, regeneration and the outbox. Owns
+     the AbortController behind the "Stop generating" button. The reply is
+     inserted directly after its question.
+
+     `regenerate` is an existing AI reply to answer again: the new answer
+     streams into that bubble and is added to its variants. If it fails,
+     the previously selected answer is restored.
+
+     `charged` skips the quota for a queued question that already used a
+     message before the connection dropped, so it is counted once.
+  --- */
+  const requestAIReply = async (
+    question: ChatMessageType,
+    conversationId: string | undefined,
+    priorMessages: ChatMessageType[],
+    regenerate?: ChatMessageType,
+    charged = false
+  ) => {
+    setIsGenerating(true);
+
+    // Each AI request uses one message of the plan's quota
+    if (!charged && !(await consumeMessage())) {
+      setIsGenerating(false);
+      const limitText = describeQuotaLimit();
+      if (regenerate) {
+        toast.error(limitText);
+      } else {
+        addMessage({
+          id: (Date.now() + 1).toString(),
+          sender: 'ai',
+          text: '',
+          timestamp: new Date().toISOString(),
+          status: 'error',
+          error: limitText,
+        }, conversationId, question.id);
+      }
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    /* --- "Typing..." Animation Start ---
+       Show typing indicator before AI responds
+       Gives user visual feedback that AI is processing
+    --- */
+    setIsTyping(!regenerate);
+
+    /* --- Streaming Reply ---
+       The first token swaps the typing indicator for an in-progress AI
+       bubble (status "streaming"). Later tokens are batched per animation
+       frame into that same bubble. The message is finalized, and only then
+       persisted, when the stream ends.
+    --- */
+    const aiMessageId = regenerate?.id ?? (Date.now() + 1).toString();
+    const previousVariants = regenerate ? regenerate.variants ?? [toMessageVariant(regenerate)] : [];
+    let streamedText = '';
+    let hasStarted = !!regenerate;
+    let isFinalized = false;
+    let flushScheduled = false;
+
+    // Put the old answer back when regeneration is cancelled empty or fails
+    const restorePreviousVariant = () => {
+      const selected = previousVariants[regenerate?.activeVariant ?? previousVariants.length - 1];
+      updateMessage(aiMessageId, { ...toMessageVariant(selected), status: undefined }, conversationId);
+    };
+
+    if (regenerate) {
+      updateMessage(aiMessageId, {
+        text: '',
+        status: 'streaming',
+        error: undefined,
+        variants: previousVariants,
+        activeVariant: regenerate.activeVariant ?? previousVariants.length - 1,
+      }, conversationId);
+    }
+
+    const flushStreamedText = () => {
+      flushScheduled = false;
+      if (!isFinalized) {
+        updateMessage(aiMessageId, { text: streamedText }, conversationId);
+      }
+    };
+
+    const onToken = (token: string) => {
+      streamedText += token;
+      if (!hasStarted) {
+        hasStarted = true;
+        setIsTyping(false);
+        addMessage({
+          id: aiMessageId,
+          sender: 'ai',
+          text: streamedText,
+          timestamp: new Date().toISOString(),
+          status: 'streaming',
+        }, conversationId, question.id);
+        return;
+      }
+      if (!flushScheduled) {
+        flushScheduled = true;
+        requestAnimationFrame(flushStreamedText);
+      }
+    };
+
     try {
-      const response = await fetch('https://chaiwala123.app.n8n.cloud/webhook/legal-ai', {
-        method: 'POST',
-        headers: { 
-          'Content-Type': 'application/json'
-        },
-        mode: 'cors',
-        body: JSON.stringify({ 
-          query: userMessage,
-          message: userMessage,
-          userId: user?.email,
-          language: language,
-          conversationId: currentConversation?.id,
-          timestamp: new Date().toISOString()
-        })
-      });
+      // Get AI response from the configured provider
+      const aiResponse = await sendMessageToAI(
+        question.text,
+        conversationId,
+        toHistoryTurns(priorMessages),
+        intakeAfterQuestion(deriveIntake(priorMessages), question.text),
+        // A new answer was asked for, so never reuse the cached one
+        !!regenerate,
+        controller.signal,
+        { onToken }
+      );
+      isFinalized = true;
+      setIsTyping(false);
+
+      // Structured fields (citations, confidence, suggestions) come from the backend
+      const finalFields = {
+        timestamp: new Date().toISOString(),
+        relevance: aiResponse.relevance,
+        schemaVersion: aiResponse.schemaVersion,
+        citations: aiResponse.citations,
+        confidence: aiResponse.confidence,
+        suggestions: aiResponse.suggestions,
+        intakeStage: aiResponse.intakeStage,
+        cachedAt: aiResponse.cachedAt,
+      };
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+      if (regenerate) {
+        const variants = [...previousVariants, { text: aiResponse.text, ...finalFields }];
+        updateMessage(aiMessageId, {
+          text: aiResponse.text,
+          ...finalFields,
+          status: undefined,
+          variants,
+          activeVariant: variants.length - 1,
+        }, conversationId);
+      } else if (hasStarted) {
+        updateMessage(aiMessageId, { text: aiResponse.text, ...finalFields, status: undefined }, conversationId);
+      } else {
+        addMessage({ id: aiMessageId, sender: 'ai', text: aiResponse.text, ...finalFields }, conversationId, question.id);
       }
 
-      const data = await response.json();
-      return data.aiResponse || data.reply || data.response || 'I apologize, but I received an unexpected response. Please try again.';
+      /* --- Voice Assistant Placeholder ---
+         Integrate Web Speech API for text-to-speech
+         Example:
+         if (voiceEnabled) {
+           const utterance = new SpeechSynthesisUtterance(aiResponse);
+           utterance.lang = language === 'en' ? 'en-US' : 'hi-IN';
+           window.speechSynthesis.speak(utterance);
+         }
+      --- Voice Assistant End --- */
+      speak(aiResponse.text);
     } catch (error) {
-      console.error('n8n API Error:', error);
-      // Fallback to mock response if n8n fails
-      console.warn('Falling back to mock response due to API error');
-      // Mock AI logic for demonstration (fallback)
-      return new Promise((resolve) => {
-      setTimeout(() => {
-        const lowerMessage = userMessage.toLowerCase();
-        let response = '';
-        let relevanceScore = 0;
-
-        // Check if it's a law query
-        const lawKeywords = ['section', 'article', 'act', 'ipc', 'धारा', 'अनुच्छेद', 'कानून'];
-        const isLawQuery = lawKeywords.some(keyword => lowerMessage.includes(keyword));
-
-        // Check if it's a situation query
-        const situationKeywords = ['my', 'i am', 'happened', 'situation', 'case', 'मेरा', 'मुझे', 'हुआ', 'स्थिति'];
-        const isSituationQuery = situationKeywords.some(keyword => lowerMessage.includes(keyword));
-
-        if (isLawQuery && !isSituationQuery) {
-          // Only law mentioned, no situation
-          response = language === 'en'
-            ? "I understand you're asking about a specific law. To provide better assistance, please describe your situation or type 'nothing' to skip and get general information about this law."
-            : "मैं समझता हूं कि आप एक विशिष्ट कानून के बारे में पूछ रहे हैं। बेहतर सहायता प्रदान करने के लिए, कृपया अपनी स्थिति का वर्णन करें या इस कानून के बारे में सामान्य जानकारी प्राप्त करने के लिए 'कुछ नहीं' टाइप करें।";
-        } else if (isSituationQuery && isLawQuery) {
-          // Both law and situation mentioned
-          relevanceScore = Math.floor(Math.random() * 20) + 80; // 80-100%
-          response = language === 'en'
-            ? `Based on your situation, I've identified the following:\n\n📋 Applicable Law: The law you mentioned is highly relevant to your case.\n\n✅ Application: This law applies to your situation because it governs similar circumstances.\n\n⚖️ How it works: This law provides specific protections and obligations. You have certain rights under this statute that can be enforced through legal channels.\n\nRelevance Score: ${relevanceScore}%\n\nWould you like more specific details about your rights or next steps?`
-            : `आपकी स्थिति के आधार पर, मैंने न�����म्नलिखित पहचाना है:\n\n📋 लागू कानून: आपके द्वारा उल्लिखित कानून आपके मामले के लिए अत्यधिक प्रासंगिक है।\n\n✅ आवेदन: यह कानून आपकी स्थिति पर लागू होता है क्योंकि यह समान परिस्थितियों को नियंत्रित करता है।\n\n⚖️ यह कैसे काम करता है: यह कानून विशिष्ट सुरक्षा और दायित्व प्रदान करता है। इस क़ानून के तहत आपके पास कुछ अधिकार हैं जिन्हें कानूनी चैनलों के माध्यम से लागू किया जा सकता है।\n\nप्रासंगिकता स्कोर: ${relevanceScore}%\n\nक्या आप अपने अधिकारों या अगले कदमों के बारे में अधिक विशिष्ट विवरण चाहेंगे?`;
-        } else if (isSituationQuery) {
-          // Only situation mentioned
-          const safeKeywords = ['safe', 'no problem', 'fine', 'okay', 'सुरक्षित', 'ठीक', 'कोई समस्या नहीं'];
-          const isSafe = safeKeywords.some(keyword => lowerMessage.includes(keyword));
-          
-          if (isSafe) {
-            response = language === 'en'
-              ? "🌟 That's wonderful to hear! Based on your description, it seems you're in a safe and legally sound position. There don't appear to be any immediate legal concerns.\n\nRemember, if anything changes or you need guidance in the future, I'm always here to help. Stay informed and stay safe! 💙"
-              : "🌟 यह सुनकर बहुत अच्छा लगा! आपके विवरण के आधार पर, ऐसा लगता है कि आप एक सुरक्षित और कानूनी रूप से अच्छी स्थिति में हैं। कोई तत्काल कानूनी चिंता नहीं दिखती ��ै।\n\nयाद रखें, यदि कुछ बदलता है या आपको भविष्य में मार्गदर्शन की आवश्यकता है, तो मैं हमेशा मदद के लिए यहां हूं। ��ूचित रहें और सुरक्षित रहें! 💙";
+      isFinalized = true;
+
+      if (error instanceof AIRequestCancelledError) {
+        // Stopped by the user: keep whatever part of the answer already arrived
+        if (regenerate) {
+          if (streamedText.trim()) {
+            const variants = [...previousVariants, { text: streamedText, timestamp: new Date().toISOString() }];
+            updateMessage(aiMessageId, {
+              text: streamedText,
+              timestamp: variants[variants.length - 1].timestamp,
+              relevance: undefined,
+              schemaVersion: undefined,
+              citations: undefined,
+              confidence: undefined,
+              suggestions: undefined,
+              intakeStage: undefined,
+              cachedAt: undefined,
+              status: undefined,
+              variants,
+              activeVariant: variants.length - 1,
+            }, conversationId);
           } else {
-            relevanceScore = Math.floor(Math.random() * 30) + 70; // 70-100%
-            response = language === 'en'
-              ? `I've analyzed your situation. Here's what I found:\n\n📋 Related Laws:\n• Consumer Protection Act (if applicable)\n• General contract law principles\n• Relevant civil/criminal statutes\n\n✅ Applicability: ${relevanceScore}% - These laws appear to be relevant to your situation.\n\n💡 Why: The circumstances you've described fall under the jurisdiction of these legal frameworks. They provide specific remedies and protections.\n\n📝 Recommended Action: Consider consulting with a legal professional for personalized advice based on the specifics of your case.`
-              : `मैंने आपकी स्थिति का विश्लेषण किया है। यहाँ मुझे क्या मिला:\n\n📋 संबंधित कानून:\n• ���पभोक्ता संरक्षण अधिनियम (यदि लागू हो)\n• सामान्य अनुबंध कानून सिद्धांत\n• प्रासंगिक नागरिक/आपराधिक क़ानून\n\n✅ प्रयोज्यता: ${relevanceScore}% - ये कानून आपकी स्थिति के लिए प्रासंगिक प्रतीत होते हैं।\n\n💡 क्यों: आपके द्वारा वर्णित परिस्थितियाँ इन कानूनी ढाँचों के अधिकार क्षेत्र में आती हैं। वे विशिष्ट उपाय और सुरक्षा प्रदान करते हैं।\n\n📝 अनुशंसित क��र्रवाई: अपने मामले की बारीकियों के आधार पर व्यक्तिगत सलाह के लिए किसी कानूनी पेशेवर से परामर्श करने पर विचार करें।`;
+            restorePreviousVariant();
           }
-        } else {
-          // General query
-          response = language === 'en'
-            ? "I'm here to help you with legal questions! You can:\n\n• Ask about a specific law (e.g., 'Tell me about Section 420 IPC')\n• Describe a legal situation you're facing\n• Get information about your rights and obligations\n\nHow can I assist you today?"
-            : "मैं कानूनी सवालों ��ें आपकी मदद के लिए यहां हूं! आप कर सकते हैं:\n\n• किसी विशिष्ट कानून के बारे में पूछें (जैसे, 'मुझे धारा 420 आईपीसी के बारे में बताएं')\n• अपनी कानूनी स्थिति का वर्णन करें\n• अपने अधिकारों और दायित्वों के बारे में जानकारी प्राप्त करें\n\nमैं आज आपकी कैसे सहायता कर सकता हूं?";
+        } else if (hasStarted) {
+          updateMessage(aiMessageId, { text: streamedText, status: undefined }, conversationId);
         }
+        return;
+      }
 
-        resolve(response);
-      }, 2000);
-      });
+      // Connection dropped before any of the answer arrived: queue the question, already paid for
+      if (!hasStarted && !navigator.onLine && conversationId) {
+        queueOfflineMessage(question, conversationId, true);
+        return;
+      }
+
+      console.error('AI request failed:', error);
+      const errorText = describeAIError(error);
+      if (regenerate) {
+        restorePreviousVariant();
+        toast.error(errorText);
+      } else if (hasStarted) {
+        updateMessage(aiMessageId, { text: streamedText, status: 'error', error: errorText }, conversationId);
+      } else {
+        addMessage({
+          id: aiMessageId,
+          sender: 'ai',
+          text: '',
+          timestamp: new Date().toISOString(),
+          status: 'error',
+          error: errorText,
+        }, conversationId, question.id);
+      }
+    } finally {
+      setIsTyping(false);
+      setIsGenerating(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
     }
   };
 
@@ -196,7 +568,21 @@ export function ChatPage({ onNavigateProfile, onNavigateSettings }: ChatPageProp
      Messages are stored in ChatContext and persisted to localStorage
      In production, sync with backend database via n8n
   --- */
-  const handleSendMessage = async (messageText: string) => {
+  // Returns false, leaving the chat untouched, when the send is refused.
+  // Fixed texts sent by buttons (intake Skip) pass isControl, so repeating them is not a duplicate.
+  const handleSendMessage = (messageText: string, isControl = false): boolean => {
+    // Replies always land in the conversation the question was asked in
+    const conversationId = currentConversation?.id;
+    const priorMessages = currentConversation?.messages ?? [];
+    // Helplines show up even when the message itself cannot be sent
+    checkForCrisis(messageText, conversationId);
+
+    if (quota.exhausted) {
+      toast.error(describeQuotaLimit());
+      return false;
+    }
+    if (!admitSend(isControl ? undefined : messageText)) return false;
+
     // Add user message
     const userMessage: ChatMessageType = {
       id: Date.now().toString(),
@@ -204,50 +590,174 @@ export function ChatPage({ onNavigateProfile, onNavigateSettings }: ChatPageProp
       text: messageText,
       timestamp: new Date().toISOString(),
     };
-    addMessage(userMessage);
+    addMessage(userMessage, conversationId);
 
-    /* --- "Typing..." Animation Start ---
-       Show typing indicator before AI responds
-       Gives user visual feedback that AI is processing
-    --- */
-    setIsTyping(true);
+    sendQuestion(userMessage, conversationId, priorMessages);
+    offerDrafting(messageText);
+    offerLimitation(messageText);
+    return true;
+  };
 
-    try {
-      // Get AI response (this is where n8n would be called)
-      const aiResponse = await sendMessageToAI(messageText);
-      
-      // Determine if we should show relevance score
-      const shouldShowRelevance = aiResponse.includes('Relevance') || aiResponse.includes('प्रासंगिकता');
-      const relevance = shouldShowRelevance ? Math.floor(Math.random() * 20) + 80 : undefined;
+  /* --- Crisis Check ---
+     Runs locally before the question goes anywhere, so helpline numbers
+     and immediate-rights guidance are on screen before the AI answers,
+     even offline (src/lib/legal/crisis.ts).
+  --- */
+  const checkForCrisis = (text: string, conversationId: string | undefined) => {
+    const categories = detectCrisis(text);
+    if (categories.length > 0) {
+      flagCrisis(categories, conversationId);
+    }
+  };
 
-      // Add AI message
-      const aiMessage: ChatMessageType = {
-        id: (Date.now() + 1).toString(),
-        sender: 'ai',
-        text: aiResponse,
-        timestamp: new Date().toISOString(),
-        relevance: relevance,
-      };
+  // Ask for a reply now, or queue the question while offline
+  const sendQuestion = async (
+    question: ChatMessageType,
+    conversationId: string | undefined,
+    priorMessages: ChatMessageType[]
+  ) => {
+    // The mock provider answers locally, so only network backends are queued
+    if (!isOnline && conversationId && resolveCurrentAIConfig().provider !== 'mock') {
+      queueOfflineMessage(question, conversationId);
+      return;
+    }
 
-      setIsTyping(false);
-      addMessage(aiMessage);
+    await requestAIReply(question, conversationId, priorMessages);
+  };
 
-      /* --- Voice Assistant Placeholder ---
-         Integrate Web Speech API for text-to-speech
-         Example:
-         if (voiceEnabled) {
-           const utterance = new SpeechSynthesisUtterance(aiResponse);
-           utterance.lang = language === 'en' ? 'en-US' : 'hi-IN';
-           window.speechSynthesis.speak(utterance);
-         }
-      --- Voice Assistant End --- */
-      speak(aiResponse);
+  /* --- Edit & Branch ---
+     Editing a sent question starts a new branch from that point and asks
+     it again; the original question and its replies stay reachable
+     through the branch pager on the message.
+  --- */
+  const handleEditMessage = (messageId: string, text: string) => {
+    if (!currentConversation || isGenerating || !admitSend(text)) return;
+
+    const edited = editMessage(messageId, text, currentConversation.id);
+    if (edited) {
+      checkForCrisis(text, currentConversation.id);
+      sendQuestion(edited.message, currentConversation.id, edited.priorMessages);
+    }
+  };
+
+  const handleSelectBranch = (messageId: string, branchIndex: number) => {
+    if (!currentConversation || isGenerating) return;
+
+    const sibling = getBranchSiblings(currentConversation, messageId)[branchIndex];
+    if (sibling && sibling.id !== messageId) {
+      switchBranch(messageId, sibling.id, currentConversation.id);
+    }
+  };
+
+  // Replace a failed reply by re-asking the user message that preceded it
+  const handleRetry = (failedMessageId: string) => {
+    if (!currentConversation || isGenerating || !admitSend()) return;
+
+    const messages = currentConversation.messages;
+    const failedIndex = messages.findIndex((msg) => msg.id === failedMessageId);
+    let questionIndex = failedIndex - 1;
+    while (questionIndex >= 0 && messages[questionIndex].sender !== 'user') {
+      questionIndex--;
+    }
+    if (questionIndex < 0) return;
+
+    removeMessage(failedMessageId, currentConversation.id);
+    requestAIReply(
+      messages[questionIndex],
+      currentConversation.id,
+      messages.slice(0, questionIndex)
+    );
+  };
+
+  /* --- Regenerate ---
+     Re-asks the user turn before an AI reply with the same history and
+     keeps every answer, so the user can page between them.
+  --- */
+  const handleRegenerate = (aiMessageId: string) => {
+    if (!currentConversation || isGenerating || !admitSend()) return;
+
+    const messages = currentConversation.messages;
+    const replyIndex = messages.findIndex((msg) => msg.id === aiMessageId);
+    let questionIndex = replyIndex - 1;
+    while (questionIndex >= 0 && messages[questionIndex].sender !== 'user') {
+      questionIndex--;
+    }
+    if (questionIndex < 0) return;
+
+    requestAIReply(
+      messages[questionIndex],
+      currentConversation.id,
+      messages.slice(0, questionIndex),
+      messages[replyIndex]
+    );
+  };
+
+  /* --- Follow-up Suggestions ---
+     The latest AI reply offers one-tap follow-up questions: the backend's
+     own suggestions, or ones generated locally from the detected topic.
+     A tap sends the question like a typed one and, in voice mode, cuts
+     off the answer still being read aloud.
+  --- */
+  const getFollowUpSuggestions = (messages: ChatMessageType[], index: number) => {
+    const reply = messages[index];
+    if (reply.suggestions?.length) return reply.suggestions;
+    const prior = messages.slice(0, index);
+    const question = [...prior].reverse().find((msg) => msg.sender === 'user');
+    return suggestFollowUps(question?.text ?? '', reply.text, language, toHistoryTurns(prior));
+  };
+
+  const handleSelectSuggestion = (suggestion: string) => {
+    if (isGenerating) return;
+    stopSpeaking();
+    handleSendMessage(suggestion);
+  };
+
+  /* --- Guided Consultation ---
+     A law-only question makes the assistant wait for the user's situation
+     (src/lib/legal/intake.ts). Skip answers that prompt with a skip
+     phrase, so the transcript and the backend both see the choice.
+  --- */
+  const intake = deriveIntake(currentConversation?.messages ?? []);
+
+  const handleSkipSituation = () => {
+    if (isGenerating) return;
+    handleSendMessage(language === 'en' ? 'Skip – general information is enough' : 'छोड़ें – सामान्य जानकारी काफी है', true);
+  };
+
+  /* --- Answer Feedback ---
+     Stores the rating on the message (and in Supabase, see ChatContext)
+     and forwards it to the AI backend for review. Cleared ratings are
+     only removed locally.
+  --- */
+  const handleFeedback = async (messageId: string, feedback: MessageFeedback | null) => {
+    const subject = setMessageFeedback(messageId, feedback);
+    if (!subject || !feedback) return;
+
+    toast.success(language === 'en' ? 'Thanks for your feedback' : 'आपकी प्रतिक्रिया के लिए धन्यवाद');
+    try {
+      const accessToken = await getAccessToken();
+      const redactor = createRedactor(redactionLevel);
+      await sendAIFeedback(resolveCurrentAIConfig(), {
+        ...subject,
+        question: redactor.redact(subject.question),
+        answer: redactor.redact(subject.answer),
+        rating: feedback.rating,
+        reasons: feedback.reasons ?? [],
+        comment: feedback.comment && redactor.redact(feedback.comment),
+        language,
+        userId: user?.email,
+        timestamp: feedback.createdAt,
+        accessToken: accessToken ?? undefined,
+      });
     } catch (error) {
-      setIsTyping(false);
-      toast.error(language === 'en' ? 'Failed to get response' : 'प्रतिक्रिया प्राप्त करने में विफल');
+      console.error('Error sending feedback:', error);
     }
   };
 
+  const handleStopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleClearAll = () => {
     if (confirm(language === 'en' 
       ? 'Are you sure you want to delete all conversations? This cannot be undone.' 
@@ -258,6 +768,60 @@ export function ChatPage({ onNavigateProfile, onNavigateSettings }: ChatPageProp
     }
   };
 
+  const handleCiteStatute = (citation: string) => {
+    setComposerInsert({ id: Date.now(), text: citation });
+    setShowStatutes(false);
+    toast.success(language === 'en' ? 'Citation added to your message' : 'उद्धरण आपके संदेश में जोड़ा गया');
+  };
+
+  /* --- Drafting ---
+     The wizard pre-fills from the user's messages in this chat and its
+     jurisdiction (lib/drafting/prefill.ts); a request typed in chat
+     counts as one of those messages. "Draft a legal notice for me" still
+     goes to the AI, with the wizard offered alongside the answer.
+  --- */
+  const openDrafting = (template?: DraftTemplateId, request?: string) => {
+    const jurisdiction = getConversationJurisdiction(currentConversation);
+    const userMessages = (currentConversation?.messages ?? [])
+      .filter((msg) => msg.sender === 'user')
+      .map((msg) => msg.text);
+    setDrafting({
+      template,
+      context: {
+        userName: user?.name,
+        district: jurisdiction?.district,
+        state: getIndianState(jurisdiction?.state)?.name.en,
+        userMessages: request && !userMessages.includes(request) ? [...userMessages, request] : userMessages,
+      },
+    });
+    if (template) {
+      toast.info(language === 'en' ? 'Fill in the details to prepare your draft' : 'अपना मसौदा तैयार करने के लिए विवरण भरें');
+    }
+  };
+
+  const offerDrafting = (messageText: string) => {
+    const template = detectDraftRequest(messageText);
+    if (!template) return;
+    toast(language === 'en' ? 'Prefer a ready-to-file draft?' : 'दाखिल करने लायक मसौदा चाहिए?', {
+      action: {
+        label: language === 'en' ? 'Open drafting wizard' : 'ड्राफ्टिंग विज़ार्ड खोलें',
+        onClick: () => openDrafting(template, messageText),
+      },
+    });
+  };
+
+  // "Last date to file a consumer complaint, bought on 3/2/2025" also gets the limitation calculator
+  const offerLimitation = (messageText: string) => {
+    const request = detectLimitationRequest(messageText);
+    if (!request) return;
+    toast(language === 'en' ? 'Work out the exact last date?' : 'सटीक अंतिम तारीख निकालें?', {
+      action: {
+        label: language === 'en' ? 'Open limitation calculator' : 'परिसीमा कैलकुलेटर खोलें',
+        onClick: () => onOpenLimitation(request),
+      },
+    });
+  };
+
   const handleExportAll = () => {
     exportAllChats('txt');
     toast.success(language === 'en' ? 'Chats exported successfully' : 'चैट सफलतापूर्वक निर्यात की गई');
@@ -285,12 +849,16 @@ export function ChatPage({ onNavigateProfile, onNavigateSettings }: ChatPageProp
         onClose={() => setIsSidebarOpen(false)}
         onExportAll={handleExportAll}
         onClearAll={handleClearAll}
+        onOpenStatutes={() => setShowStatutes(true)}
+        onOpenDrafting={() => openDrafting()}
       />
 
       <Navbar
         onNavigateHome={() => {}}
         onNavigateProfile={onNavigateProfile}
         onNavigateSettings={onNavigateSettings}
+        onOpenStatutes={() => setShowStatutes(true)}
+        onOpenLimitation={() => onOpenLimitation()}
         onCallAI={handleCallAI}
         onToggleSidebar={() => setIsSidebarOpen(!isSidebarOpen)}
       />
@@ -306,6 +874,18 @@ export function ChatPage({ onNavigateProfile, onNavigateSettings }: ChatPageProp
         className="pt-24 pb-40 px-4 md:px-6 overflow-y-auto h-screen scrollbar-thin scrollbar-track-transparent scrollbar-thumb-white/20"
       >
         <div className="max-w-4xl mx-auto w-full">
+          {/* Chat header: jurisdiction this conversation is answered for */}
+          {currentConversation && (
+            <div className="mb-4 flex justify-end">
+              <JurisdictionBadge
+                override={currentConversation.jurisdiction}
+                onChange={(jurisdiction) => setConversationJurisdiction(jurisdiction, currentConversation.id)}
+              />
+            </div>
+          )}
+          {currentConversation?.crisis && !currentConversation.crisis.dismissed && (
+            <CrisisPanel alert={currentConversation.crisis} onDismiss={() => dismissCrisis(currentConversation.id)} />
+          )}
           {currentConversation?.messages.length === 0 && !isTyping && (
             <div className="h-96 flex items-center justify-center">
               <div className="text-center">
@@ -319,25 +899,90 @@ export function ChatPage({ onNavigateProfile, onNavigateSettings }: ChatPageProp
               </div>
             </div>
           )}
-          {currentConversation?.messages.map((msg, index) => (
-            <ChatMessage
-              key={msg.id}
-              message={msg.text}
-              isAI={msg.sender === 'ai'}
-              relevance={msg.relevance}
-              delay={index * 0.05}
-            />
-          ))}
+          {currentConversation?.messages.map((msg, index) => {
+            const branches = msg.sender === 'user' ? getBranchSiblings(currentConversation, msg.id) : [];
+            const isLatestReply = msg.sender === 'ai' && !msg.status && index === currentConversation.messages.length - 1;
+            return (
+              <ChatMessage
+                key={msg.id}
+                message={msg.text}
+                isAI={msg.sender === 'ai'}
+                relevance={msg.relevance}
+                citations={msg.citations}
+                confidence={msg.confidence}
+                suggestions={isLatestReply ? getFollowUpSuggestions(currentConversation.messages, index) : msg.suggestions}
+                onSelectSuggestion={isLatestReply && !isGenerating ? handleSelectSuggestion : undefined}
+                isStreaming={msg.status === 'streaming'}
+                isPending={msg.status === 'pending'}
+                error={msg.status === 'error' ? msg.error : undefined}
+                onRetry={msg.status === 'error' ? () => handleRetry(msg.id) : undefined}
+                variantIndex={msg.activeVariant}
+                variantCount={msg.variants?.length}
+                onSelectVariant={(variantIndex) => selectVariant(msg.id, variantIndex)}
+                onRegenerate={
+                  msg.sender === 'ai' && !msg.status && !isGenerating &&
+                  currentConversation.messages.slice(0, index).some((prev) => prev.sender === 'user')
+                    ? () => handleRegenerate(msg.id)
+                    : undefined
+                }
+                cachedAt={msg.cachedAt}
+                onRefresh={
+                  msg.cachedAt && !msg.status && !isGenerating && index > 0
+                    ? () => handleRegenerate(msg.id)
+                    : undefined
+                }
+                feedback={msg.feedback}
+                onFeedback={msg.sender === 'ai' && !msg.status ? (feedback) => handleFeedback(msg.id, feedback) : undefined}
+                branchIndex={branches.findIndex((branch) => branch.id === msg.id)}
+                branchCount={branches.length}
+                onSelectBranch={isGenerating ? undefined : (branchIndex) => handleSelectBranch(msg.id, branchIndex)}
+                onEdit={
+                  msg.sender === 'user' && !msg.status && !isGenerating
+                    ? (text) => handleEditMessage(msg.id, text)
+                    : undefined
+                }
+                delay={index * 0.05}
+              />
+            );
+          })}
           {isTyping && <TypingIndicator />}
+          {intake.law && intake.stage !== 'idle' && (
+            <IntakeProgress intake={intake} onSkip={isGenerating ? undefined : handleSkipSituation} />
+          )}
         </div>
       </div>
 
       <Footer />
       <MessageInput
         onSend={handleSendMessage}
-        disabled={isTyping}
+        disabled={isGenerating || !!quota.exhausted}
+        limitNotice={quota.exhausted ? {
+          message: describeQuotaLimit(),
+          actionLabel: language === 'en' ? 'See plans' : 'प्लान देखें',
+          onAction: onNavigateProfile,
+        } : undefined}
+        cooldown={sendCooldown ? {
+          until: sendCooldown.until,
+          blocking: sendCooldown.reason === 'rate_limited',
+          describe: describeCooldown,
+        } : undefined}
+        isGenerating={isGenerating}
+        onStop={handleStopGenerating}
+        insert={composerInsert ?? undefined}
         placeholder={language === 'en' ? 'Type a message to Jurisly…' : 'जुरिसली को एक संदेश टाइप करें…'}
       />
+
+      {/* Statute Browser */}
+      <AnimatePresence>
+        {showStatutes && <StatuteBrowser onClose={() => setShowStatutes(false)} onCite={handleCiteStatute} />}
+      </AnimatePresence>
+
+      {/* Drafting Wizard */}
+      <AnimatePresence>
+        {drafting && (
+          <DraftingWizard initialTemplate={drafting.template} context={drafting.context} onClose={() => setDrafting(null)} />
+        )}
+      </AnimatePresence>
     </div>
   );
 }
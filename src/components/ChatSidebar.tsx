@@ -7,7 +7,9 @@ import {
   X,
   Menu,
   ChevronLeft,
-  Clock
+  Clock,
+  BookOpen,
+  FileText
 } from 'lucide-react';
 import { useChat } from '../contexts/ChatContext';
 import { useSettings } from '../contexts/SettingsContext';
@@ -20,6 +22,7 @@ import { useState } from 'react';
    - Scrollable list of past conversations
    - Delete individual chats
    - Export options
+   - Statute browser and document drafting shortcuts
    - Responsive: 
      * Desktop: Collapsible sidebar (left)
      * Mobile: Hamburger menu overlay
@@ -35,9 +38,11 @@ interface ChatSidebarProps {
   onClose: () => void;
   onExportAll: () => void;
   onClearAll: () => void;
+  onOpenStatutes: () => void;
+  onOpenDrafting: () => void;
 }
 
-export function ChatSidebar({ isOpen, onClose, onExportAll, onClearAll }: ChatSidebarProps) {
+export function ChatSidebar({ isOpen, onClose, onExportAll, onClearAll, onOpenStatutes, onOpenDrafting }: ChatSidebarProps) {
   const { 
     conversations, 
     currentConversationId, 
@@ -59,6 +64,8 @@ export function ChatSidebar({ isOpen, onClose, onExportAll, onClearAll }: ChatSi
       export: 'Export',
       empty: 'No conversations yet',
       startNew: 'Start a new chat!',
+      statutes: 'Browse Statutes',
+      drafting: 'Draft a Document',
     },
     hi: {
       newChat: 'नई चैट',
@@ -69,6 +76,8 @@ export function ChatSidebar({ isOpen, onClose, onExportAll, onClearAll }: ChatSi
       export: 'निर्यात',
       empty: 'अभी तक कोई बातचीत नहीं',
       startNew: 'नई चैट शुरू करें!',
+      statutes: 'क़ानून पुस्तिका',
+      drafting: 'दस्तावेज़ तैयार करें',
     },
   };
 
@@ -81,6 +90,20 @@ export function ChatSidebar({ isOpen, onClose, onExportAll, onClearAll }: ChatSi
     }
   };
 
+  const handleOpenStatutes = () => {
+    onOpenStatutes();
+    if (window.innerWidth < 768) {
+      onClose();
+    }
+  };
+
+  const handleOpenDrafting = () => {
+    onOpenDrafting();
+    if (window.innerWidth < 768) {
+      onClose();
+    }
+  };
+
   const handleSwitchChat = (conversationId: string) => {
     switchConversation(conversationId);
     if (window.innerWidth < 768) {
@@ -165,6 +188,24 @@ export function ChatSidebar({ isOpen, onClose, onExportAll, onClearAll }: ChatSi
             <Plus className="w-5 h-5 group-hover:rotate-90 transition-transform" />
             <span>{t.newChat}</span>
           </button>
+
+          {/* Statute Browser */}
+          <button
+            onClick={handleOpenStatutes}
+            className="mt-2 w-full py-2.5 px-4 bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/20 text-white/80 hover:text-white rounded-xl transition-all flex items-center justify-center gap-2 text-sm"
+          >
+            <BookOpen className="w-4 h-4" />
+            <span>{t.statutes}</span>
+          </button>
+
+          {/* Drafting Wizard */}
+          <button
+            onClick={handleOpenDrafting}
+            className="mt-2 w-full py-2.5 px-4 bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/20 text-white/80 hover:text-white rounded-xl transition-all flex items-center justify-center gap-2 text-sm"
+          >
+            <FileText className="w-4 h-4" />
+            <span>{t.drafting}</span>
+          </button>
         </div>
 
         {/* Conversations List */}
@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { motion } from 'motion/react';
+import { Phone, ShieldAlert, ChevronDown, ChevronUp, X } from 'lucide-react';
+import { useSettings } from '../contexts/SettingsContext';
+import { CrisisAlert } from '../contexts/ChatContext';
+import { CRISIS_GUIDANCE, HELPLINES, MENTAL_HEALTH_HELPLINE } from '../lib/legal/crisis';
+
+interface CrisisPanelProps {
+  alert: CrisisAlert;
+  onDismiss: () => void;
+}
+
+/* --- Emergency Help Panel ---
+   Pinned to the top of the chat when a message describes an emergency
+   (src/lib/legal/crisis.ts). Helpline numbers are tap-to-call links and
+   stay visible while the AI answers; the guidance can be collapsed and
+   the whole panel dismissed once the user is safe.
+--- */
+
+const translations = {
+  en: {
+    title: 'Help is available right now',
+    subtitle: 'If you or someone else is in danger, call for help first.',
+    showGuidance: 'Show immediate steps',
+    hideGuidance: 'Hide immediate steps',
+    dismiss: 'I am safe, hide this',
+  },
+  hi: {
+    title: 'मदद अभी उपलब्ध है',
+    subtitle: 'यदि आप या कोई और खतरे में है, तो पहले मदद के लिए कॉल करें।',
+    showGuidance: 'तुरंत उठाए जाने वाले कदम दिखाएं',
+    hideGuidance: 'कदम छिपाएं',
+    dismiss: 'मैं सुरक्षित हूं, इसे छिपाएं',
+  },
+};
+
+export function CrisisPanel({ alert, onDismiss }: CrisisPanelProps) {
+  const { language } = useSettings();
+  const t = translations[language as keyof typeof translations] || translations.en;
+  const lang = language === 'hi' ? 'hi' : 'en';
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  const helplines = alert.categories.includes('self_harm') ? [MENTAL_HEALTH_HELPLINE, ...HELPLINES] : HELPLINES;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      role="alert"
+      className="sticky top-24 z-10 mb-6 rounded-2xl p-4 backdrop-blur-xl bg-gradient-to-br from-red-900/80 via-slate-900/90 to-rose-900/80 border border-red-500/40 shadow-lg shadow-red-500/20 text-white"
+    >
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-start gap-3">
+          <ShieldAlert className="w-6 h-6 text-red-300 flex-shrink-0" />
+          <div>
+            <div className="font-medium">{t.title}</div>
+            <div className="text-sm text-white/70">{t.subtitle}</div>
+          </div>
+        </div>
+        <button
+          onClick={onDismiss}
+          aria-label={t.dismiss}
+          title={t.dismiss}
+          className="p-1 rounded hover:bg-white/10 text-white/70 hover:text-white transition-all"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        {helplines.map((helpline) => (
+          <a
+            key={helpline.number}
+            href={`tel:${helpline.number}`}
+            className="px-3 py-2 rounded-xl bg-white/10 border border-white/20 hover:bg-white/20 flex items-center gap-2 transition-all"
+          >
+            <Phone className="w-4 h-4 text-red-300" />
+            <span className="text-lg font-semibold tabular-nums">{helpline.number}</span>
+            <span className="text-xs text-white/70">{helpline.name[lang]}</span>
+          </a>
+        ))}
+      </div>
+
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="mt-3 text-sm text-white/70 hover:text-white flex items-center gap-1 transition-all"
+      >
+        {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        {isExpanded ? t.hideGuidance : t.showGuidance}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-2 space-y-3 text-sm max-h-64 overflow-y-auto">
+          {alert.categories.map((category) => (
+            <div key={category}>
+              <div className="text-red-200 mb-1">{CRISIS_GUIDANCE[category].title[lang]}</div>
+              <ul className="space-y-1 text-white/85 list-disc list-inside">
+                {CRISIS_GUIDANCE[category].steps[lang].map((step) => (
+                  <li key={step}>{step}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  );
+}
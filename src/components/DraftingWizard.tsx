@@ -0,0 +1,369 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { useForm, type ControllerRenderProps } from 'react-hook-form';
+import { X, FileText, ChevronLeft, ChevronRight, Download, Eye, PenLine, Info, Sparkles } from 'lucide-react';
+import { toast } from 'sonner';
+import { useSettings } from '../contexts/SettingsContext';
+import { DraftExportFormat, exportDraft } from '../lib/drafting/export';
+import { DraftContext, prefillDraft, suggestDraftTemplate } from '../lib/drafting/prefill';
+import {
+  DRAFT_TEMPLATES,
+  DraftField,
+  DraftTemplate,
+  DraftTemplateId,
+  DraftValues,
+  getDraftTemplate,
+  renderDraft,
+  visibleFields,
+} from '../lib/drafting/templates';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from './ui/form';
+
+interface DraftingWizardProps {
+  // Template asked for in chat; without it the wizard starts by choosing one
+  initialTemplate?: DraftTemplateId;
+  // What the user has said so far, for pre-filling the fields
+  context: DraftContext;
+  onClose: () => void;
+}
+
+/* --- Drafting Wizard ---
+   Fills one of the document templates (lib/drafting/templates.ts) step
+   by step:
+   - Choose a template (the one matching the conversation is suggested
+     first); skipped when the chat already asked for one
+   - One form page per template step, validated before moving on;
+     fields start from what the conversation already says
+   - Live preview of the document beside the form (toggle on mobile)
+   - Last page: what to check before use, and export to DOCX, PDF or TXT
+--- */
+
+const translations = {
+  en: {
+    title: 'Draft a Document',
+    choose: 'Which document do you need?',
+    suggested: 'Suggested for this chat',
+    step: 'Step',
+    of: 'of',
+    back: 'Back',
+    next: 'Next',
+    review: 'Review & export',
+    preview: 'Preview',
+    form: 'Form',
+    required: 'This field is required',
+    invalidNumber: 'Enter a number',
+    beforeUse: 'Before you use it',
+    disclaimer: 'A starting draft for general information, not legal advice. Read it through and have a lawyer check it for anything important.',
+    exportAs: 'Download as',
+    exported: 'Draft downloaded',
+    popupBlocked: 'Allow pop-ups to save the draft as PDF',
+    changeTemplate: 'Change document',
+  },
+  hi: {
+    title: 'दस्तावेज़ तैयार करें',
+    choose: 'आपको कौन सा दस्तावेज़ चाहिए?',
+    suggested: 'इस चैट के लिए सुझाया गया',
+    step: 'चरण',
+    of: 'में से',
+    back: 'वापस',
+    next: 'आगे',
+    review: 'समीक्षा और निर्यात',
+    preview: 'पूर्वावलोकन',
+    form: 'फ़ॉर्म',
+    required: 'यह फ़ील्ड आवश्यक है',
+    invalidNumber: 'एक संख्या दर्ज करें',
+    beforeUse: 'उपयोग से पहले',
+    disclaimer: 'सामान्य जानकारी के लिए एक प्रारंभिक मसौदा, कानूनी सलाह नहीं। इसे पूरा पढ़ें और महत्वपूर्ण मामलों में किसी वकील से जांच कराएं।',
+    exportAs: 'डाउनलोड करें',
+    exported: 'मसौदा डाउनलोड हो गया',
+    popupBlocked: 'PDF के रूप में सहेजने के लिए पॉप-अप की अनुमति दें',
+    changeTemplate: 'दस्तावेज़ बदलें',
+  },
+};
+
+const inputClass =
+  'w-full px-3 py-2 rounded-xl bg-white/10 border border-white/20 text-white text-sm placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-cyan-500/50';
+
+const EXPORT_FORMATS: DraftExportFormat[] = ['docx', 'pdf', 'txt'];
+
+export function DraftingWizard({ initialTemplate, context, onClose }: DraftingWizardProps) {
+  const { language } = useSettings();
+  const t = translations[language as keyof typeof translations] || translations.en;
+  const lang = language === 'hi' ? 'hi' : 'en';
+
+  const [template, setTemplate] = useState<DraftTemplate | null>(initialTemplate ? getDraftTemplate(initialTemplate) : null);
+  // Steps of the template, then the review page
+  const [stepIndex, setStepIndex] = useState(0);
+  const [showPreview, setShowPreview] = useState(false);
+  const suggested = suggestDraftTemplate(context);
+
+  const form = useForm<DraftValues>({
+    defaultValues: template ? prefillDraft(template, context) : {},
+    mode: 'onTouched',
+  });
+
+  // Start each template from the conversation, not the last template's values
+  useEffect(() => {
+    if (template) form.reset(prefillDraft(template, context));
+    setStepIndex(0);
+  }, [template?.id]);
+
+  const values = form.watch();
+  const isReview = !!template && stepIndex === template.steps.length;
+  const step = template && !isReview ? template.steps[stepIndex] : null;
+  const blocks = template ? renderDraft(template, values) : [];
+
+  const handleNext = async () => {
+    if (!step) return;
+    const valid = await form.trigger(visibleFields(step, values).map((field) => field.name));
+    if (valid) setStepIndex(stepIndex + 1);
+  };
+
+  const handleBack = () => {
+    if (stepIndex > 0) setStepIndex(stepIndex - 1);
+    else if (!initialTemplate) setTemplate(null);
+  };
+
+  const handleExport = (format: DraftExportFormat) => {
+    if (!template) return;
+    const filename = `${template.id.replace(/_/g, '-')}-${values.date || new Date().toISOString().slice(0, 10)}`;
+    if (exportDraft(blocks, format, filename, template.name.en)) {
+      if (format !== 'pdf') toast.success(t.exported);
+    } else {
+      toast.error(t.popupBlocked);
+    }
+  };
+
+  const renderInput = (field: DraftField, props: ControllerRenderProps<DraftValues, string>) => {
+    const placeholder = field.placeholder?.[lang];
+    switch (field.type) {
+      case 'textarea':
+        return <textarea {...props} rows={4} placeholder={placeholder} className={`${inputClass} resize-y`} />;
+      case 'select':
+        return (
+          <select {...props} className={inputClass}>
+            {field.options?.map((option) => (
+              <option key={option.value} value={option.value} className="bg-slate-800">
+                {option.label[lang]}
+              </option>
+            ))}
+          </select>
+        );
+      case 'date':
+        return <input {...props} type="date" className={`${inputClass} [color-scheme:dark]`} />;
+      case 'money':
+      case 'number':
+        return <input {...props} type="text" inputMode="decimal" placeholder={placeholder} className={inputClass} />;
+      default:
+        return <input {...props} type="text" placeholder={placeholder} className={inputClass} />;
+    }
+  };
+
+  const validate = (field: DraftField) => (value: string) => {
+    if (field.required && !value?.trim()) return t.required;
+    if ((field.type === 'money' || field.type === 'number') && value?.trim() && !Number.isFinite(Number(value.replace(/[,\s₹]/g, '')))) {
+      return t.invalidNumber;
+    }
+    return true;
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 md:p-6"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-6xl bg-gradient-to-br from-slate-900/95 to-slate-800/95 backdrop-blur-xl border border-white/20 rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]"
+      >
+        {/* Header */}
+        <div className="bg-gradient-to-r from-cyan-500/20 to-teal-500/20 border-b border-white/10 p-5 flex items-center justify-between gap-4">
+          <h2 className="text-xl text-white flex items-center gap-3 min-w-0">
+            <div className="w-10 h-10 flex-shrink-0 rounded-xl bg-gradient-to-br from-cyan-500 to-teal-500 flex items-center justify-center">
+              <FileText className="w-5 h-5 text-white" />
+            </div>
+            <span className="truncate">{template ? template.name[lang] : t.title}</span>
+          </h2>
+          <div className="flex items-center gap-2">
+            {template && (
+              <button
+                onClick={() => setShowPreview(!showPreview)}
+                className="md:hidden px-3 h-10 rounded-xl bg-white/10 hover:bg-white/20 flex items-center gap-1.5 text-white/70 hover:text-white text-sm transition-all"
+              >
+                {showPreview ? <PenLine className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                {showPreview ? t.form : t.preview}
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="w-10 h-10 rounded-xl bg-white/10 hover:bg-white/20 flex items-center justify-center text-white/70 hover:text-white transition-all"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {!template ? (
+          /* Template choice */
+          <div className="p-6 overflow-y-auto">
+            <p className="text-white/70 mb-4">{t.choose}</p>
+            <div className="grid sm:grid-cols-2 gap-3">
+              {[...DRAFT_TEMPLATES]
+                .sort((a, b) => Number(b.id === suggested?.id) - Number(a.id === suggested?.id))
+                .map((option) => (
+                  <button
+                    key={option.id}
+                    onClick={() => setTemplate(option)}
+                    className={`text-left p-4 rounded-2xl border transition-all ${
+                      option.id === suggested?.id
+                        ? 'bg-cyan-500/15 border-cyan-400/40 hover:bg-cyan-500/25'
+                        : 'bg-white/5 border-white/10 hover:bg-white/10 hover:border-white/20'
+                    }`}
+                  >
+                    <p className="text-white flex items-center gap-2">
+                      <FileText className="w-4 h-4 text-cyan-300" />
+                      {option.name[lang]}
+                    </p>
+                    <p className="text-white/60 text-sm mt-1">{option.description[lang]}</p>
+                    {option.id === suggested?.id && (
+                      <p className="text-cyan-300 text-xs mt-2 flex items-center gap-1">
+                        <Sparkles className="w-3 h-3" />
+                        {t.suggested}
+                      </p>
+                    )}
+                  </button>
+                ))}
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-1 min-h-0">
+            {/* Form */}
+            <div className={`${showPreview ? 'hidden md:flex' : 'flex'} w-full md:w-[26rem] flex-shrink-0 flex-col border-r border-white/10 min-h-0`}>
+              <div className="px-5 pt-4 pb-3 border-b border-white/10">
+                <p className="text-white/50 text-xs">
+                  {t.step} {stepIndex + 1} {t.of} {template.steps.length + 1}
+                </p>
+                <p className="text-white mt-0.5">{step ? step.title[lang] : t.review}</p>
+                <div className="flex gap-1 mt-3">
+                  {[...template.steps, null].map((_, i) => (
+                    <div key={i} className={`h-1 flex-1 rounded-full ${i <= stepIndex ? 'bg-gradient-to-r from-cyan-500 to-teal-500' : 'bg-white/10'}`} />
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex-1 overflow-y-auto p-5">
+                {step ? (
+                  <Form {...form}>
+                    <form
+                      className="space-y-4"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        handleNext();
+                      }}
+                    >
+                      {visibleFields(step, values).map((field) => (
+                        <FormField
+                          key={`${template.id}-${field.name}`}
+                          control={form.control}
+                          name={field.name}
+                          rules={{ validate: validate(field) }}
+                          render={({ field: props }: { field: ControllerRenderProps<DraftValues, string> }) => (
+                            <FormItem>
+                              <FormLabel className="text-white/80">
+                                {field.label[lang]}
+                                {field.required && <span className="text-cyan-300">*</span>}
+                              </FormLabel>
+                              <FormControl>{renderInput(field, props)}</FormControl>
+                              <FormMessage className="text-red-300 text-xs" />
+                            </FormItem>
+                          )}
+                        />
+                      ))}
+                      {/* Enter in a text field moves to the next step */}
+                      <button type="submit" className="hidden" />
+                    </form>
+                  </Form>
+                ) : (
+                  <div className="space-y-4">
+                    <div className="rounded-2xl bg-white/5 border border-white/10 p-4">
+                      <p className="text-white/60 text-xs mb-1 flex items-center gap-1.5">
+                        <Info className="w-3.5 h-3.5" />
+                        {t.beforeUse}
+                      </p>
+                      <p className="text-white/80 text-sm">{template.guidance[lang]}</p>
+                    </div>
+                    <p className="text-white/40 text-xs">{t.disclaimer}</p>
+                    <div>
+                      <p className="text-white/60 text-sm mb-2">{t.exportAs}</p>
+                      <div className="flex gap-2">
+                        {EXPORT_FORMATS.map((format) => (
+                          <button
+                            key={format}
+                            onClick={() => handleExport(format)}
+                            className="flex-1 py-2.5 rounded-xl bg-gradient-to-r from-cyan-500 to-teal-500 hover:from-cyan-400 hover:to-teal-400 text-white text-sm flex items-center justify-center gap-1.5 transition-all"
+                          >
+                            <Download className="w-4 h-4" />
+                            {format.toUpperCase()}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="p-4 border-t border-white/10 flex items-center justify-between gap-2">
+                <button
+                  onClick={handleBack}
+                  disabled={stepIndex === 0 && !!initialTemplate}
+                  className="px-4 py-2 rounded-xl bg-white/10 hover:bg-white/20 text-white/80 hover:text-white text-sm flex items-center gap-1 transition-all disabled:opacity-40 disabled:pointer-events-none"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                  {stepIndex === 0 ? t.changeTemplate : t.back}
+                </button>
+                {step && (
+                  <button
+                    onClick={handleNext}
+                    className="px-4 py-2 rounded-xl bg-gradient-to-r from-cyan-500 to-teal-500 hover:from-cyan-400 hover:to-teal-400 text-white text-sm flex items-center gap-1 transition-all"
+                  >
+                    {stepIndex === template.steps.length - 1 ? t.review : t.next}
+                    <ChevronRight className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {/* Live preview */}
+            <div className={`${showPreview ? 'block' : 'hidden md:block'} flex-1 overflow-y-auto bg-black/20 p-4 md:p-6`}>
+              <div className="mx-auto max-w-2xl bg-white text-slate-900 rounded-lg shadow-xl px-6 py-8 md:px-10 font-serif text-sm leading-relaxed">
+                {blocks.map((block, i) => (
+                  <p
+                    key={i}
+                    className={`mb-3 whitespace-pre-line ${
+                      block.style === 'title'
+                        ? 'text-center font-bold text-base'
+                        : block.style === 'heading'
+                          ? 'font-bold'
+                          : block.style === 'center'
+                            ? 'text-center'
+                            : block.style === 'right'
+                              ? 'text-right'
+                              : 'text-justify'
+                    }`}
+                  >
+                    {block.text}
+                  </p>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
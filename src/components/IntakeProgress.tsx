@@ -0,0 +1,100 @@
+import { motion } from 'motion/react';
+import { Check, SkipForward } from 'lucide-react';
+import { useSettings } from '../contexts/SettingsContext';
+import { IntakeStage, IntakeState } from '../lib/legal/intake';
+
+interface IntakeProgressProps {
+  intake: IntakeState;
+  onSkip?: () => void;
+}
+
+/* --- Consultation Progress ---
+   Step indicator for a guided consultation (src/lib/legal/intake.ts):
+   Law identified → Your situation → Analysis → Next steps.
+   While the assistant waits for the user's situation, a Skip button asks
+   for general information about the law instead.
+--- */
+
+const STEPS: Exclude<IntakeStage, 'idle'>[] = ['law_identified', 'awaiting_situation', 'analysis', 'next_steps'];
+
+const translations = {
+  en: {
+    steps: {
+      law_identified: 'Law identified',
+      awaiting_situation: 'Your situation',
+      analysis: 'Analysis',
+      next_steps: 'Next steps',
+    },
+    skipped: 'Skipped',
+    waiting: 'Describe what happened to you, or skip for general information.',
+    skip: 'Skip',
+  },
+  hi: {
+    steps: {
+      law_identified: 'कानून पहचाना गया',
+      awaiting_situation: 'आपकी स्थिति',
+      analysis: 'विश्लेषण',
+      next_steps: 'अगले कदम',
+    },
+    skipped: 'छोड़ा गया',
+    waiting: 'बताएं कि आपके साथ क्या हुआ, या सामान्य जानकारी के लिए छोड़ें।',
+    skip: 'छोड़ें',
+  },
+};
+
+export function IntakeProgress({ intake, onSkip }: IntakeProgressProps) {
+  const { language } = useSettings();
+  const t = translations[language as keyof typeof translations] || translations.en;
+  const current = STEPS.indexOf(intake.stage as Exclude<IntakeStage, 'idle'>);
+  const law = intake.law ? `${language === 'en' ? 'Section' : 'धारा'} ${intake.law.section}${intake.law.act ? `, ${intake.law.act}` : ''}` : '';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mb-6 rounded-2xl p-4 backdrop-blur-xl bg-white/5 border border-white/10 text-sm"
+    >
+      {law && <div className="mb-3 text-white/80">⚖️ {law}</div>}
+      <ol className="flex flex-wrap items-center gap-2">
+        {STEPS.map((step, index) => {
+          const isDone = index < current;
+          const isCurrent = index === current;
+          const label = step === 'awaiting_situation' && intake.skipped ? t.skipped : t.steps[step];
+          return (
+            <li key={step} className="flex items-center gap-2">
+              {index > 0 && <span className="w-4 h-px bg-white/20" aria-hidden="true" />}
+              <span
+                aria-current={isCurrent ? 'step' : undefined}
+                className={`px-2.5 py-1 rounded-full border flex items-center gap-1.5 ${
+                  isCurrent
+                    ? 'bg-cyan-500/20 border-cyan-400/40 text-cyan-200'
+                    : isDone
+                      ? 'border-teal-400/30 text-teal-300'
+                      : 'border-white/10 text-white/40'
+                }`}
+              >
+                {isDone && <Check className="w-3 h-3" />}
+                {label}
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+
+      {intake.stage === 'awaiting_situation' && (
+        <div className="mt-3 flex items-center justify-between gap-3 text-white/70">
+          <span>{t.waiting}</span>
+          {onSkip && (
+            <button
+              onClick={onSkip}
+              className="flex-shrink-0 px-3 py-1.5 rounded-lg bg-white/10 border border-white/20 text-white/90 hover:bg-white/20 flex items-center gap-1.5 transition-all"
+            >
+              <SkipForward className="w-3.5 h-3.5" />
+              {t.skip}
+            </button>
+          )}
+        </div>
+      )}
+    </motion.div>
+  );
+}
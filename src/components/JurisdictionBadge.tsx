@@ -0,0 +1,72 @@
+import { MapPin, RotateCcw } from 'lucide-react';
+import { useSettings } from '../contexts/SettingsContext';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { JurisdictionPicker } from './JurisdictionPicker';
+import { ALL_INDIA, formatJurisdiction, isSameJurisdiction, Jurisdiction } from '../lib/legal/jurisdictions';
+
+interface JurisdictionBadgeProps {
+  // The conversation's own override, if any
+  override?: Jurisdiction;
+  onChange: (jurisdiction: Jurisdiction | null) => void;
+}
+
+/* --- Chat Header Jurisdiction ---
+   Shows which state the current chat's answers are scoped to and lets the
+   user change it for this chat only. Choosing the Settings default again
+   (or "Use default") removes the override.
+--- */
+
+const translations = {
+  en: {
+    label: 'Answers for',
+    thisChat: 'this chat only',
+    title: 'Jurisdiction for this chat',
+    useDefault: 'Use my default',
+  },
+  hi: {
+    label: 'उत्तर इसके लिए',
+    thisChat: 'केवल यह चैट',
+    title: 'इस चैट का क्षेत्राधिकार',
+    useDefault: 'मेरा डिफ़ॉल्ट उपयोग करें',
+  },
+};
+
+export function JurisdictionBadge({ override, onChange }: JurisdictionBadgeProps) {
+  const { language, jurisdiction: defaultJurisdiction } = useSettings();
+  const t = translations[language as keyof typeof translations] || translations.en;
+  const fallback = defaultJurisdiction ?? ALL_INDIA;
+  const effective = override ?? fallback;
+
+  const handleChange = (jurisdiction: Jurisdiction) => {
+    onChange(isSameJurisdiction(jurisdiction, fallback) ? null : jurisdiction);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="px-3 py-1.5 rounded-full bg-white/5 border border-white/10 text-white/70 hover:text-white hover:bg-white/10 text-xs flex items-center gap-1.5 transition-all"
+          aria-label={`${t.label} ${formatJurisdiction(effective, language)}`}
+        >
+          <MapPin className="w-3.5 h-3.5 text-cyan-300" />
+          <span className="text-white/50">{t.label}</span>
+          <span>{formatJurisdiction(effective, language)}</span>
+          {override && <span className="text-cyan-300/80">· {t.thisChat}</span>}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 bg-slate-900/95 border-white/20 text-white backdrop-blur-xl">
+        <div className="text-sm mb-3">{t.title}</div>
+        <JurisdictionPicker value={effective} onChange={handleChange} />
+        {override && (
+          <button
+            onClick={() => onChange(null)}
+            className="mt-3 text-xs text-white/60 hover:text-white flex items-center gap-1.5 transition-all"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+            {t.useDefault} ({formatJurisdiction(fallback, language)})
+          </button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { motion } from 'motion/react';
+import { MapPin, ArrowRight } from 'lucide-react';
+import { useSettings } from '../contexts/SettingsContext';
+import { JurisdictionPicker } from './JurisdictionPicker';
+import { ALL_INDIA, Jurisdiction } from '../lib/legal/jurisdictions';
+
+/* --- Jurisdiction Onboarding ---
+   Asked once after the first sign-in, before the user's first question,
+   because rent, stamp duty and many procedures depend on the state.
+   Skipping saves "All India" so the prompt does not come back; the choice
+   can be changed later in Settings or per conversation.
+--- */
+
+const translations = {
+  en: {
+    title: 'Where are you located?',
+    subtitle: 'Many laws (rent, property, stamp duty, police procedure) differ by state. Answers will be tailored to where you are.',
+    continue: 'Continue',
+    skip: 'Skip, show all-India answers',
+    note: 'You can change this anytime in Settings or for a single chat.',
+  },
+  hi: {
+    title: 'आप कहां रहते हैं?',
+    subtitle: 'कई कानून (किराया, संपत्ति, स्टांप शुल्क, पुलिस प्रक्रिया) हर राज्य में अलग होते हैं। उत्तर आपके स्थान के अनुसार दिए जाएंगे।',
+    continue: 'जारी रखें',
+    skip: 'छोड़ें, संपूर्ण भारत के उत्तर दिखाएं',
+    note: 'आप इसे कभी भी सेटिंग्स में या किसी एक चैट के लिए बदल सकते हैं।',
+  },
+};
+
+export function JurisdictionOnboarding() {
+  const { language, setJurisdiction } = useSettings();
+  const t = translations[language as keyof typeof translations] || translations.en;
+  const [draft, setDraft] = useState<Jurisdiction>(ALL_INDIA);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/70 backdrop-blur-md z-50 flex items-center justify-center p-6"
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0, y: 20 }}
+        animate={{ scale: 1, opacity: 1, y: 0 }}
+        exit={{ scale: 0.9, opacity: 0, y: 20 }}
+        className="bg-gradient-to-br from-slate-900/95 to-slate-800/95 backdrop-blur-xl border border-white/20 rounded-3xl p-8 max-w-md w-full shadow-2xl"
+      >
+        <div className="flex justify-center mb-6">
+          <div className="w-16 h-16 rounded-full bg-gradient-to-br from-cyan-500 to-teal-500 flex items-center justify-center shadow-lg shadow-cyan-500/50">
+            <MapPin className="w-8 h-8 text-white" />
+          </div>
+        </div>
+
+        <h2 className="text-2xl text-white text-center mb-2">{t.title}</h2>
+        <p className="text-white/70 text-center text-sm mb-6">{t.subtitle}</p>
+
+        <JurisdictionPicker value={draft} onChange={setDraft} />
+
+        <button
+          onClick={() => setJurisdiction(draft)}
+          className="w-full mt-6 py-3 rounded-xl bg-gradient-to-r from-cyan-500 to-teal-500 text-white font-medium shadow-lg shadow-cyan-500/50 hover:shadow-xl hover:shadow-cyan-500/70 transition-all hover:scale-[1.02] flex items-center justify-center gap-2"
+        >
+          {t.continue}
+          <ArrowRight className="w-5 h-5" />
+        </button>
+        <button
+          onClick={() => setJurisdiction(ALL_INDIA)}
+          className="w-full mt-3 py-2 text-sm text-white/60 hover:text-white transition-all"
+        >
+          {t.skip}
+        </button>
+        <p className="text-white/40 text-xs text-center mt-3">{t.note}</p>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState, useEffect } from 'react';
+import { useSettings } from '../contexts/SettingsContext';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { INDIAN_STATES, Jurisdiction } from '../lib/legal/jurisdictions';
+
+interface JurisdictionPickerProps {
+  value: Jurisdiction;
+  onChange: (jurisdiction: Jurisdiction) => void;
+}
+
+/* --- Jurisdiction Picker ---
+   State / union territory select plus an optional district, shared by
+   onboarding, Settings and the chat header. "All India" clears the
+   state; the district is only asked for once a state is chosen and is
+   committed on blur so each keystroke does not re-save settings.
+--- */
+
+// Radix Select does not allow an empty item value
+const ALL_INDIA_VALUE = 'ALL';
+
+const translations = {
+  en: {
+    state: 'State / Union Territory',
+    allIndia: 'All India (central laws only)',
+    district: 'District (optional)',
+    districtPlaceholder: 'e.g. Pune',
+  },
+  hi: {
+    state: 'राज्य / केंद्र शासित प्रदेश',
+    allIndia: 'संपूर्ण भारत (केवल केंद्रीय कानून)',
+    district: 'ज़िला (वैकल्पिक)',
+    districtPlaceholder: 'जैसे पुणे',
+  },
+};
+
+export function JurisdictionPicker({ value, onChange }: JurisdictionPickerProps) {
+  const { language } = useSettings();
+  const t = translations[language as keyof typeof translations] || translations.en;
+  const lang = language === 'hi' ? 'hi' : 'en';
+  const [districtDraft, setDistrictDraft] = useState(value.district ?? '');
+
+  useEffect(() => {
+    setDistrictDraft(value.district ?? '');
+  }, [value.district]);
+
+  const handleStateChange = (code: string) => {
+    // A district belongs to its state, so it is dropped when the state changes
+    onChange(code === ALL_INDIA_VALUE ? { country: 'IN' } : { country: 'IN', state: code });
+  };
+
+  const commitDistrict = () => {
+    const district = districtDraft.trim();
+    if (district === (value.district ?? '')) return;
+    onChange({ ...value, district: district || undefined });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="block">
+        <span className="block text-white/60 text-xs mb-1">{t.state}</span>
+        <Select value={value.state ?? ALL_INDIA_VALUE} onValueChange={handleStateChange}>
+          <SelectTrigger className="w-full bg-white/10 border-white/20 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="max-h-72">
+            <SelectItem value={ALL_INDIA_VALUE}>{t.allIndia}</SelectItem>
+            {INDIAN_STATES.map((state) => (
+              <SelectItem key={state.code} value={state.code}>
+                {state.name[lang]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </label>
+
+      {value.state && (
+        <label className="block">
+          <span className="block text-white/60 text-xs mb-1">{t.district}</span>
+          <input
+            type="text"
+            value={districtDraft}
+            maxLength={60}
+            onChange={(e) => setDistrictDraft(e.target.value)}
+            onBlur={commitDistrict}
+            onKeyDown={(e) => e.key === 'Enter' && commitDistrict()}
+            placeholder={t.districtPlaceholder}
+            className="w-full px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white text-sm placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
+          />
+        </label>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+import { useState } from 'react';
+import { motion } from 'motion/react';
+import { X, CalendarClock, Scale, ListChecks, AlertTriangle, Info } from 'lucide-react';
+import { useSettings } from '../contexts/SettingsContext';
+import {
+  calculateLimitation,
+  describePeriod,
+  formatLimitationDate,
+  getLimitationRule,
+  LIMITATION_EXCLUSION_LABELS,
+  LIMITATION_GROUPS,
+  LIMITATION_RULES,
+  LimitationExclusion,
+  LimitationGroup,
+  LimitationRequest,
+  LimitationRuleId,
+  parseIsoDate,
+  toIsoDate,
+} from '../lib/legal/limitation';
+import { Calendar } from './ui/calendar';
+
+interface LimitationCalculatorPageProps {
+  // Case type and date read from a chat message, if opened from chat
+  initialRequest?: LimitationRequest;
+  onClose: () => void;
+}
+
+/* --- Limitation Calculator ---
+   Last date to file a case, appeal or notice (lib/legal/limitation.ts):
+   - Case type, grouped as in the Limitation Act's Schedule, plus
+     special laws (cheque bounce, consumer, RTI, arbitration, BNSS)
+   - The date that starts time running, typed or picked on the calendar
+   - Days to exclude, where the rule allows it (certified copy, wrong court)
+   - Result: last date, days left, legal basis, and each counting rule
+     applied, with whether a late filing can be excused
+
+   Opened from the navbar, or from chat when a message asks for a
+   deadline ("last date for consumer complaint, bought on 3/2/2025").
+--- */
+
+const translations = {
+  en: {
+    title: 'Limitation Calculator',
+    caseType: 'Case type',
+    eventDate: 'Date',
+    excluded: 'Days to exclude (if any)',
+    pickDate: 'Choose the date above to see the last date.',
+    lastDate: 'Last date',
+    daysLeft: (days: number) => (days === 1 ? '1 day left' : `${days} days left`),
+    today: 'Today is the last day',
+    expired: (days: number) => (days === 1 ? 'Time ran out yesterday' : `Time ran out ${days} days ago`),
+    basis: 'Legal basis',
+    period: 'Period',
+    howWorkedOut: 'How it was worked out',
+    lateFiling: 'Filing late',
+    disclaimer: 'General information, not legal advice. Facts such as an acknowledgement of debt, fraud or a pending case can change the date; confirm it with a lawyer before relying on it.',
+  },
+  hi: {
+    title: 'परिसीमा कैलकुलेटर',
+    caseType: 'मामले का प्रकार',
+    eventDate: 'तारीख',
+    excluded: 'घटाए जाने वाले दिन (यदि हों)',
+    pickDate: 'अंतिम तारीख देखने के लिए ऊपर तारीख चुनें।',
+    lastDate: 'अंतिम तारीख',
+    daysLeft: (days: number) => `${days} दिन शेष`,
+    today: 'आज अंतिम दिन है',
+    expired: (days: number) => (days === 1 ? 'समय कल समाप्त हो गया' : `समय ${days} दिन पहले समाप्त हो गया`),
+    basis: 'कानूनी आधार',
+    period: 'अवधि',
+    howWorkedOut: 'गणना कैसे हुई',
+    lateFiling: 'देरी से दायर करना',
+    disclaimer: 'सामान्य जानकारी, कानूनी सलाह नहीं। ऋण की स्वीकृति, धोखाधड़ी या लंबित मामले जैसे तथ्य तारीख बदल सकते हैं; इस पर निर्भर होने से पहले किसी वकील से पुष्टि करें।',
+  },
+};
+
+const inputClass =
+  'w-full px-3 py-2 rounded-xl bg-white/10 border border-white/20 text-white text-sm placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-cyan-500/50';
+
+const GROUP_ORDER: LimitationGroup[] = ['special', 'suits', 'appeals', 'applications'];
+
+export function LimitationCalculatorPage({ initialRequest, onClose }: LimitationCalculatorPageProps) {
+  const { language } = useSettings();
+  const t = translations[language as keyof typeof translations] || translations.en;
+  const lang = language === 'hi' ? 'hi' : 'en';
+
+  const [ruleId, setRuleId] = useState<LimitationRuleId>(initialRequest?.ruleId ?? 'residuary_suit');
+  const [eventDate, setEventDate] = useState(initialRequest?.eventDate ?? '');
+  const [excludedDays, setExcludedDays] = useState<Partial<Record<LimitationExclusion, number>>>({});
+  const selectedDate = parseIsoDate(eventDate);
+  const [month, setMonth] = useState<Date>(selectedDate ?? new Date());
+
+  const rule = getLimitationRule(ruleId) ?? LIMITATION_RULES[0];
+  const result = selectedDate ? calculateLimitation(rule, selectedDate, { excludedDays }) : null;
+
+  const handleDateChange = (iso: string) => {
+    setEventDate(iso);
+    const date = parseIsoDate(iso);
+    if (date) setMonth(date);
+  };
+
+  const status = !result
+    ? null
+    : result.daysLeft > 0
+      ? { text: t.daysLeft(result.daysLeft), tone: result.daysLeft <= 15 ? 'bg-amber-500/15 border-amber-400/30 text-amber-200' : 'bg-emerald-500/15 border-emerald-400/30 text-emerald-200' }
+      : result.daysLeft === 0
+        ? { text: t.today, tone: 'bg-amber-500/15 border-amber-400/30 text-amber-200' }
+        : { text: t.expired(-result.daysLeft), tone: 'bg-red-500/15 border-red-400/30 text-red-200' };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 md:p-6"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-5xl bg-gradient-to-br from-slate-900/95 to-slate-800/95 backdrop-blur-xl border border-white/20 rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]"
+      >
+        {/* Header */}
+        <div className="bg-gradient-to-r from-cyan-500/20 to-teal-500/20 border-b border-white/10 p-5 flex items-center justify-between gap-4">
+          <h2 className="text-xl text-white flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-cyan-500 to-teal-500 flex items-center justify-center">
+              <CalendarClock className="w-5 h-5 text-white" />
+            </div>
+            {t.title}
+          </h2>
+          <button
+            onClick={onClose}
+            className="w-10 h-10 rounded-xl bg-white/10 hover:bg-white/20 flex items-center justify-center text-white/70 hover:text-white transition-all"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row flex-1 min-h-0 overflow-y-auto md:overflow-hidden">
+          {/* Inputs */}
+          <div className="md:w-[22rem] flex-shrink-0 p-5 space-y-4 md:border-r border-white/10 md:overflow-y-auto">
+            <label className="block">
+              <span className="text-white/70 text-sm">{t.caseType}</span>
+              <select
+                value={ruleId}
+                onChange={(e) => setRuleId(e.target.value as LimitationRuleId)}
+                className={`${inputClass} mt-1.5`}
+              >
+                {GROUP_ORDER.map((group) => (
+                  <optgroup key={group} label={LIMITATION_GROUPS[group][lang]} className="bg-slate-800">
+                    {LIMITATION_RULES.filter((option) => option.group === group).map((option) => (
+                      <option key={option.id} value={option.id} className="bg-slate-800">
+                        {option.name[lang]}
+                      </option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+            </label>
+
+            <label className="block">
+              <span className="text-white/70 text-sm">{rule.event[lang]}</span>
+              <input
+                type="date"
+                value={eventDate}
+                onChange={(e) => handleDateChange(e.target.value)}
+                aria-label={t.eventDate}
+                className={`${inputClass} mt-1.5 [color-scheme:dark]`}
+              />
+            </label>
+
+            <div className="rounded-2xl bg-white/5 border border-white/10 flex justify-center">
+              <Calendar
+                mode="single"
+                selected={selectedDate ?? undefined}
+                onSelect={(date: Date | undefined) => date && setEventDate(toIsoDate(date))}
+                month={month}
+                onMonthChange={(next: Date) => setMonth(next)}
+                className="text-white"
+                classNames={{
+                  head_cell: 'text-white/40 rounded-md w-8 font-normal text-[0.8rem]',
+                  day_selected: 'bg-gradient-to-br from-cyan-500 to-teal-500 text-white hover:text-white focus:text-white',
+                  day_today: 'border border-cyan-400/50',
+                  day_outside: 'text-white/30',
+                }}
+              />
+            </div>
+
+            {rule.exclusions.length > 0 && (
+              <div className="space-y-3">
+                <p className="text-white/70 text-sm">{t.excluded}</p>
+                {rule.exclusions.map((exclusion) => (
+                  <label key={exclusion} className="block">
+                    <span className="text-white/50 text-xs">{LIMITATION_EXCLUSION_LABELS[exclusion][lang]}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={excludedDays[exclusion] ?? ''}
+                      onChange={(e) => setExcludedDays({ ...excludedDays, [exclusion]: Number(e.target.value) || 0 })}
+                      className={`${inputClass} mt-1`}
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Result */}
+          <div className="flex-1 p-5 md:p-6 space-y-5 md:overflow-y-auto">
+            {!result || !status ? (
+              <div className="h-full min-h-40 flex flex-col items-center justify-center text-center text-white/50">
+                <CalendarClock className="w-12 h-12 text-white/20 mb-3" />
+                <p className="text-sm">{t.pickDate}</p>
+              </div>
+            ) : (
+              <>
+                <div className="rounded-2xl bg-gradient-to-br from-cyan-500/15 to-teal-500/10 border border-cyan-400/30 p-5">
+                  <p className="text-cyan-300 text-sm">{t.lastDate}</p>
+                  <p className="text-white text-2xl mt-1">{formatLimitationDate(result.lastDate, lang)}</p>
+                  <span className={`inline-block mt-3 px-3 py-1 rounded-full border text-xs ${status.tone}`}>{status.text}</span>
+                </div>
+
+                <div className="grid sm:grid-cols-2 gap-3">
+                  <div className="rounded-2xl bg-white/5 border border-white/10 p-4">
+                    <p className="text-white/50 text-xs mb-1 flex items-center gap-1.5">
+                      <Scale className="w-3.5 h-3.5" />
+                      {t.basis}
+                    </p>
+                    <p className="text-white/85 text-sm">{rule.basis[lang]}</p>
+                  </div>
+                  <div className="rounded-2xl bg-white/5 border border-white/10 p-4">
+                    <p className="text-white/50 text-xs mb-1 flex items-center gap-1.5">
+                      <CalendarClock className="w-3.5 h-3.5" />
+                      {t.period}
+                    </p>
+                    <p className="text-white/85 text-sm">{describePeriod(rule.period, lang)}</p>
+                  </div>
+                </div>
+
+                <div>
+                  <p className="text-white/70 text-sm mb-2 flex items-center gap-1.5">
+                    <ListChecks className="w-4 h-4" />
+                    {t.howWorkedOut}
+                  </p>
+                  <ol className="space-y-2 list-decimal list-inside">
+                    {result.steps.map((step) => (
+                      <li key={step.en} className="text-white/80 text-sm">
+                        {step[lang]}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+
+                {rule.condonation && (
+                  <div className={`rounded-2xl border p-4 ${result.daysLeft < 0 ? 'bg-amber-500/10 border-amber-400/30' : 'bg-white/5 border-white/10'}`}>
+                    <p className="text-white/60 text-xs mb-1 flex items-center gap-1.5">
+                      <AlertTriangle className="w-3.5 h-3.5" />
+                      {t.lateFiling}
+                    </p>
+                    <p className="text-white/80 text-sm">{rule.condonation[lang]}</p>
+                  </div>
+                )}
+
+                {rule.note && (
+                  <p className="text-white/60 text-sm flex gap-2">
+                    <Info className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                    {rule.note[lang]}
+                  </p>
+                )}
+
+                <p className="text-white/40 text-xs">{t.disclaimer}</p>
+              </>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -1,13 +1,43 @@
-import { useState } from 'react';
-import { Send, Mic, MicOff, HelpCircle } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { Send, Mic, MicOff, HelpCircle, Square, Gauge, Timer } from 'lucide-react';
 import { useVoiceAssistant } from '../hooks/useVoiceAssistant';
+import { useSettings } from '../contexts/SettingsContext';
 import { MicrophonePermissionGuide } from './MicrophonePermissionGuide';
 import { AnimatePresence } from 'motion/react';
+import { MAX_MESSAGE_LENGTH } from '../lib/rateLimit';
+
+// Shown above the box when sending is blocked by the plan's quota
+export interface MessageLimitNotice {
+  message: string;
+  actionLabel: string;
+  onAction: () => void;
+}
+
+// Countdown shown after the send limiter refused a message (lib/rateLimit.ts)
+export interface SendCooldownNotice {
+  until: number;
+  // Rate limits block every send; a repeated message only blocks itself
+  blocking: boolean;
+  describe: (secondsLeft: number) => string;
+}
+
+// Text added to the box from outside, e.g. a citation from the statute browser;
+// a new id inserts it again
+export interface ComposerInsert {
+  id: number;
+  text: string;
+}
 
 interface MessageInputProps {
-  onSend: (message: string) => void;
+  // Return false to keep the text in the box (the send was refused)
+  onSend: (message: string) => boolean | void;
   disabled?: boolean;
   placeholder?: string;
+  isGenerating?: boolean;
+  onStop?: () => void;
+  limitNotice?: MessageLimitNotice;
+  cooldown?: SendCooldownNotice;
+  insert?: ComposerInsert;
 }
 
 /* --- Message Input Component ---
@@ -16,6 +46,11 @@ interface MessageInputProps {
    - Voice input button with Web Speech API
    - Send button with neon gradient effect
    - Disabled state while AI is responding
+   - "Stop generating" button that cancels the in-flight AI request
+   - Quota notice with an upgrade action once the plan's messages are used up
+   - Cooldown countdown after sending too fast, and a length counter
+     near MAX_MESSAGE_LENGTH
+   - Citations inserted from the statute browser, after any draft text
 
    Voice Integration:
    - Uses Web Speech API for speech recognition
@@ -28,16 +63,41 @@ interface MessageInputProps {
    for processing through n8n workflow API
 --- Message Input End --- */
 
-export function MessageInput({ onSend, disabled, placeholder }: MessageInputProps) {
+export function MessageInput({ onSend, disabled, placeholder, isGenerating, onStop, limitNotice, cooldown, insert }: MessageInputProps) {
   const [message, setMessage] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
   const [showMicHelp, setShowMicHelp] = useState(false);
   const { isListening, startListening, stopListening, isSupported, permissionGranted } = useVoiceAssistant();
+  const { language } = useSettings();
+  const [now, setNow] = useState(Date.now());
+
+  // Tick once a second while a cooldown is running
+  useEffect(() => {
+    if (!cooldown) return;
+    setNow(Date.now());
+    const timer = window.setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= cooldown.until) window.clearInterval(timer);
+    }, 1000);
+    return () => window.clearInterval(timer);
+  }, [cooldown?.until]);
+
+  useEffect(() => {
+    if (!insert) return;
+    setMessage((prev) => (prev.trim() ? `${prev.trimEnd()} ${insert.text} ` : `${insert.text} `));
+    inputRef.current?.focus();
+  }, [insert?.id]);
+
+  const cooldownSeconds = cooldown ? Math.ceil((cooldown.until - now) / 1000) : 0;
+  const isCoolingDown = cooldownSeconds > 0 && !!cooldown?.blocking;
+  const isTooLong = message.length > MAX_MESSAGE_LENGTH;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (message.trim() && !disabled) {
-      onSend(message);
-      setMessage('');
+    if (message.trim() && !disabled && !isCoolingDown && !isTooLong) {
+      if (onSend(message) !== false) {
+        setMessage('');
+      }
     }
   };
 
@@ -54,9 +114,49 @@ export function MessageInput({ onSend, disabled, placeholder }: MessageInputProp
   return (
     <>
       <div className="fixed bottom-0 left-0 right-0 p-6 backdrop-blur-xl bg-gradient-to-t from-slate-900/80 to-transparent">
+        {isGenerating && onStop && (
+          <div className="max-w-4xl mx-auto flex justify-center mb-3">
+            <button
+              type="button"
+              onClick={onStop}
+              className="px-4 py-2 rounded-full bg-white/10 hover:bg-white/20 border border-white/20 text-white/90 text-sm flex items-center gap-2 backdrop-blur-xl transition-all"
+            >
+              <Square className="w-3.5 h-3.5 fill-current" />
+              {language === 'en' ? 'Stop generating' : 'उत्तर बनाना रोकें'}
+            </button>
+          </div>
+        )}
+        {limitNotice && (
+          <div
+            role="status"
+            className="max-w-4xl mx-auto mb-3 px-4 py-3 rounded-2xl bg-amber-500/10 border border-amber-400/30 text-amber-100 text-sm flex items-center justify-between gap-3 backdrop-blur-xl"
+          >
+            <div className="flex items-center gap-2">
+              <Gauge className="w-4 h-4 text-amber-300 flex-shrink-0" />
+              <span>{limitNotice.message}</span>
+            </div>
+            <button
+              type="button"
+              onClick={limitNotice.onAction}
+              className="flex-shrink-0 px-3 py-1.5 rounded-full bg-gradient-to-r from-amber-500 to-orange-500 text-white text-xs font-medium shadow-lg shadow-amber-500/30 hover:scale-105 transition-all"
+            >
+              {limitNotice.actionLabel}
+            </button>
+          </div>
+        )}
+        {cooldown && cooldownSeconds > 0 && (
+          <div
+            role="status"
+            className="max-w-4xl mx-auto mb-3 px-4 py-2 rounded-full bg-white/10 border border-white/20 text-white/80 text-sm flex items-center gap-2 backdrop-blur-xl w-fit"
+          >
+            <Timer className="w-4 h-4 text-cyan-300 flex-shrink-0" />
+            <span className="tabular-nums">{cooldown.describe(cooldownSeconds)}</span>
+          </div>
+        )}
         <form onSubmit={handleSubmit} className="max-w-4xl mx-auto">
           <div className="relative">
             <input
+              ref={inputRef}
               type="text"
               value={message}
               onChange={(e) => setMessage(e.target.value)}
@@ -112,12 +212,17 @@ export function MessageInput({ onSend, disabled, placeholder }: MessageInputProp
             {/* Send Button */}
             <button
               type="submit"
-              disabled={disabled || !message.trim()}
+              disabled={disabled || !message.trim() || isCoolingDown || isTooLong}
               className="absolute right-2 top-1/2 -translate-y-1/2 w-10 h-10 rounded-full bg-gradient-to-r from-cyan-500 to-teal-500 flex items-center justify-center text-white shadow-lg shadow-cyan-500/50 hover:shadow-xl hover:shadow-cyan-500/70 transition-all disabled:opacity-50 disabled:cursor-not-allowed hover:scale-105"
             >
               <Send className="w-5 h-5" />
             </button>
           </div>
+          {message.length > MAX_MESSAGE_LENGTH * 0.9 && (
+            <div className={`mt-2 px-6 text-xs text-right tabular-nums ${isTooLong ? 'text-red-300' : 'text-white/50'}`}>
+              {message.length} / {MAX_MESSAGE_LENGTH}
+            </div>
+          )}
         </form>
       </div>
 
@@ -0,0 +1,134 @@
+import { ReactNode, useMemo, useState } from 'react';
+import { BookOpen } from 'lucide-react';
+import { useSettings } from '../contexts/SettingsContext';
+import { CitationLink, findCitationLinks } from '../lib/legal/citationLinks';
+import { describeConversion, findOldCodeReferences, OldCodeReference } from '../lib/legal/codeMapping';
+import { STATUTES, statuteLabels } from '../lib/legal/statutes';
+import { findStatuteSection, StatuteRef } from '../lib/legal/statuteSearch';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from './ui/hover-card';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from './ui/sheet';
+import { StatuteSectionView } from './StatuteSectionView';
+
+interface MessageTextProps {
+  text: string;
+}
+
+/* --- Message Text ---
+   Chat message text with its legal citations linked:
+   - Citations the statute dataset knows ("Section 138 NI Act",
+     "Article 21", "धारा 420") become chips. Hovering shows the section
+     title and summary; clicking opens the full section in a side panel,
+     where links to the old or new code keep working.
+   - References to the repealed codes ("Section 420 IPC", "u/s 154 CrPC")
+     are followed by a chip with the BNS/BNSS/BSA equivalent, e.g.
+     "Section 420 IPC [now BNS 318(4)]". Notes on split or dropped
+     sections show on hover. Text that already gives both numbers is
+     left alone.
+--- */
+
+const translations = {
+  en: {
+    now: 'now',
+    readFull: 'Click to read the full section',
+    panelTitle: 'Cited law',
+    disclaimer: 'Plain-language summary for general information; refer to the official text before relying on it.',
+  },
+  hi: {
+    now: 'अब',
+    readFull: 'पूरी धारा पढ़ने के लिए क्लिक करें',
+    panelTitle: 'उद्धृत क़ानून',
+    disclaimer: 'सामान्य जानकारी के लिए सरल भाषा में सारांश; इस पर निर्भर होने से पहले आधिकारिक पाठ देखें।',
+  },
+};
+
+type Mark = { at: number; link: CitationLink } | { at: number; reference: OldCodeReference };
+
+// Citation links, and where each "now …" chip goes (after the old reference, never inside a link)
+function markText(text: string): Mark[] {
+  const links = findCitationLinks(text);
+  const marks: Mark[] = links.map((link) => ({ at: link.index, link }));
+  for (const reference of findOldCodeReferences(text)) {
+    const end = reference.index + reference.length;
+    const inside = links.find((link) => link.index < end && end < link.index + link.length);
+    marks.push({ at: inside ? inside.index + inside.length : end, reference });
+  }
+  // A "now" chip ends the reference before a link starting at the same place
+  return marks.sort((a, b) => a.at - b.at || Number('link' in a) - Number('link' in b));
+}
+
+export function MessageText({ text }: MessageTextProps) {
+  const { language } = useSettings();
+  const t = translations[language as keyof typeof translations] || translations.en;
+  const lang = language === 'hi' ? 'hi' : 'en';
+  const marks = useMemo(() => markText(text), [text]);
+  const [openRef, setOpenRef] = useState<StatuteRef | null>(null);
+  const openHit = openRef ? findStatuteSection(openRef.act, openRef.section) : null;
+
+  const citationChip = (link: CitationLink) => {
+    const hit = findStatuteSection(link.ref.act, link.ref.section);
+    if (!hit) return link.text;
+    const act = STATUTES[hit.act];
+    return (
+      <HoverCard openDelay={200}>
+        <HoverCardTrigger asChild>
+          <button
+            type="button"
+            onClick={() => setOpenRef(link.ref)}
+            className="px-1 rounded-md bg-cyan-500/10 border-b border-dashed border-cyan-300/60 text-cyan-200 hover:bg-cyan-500/20 transition-all"
+          >
+            {link.text}
+          </button>
+        </HoverCardTrigger>
+        <HoverCardContent className="w-80 bg-slate-900/95 border-white/20 text-white backdrop-blur-xl">
+          <p className="text-cyan-300 text-xs">{act.name[lang]}</p>
+          <p className="text-sm mt-1">
+            {statuteLabels(act).section[lang]} {hit.entry.number} — {hit.entry.title[lang]}
+          </p>
+          <p className="text-white/70 text-xs mt-2 line-clamp-4">{hit.entry.text[lang]}</p>
+          <p className="text-white/40 text-xs mt-3">{t.readFull}</p>
+        </HoverCardContent>
+      </HoverCard>
+    );
+  };
+
+  const nowChip = (reference: OldCodeReference) => (
+    <span
+      className="ml-1 px-1.5 py-0.5 rounded-md bg-cyan-500/15 border border-cyan-400/30 text-cyan-200 text-xs align-middle whitespace-nowrap"
+      title={reference.conversions.flatMap((conversion) => conversion.notes.map((note) => note[lang])).join('\n') || undefined}
+    >
+      {t.now} {reference.conversions.map((conversion) => describeConversion(conversion, lang)).join('; ')}
+    </span>
+  );
+
+  const nodes: ReactNode[] = [];
+  let cursor = 0;
+  marks.forEach((mark, index) => {
+    if (mark.at > cursor) nodes.push(text.slice(cursor, mark.at));
+    if ('link' in mark) {
+      nodes.push(<span key={index}>{citationChip(mark.link)}</span>);
+      cursor = mark.link.index + mark.link.length;
+    } else {
+      nodes.push(<span key={index}>{nowChip(mark.reference)}</span>);
+      cursor = Math.max(cursor, mark.at);
+    }
+  });
+  if (cursor < text.length) nodes.push(text.slice(cursor));
+
+  return (
+    <>
+      {nodes}
+      <Sheet open={!!openHit} onOpenChange={(open: boolean) => !open && setOpenRef(null)}>
+        <SheetContent side="right" className="w-full sm:max-w-md bg-slate-900/95 border-white/20 text-white backdrop-blur-xl overflow-y-auto whitespace-normal">
+          <SheetHeader className="px-6 pt-6 pb-0">
+            <SheetTitle className="text-white flex items-center gap-2">
+              <BookOpen className="w-5 h-5 text-cyan-300" />
+              {t.panelTitle}
+            </SheetTitle>
+            <SheetDescription className="text-white/40 text-xs">{t.disclaimer}</SheetDescription>
+          </SheetHeader>
+          <div className="px-6 pb-6">{openHit && <StatuteSectionView hit={openHit} onOpenSection={setOpenRef} />}</div>
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+}
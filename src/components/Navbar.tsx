@@ -1,11 +1,15 @@
-import { Brain, User, Settings, LogOut, Home, Menu, MoreVertical } from 'lucide-react';
+import { Brain, User, Settings, LogOut, Home, Menu, MoreVertical, Gauge, BookOpen, CalendarClock } from 'lucide-react';
 import { useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { useUsage } from '../contexts/UsageContext';
+import { useSettings } from '../contexts/SettingsContext';
 
 interface NavbarProps {
   onNavigateHome: () => void;
   onNavigateProfile: () => void;
   onNavigateSettings: () => void;
+  onOpenStatutes: () => void;
+  onOpenLimitation: () => void;
   onCallAI: () => void;
   onToggleSidebar?: () => void;
 }
@@ -13,8 +17,9 @@ interface NavbarProps {
 /* --- Navbar/Navigation Component ---
    Fixed top navigation bar with:
    - Logo and home button
-   - Navigation links (Home, Profile, Settings)
+   - Navigation links (Home, Profile, Settings, Statutes, Limitation calculator)
    - "Call AI" button (neon gradient with glow effect)
+   - Messages left on the user's plan (opens Profile → plans)
    - Logout button
 
    Design Features:
@@ -31,9 +36,28 @@ interface NavbarProps {
    - New toggle button for navigation on mobile
 --- Navbar End --- */
 
-export function Navbar({ onNavigateHome, onNavigateProfile, onNavigateSettings, onCallAI, onToggleSidebar }: NavbarProps) {
+export function Navbar({ onNavigateHome, onNavigateProfile, onNavigateSettings, onOpenStatutes, onOpenLimitation, onCallAI, onToggleSidebar }: NavbarProps) {
   const { logout, user } = useAuth();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const { quota } = useUsage();
+  const { language } = useSettings();
+
+  // Whichever limit is closer decides what the count refers to
+  const monthCloser = quota.monthlyLimit - quota.monthlyUsed < quota.dailyLimit - quota.dailyUsed;
+  const quotaLeft = language === 'en'
+    ? `left ${monthCloser ? 'this month' : 'today'}`
+    : `${monthCloser ? 'इस महीने' : 'आज'} शेष`;
+  const messagesLeft = language === 'en'
+    ? `messages left ${monthCloser ? 'this month' : 'today'}`
+    : `संदेश ${monthCloser ? 'इस महीने' : 'आज'} शेष`;
+  const quotaTone = quota.exhausted
+    ? 'bg-red-500/20 border-red-400/40 text-red-200'
+    : quota.remaining <= quota.dailyLimit * 0.2
+      ? 'bg-amber-500/15 border-amber-400/30 text-amber-200'
+      : 'bg-white/10 border-white/20 text-white/80';
+  const quotaTitle = language === 'en'
+    ? `${quota.dailyUsed}/${quota.dailyLimit} today · ${quota.monthlyUsed}/${quota.monthlyLimit} this month`
+    : `आज ${quota.dailyUsed}/${quota.dailyLimit} · इस महीने ${quota.monthlyUsed}/${quota.monthlyLimit}`;
 
   const handleNavClick = async (callback: () => void | Promise<void>) => {
     await callback();
@@ -77,6 +101,30 @@ export function Navbar({ onNavigateHome, onNavigateProfile, onNavigateSettings,
                 <Settings className="w-4 h-4" />
                 Settings
               </button>
+              <button
+                onClick={onOpenStatutes}
+                className="text-white/90 hover:text-white transition-colors flex items-center gap-2"
+              >
+                <BookOpen className="w-4 h-4" />
+                Statutes
+              </button>
+              <button
+                onClick={onOpenLimitation}
+                className="text-white/90 hover:text-white transition-colors flex items-center gap-2"
+              >
+                <CalendarClock className="w-4 h-4" />
+                Limitation
+              </button>
+
+              {/* Remaining Quota */}
+              <button
+                onClick={onNavigateProfile}
+                title={quotaTitle}
+                className={`px-3 py-1.5 rounded-full border text-sm flex items-center gap-1.5 transition-all hover:bg-white/20 ${quotaTone}`}
+              >
+                <Gauge className="w-4 h-4" />
+                <span className="tabular-nums">{quota.remaining}</span> {quotaLeft}
+              </button>
 
               {/* Call AI Button */}
               <button
@@ -159,6 +207,29 @@ export function Navbar({ onNavigateHome, onNavigateProfile, onNavigateSettings,
             <Settings className="w-4 h-4" />
             Settings
           </button>
+          <button
+            onClick={() => handleNavClick(onOpenStatutes)}
+            className="text-white/90 hover:text-white transition-colors flex items-center gap-2 py-2"
+          >
+            <BookOpen className="w-4 h-4" />
+            Statutes
+          </button>
+          <button
+            onClick={() => handleNavClick(onOpenLimitation)}
+            className="text-white/90 hover:text-white transition-colors flex items-center gap-2 py-2"
+          >
+            <CalendarClock className="w-4 h-4" />
+            Limitation
+          </button>
+
+          <button
+            onClick={() => handleNavClick(onNavigateProfile)}
+            title={quotaTitle}
+            className={`self-start px-3 py-1.5 rounded-full border text-sm flex items-center gap-1.5 transition-all ${quotaTone}`}
+          >
+            <Gauge className="w-4 h-4" />
+            <span className="tabular-nums">{quota.remaining}</span> {messagesLeft}
+          </button>
 
           {/* Call AI Button in Mobile Menu */}
           <button
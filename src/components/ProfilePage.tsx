@@ -17,6 +17,8 @@ import {
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useSettings } from '../contexts/SettingsContext';
+import { useUsage } from '../contexts/UsageContext';
+import { PLANS, PLAN_TIERS, PlanTier } from '../lib/billing/plans';
 import { toast } from 'sonner@2.0.3';
 
 interface ProfilePageProps {
@@ -48,6 +50,8 @@ const LAW_AVATARS = {
 export function ProfilePage({ onClose }: ProfilePageProps) {
   const { user, updateUserProfile, updatePassword } = useAuth();
   const { language } = useSettings();
+  const { quota, canChangePlan, changePlan } = useUsage();
+  const lang = language === 'hi' ? 'hi' : 'en';
   const [isEditMode, setIsEditMode] = useState(false);
   const [editSection, setEditSection] = useState<'avatar' | 'password' | null>(null);
   
@@ -73,7 +77,18 @@ export function ProfilePage({ onClose }: ProfilePageProps) {
       email: 'Email Address',
       dateOfBirth: 'Date of Birth',
       accountType: 'Account Type',
-      standard: 'Standard',
+      usageToday: 'today',
+      usageMonth: 'this month',
+      plans: 'Plans',
+      currentPlan: 'Current plan',
+      switchPlan: 'Switch',
+      free: 'Free',
+      perMonth: '/month',
+      messagesPerDay: 'messages a day',
+      messagesPerMonth: 'messages a month',
+      planChanged: 'Your plan is now',
+      planUnchanged: 'The plan could not be changed. Your plan is still',
+      devBilling: 'Development billing: plans switch instantly, no payment is taken.',
       chooseAvatar: 'Choose Your Avatar',
       uploadPhoto: 'Upload Photo',
       male: 'Male Avatars',
@@ -101,7 +116,18 @@ export function ProfilePage({ onClose }: ProfilePageProps) {
       email: 'ईमेल पता',
       dateOfBirth: 'जन्म तिथि',
       accountType: 'खाता प्रकार',
-      standard: 'मानक',
+      usageToday: 'आज',
+      usageMonth: 'इस महीने',
+      plans: 'प्लान',
+      currentPlan: 'वर्तमान प्लान',
+      switchPlan: 'बदलें',
+      free: 'निःशुल्क',
+      perMonth: '/माह',
+      messagesPerDay: 'संदेश प्रतिदिन',
+      messagesPerMonth: 'संदेश प्रति माह',
+      planChanged: 'आपका प्लान अब है',
+      planUnchanged: 'प्लान नहीं बदला जा सका। आपका प्लान अभी भी है',
+      devBilling: 'डेवलपमेंट बिलिंग: प्लान तुरंत बदलते हैं, कोई भुगतान नहीं लिया जाता।',
       chooseAvatar: 'अपना अवतार चुनें',
       uploadPhoto: 'फ़ोटो अपलोड करें',
       male: 'पुरुष अवतार',
@@ -147,6 +173,15 @@ export function ProfilePage({ onClose }: ProfilePageProps) {
     }
   };
 
+  const handleChangePlan = async (tier: PlanTier) => {
+    const current = await changePlan(tier);
+    if (current === tier) {
+      toast.success(`${t.planChanged} ${PLANS[current].name[lang]}`);
+    } else {
+      toast.error(`${t.planUnchanged} ${PLANS[current].name[lang]}`);
+    }
+  };
+
   const handlePasswordChange = async () => {
     if (newPassword !== confirmPassword) {
       toast.error(t.passwordMismatch);
@@ -363,12 +398,60 @@ export function ProfilePage({ onClose }: ProfilePageProps) {
                     </div>
                     <div className="flex-1 min-w-0">
                       <p className="text-white/50 text-sm mb-1">{t.accountType}</p>
-                      <p className="text-white">{user?.accountType || t.standard}</p>
+                      <p className="text-white">{PLANS[quota.plan].name[lang]}</p>
+                      <p className="text-white/50 text-xs mt-1 tabular-nums">
+                        {quota.dailyUsed}/{quota.dailyLimit} {t.usageToday} · {quota.monthlyUsed}/{quota.monthlyLimit} {t.usageMonth}
+                      </p>
                     </div>
                   </div>
                 </motion.div>
               </div>
 
+              {/* Plans (src/lib/billing) */}
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.55 }}
+                className="mb-8"
+              >
+                <h3 className="text-white mb-3">{t.plans}</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  {PLAN_TIERS.map((tier) => {
+                    const plan = PLANS[tier];
+                    const isCurrent = tier === quota.plan;
+                    return (
+                      <div
+                        key={tier}
+                        className={`rounded-2xl p-4 border backdrop-blur-xl ${
+                          isCurrent ? 'bg-cyan-500/10 border-cyan-400/40' : 'bg-white/5 border-white/10'
+                        }`}
+                      >
+                        <div className="text-white">{plan.name[lang]}</div>
+                        <div className="text-white/70 text-sm mb-2">
+                          {plan.priceInr === 0 ? t.free : `₹${plan.priceInr}${t.perMonth}`}
+                        </div>
+                        <div className="text-white/50 text-xs">{plan.dailyLimit} {t.messagesPerDay}</div>
+                        <div className="text-white/50 text-xs mb-3">{plan.monthlyLimit} {t.messagesPerMonth}</div>
+                        {isCurrent ? (
+                          <div className="text-cyan-300 text-xs flex items-center gap-1">
+                            <Check className="w-3.5 h-3.5" />
+                            {t.currentPlan}
+                          </div>
+                        ) : canChangePlan ? (
+                          <button
+                            onClick={() => handleChangePlan(tier)}
+                            className="px-3 py-1.5 rounded-lg bg-white/10 border border-white/20 text-white/90 text-xs hover:bg-white/20 transition-all"
+                          >
+                            {t.switchPlan}
+                          </button>
+                        ) : null}
+                      </div>
+                    );
+                  })}
+                </div>
+                {canChangePlan && <p className="text-white/40 text-xs mt-2">{t.devBilling}</p>}
+              </motion.div>
+
               {/* Action Buttons */}
               <motion.div
                 initial={{ opacity: 0, y: 20 }}
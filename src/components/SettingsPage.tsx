@@ -1,7 +1,10 @@
 import { useState } from 'react';
 import { motion } from 'motion/react';
-import { X, Globe, Mic, Brain, Palette, Bell, Trash2, HelpCircle, Check, AlertCircle } from 'lucide-react';
-import { useSettings, Theme, AIMode } from '../contexts/SettingsContext';
+import { X, Globe, Mic, Brain, Palette, Bell, Trash2, HelpCircle, Check, AlertCircle, Server, ShieldCheck, MapPin } from 'lucide-react';
+import { useSettings, Theme, AIMode, AIProviderSetting } from '../contexts/SettingsContext';
+import { RedactionLevel } from '../lib/ai/redaction';
+import { ALL_INDIA } from '../lib/legal/jurisdictions';
+import { JurisdictionPicker } from './JurisdictionPicker';
 import { Switch } from './ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { toast } from 'sonner@2.0.3';
@@ -25,10 +28,19 @@ export function SettingsPage({ onClose }: SettingsPageProps) {
     setTheme,
     notificationTone,
     setNotificationTone,
+    aiProvider,
+    setAIProvider,
+    aiEndpoint,
+    setAIEndpoint,
+    redactionLevel,
+    setRedactionLevel,
+    jurisdiction,
+    setJurisdiction,
     clearChatHistory,
   } = useSettings();
 
   const [showMicHelp, setShowMicHelp] = useState(false);
+  const [endpointDraft, setEndpointDraft] = useState(aiEndpoint);
   const { permissionGranted, requestMicrophonePermission } = useVoiceAssistant();
   const [isTestingMic, setIsTestingMic] = useState(false);
 
@@ -216,6 +228,81 @@ export function SettingsPage({ onClose }: SettingsPageProps) {
             </div>
           </div>
 
+          {/* AI Backend */}
+          <div className="backdrop-blur-xl bg-white/5 border border-white/10 rounded-2xl p-5">
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-indigo-500 to-purple-500 flex items-center justify-center">
+                  <Server className="w-5 h-5 text-white" />
+                </div>
+                <div>
+                  <h3 className="text-white">AI Backend</h3>
+                  <p className="text-white/50 text-sm">Where chat messages are answered</p>
+                </div>
+              </div>
+              <Select value={aiProvider} onValueChange={(value: string) => setAIProvider(value as AIProviderSetting)}>
+                <SelectTrigger className="w-[160px] bg-white/10 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Default</SelectItem>
+                  <SelectItem value="n8n">n8n Webhook</SelectItem>
+                  <SelectItem value="openai">OpenAI-compatible</SelectItem>
+                  <SelectItem value="mock">Offline Mock</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {(aiProvider === 'n8n' || aiProvider === 'openai') && (
+              <input
+                type="url"
+                value={endpointDraft}
+                onChange={(e) => setEndpointDraft(e.target.value)}
+                onBlur={() => setAIEndpoint(endpointDraft.trim())}
+                placeholder={aiProvider === 'n8n' ? 'Webhook URL (leave empty for default)' : 'Base URL, e.g. http://localhost:11434/v1'}
+                className="w-full px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white text-sm placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
+              />
+            )}
+          </div>
+
+          {/* Privacy: PII redaction (src/lib/ai/redaction.ts) */}
+          <div className="backdrop-blur-xl bg-white/5 border border-white/10 rounded-2xl p-5">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-emerald-500 to-teal-500 flex items-center justify-center">
+                  <ShieldCheck className="w-5 h-5 text-white" />
+                </div>
+                <div>
+                  <h3 className="text-white">Hide Personal Details</h3>
+                  <p className="text-white/50 text-sm">Aadhaar, PAN, phone, bank and address details are replaced before messages reach the AI backend</p>
+                </div>
+              </div>
+              <Select value={redactionLevel} onValueChange={(value: string) => setRedactionLevel(value as RedactionLevel)}>
+                <SelectTrigger className="w-[160px] bg-white/10 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">Off</SelectItem>
+                  <SelectItem value="standard">Standard</SelectItem>
+                  <SelectItem value="strict">Strict</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Jurisdiction (src/lib/legal/jurisdictions.ts) */}
+          <div className="backdrop-blur-xl bg-white/5 border border-white/10 rounded-2xl p-5">
+            <div className="flex items-center gap-3 mb-4">
+              <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-sky-500 to-indigo-500 flex items-center justify-center">
+                <MapPin className="w-5 h-5 text-white" />
+              </div>
+              <div>
+                <h3 className="text-white">Jurisdiction</h3>
+                <p className="text-white/50 text-sm">Default state for answers; each chat can override it from its header</p>
+              </div>
+            </div>
+            <JurisdictionPicker value={jurisdiction ?? ALL_INDIA} onChange={setJurisdiction} />
+          </div>
+
           {/* Theme Customization */}
           <div className="backdrop-blur-xl bg-white/5 border border-white/10 rounded-2xl p-5">
             <div className="flex items-center gap-3 mb-4">
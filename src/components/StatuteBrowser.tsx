@@ -0,0 +1,296 @@
+import { useState } from 'react';
+import { motion } from 'motion/react';
+import { X, BookOpen, Search, ChevronLeft, Quote, ArrowRightLeft } from 'lucide-react';
+import { useSettings } from '../contexts/SettingsContext';
+import { CONVERSION_KIND_LABELS, convertSection, getPairedCode, hasCodeMapping } from '../lib/legal/codeMapping';
+import { STATUTES, STATUTE_ACT_IDS, StatuteActId, statuteLabels } from '../lib/legal/statutes';
+import { findStatuteSection, formatStatuteCitation, searchStatutes, StatuteRef } from '../lib/legal/statuteSearch';
+import { ConversionNotes, SectionLinks, StatuteSectionView } from './StatuteSectionView';
+
+interface StatuteBrowserProps {
+  // Section to open first, e.g. from a citation in a chat answer
+  initialRef?: StatuteRef;
+  onClose: () => void;
+  // Adds the formatted citation to the message box
+  onCite: (citation: string) => void;
+}
+
+/* --- Statute Browser ---
+   Offline lookup of sections of the BNS/IPC, BNSS/CrPC, the evidence
+   laws, the NI Act and the Constitution (lib/legal/statutes.ts), for "tell me about Section X" questions
+   that do not need the AI:
+   - Act tabs, with each act's chapters and sections
+   - Search across all acts by number ("420 IPC", "धारा 103") or words
+   - Section detail: summary, explanation, punishment and the matching
+     section in the old or new code
+   - Convert: old ↔ new section numbers (lib/legal/codeMapping.ts),
+     including sections that were split, merged or dropped
+   - "Cite in chat" puts the citation into the message box
+
+   Mobile: list and detail are shown one at a time.
+--- */
+
+const translations = {
+  en: {
+    title: 'Statute Browser',
+    search: 'Search by section or topic, e.g. "420 IPC" or "anticipatory bail"',
+    noResults: 'No sections match your search.',
+    results: 'Results',
+    cite: 'Cite in chat',
+    back: 'Back',
+    pickSection: 'Choose a section to read it.',
+    disclaimer: 'Plain-language summary for general information; refer to the official text before relying on it.',
+    browse: 'Browse',
+    convert: 'Convert',
+    convertFrom: 'From',
+    convertSection: 'Section number, e.g. 420 or 498A',
+    notMapped: 'This section is not in the conversion table.',
+  },
+  hi: {
+    title: 'क़ानून पुस्तिका',
+    search: 'धारा या विषय से खोजें, जैसे "420 IPC" या "अग्रिम ज़मानत"',
+    noResults: 'आपकी खोज से कोई धारा मेल नहीं खाती।',
+    results: 'परिणाम',
+    cite: 'चैट में उद्धृत करें',
+    back: 'वापस',
+    pickSection: 'पढ़ने के लिए कोई धारा चुनें।',
+    disclaimer: 'सामान्य जानकारी के लिए सरल भाषा में सारांश; इस पर निर्भर होने से पहले आधिकारिक पाठ देखें।',
+    browse: 'ब्राउज़ करें',
+    convert: 'बदलें',
+    convertFrom: 'से',
+    convertSection: 'धारा संख्या, जैसे 420 या 498A',
+    notMapped: 'यह धारा रूपांतरण तालिका में नहीं है।',
+  },
+};
+
+export function StatuteBrowser({ initialRef, onClose, onCite }: StatuteBrowserProps) {
+  const { language } = useSettings();
+  const t = translations[language as keyof typeof translations] || translations.en;
+  const lang = language === 'hi' ? 'hi' : 'en';
+
+  const [actId, setActId] = useState<StatuteActId>(initialRef?.act ?? 'BNS');
+  const [query, setQuery] = useState('');
+  const [mode, setMode] = useState<'browse' | 'convert'>('browse');
+  const [convertFrom, setConvertFrom] = useState<StatuteActId>('IPC');
+  const [convertInput, setConvertInput] = useState('');
+  const [selected, setSelected] = useState<StatuteRef | null>(
+    initialRef && findStatuteSection(initialRef.act, initialRef.section) ? initialRef : null
+  );
+
+  const act = STATUTES[actId];
+  const results = query.trim() ? searchStatutes(query) : null;
+  const current = selected ? findStatuteSection(selected.act, selected.section) : null;
+  const conversion = convertInput.trim() ? convertSection(convertFrom, convertInput.trim()) : null;
+
+  const openSection = (ref: StatuteRef) => {
+    setActId(ref.act);
+    setSelected(ref);
+  };
+
+  const sectionButton = (ref: StatuteRef, title: string, showAct: boolean) => {
+    const isActive = selected?.act === ref.act && selected.section === ref.section;
+    return (
+      <button
+        key={`${ref.act}-${ref.section}`}
+        onClick={() => openSection(ref)}
+        className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-all flex gap-2 ${
+          isActive ? 'bg-cyan-500/20 text-white border border-cyan-400/30' : 'text-white/70 hover:text-white hover:bg-white/5 border border-transparent'
+        }`}
+      >
+        <span className="flex-shrink-0 tabular-nums text-cyan-300">
+          {showAct && `${STATUTES[ref.act].shortName[lang]} `}
+          {ref.section}
+        </span>
+        <span className="truncate">{title}</span>
+      </button>
+    );
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 md:p-6"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-5xl bg-gradient-to-br from-slate-900/95 to-slate-800/95 backdrop-blur-xl border border-white/20 rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]"
+      >
+        {/* Header */}
+        <div className="bg-gradient-to-r from-cyan-500/20 to-teal-500/20 border-b border-white/10 p-5 flex items-center justify-between gap-4">
+          <h2 className="text-xl text-white flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-cyan-500 to-teal-500 flex items-center justify-center">
+              <BookOpen className="w-5 h-5 text-white" />
+            </div>
+            {t.title}
+          </h2>
+          <button
+            onClick={onClose}
+            className="w-10 h-10 rounded-xl bg-white/10 hover:bg-white/20 flex items-center justify-center text-white/70 hover:text-white transition-all"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Acts, search and section list */}
+          <div className={`${current ? 'hidden md:flex' : 'flex'} w-full md:w-80 flex-shrink-0 flex-col border-r border-white/10 min-h-0`}>
+            <div className="p-4 space-y-3 border-b border-white/10">
+              <div className="flex rounded-xl bg-white/5 border border-white/10 p-1">
+                {(['browse', 'convert'] as const).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setMode(option)}
+                    className={`flex-1 py-1.5 rounded-lg text-xs flex items-center justify-center gap-1.5 transition-all ${
+                      mode === option ? 'bg-white/15 text-white' : 'text-white/50 hover:text-white'
+                    }`}
+                  >
+                    {option === 'browse' ? <BookOpen className="w-3.5 h-3.5" /> : <ArrowRightLeft className="w-3.5 h-3.5" />}
+                    {t[option]}
+                  </button>
+                ))}
+              </div>
+              {mode === 'browse' ? (
+              <>
+              <div className="relative">
+                <Search className="w-4 h-4 text-white/40 absolute left-3 top-1/2 -translate-y-1/2" />
+                <input
+                  type="search"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder={t.search}
+                  className="w-full pl-9 pr-3 py-2 rounded-xl bg-white/10 border border-white/20 text-white text-sm placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
+                />
+              </div>
+              {!results && (
+                <div className="flex flex-wrap gap-1.5">
+                  {STATUTE_ACT_IDS.map((id) => (
+                    <button
+                      key={id}
+                      onClick={() => setActId(id)}
+                      className={`px-2.5 py-1 rounded-full text-xs border transition-all ${
+                        id === actId
+                          ? 'bg-gradient-to-r from-cyan-500 to-teal-500 border-transparent text-white'
+                          : 'bg-white/5 border-white/10 text-white/60 hover:text-white'
+                      }`}
+                    >
+                      {STATUTES[id].shortName[lang]}
+                    </button>
+                  ))}
+                </div>
+              )}
+              </>
+              ) : (
+                <div className="flex gap-2">
+                  <select
+                    value={convertFrom}
+                    onChange={(e) => setConvertFrom(e.target.value as StatuteActId)}
+                    aria-label={t.convertFrom}
+                    className="px-2 py-2 rounded-xl bg-white/10 border border-white/20 text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
+                  >
+                    {STATUTE_ACT_IDS.filter(hasCodeMapping).map((id) => (
+                      <option key={id} value={id} className="bg-slate-800">
+                        {STATUTES[id].shortName[lang]} → {STATUTES[getPairedCode(id)].shortName[lang]}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="search"
+                    value={convertInput}
+                    onChange={(e) => setConvertInput(e.target.value)}
+                    placeholder={t.convertSection}
+                    className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-white/10 border border-white/20 text-white text-sm placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-3 space-y-4 scrollbar-thin scrollbar-track-transparent scrollbar-thumb-white/10">
+              {mode === 'convert' ? (
+                convertInput.trim() &&
+                (conversion ? (
+                  <div className="rounded-2xl bg-white/5 border border-white/10 p-4 space-y-3">
+                    <p className="text-white text-sm">
+                      {STATUTES[convertFrom].shortName[lang]} {conversion.from.section}
+                      <span className="text-white/40"> · {CONVERSION_KIND_LABELS[conversion.kind][lang]}</span>
+                    </p>
+                    {conversion.targets.length > 0 && (
+                      <div className="flex flex-wrap items-center gap-2">
+                        <ArrowRightLeft className="w-4 h-4 text-white/50" />
+                        <SectionLinks act={conversion.toAct} sections={conversion.targets} onOpenSection={openSection} />
+                      </div>
+                    )}
+                    <ConversionNotes conversion={conversion} />
+                  </div>
+                ) : (
+                  <p className="text-white/40 text-sm px-3">{t.notMapped}</p>
+                ))
+              ) : results ? (
+                <div className="space-y-1">
+                  <p className="text-white/50 text-xs px-3 mb-1">{t.results}</p>
+                  {results.length === 0 ? (
+                    <p className="text-white/40 text-sm px-3">{t.noResults}</p>
+                  ) : (
+                    results.map((hit) => sectionButton(hit, hit.entry.title[lang], true))
+                  )}
+                </div>
+              ) : (
+                <>
+                  <p className="text-white/60 text-xs px-3">{act.name[lang]}</p>
+                  {act.chapters.map((chapter) => (
+                    <div key={chapter.number} className="space-y-1">
+                      <p className="text-white/40 text-xs uppercase tracking-wide px-3">
+                        {statuteLabels(act).chapter[lang]} {chapter.number} · {chapter.title[lang]}
+                      </p>
+                      {chapter.sections.map((section) =>
+                        sectionButton({ act: actId, section: section.number }, section.title[lang], false)
+                      )}
+                    </div>
+                  ))}
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* Section detail */}
+          <div className={`${current ? 'flex' : 'hidden md:flex'} flex-1 flex-col min-h-0`}>
+            {current ? (
+              <div className="flex-1 overflow-y-auto p-6 space-y-5">
+                <button
+                  onClick={() => setSelected(null)}
+                  className="md:hidden text-white/60 hover:text-white text-sm flex items-center gap-1"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                  {t.back}
+                </button>
+
+                <StatuteSectionView hit={current} onOpenSection={openSection} />
+
+                <div className="pt-2 flex flex-col sm:flex-row sm:items-center gap-3 justify-between">
+                  <p className="text-white/40 text-xs">{t.disclaimer}</p>
+                  <button
+                    onClick={() => onCite(formatStatuteCitation(STATUTES[current.act], current.entry, lang))}
+                    className="flex-shrink-0 px-4 py-2 rounded-full bg-gradient-to-r from-cyan-500 to-teal-500 text-white text-sm font-medium shadow-lg shadow-cyan-500/30 hover:scale-105 transition-all flex items-center gap-2"
+                  >
+                    <Quote className="w-4 h-4" />
+                    {t.cite}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex-1 flex flex-col items-center justify-center p-6 text-center">
+                <BookOpen className="w-12 h-12 text-white/20 mb-3" />
+                <p className="text-white/50 text-sm">{t.pickSection}</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
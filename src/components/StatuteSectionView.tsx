@@ -0,0 +1,137 @@
+import { Gavel, Info, ArrowRightLeft } from 'lucide-react';
+import { useSettings } from '../contexts/SettingsContext';
+import { CONVERSION_KIND_LABELS, convertSection, SectionConversion } from '../lib/legal/codeMapping';
+import { STATUTES, StatuteActId, statuteLabels } from '../lib/legal/statutes';
+import { findStatuteSection, StatuteHit, StatuteRef } from '../lib/legal/statuteSearch';
+
+interface StatuteSectionViewProps {
+  hit: StatuteHit;
+  // Opens a linked section (the same provision in the old or new code)
+  onOpenSection: (ref: StatuteRef) => void;
+}
+
+/* --- Statute Section View ---
+   One section of the bundled statutes: act and chapter, title, summary,
+   explanation, punishment, and the matching section in the old or new
+   code. Shared by the statute browser and the side panel that opens from
+   citation links in chat messages.
+--- */
+
+const translations = {
+  en: {
+    repealed: 'Repealed from 1 July 2024; still applies to offences committed before that date.',
+    explanation: 'Explanation',
+    punishment: 'Punishment',
+    replacedBy: 'Now',
+    formerly: 'Formerly',
+  },
+  hi: {
+    repealed: '1 जुलाई 2024 से निरस्त; उस तारीख से पहले किए गए अपराधों पर अब भी लागू।',
+    explanation: 'स्पष्टीकरण',
+    punishment: 'दंड',
+    replacedBy: 'अब',
+    formerly: 'पहले',
+  },
+};
+
+// Sections of another act, linked when the dataset has them
+export function SectionLinks({ act, sections, onOpenSection }: { act: StatuteActId; sections: string[]; onOpenSection: (ref: StatuteRef) => void }) {
+  const { language } = useSettings();
+  const lang = language === 'hi' ? 'hi' : 'en';
+
+  return (
+    <>
+      {sections.map((section) =>
+        findStatuteSection(act, section) ? (
+          <button
+            key={section}
+            onClick={() => onOpenSection({ act, section })}
+            className="px-2.5 py-1 rounded-full bg-white/10 hover:bg-white/20 border border-white/20 text-white/90 text-xs transition-all"
+          >
+            {STATUTES[act].shortName[lang]} {section}
+          </button>
+        ) : (
+          <span key={section} className="px-2.5 py-1 rounded-full border border-white/10 text-white/50 text-xs">
+            {STATUTES[act].shortName[lang]} {section}
+          </span>
+        )
+      )}
+    </>
+  );
+}
+
+export function ConversionNotes({ conversion }: { conversion: SectionConversion }) {
+  const { language } = useSettings();
+  const lang = language === 'hi' ? 'hi' : 'en';
+
+  return (
+    <>
+      {conversion.notes.map((note) => (
+        <p key={note.en} className="text-white/60 text-xs">
+          {note[lang]}
+        </p>
+      ))}
+    </>
+  );
+}
+
+export function StatuteSectionView({ hit, onOpenSection }: StatuteSectionViewProps) {
+  const { language } = useSettings();
+  const t = translations[language as keyof typeof translations] || translations.en;
+  const lang = language === 'hi' ? 'hi' : 'en';
+
+  const act = STATUTES[hit.act];
+  const labels = statuteLabels(act);
+  const counterparts = convertSection(hit.act, hit.entry.number);
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <p className="text-cyan-300 text-sm">
+          {act.name[lang]} · {labels.chapter[lang]} {hit.chapter.number}
+        </p>
+        <h3 className="text-white text-2xl mt-1">
+          {labels.section[lang]} {hit.entry.number} — {hit.entry.title[lang]}
+        </h3>
+        {!act.inForce && <p className="mt-2 text-amber-200/90 text-xs">{t.repealed}</p>}
+      </div>
+
+      <p className="text-white/85 leading-relaxed">{hit.entry.text[lang]}</p>
+
+      {hit.entry.explanation && (
+        <div className="rounded-2xl bg-white/5 border border-white/10 p-4">
+          <p className="text-white/60 text-xs mb-1 flex items-center gap-1.5">
+            <Info className="w-3.5 h-3.5" />
+            {t.explanation}
+          </p>
+          <p className="text-white/80 text-sm">{hit.entry.explanation[lang]}</p>
+        </div>
+      )}
+
+      {hit.entry.punishment && (
+        <div className="rounded-2xl bg-red-500/10 border border-red-400/20 p-4">
+          <p className="text-red-200/80 text-xs mb-1 flex items-center gap-1.5">
+            <Gavel className="w-3.5 h-3.5" />
+            {t.punishment}
+          </p>
+          <p className="text-white/85 text-sm">{hit.entry.punishment[lang]}</p>
+        </div>
+      )}
+
+      {counterparts && (
+        <div className="space-y-1.5">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <ArrowRightLeft className="w-4 h-4 text-white/50" />
+            <span className="text-white/50">{act.inForce ? t.formerly : t.replacedBy}:</span>
+            {counterparts.targets.length > 0 ? (
+              <SectionLinks act={counterparts.toAct} sections={counterparts.targets} onOpenSection={onOpenSection} />
+            ) : (
+              <span className="text-white/60 text-xs">{CONVERSION_KIND_LABELS[counterparts.kind][lang]}</span>
+            )}
+          </div>
+          <ConversionNotes conversion={counterparts} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { supabase } from '../lib/supabase';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
 
 interface User {
   email: string;
@@ -21,19 +21,12 @@ interface AuthContextType {
   resetPassword: (email: string) => Promise<{ success: boolean; message?: string }>;
   updatePasswordWithToken: (newPassword: string) => Promise<{ success: boolean; message?: string }>;
   resendVerificationEmail: () => Promise<{ success: boolean; message?: string }>;
+  getAccessToken: () => Promise<string | null>;
   loading: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-// Check if Supabase is properly configured
-const isSupabaseConfigured = () => {
-  return import.meta.env.VITE_SUPABASE_URL && 
-         import.meta.env.VITE_SUPABASE_ANON_KEY &&
-         import.meta.env.VITE_SUPABASE_URL !== 'https://placeholder.supabase.co' &&
-         import.meta.env.VITE_SUPABASE_ANON_KEY !== 'placeholder-key';
-};
-
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
@@ -388,6 +381,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Current Supabase access token (refreshed by the client if expired); null in demo mode
+  const getAccessToken = async (): Promise<string | null> => {
+    if (!useSupabase) return null;
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      return session?.access_token ?? null;
+    } catch (error) {
+      console.error('Get session error:', error);
+      return null;
+    }
+  };
+
   return (
     <AuthContext.Provider
       value={{
@@ -401,6 +406,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         resetPassword,
         updatePasswordWithToken,
         resendVerificationEmail,
+        getAccessToken,
         loading,
       }}
     >
@@ -1,5 +1,13 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
 import { useAuth } from './AuthContext';
+import { useSettings } from './SettingsContext';
+import { LawCitation } from '../lib/ai/schema';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { FeedbackSubject, MessageFeedback, saveFeedbackToSupabase } from '../lib/feedback';
+import type { IntakeStage } from '../lib/legal/intake';
+import type { CrisisCategory } from '../lib/legal/crisis';
+import { formatJurisdiction, Jurisdiction } from '../lib/legal/jurisdictions';
+import { clearResponseCache } from '../lib/ai/cache';
 
 /* --- Chat Storage Start ---
    Each message is stored as:
@@ -8,8 +16,37 @@ import { useAuth } from './AuthContext';
      sender: "user" | "ai", 
      text: string, 
      timestamp: ISO string,
-     relevance?: number
+     relevance?: number,
+     status?: "streaming" | "error" | "pending",
+     error?: string,
+     schemaVersion?: number,
+     citations?: { act, section?, title?, relevance? }[],
+     confidence?: number (0–1),
+     suggestions?: string[],
+     intakeStage?: IntakeStage,
+     cachedAt?: ISO string (answer reused from the response cache),
+     feedback?: { rating: "up" | "down", reasons?, comment?, createdAt },
+     variants?: MessageVariant[],
+     activeVariant?: number,
+     parentId?: string | null
    }
+
+   The structured fields come from backends that return the versioned
+   response schema (src/lib/ai/schema.ts). The consultation intake state
+   is not stored; it is replayed from the messages (src/lib/legal/intake.ts).
+
+   A message with status "streaming" is still being written by the AI.
+   It is shown in the UI but only persisted once the stream ends.
+   A message with status "error" is a failed AI reply (possibly with a
+   partial answer) that the user can retry; it is left out of exports.
+   A user message with status "pending" was sent offline and is waiting
+   in the outbox (src/lib/outbox.ts) for the network to return.
+
+   Regenerated AI replies keep every answer in `variants`. The message's
+   own text/citations/... always mirror variants[activeVariant], so the
+   selected answer is what history, exports and the UI read.
+   Feedback (thumbs up/down, src/lib/feedback.ts) belongs to the answer,
+   so each variant keeps its own.
    
    Each conversation is stored as:
    {
@@ -17,20 +54,107 @@ import { useAuth } from './AuthContext';
      userId: string (user email),
      title: string (first user message or "New Chat"),
      messages: Message[],
+     branchMessages?: Message[],
+     crisis?: { categories, detectedAt, dismissed? },
+     jurisdiction?: { country, state?, district? },
      createdAt: ISO string,
      updatedAt: ISO string
    }
+
+   Branching: messages form a tree through parentId (null for the first
+   message; older chats without it are read as a straight line).
+   Editing a sent user message adds a sibling with the same parent and
+   makes it the active branch. `messages` is always the active branch,
+   root to leaf, and is what the UI, history, exports and Supabase sync
+   use; every other branch lives in branchMessages until the user
+   switches back to it.
    
+   `crisis` is set when a message describes an emergency (violence,
+   threats, an arrest, self-harm; src/lib/legal/crisis.ts). The helpline
+   panel stays up until dismissed and comes back on the next emergency.
+
+   `jurisdiction` overrides the default from Settings for this chat only
+   (src/lib/legal/jurisdictions.ts); without it the default applies.
+
    Stored in localStorage under key: "jurisly_chats_<userEmail>"
-   Later upgrade to database via n8n webhook for persistence across devices
+   With Supabase configured, the active branch of each conversation is
+   also synced to the conversation_branches table
+   (supabase_conversation_branches.sql).
 --- Chat Storage End --- */
 
+const SUPABASE_SYNC_DELAY_MS = 2000;
+
+// Remove synced copies of deleted conversations (all of the user's when ids is omitted)
+async function deleteSyncedConversations(ids?: string[]) {
+  if (!isSupabaseConfigured()) return;
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return;
+
+  let query = supabase.from('conversation_branches').delete().eq('user_id', session.user.id);
+  if (ids) {
+    query = query.in('conversation_id', ids);
+  }
+  const { error } = await query;
+  if (error) {
+    console.error('Error deleting synced conversations:', error.message);
+  }
+}
+
+export type MessageStatus = 'streaming' | 'error' | 'pending';
+
+// One generated answer to the same question (see Regenerate in ChatPage)
+export interface MessageVariant {
+  text: string;
+  timestamp: string;
+  relevance?: number;
+  schemaVersion?: number;
+  citations?: LawCitation[];
+  confidence?: number;
+  suggestions?: string[];
+  intakeStage?: IntakeStage;
+  cachedAt?: string;
+  feedback?: MessageFeedback;
+}
+
 export interface ChatMessage {
   id: string;
   sender: 'user' | 'ai';
   text: string;
   timestamp: string;
   relevance?: number;
+  status?: MessageStatus;
+  error?: string;
+  schemaVersion?: number;
+  citations?: LawCitation[];
+  confidence?: number;
+  suggestions?: string[];
+  intakeStage?: IntakeStage;
+  cachedAt?: string;
+  feedback?: MessageFeedback;
+  variants?: MessageVariant[];
+  activeVariant?: number;
+  parentId?: string | null;
+}
+
+export function toMessageVariant(msg: ChatMessage | MessageVariant): MessageVariant {
+  return {
+    text: msg.text,
+    timestamp: msg.timestamp,
+    relevance: msg.relevance,
+    schemaVersion: msg.schemaVersion,
+    citations: msg.citations,
+    confidence: msg.confidence,
+    suggestions: msg.suggestions,
+    intakeStage: msg.intakeStage,
+    cachedAt: msg.cachedAt,
+    feedback: msg.feedback,
+  };
+}
+
+export interface CrisisAlert {
+  categories: CrisisCategory[];
+  detectedAt: string;
+  dismissed?: boolean;
 }
 
 export interface Conversation {
@@ -38,17 +162,64 @@ export interface Conversation {
   userId: string;
   title: string;
   messages: ChatMessage[];
+  branchMessages?: ChatMessage[];
+  crisis?: CrisisAlert;
+  jurisdiction?: Jurisdiction;
   createdAt: string;
   updatedAt: string;
 }
 
+/* --- Conversation Tree Helpers --- */
+
+// Give every message on the active branch an explicit parentId
+function linkActiveBranch(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map((msg, index) =>
+    msg.parentId !== undefined ? msg : { ...msg, parentId: index > 0 ? messages[index - 1].id : null }
+  );
+}
+
+// Messages that answer the same parent (alternative edits of one question), oldest first
+export function getBranchSiblings(conversation: Conversation, messageId: string): ChatMessage[] {
+  const messages = linkActiveBranch(conversation.messages);
+  const message = messages.find((msg) => msg.id === messageId);
+  if (!message) return [];
+
+  return [...messages, ...(conversation.branchMessages ?? [])]
+    .filter((msg) => msg.parentId === message.parentId && msg.sender === message.sender)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+// Follow a branch down from `start`, taking the newest child at each fork
+function collectBranch(start: ChatMessage, pool: ChatMessage[]): ChatMessage[] {
+  const branch = [start];
+  for (;;) {
+    const last = branch[branch.length - 1];
+    const children = pool
+      .filter((msg) => msg.parentId === last.id)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    if (children.length === 0) return branch;
+    branch.push(children[0]);
+  }
+}
+
 interface ChatContextType {
   conversations: Conversation[];
   currentConversationId: string | null;
   currentConversation: Conversation | null;
   createNewChat: () => void;
   switchConversation: (conversationId: string) => void;
-  addMessage: (message: ChatMessage) => void;
+  addMessage: (message: ChatMessage, conversationId?: string, afterMessageId?: string) => void;
+  updateMessage: (messageId: string, updates: Partial<ChatMessage>, conversationId?: string) => void;
+  removeMessage: (messageId: string, conversationId?: string) => void;
+  selectVariant: (messageId: string, variantIndex: number, conversationId?: string) => void;
+  editMessage: (messageId: string, text: string, conversationId?: string) => { message: ChatMessage; priorMessages: ChatMessage[] } | null;
+  switchBranch: (messageId: string, siblingId: string, conversationId?: string) => void;
+  setMessageFeedback: (messageId: string, feedback: MessageFeedback | null, conversationId?: string) => FeedbackSubject | null;
+  flagCrisis: (categories: CrisisCategory[], conversationId?: string) => void;
+  dismissCrisis: (conversationId?: string) => void;
+  // Jurisdiction answers are scoped to: the conversation's override, else the default from Settings
+  getConversationJurisdiction: (conversation: Conversation | null) => Jurisdiction | null;
+  setConversationJurisdiction: (jurisdiction: Jurisdiction | null, conversationId?: string) => void;
   clearAllChats: () => void;
   deleteConversation: (conversationId: string) => void;
   exportConversation: (conversationId: string, format: 'txt' | 'pdf') => void;
@@ -164,8 +335,39 @@ function generatePDFFromContent(textContent: string, filename: string) {
   }, 100);
 }
 
+/* --- Export Formatting ---
+   Shared by single-conversation and all-chats exports
+--- */
+function formatMessageForExport(msg: ChatMessage): string {
+  const sender = msg.sender === 'user' ? 'You' : 'Jurisly AI';
+  const time = new Date(msg.timestamp).toLocaleTimeString();
+  let content = `[${time}] ${sender}:\n${msg.text}\n\n`;
+
+  if (msg.citations && msg.citations.length > 0) {
+    content += `Cited Laws:\n`;
+    msg.citations.forEach((citation) => {
+      const section = citation.section ? `Section ${citation.section}, ` : '';
+      const relevance = citation.relevance !== undefined ? ` (${citation.relevance}% relevant)` : '';
+      content += `• ${section}${citation.act}${citation.title ? ` – ${citation.title}` : ''}${relevance}\n`;
+    });
+    content += `\n`;
+  }
+
+  if (msg.relevance) {
+    content += `Relevance Score: ${msg.relevance}%\n\n`;
+  }
+
+  if (msg.confidence !== undefined) {
+    content += `Confidence: ${Math.round(msg.confidence * 100)}%\n\n`;
+  }
+
+  content += `${'-'.repeat(60)}\n\n`;
+  return content;
+}
+
 export function ChatProvider({ children }: { children: ReactNode }) {
   const { user } = useAuth();
+  const { jurisdiction: defaultJurisdiction } = useSettings();
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
 
@@ -200,10 +402,67 @@ export function ChatProvider({ children }: { children: ReactNode }) {
   useEffect(() => {
     if (user?.email && conversations.length > 0) {
       const storageKey = `jurisly_chats_${user.email}`;
-      localStorage.setItem(storageKey, JSON.stringify(conversations));
+      // In-progress streamed replies are saved once they are finalized;
+      // a reply being regenerated is saved as its selected earlier answer
+      const persisted = conversations.map((conv) => ({
+        ...conv,
+        messages: conv.messages
+          .filter((msg) => msg.status !== 'streaming' || msg.variants)
+          .map((msg) =>
+            msg.status === 'streaming' && msg.variants
+              ? { ...msg, ...toMessageVariant(msg.variants[msg.activeVariant ?? 0]), status: undefined }
+              : msg
+          ),
+      }));
+      localStorage.setItem(storageKey, JSON.stringify(persisted));
     }
   }, [conversations, user?.email]);
 
+  /* --- Sync Active Branch to Supabase ---
+     A couple of seconds after the last change, conversations whose
+     updatedAt moved are upserted with their active branch only. Chats
+     with a reply still streaming wait until it finishes.
+  --- */
+  const syncedAtRef = useRef<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!user?.email || !isSupabaseConfigured()) return;
+
+    const timer = setTimeout(async () => {
+      const changed = conversations.filter(
+        (conv) =>
+          syncedAtRef.current[conv.id] !== conv.updatedAt &&
+          !conv.messages.some((msg) => msg.status === 'streaming')
+      );
+      if (changed.length === 0) return;
+
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const rows = changed.map((conv) => ({
+        user_id: session.user.id,
+        conversation_id: conv.id,
+        title: conv.title,
+        active_leaf_id: conv.messages[conv.messages.length - 1]?.id ?? null,
+        messages: linkActiveBranch(conv.messages).filter((msg) => msg.status !== 'error'),
+        updated_at: conv.updatedAt,
+      }));
+      const { error } = await supabase
+        .from('conversation_branches')
+        .upsert(rows, { onConflict: 'user_id,conversation_id' });
+
+      if (error) {
+        console.error('Error syncing conversations:', error.message);
+        return;
+      }
+      changed.forEach((conv) => {
+        syncedAtRef.current[conv.id] = conv.updatedAt;
+      });
+    }, SUPABASE_SYNC_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [conversations, user?.email]);
+
   const createInitialChat = () => {
     const welcomeConversation: Conversation = {
       id: Date.now().toString(),
@@ -236,11 +495,35 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     setCurrentConversationId(conversationId);
   };
 
-  const addMessage = (message: ChatMessage) => {
+  /* --- Message Updates ---
+     Both default to the current conversation. Pass conversationId when the
+     write belongs to a conversation captured earlier (e.g. a streamed reply
+     that keeps arriving after the user switched chats).
+     afterMessageId places a reply directly after its question, so answers
+     to queued offline messages don't land after later questions.
+  --- */
+  const addMessage = (message: ChatMessage, conversationId?: string, afterMessageId?: string) => {
+    const targetId = conversationId ?? currentConversationId;
     setConversations((prev) => {
       return prev.map((conv) => {
-        if (conv.id === currentConversationId) {
-          const updatedMessages = [...conv.messages, message];
+        if (conv.id === targetId) {
+          const messages = linkActiveBranch(conv.messages);
+          const anchorIndex = afterMessageId
+            ? messages.findIndex((msg) => msg.id === afterMessageId)
+            : -1;
+          let updatedMessages: ChatMessage[];
+          if (anchorIndex >= 0) {
+            // The message that followed the anchor now follows the inserted reply
+            const rest = messages.slice(anchorIndex + 1);
+            updatedMessages = [
+              ...messages.slice(0, anchorIndex + 1),
+              { ...message, parentId: messages[anchorIndex].id },
+              ...rest.map((msg, index) => (index === 0 ? { ...msg, parentId: message.id } : msg)),
+            ];
+          } else {
+            const parentId = messages.length > 0 ? messages[messages.length - 1].id : null;
+            updatedMessages = [...messages, { ...message, parentId: message.parentId ?? parentId }];
+          }
           
           // Update title with first user message (first 50 chars)
           let updatedTitle = conv.title;
@@ -260,10 +543,220 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     });
   };
 
+  const updateMessage = (messageId: string, updates: Partial<ChatMessage>, conversationId?: string) => {
+    const targetId = conversationId ?? currentConversationId;
+    setConversations((prev) =>
+      prev.map((conv) => {
+        if (conv.id !== targetId) return conv;
+        return {
+          ...conv,
+          messages: conv.messages.map((msg) => (msg.id === messageId ? { ...msg, ...updates } : msg)),
+          updatedAt: new Date().toISOString(),
+        };
+      })
+    );
+  };
+
+  const removeMessage = (messageId: string, conversationId?: string) => {
+    const targetId = conversationId ?? currentConversationId;
+    setConversations((prev) =>
+      prev.map((conv) => {
+        if (conv.id !== targetId) return conv;
+        // Children of the removed message are re-attached to its parent
+        const messages = linkActiveBranch(conv.messages);
+        const removed = messages.find((msg) => msg.id === messageId);
+        return {
+          ...conv,
+          messages: messages
+            .filter((msg) => msg.id !== messageId)
+            .map((msg) => (removed && msg.parentId === removed.id ? { ...msg, parentId: removed.parentId } : msg)),
+          updatedAt: new Date().toISOString(),
+        };
+      })
+    );
+  };
+
+  /* --- Branching ---
+     editMessage keeps the original question and everything after it on
+     an inactive branch, and starts a new branch with the edited text.
+     It returns the new message and the messages before it so the caller
+     can request a reply. switchBranch makes a sibling (and its newest
+     descendants) the active branch.
+  --- */
+  const editMessage = (messageId: string, text: string, conversationId?: string) => {
+    const targetId = conversationId ?? currentConversationId;
+    const conversation = conversations.find((conv) => conv.id === targetId);
+    if (!conversation) return null;
+
+    const messages = linkActiveBranch(conversation.messages);
+    const index = messages.findIndex((msg) => msg.id === messageId);
+    if (index < 0 || messages[index].sender !== 'user') return null;
+
+    const priorMessages = messages.slice(0, index);
+    const message: ChatMessage = {
+      id: Date.now().toString(),
+      sender: 'user',
+      text,
+      timestamp: new Date().toISOString(),
+      parentId: messages[index].parentId,
+    };
+
+    setConversations((prev) =>
+      prev.map((conv) =>
+        conv.id === targetId
+          ? {
+              ...conv,
+              messages: [...priorMessages, message],
+              branchMessages: [...(conv.branchMessages ?? []), ...messages.slice(index)],
+              updatedAt: new Date().toISOString(),
+            }
+          : conv
+      )
+    );
+    return { message, priorMessages };
+  };
+
+  const switchBranch = (messageId: string, siblingId: string, conversationId?: string) => {
+    const targetId = conversationId ?? currentConversationId;
+    setConversations((prev) =>
+      prev.map((conv) => {
+        if (conv.id !== targetId) return conv;
+        const messages = linkActiveBranch(conv.messages);
+        const index = messages.findIndex((msg) => msg.id === messageId);
+        const sibling = conv.branchMessages?.find((msg) => msg.id === siblingId);
+        if (index < 0 || !sibling) return conv;
+
+        const pool = [...(conv.branchMessages ?? []), ...messages.slice(index)];
+        const branch = collectBranch(sibling, pool);
+        const branchIds = new Set(branch.map((msg) => msg.id));
+        return {
+          ...conv,
+          messages: [...messages.slice(0, index), ...branch],
+          branchMessages: pool.filter((msg) => !branchIds.has(msg.id)),
+          updatedAt: new Date().toISOString(),
+        };
+      })
+    );
+  };
+
+  // Show another regenerated answer and make it the one kept in the conversation
+  const selectVariant = (messageId: string, variantIndex: number, conversationId?: string) => {
+    const targetId = conversationId ?? currentConversationId;
+    setConversations((prev) =>
+      prev.map((conv) => {
+        if (conv.id !== targetId) return conv;
+        return {
+          ...conv,
+          messages: conv.messages.map((msg) => {
+            const variant = msg.variants?.[variantIndex];
+            if (msg.id !== messageId || !variant) return msg;
+            return { ...msg, ...toMessageVariant(variant), activeVariant: variantIndex };
+          }),
+          updatedAt: new Date().toISOString(),
+        };
+      })
+    );
+  };
+
+  /* --- Answer Feedback ---
+     Rates the answer currently shown (the active variant); null clears
+     the rating. Returns the rated answer and its question so the caller
+     can forward them to the AI backend.
+  --- */
+  const setMessageFeedback = (messageId: string, feedback: MessageFeedback | null, conversationId?: string) => {
+    const targetId = conversationId ?? currentConversationId;
+    const conversation = conversations.find((conv) => conv.id === targetId);
+    if (!conversation) return null;
+
+    const index = conversation.messages.findIndex((msg) => msg.id === messageId);
+    const message = conversation.messages[index];
+    if (!message || message.sender !== 'ai') return null;
+
+    const question = conversation.messages
+      .slice(0, index)
+      .reverse()
+      .find((msg) => msg.sender === 'user');
+    const variantIndex = message.activeVariant ?? 0;
+    const subject: FeedbackSubject = {
+      conversationId: conversation.id,
+      messageId,
+      variantIndex,
+      question: question?.text ?? '',
+      answer: message.text,
+      citations: message.citations,
+    };
+
+    setConversations((prev) =>
+      prev.map((conv) => {
+        if (conv.id !== targetId) return conv;
+        return {
+          ...conv,
+          messages: conv.messages.map((msg) => {
+            if (msg.id !== messageId) return msg;
+            const value = feedback ?? undefined;
+            return {
+              ...msg,
+              feedback: value,
+              variants: msg.variants?.map((variant, i) => (i === variantIndex ? { ...variant, feedback: value } : variant)),
+            };
+          }),
+          updatedAt: new Date().toISOString(),
+        };
+      })
+    );
+    saveFeedbackToSupabase(subject, feedback);
+    return subject;
+  };
+
+  // Merge newly detected emergencies into the conversation's alert and show it again
+  const flagCrisis = (categories: CrisisCategory[], conversationId?: string) => {
+    const targetId = conversationId ?? currentConversationId;
+    setConversations((prev) =>
+      prev.map((conv) => {
+        if (conv.id !== targetId) return conv;
+        const known = conv.crisis?.categories ?? [];
+        return {
+          ...conv,
+          crisis: {
+            categories: [...known, ...categories.filter((category) => !known.includes(category))],
+            detectedAt: new Date().toISOString(),
+          },
+        };
+      })
+    );
+  };
+
+  const dismissCrisis = (conversationId?: string) => {
+    const targetId = conversationId ?? currentConversationId;
+    setConversations((prev) =>
+      prev.map((conv) =>
+        conv.id === targetId && conv.crisis ? { ...conv, crisis: { ...conv.crisis, dismissed: true } } : conv
+      )
+    );
+  };
+
+  const getConversationJurisdiction = (conversation: Conversation | null) =>
+    conversation?.jurisdiction ?? defaultJurisdiction;
+
+  // null removes the override so the conversation follows Settings again
+  const setConversationJurisdiction = (jurisdiction: Jurisdiction | null, conversationId?: string) => {
+    const targetId = conversationId ?? currentConversationId;
+    setConversations((prev) =>
+      prev.map((conv) =>
+        conv.id === targetId
+          ? { ...conv, jurisdiction: jurisdiction ?? undefined, updatedAt: new Date().toISOString() }
+          : conv
+      )
+    );
+  };
+
   const clearAllChats = () => {
     if (user?.email) {
       const storageKey = `jurisly_chats_${user.email}`;
       localStorage.removeItem(storageKey);
+      deleteSyncedConversations();
+      clearResponseCache();
+      syncedAtRef.current = {};
       setConversations([]);
       setCurrentConversationId(null);
       createInitialChat();
@@ -271,6 +764,7 @@ export function ChatProvider({ children }: { children: ReactNode }) {
   };
 
   const deleteConversation = (conversationId: string) => {
+    deleteSyncedConversations([conversationId]);
     setConversations((prev) => {
       const filtered = prev.filter((conv) => conv.id !== conversationId);
       
@@ -301,19 +795,20 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     let content = `Jurisly - Legal AI Assistant\n`;
     content += `Conversation: ${conversation.title}\n`;
     content += `Date: ${new Date(conversation.createdAt).toLocaleString()}\n`;
+    const jurisdiction = getConversationJurisdiction(conversation);
+    if (jurisdiction) {
+      content += `Jurisdiction: ${formatJurisdiction(jurisdiction)}\n`;
+    }
+    if (conversation.branchMessages?.length) {
+      content += `Branch: active branch only (this conversation has edited alternatives)\n`;
+    }
     content += `${'='.repeat(60)}\n\n`;
 
-    conversation.messages.forEach((msg) => {
-      const sender = msg.sender === 'user' ? 'You' : 'Jurisly AI';
-      const time = new Date(msg.timestamp).toLocaleTimeString();
-      content += `[${time}] ${sender}:\n${msg.text}\n\n`;
-
-      if (msg.relevance) {
-        content += `Relevance Score: ${msg.relevance}%\n\n`;
-      }
-
-      content += `${'-'.repeat(60)}\n\n`;
-    });
+    conversation.messages
+      .filter((msg) => msg.status !== 'error')
+      .forEach((msg) => {
+        content += formatMessageForExport(msg);
+      });
 
     if (format === 'txt') {
       const blob = new Blob([content], { type: 'text/plain' });
@@ -341,19 +836,17 @@ export function ChatProvider({ children }: { children: ReactNode }) {
       content += `\n${'#'.repeat(60)}\n`;
       content += `CONVERSATION: ${conversation.title}\n`;
       content += `Created: ${new Date(conversation.createdAt).toLocaleString()}\n`;
+      const jurisdiction = getConversationJurisdiction(conversation);
+      if (jurisdiction) {
+        content += `Jurisdiction: ${formatJurisdiction(jurisdiction)}\n`;
+      }
       content += `${'#'.repeat(60)}\n\n`;
 
-      conversation.messages.forEach((msg) => {
-        const sender = msg.sender === 'user' ? 'You' : 'Jurisly AI';
-        const time = new Date(msg.timestamp).toLocaleTimeString();
-        content += `[${time}] ${sender}:\n${msg.text}\n\n`;
-
-        if (msg.relevance) {
-          content += `Relevance Score: ${msg.relevance}%\n\n`;
-        }
-
-        content += `${'-'.repeat(60)}\n\n`;
-      });
+      conversation.messages
+        .filter((msg) => msg.status !== 'error')
+        .forEach((msg) => {
+          content += formatMessageForExport(msg);
+        });
     });
 
     if (format === 'txt') {
@@ -387,6 +880,16 @@ export function ChatProvider({ children }: { children: ReactNode }) {
         createNewChat,
         switchConversation,
         addMessage,
+        updateMessage,
+        removeMessage,
+        selectVariant,
+        editMessage,
+        switchBranch,
+        setMessageFeedback,
+        flagCrisis,
+        dismissCrisis,
+        getConversationJurisdiction,
+        setConversationJurisdiction,
         clearAllChats,
         deleteConversation,
         exportConversation,
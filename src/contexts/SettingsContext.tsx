@@ -1,7 +1,13 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { AIProviderId } from '../lib/ai/types';
+import { isAIProviderId } from '../lib/ai/config';
+import { isRedactionLevel, RedactionLevel } from '../lib/ai/redaction';
+import { isJurisdiction, Jurisdiction } from '../lib/legal/jurisdictions';
 
 export type Theme = 'dark' | 'purple' | 'blue' | 'custom';
 export type AIMode = 'text' | 'voice-text';
+// 'default' uses the provider configured through VITE_AI_PROVIDER
+export type AIProviderSetting = 'default' | AIProviderId;
 
 interface SettingsContextType {
   language: string;
@@ -14,11 +20,30 @@ interface SettingsContextType {
   setTheme: (theme: Theme) => void;
   notificationTone: boolean;
   setNotificationTone: (enabled: boolean) => void;
+  aiProvider: AIProviderSetting;
+  setAIProvider: (provider: AIProviderSetting) => void;
+  aiEndpoint: string;
+  setAIEndpoint: (endpoint: string) => void;
+  redactionLevel: RedactionLevel;
+  setRedactionLevel: (level: RedactionLevel) => void;
+  // null until the user picks one at onboarding
+  jurisdiction: Jurisdiction | null;
+  setJurisdiction: (jurisdiction: Jurisdiction) => void;
   clearChatHistory: () => void;
 }
 
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
 
+// Read synchronously so the onboarding prompt does not flash for users who already chose
+function loadSavedJurisdiction(): Jurisdiction | null {
+  try {
+    const settings = JSON.parse(localStorage.getItem('jurisly_settings') || '{}');
+    return isJurisdiction(settings.jurisdiction) ? settings.jurisdiction : null;
+  } catch {
+    return null;
+  }
+}
+
 export function SettingsProvider({ children }: { children: ReactNode }) {
   /* --- Settings State Management ---
      All settings are persisted in localStorage
@@ -29,6 +54,10 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
   const [aiMode, setAIModeState] = useState<AIMode>('text');
   const [theme, setThemeState] = useState<Theme>('dark');
   const [notificationTone, setNotificationToneState] = useState(true);
+  const [aiProvider, setAIProviderState] = useState<AIProviderSetting>('default');
+  const [aiEndpoint, setAIEndpointState] = useState('');
+  const [redactionLevel, setRedactionLevelState] = useState<RedactionLevel>('standard');
+  const [jurisdiction, setJurisdictionState] = useState<Jurisdiction | null>(loadSavedJurisdiction);
 
   // Load settings from localStorage on mount
   useEffect(() => {
@@ -40,67 +69,71 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
       setAIModeState(settings.aiMode || 'text');
       setThemeState(settings.theme || 'dark');
       setNotificationToneState(settings.notificationTone ?? true);
+      setAIProviderState(isAIProviderId(settings.aiProvider) ? settings.aiProvider : 'default');
+      setAIEndpointState(settings.aiEndpoint || '');
+      setRedactionLevelState(isRedactionLevel(settings.redactionLevel) ? settings.redactionLevel : 'standard');
     }
   }, []);
 
   // Save settings to localStorage whenever they change
-  const saveSettings = (newSettings: any) => {
-    localStorage.setItem('jurisly_settings', JSON.stringify(newSettings));
-  };
-
-  const setLanguage = (lang: string) => {
-    setLanguageState(lang);
-    saveSettings({
-      language: lang,
+  const saveSettings = (updates: Record<string, unknown>) => {
+    localStorage.setItem('jurisly_settings', JSON.stringify({
+      language,
       voiceEnabled,
       aiMode,
       theme,
       notificationTone,
-    });
+      aiProvider,
+      aiEndpoint,
+      redactionLevel,
+      jurisdiction,
+      ...updates,
+    }));
+  };
+
+  const setLanguage = (lang: string) => {
+    setLanguageState(lang);
+    saveSettings({ language: lang });
   };
 
   const setVoiceEnabled = (enabled: boolean) => {
     setVoiceEnabledState(enabled);
-    saveSettings({
-      language,
-      voiceEnabled: enabled,
-      aiMode,
-      theme,
-      notificationTone,
-    });
+    saveSettings({ voiceEnabled: enabled });
   };
 
   const setAIMode = (mode: AIMode) => {
     setAIModeState(mode);
-    saveSettings({
-      language,
-      voiceEnabled,
-      aiMode: mode,
-      theme,
-      notificationTone,
-    });
+    saveSettings({ aiMode: mode });
   };
 
   const setTheme = (newTheme: Theme) => {
     setThemeState(newTheme);
-    saveSettings({
-      language,
-      voiceEnabled,
-      aiMode,
-      theme: newTheme,
-      notificationTone,
-    });
+    saveSettings({ theme: newTheme });
   };
 
   const setNotificationTone = (enabled: boolean) => {
     setNotificationToneState(enabled);
-    saveSettings({
-      language,
-      voiceEnabled,
-      aiMode,
-      theme,
-      notificationTone: enabled,
-    });
+    saveSettings({ notificationTone: enabled });
+  };
+
+  const setAIProvider = (provider: AIProviderSetting) => {
+    setAIProviderState(provider);
+    saveSettings({ aiProvider: provider });
+  };
+
+  const setAIEndpoint = (endpoint: string) => {
+    setAIEndpointState(endpoint);
+    saveSettings({ aiEndpoint: endpoint });
+  };
+
+  const setRedactionLevel = (level: RedactionLevel) => {
+    setRedactionLevelState(level);
+    saveSettings({ redactionLevel: level });
+  };
+
+  const setJurisdiction = (newJurisdiction: Jurisdiction) => {
+    setJurisdictionState(newJurisdiction);
+    saveSettings({ jurisdiction: newJurisdiction });
   };
 
   const clearChatHistory = () => {
@@ -120,6 +153,14 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
         setTheme,
         notificationTone,
         setNotificationTone,
+        aiProvider,
+        setAIProvider,
+        aiEndpoint,
+        setAIEndpoint,
+        redactionLevel,
+        setRedactionLevel,
+        jurisdiction,
+        setJurisdiction,
         clearChatHistory,
       }}
     >
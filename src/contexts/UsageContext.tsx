@@ -0,0 +1,130 @@
+import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { DEFAULT_PLAN, PLANS, PlanTier } from '../lib/billing/plans';
+import {
+  consumeServerQuota,
+  currentPeriod,
+  fetchServerUsage,
+  getQuotaStatus,
+  loadUsage,
+  QuotaStatus,
+  recordMessage,
+  saveUsage,
+  ServerUsage,
+  UsageCounter,
+} from '../lib/billing/usage';
+import { getBillingProvider } from '../lib/billing/provider';
+
+interface UsageContextType {
+  quota: QuotaStatus;
+  // Uses one message of the quota; resolves to false (nothing counted) when it is used up
+  consumeMessage: () => Promise<boolean>;
+  // False when no billing provider is enabled, so the plan cannot be changed
+  canChangePlan: boolean;
+  // Resolves to the plan in effect afterwards, which the server may override
+  changePlan: (plan: PlanTier) => Promise<PlanTier>;
+}
+
+const UsageContext = createContext<UsageContextType | undefined>(undefined);
+
+/* --- Usage & Plan State ---
+   Holds the signed-in user's plan and message counter (src/lib/billing).
+   The plan comes from the billing provider and, with Supabase configured,
+   from the server, whose limits and counts win. Other tabs pick up new
+   counts through the storage event.
+--- */
+export function UsageProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [plan, setPlan] = useState<PlanTier>(DEFAULT_PLAN);
+  const [counter, setCounter] = useState<UsageCounter>(() => ({ ...currentPeriod(), dailyUsed: 0, monthlyUsed: 0 }));
+  const [limits, setLimits] = useState({ dailyLimit: PLANS[DEFAULT_PLAN].dailyLimit, monthlyLimit: PLANS[DEFAULT_PLAN].monthlyLimit });
+
+  const applyPlan = (tier: PlanTier) => {
+    setPlan(tier);
+    setLimits({ dailyLimit: PLANS[tier].dailyLimit, monthlyLimit: PLANS[tier].monthlyLimit });
+  };
+
+  const applyServerUsage = (server: ServerUsage) => {
+    setPlan(server.plan);
+    setLimits({ dailyLimit: server.dailyLimit, monthlyLimit: server.monthlyLimit });
+    setCounter(server.counter);
+    if (user?.email) saveUsage(user.email, server.counter);
+  };
+
+  useEffect(() => {
+    if (!user?.email) return;
+    const email = user.email;
+    let cancelled = false;
+
+    setCounter(loadUsage(email));
+    const provider = getBillingProvider();
+    (provider ? provider.getPlan(email) : Promise.resolve(DEFAULT_PLAN))
+      .then((tier) => !cancelled && applyPlan(tier))
+      .then(fetchServerUsage)
+      .then((server) => {
+        if (!cancelled && server) applyServerUsage(server);
+      })
+      .catch((error) => {
+        // Server unreachable: keep counting locally
+        console.error('Error loading usage:', error);
+        if (!cancelled) setCounter(loadUsage(email));
+      });
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === `jurisly_usage_${email}`) setCounter(loadUsage(email));
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [user?.email]);
+
+  const quota = getQuotaStatus(plan, counter, limits);
+
+  const consumeMessage = async () => {
+    if (!user?.email) return true;
+    if (quota.exhausted) return false;
+
+    const server = await consumeServerQuota();
+    if (server) {
+      applyServerUsage(server);
+      return server.allowed;
+    }
+
+    // No server answer (not configured or unreachable): count locally
+    const email = user.email;
+    setCounter((prev) => {
+      const next = recordMessage(prev);
+      saveUsage(email, next);
+      return next;
+    });
+    return true;
+  };
+
+  const billingProvider = getBillingProvider();
+
+  const changePlan = async (tier: PlanTier) => {
+    if (!user?.email || !billingProvider) return plan;
+    const applied = await billingProvider.changePlan(user.email, tier);
+    applyPlan(applied);
+    const server = await fetchServerUsage();
+    if (!server) return applied;
+    applyServerUsage(server);
+    return server.plan;
+  };
+
+  return (
+    <UsageContext.Provider value={{ quota, consumeMessage, canChangePlan: billingProvider !== null, changePlan }}>
+      {children}
+    </UsageContext.Provider>
+  );
+}
+
+export function useUsage() {
+  const context = useContext(UsageContext);
+  if (context === undefined) {
+    throw new Error('useUsage must be used within a UsageProvider');
+  }
+  return context;
+}
@@ -0,0 +1,24 @@
+import { useState, useEffect } from 'react';
+
+/* --- Online Status ---
+   Tracks navigator.onLine through the browser's online/offline events.
+   navigator.onLine only reports whether a network is available, so a
+   request can still fail while this is true.
+--- */
+export function useOnlineStatus() {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  return isOnline;
+}
@@ -0,0 +1,118 @@
+import type { AIProviderId, AIRequest, AIResponse } from './types';
+
+/* --- Response Cache ---
+   Common standalone questions ("What is Section 420 IPC?") are answered
+   from a local cache instead of another webhook round-trip. Entries are
+   keyed on user, provider, language, jurisdiction and the normalized
+   question (accounts sharing a device never see each other's answers),
+   kept in IndexedDB (database "jurisly", store "ai_responses") and expire
+   after VITE_AI_CACHE_TTL_HOURS (24 by default, 0 turns the cache off).
+
+   Only context-free questions are cached. A request bypasses the cache
+   when it carries earlier user turns, is part of a guided consultation
+   past the first step, or contains redacted personal details; answers
+   to those depend on the user. Fallback (mock) answers are never stored.
+   Regenerate / "Refresh answer" skip the lookup and overwrite the entry.
+
+   Without IndexedDB (private mode in some browsers) entries live in
+   memory for the session.
+--- */
+
+interface CacheEntry {
+  key: string;
+  response: AIResponse;
+  cachedAt: string;
+}
+
+const DB_NAME = 'jurisly';
+const STORE_NAME = 'ai_responses';
+
+const memoryCache = new Map<string, CacheEntry>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('Error opening response cache:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// Run one request against the store; null if IndexedDB is unavailable or fails
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | null> {
+  const db = await openDatabase();
+  if (!db) return null;
+  return new Promise((resolve) => {
+    try {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+    } catch (error) {
+      console.error('Response cache error:', error);
+      resolve(null);
+    }
+  });
+}
+
+// Case, spacing and punctuation do not change the question
+export function normalizeQuery(query: string): string {
+  return query
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\p{M}()\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const REDACTED_PLACEHOLDER = /\[[A-Z]+_\d+\]/;
+
+export function isCacheable(request: AIRequest): boolean {
+  const hasContext = request.history?.some((turn) => turn.role === 'user') ?? false;
+  const inConsultation = !!request.intake && !['idle', 'law_identified'].includes(request.intake.stage);
+  return !hasContext && !inConsultation && !REDACTED_PLACEHOLDER.test(request.message) && !!normalizeQuery(request.message);
+}
+
+export function getCacheKey(provider: AIProviderId, request: AIRequest): string {
+  const jurisdiction = request.jurisdiction
+    ? [request.jurisdiction.state ?? '', request.jurisdiction.district?.trim().toLowerCase() ?? ''].join('/')
+    : '';
+  return [request.userId ?? '', provider, request.language, jurisdiction, normalizeQuery(request.message)].join('|');
+}
+
+// The cached answer, marked with cachedAt; null on a miss or once expired
+export async function getCachedResponse(key: string, ttlMs: number): Promise<AIResponse | null> {
+  const entry = (await withStore<CacheEntry | undefined>('readonly', (store) => store.get(key))) ?? memoryCache.get(key);
+  if (!entry) return null;
+
+  if (Date.now() - new Date(entry.cachedAt).getTime() > ttlMs) {
+    memoryCache.delete(key);
+    await withStore('readwrite', (store) => store.delete(key));
+    return null;
+  }
+  return { ...entry.response, cachedAt: entry.cachedAt };
+}
+
+export async function putCachedResponse(key: string, response: AIResponse): Promise<void> {
+  const { cachedAt: _cachedAt, ...fresh } = response;
+  const entry: CacheEntry = { key, response: fresh, cachedAt: new Date().toISOString() };
+  const stored = await withStore('readwrite', (store) => store.put(entry));
+  if (stored === null) memoryCache.set(key, entry);
+}
+
+export async function clearResponseCache(): Promise<void> {
+  memoryCache.clear();
+  await withStore('readwrite', (store) => store.clear());
+}
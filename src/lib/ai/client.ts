@@ -0,0 +1,172 @@
+import {
+  AIFeedback,
+  AIProvider,
+  AIProviderConfig,
+  AIRequest,
+  AIRequestCancelledError,
+  AIRequestTimeoutError,
+  AIResponse,
+  AIStreamHandlers,
+  ContextWindowOptions,
+} from './types';
+import { createN8nProvider } from './providers/n8n';
+import { createOpenAIProvider } from './providers/openai';
+import { createMockProvider } from './providers/mock';
+import { isTransientError, withRetry } from './retry';
+import { buildContextWindow } from './contextWindow';
+import { getCacheKey, getCachedResponse, isCacheable, putCachedResponse } from './cache';
+
+export function createAIProvider(config: AIProviderConfig): AIProvider {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAIProvider({
+        baseUrl: config.openaiBaseUrl,
+        apiKey: config.openaiApiKey,
+        model: config.openaiModel,
+      });
+    case 'mock':
+      return createMockProvider();
+    case 'n8n':
+    default:
+      return createN8nProvider(config.n8nWebhookUrl, config.n8nSigning, config.n8nFeedbackUrl);
+  }
+}
+
+// Trim the raw conversation history to what this provider is allowed to receive
+function applyContextWindow(request: AIRequest, options: ContextWindowOptions): AIRequest {
+  if (!request.history) return request;
+  const { history, summary } = buildContextWindow(request.history, options);
+  return { ...request, history, historySummary: summary };
+}
+
+/* --- Single Attempt With Timeout ---
+   Each attempt gets its own AbortController, linked to the caller's signal.
+   The timer is re-armed on every streamed token, so timeoutMs bounds
+   silence rather than the length of the whole answer.
+--- */
+async function sendWithTimeout(
+  provider: AIProvider,
+  request: AIRequest,
+  timeoutMs: number,
+  handlers?: AIStreamHandlers
+): Promise<AIResponse> {
+  const controller = new AbortController();
+  const externalSignal = request.signal;
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const armTimer = () => {
+    if (!timeoutMs) return;
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  const onExternalAbort = () => controller.abort();
+
+  if (externalSignal?.aborted) {
+    throw new AIRequestCancelledError();
+  }
+  externalSignal?.addEventListener('abort', onExternalAbort, { once: true });
+  armTimer();
+
+  try {
+    return await provider.send(
+      { ...request, signal: controller.signal },
+      handlers && {
+        onToken: (token) => {
+          armTimer();
+          handlers.onToken(token);
+        },
+      }
+    );
+  } catch (error) {
+    if (externalSignal?.aborted) throw new AIRequestCancelledError();
+    if (timedOut) throw new AIRequestTimeoutError(timeoutMs);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    externalSignal?.removeEventListener('abort', onExternalAbort);
+  }
+}
+
+/* --- Cached Send ---
+   Standalone questions are looked up in the response cache first
+   (cache.ts); a hit resolves at once without streaming. Fresh answers
+   are stored unless they came from the mock fallback.
+--- */
+export async function sendAIRequest(
+  config: AIProviderConfig,
+  request: AIRequest,
+  handlers?: AIStreamHandlers
+): Promise<AIResponse> {
+  if (!config.cacheTtlMs || config.provider === 'mock' || !isCacheable(request)) {
+    return sendUncachedAIRequest(config, request, handlers);
+  }
+
+  const key = getCacheKey(config.provider, request);
+  if (!request.refreshCache) {
+    const cached = await getCachedResponse(key, config.cacheTtlMs);
+    if (cached) return cached;
+  }
+
+  const response = await sendUncachedAIRequest(config, request, handlers);
+  if (response.provider === config.provider) {
+    await putCachedResponse(key, response);
+  }
+  return response;
+}
+
+/* --- Send With Retry and Fallback ---
+   Transient failures (5xx, 429, network, timeout) are retried with
+   exponential backoff. If every attempt fails and fallbackToMock is on,
+   the deterministic mock answers instead so demos keep working offline.
+   Neither retry nor fallback happens once a stream has started emitting
+   tokens (the answer would be duplicated) or after the user cancelled.
+--- */
+async function sendUncachedAIRequest(
+  config: AIProviderConfig,
+  request: AIRequest,
+  handlers?: AIStreamHandlers
+): Promise<AIResponse> {
+  const provider = createAIProvider(config);
+  const windowedRequest = applyContextWindow(request, config.contextWindow[provider.id]);
+  let hasStreamed = false;
+  const trackedHandlers = handlers && {
+    onToken: (token: string) => {
+      hasStreamed = true;
+      handlers.onToken(token);
+    },
+  };
+
+  try {
+    return await withRetry(
+      () => sendWithTimeout(provider, windowedRequest, config.timeoutMs, trackedHandlers),
+      {
+        maxRetries: config.maxRetries,
+        baseDelayMs: config.retryBaseDelayMs,
+        signal: request.signal,
+        shouldRetry: (error) => !hasStreamed && isTransientError(error),
+      }
+    );
+  } catch (error) {
+    if (
+      error instanceof AIRequestCancelledError ||
+      !config.fallbackToMock ||
+      provider.id === 'mock' ||
+      hasStreamed
+    ) {
+      throw error;
+    }
+    console.error(`${provider.id} AI provider error:`, error);
+    console.warn('Falling back to mock response due to API error');
+    return createMockProvider().send(applyContextWindow(request, config.contextWindow.mock), handlers);
+  }
+}
+
+// Forward an answer rating to the active backend; a no-op for providers without sendFeedback
+export async function sendAIFeedback(config: AIProviderConfig, feedback: AIFeedback): Promise<void> {
+  const provider = createAIProvider(config);
+  await provider.sendFeedback?.(feedback);
+}
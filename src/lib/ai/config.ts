@@ -0,0 +1,128 @@
+import { AIProviderConfig, AIProviderId, ContextWindowOptions, RequestSigningMode } from './types';
+
+/* --- AI Provider Configuration ---
+   Resolved from Vite env vars first, then overridden by user settings.
+   Lets staging, local and production point at different backends
+   without touching ChatPage:
+
+   VITE_AI_PROVIDER=n8n|openai|mock
+   VITE_N8N_WEBHOOK_URL=https://your-n8n-instance.com/webhook/legal-ai
+   VITE_N8N_FEEDBACK_URL=...        answer ratings, defaults to the webhook URL
+   VITE_OPENAI_BASE_URL=https://your-proxy.example.com/v1
+   VITE_OPENAI_API_KEY=...          optional; see below
+   VITE_OPENAI_MODEL=gpt-4o-mini
+   VITE_AI_FALLBACK_TO_MOCK=true|false
+   VITE_AI_TIMEOUT_MS=30000
+   VITE_AI_MAX_RETRIES=2
+   VITE_AI_RETRY_BASE_DELAY_MS=500
+   VITE_AI_CACHE_TTL_HOURS=24       cached answers to standalone questions, 0 disables (cache.ts)
+
+   n8n request authentication (see signing.ts):
+   VITE_N8N_SIGNING=off|secret|session   session = bearer token only, not signed
+   VITE_N8N_SIGNING_SECRET=...      key for "secret" mode
+
+   Conversation history sent with each message, per provider
+   (<P> is N8N, OPENAI or MOCK):
+   VITE_<P>_CONTEXT_TURNS=10        prior messages to include, 0 disables
+   VITE_<P>_CONTEXT_CHARS=6000      total character budget for those messages
+   VITE_AI_SUMMARIZE_HISTORY=true   condense older turns into a short summary
+
+   Anything in a VITE_ variable ships in the bundle, and the OpenAI key is
+   sent from the browser as a Bearer token, so a key set here is public
+   to every visitor. Never put a real OpenAI key (sk-...) here: point
+   VITE_OPENAI_BASE_URL at a server-side proxy that adds the key, or at a
+   keyless local or compatible endpoint (Ollama, vLLM, LM Studio).
+--- */
+
+const DEFAULT_N8N_WEBHOOK_URL = 'https://chaiwala123.app.n8n.cloud/webhook/legal-ai';
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+const DEFAULT_CACHE_TTL_HOURS = 24;
+
+const DEFAULT_CONTEXT_WINDOWS: Record<AIProviderId, ContextWindowOptions> = {
+  n8n: { maxTurns: 10, maxChars: 6000, maxTurnChars: 1500, summarize: true },
+  openai: { maxTurns: 20, maxChars: 12000, maxTurnChars: 3000, summarize: true },
+  mock: { maxTurns: 4, maxChars: 2000, maxTurnChars: 500, summarize: false },
+};
+
+function readNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+export const AI_PROVIDER_IDS: AIProviderId[] = ['n8n', 'openai', 'mock'];
+
+export function isAIProviderId(value: unknown): value is AIProviderId {
+  return typeof value === 'string' && (AI_PROVIDER_IDS as string[]).includes(value);
+}
+
+function readContextWindow(provider: AIProviderId): ContextWindowOptions {
+  const env = import.meta.env as unknown as Record<string, string | undefined>;
+  const prefix = `VITE_${provider.toUpperCase()}_CONTEXT`;
+  const defaults = DEFAULT_CONTEXT_WINDOWS[provider];
+  const summarizeEnv = import.meta.env.VITE_AI_SUMMARIZE_HISTORY;
+
+  return {
+    maxTurns: Math.floor(readNumber(env[`${prefix}_TURNS`], defaults.maxTurns)),
+    maxChars: Math.floor(readNumber(env[`${prefix}_CHARS`], defaults.maxChars)),
+    maxTurnChars: defaults.maxTurnChars,
+    summarize: summarizeEnv === undefined || summarizeEnv === '' ? defaults.summarize : summarizeEnv === 'true',
+  };
+}
+
+const SIGNING_MODES: RequestSigningMode[] = ['off', 'secret', 'session'];
+
+function readSigningMode(value: string | undefined): RequestSigningMode {
+  return (SIGNING_MODES as string[]).includes(value || '') ? (value as RequestSigningMode) : 'off';
+}
+
+export function getEnvAIConfig(): AIProviderConfig {
+  const env = import.meta.env;
+  return {
+    provider: isAIProviderId(env.VITE_AI_PROVIDER) ? env.VITE_AI_PROVIDER : 'n8n',
+    n8nWebhookUrl: env.VITE_N8N_WEBHOOK_URL || DEFAULT_N8N_WEBHOOK_URL,
+    n8nFeedbackUrl: env.VITE_N8N_FEEDBACK_URL || env.VITE_N8N_WEBHOOK_URL || DEFAULT_N8N_WEBHOOK_URL,
+    n8nSigning: {
+      mode: readSigningMode(env.VITE_N8N_SIGNING),
+      secret: env.VITE_N8N_SIGNING_SECRET || undefined,
+    },
+    openaiBaseUrl: env.VITE_OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+    openaiApiKey: env.VITE_OPENAI_API_KEY || undefined,
+    openaiModel: env.VITE_OPENAI_MODEL || DEFAULT_OPENAI_MODEL,
+    fallbackToMock: env.VITE_AI_FALLBACK_TO_MOCK === 'true',
+    timeoutMs: readNumber(env.VITE_AI_TIMEOUT_MS, DEFAULT_TIMEOUT_MS),
+    maxRetries: Math.floor(readNumber(env.VITE_AI_MAX_RETRIES, DEFAULT_MAX_RETRIES)),
+    retryBaseDelayMs: readNumber(env.VITE_AI_RETRY_BASE_DELAY_MS, DEFAULT_RETRY_BASE_DELAY_MS),
+    contextWindow: {
+      n8n: readContextWindow('n8n'),
+      openai: readContextWindow('openai'),
+      mock: readContextWindow('mock'),
+    },
+    cacheTtlMs: readNumber(env.VITE_AI_CACHE_TTL_HOURS, DEFAULT_CACHE_TTL_HOURS) * 60 * 60 * 1000,
+  };
+}
+
+/* --- Settings Overrides ---
+   `provider` comes from SettingsContext ("AI Backend").
+   `endpoint` replaces the URL of the selected provider when set.
+--- */
+export interface AISettingsOverrides {
+  provider?: AIProviderId | null;
+  endpoint?: string;
+}
+
+export function resolveAIConfig(overrides: AISettingsOverrides = {}): AIProviderConfig {
+  const config = getEnvAIConfig();
+  const provider = overrides.provider || config.provider;
+  const endpoint = overrides.endpoint?.trim();
+
+  return {
+    ...config,
+    provider,
+    n8nWebhookUrl: provider === 'n8n' && endpoint ? endpoint : config.n8nWebhookUrl,
+    openaiBaseUrl: provider === 'openai' && endpoint ? endpoint : config.openaiBaseUrl,
+  };
+}
@@ -0,0 +1,72 @@
+import { AIHistoryTurn, ContextWindowOptions } from './types';
+
+/* --- Conversation Context Window ---
+   Picks the prior turns sent along with a new question so follow-ups
+   ("what about my landlord then?") keep their context:
+
+   1. Each turn is capped at maxTurnChars (long answers are cut with "…")
+   2. Newest turns are kept first until maxTurns or maxChars is reached
+   3. Older turns that did not fit are optionally condensed into a short
+      local summary of what the user asked earlier (no extra AI call)
+
+   Sizes are in characters; roughly 4 characters ≈ 1 token.
+--- */
+
+export interface ContextWindow {
+  history: AIHistoryTurn[];
+  summary?: string;
+  droppedTurns: number;
+}
+
+const SUMMARY_MAX_CHARS = 600;
+const SUMMARY_ITEM_CHARS = 120;
+
+function truncate(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  return text.slice(0, Math.max(0, maxChars - 1)).trimEnd() + '…';
+}
+
+function firstSentence(text: string): string {
+  const match = text.match(/^[\s\S]*?[.?!।](\s|$)/);
+  return (match ? match[0] : text).replace(/\s+/g, ' ').trim();
+}
+
+function summarizeTurns(turns: AIHistoryTurn[]): string | undefined {
+  const questions = turns
+    .filter((turn) => turn.role === 'user')
+    .map((turn) => truncate(firstSentence(turn.content), SUMMARY_ITEM_CHARS));
+  if (questions.length === 0) return undefined;
+
+  let summary = 'Earlier in this conversation the user asked about:';
+  for (const question of questions) {
+    const line = `\n- ${question}`;
+    if (summary.length + line.length > SUMMARY_MAX_CHARS) break;
+    summary += line;
+  }
+  return summary;
+}
+
+export function buildContextWindow(turns: AIHistoryTurn[], options: ContextWindowOptions): ContextWindow {
+  // A zero budget turns context off entirely, summary included
+  if (options.maxTurns <= 0 || options.maxChars <= 0) {
+    return { history: [], summary: undefined, droppedTurns: turns.length };
+  }
+
+  const kept: AIHistoryTurn[] = [];
+  let usedChars = 0;
+  let index = turns.length - 1;
+
+  for (; index >= 0 && kept.length < options.maxTurns; index--) {
+    const content = truncate(turns[index].content, options.maxTurnChars);
+    if (usedChars + content.length > options.maxChars) break;
+    kept.unshift({ role: turns[index].role, content });
+    usedChars += content.length;
+  }
+
+  const dropped = turns.slice(0, index + 1);
+  return {
+    history: kept,
+    summary: options.summarize && dropped.length > 0 ? summarizeTurns(dropped) : undefined,
+    droppedTurns: dropped.length,
+  };
+}
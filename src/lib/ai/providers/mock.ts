@@ -0,0 +1,43 @@
+import { AIProvider, AIRequest, AIResponse, AIStreamHandlers } from '../types';
+import { waitWithSignal } from '../retry';
+import { toResponseDetails } from '../schema';
+import { answerLegalQuery } from '../../legal/offlineEngine';
+
+/* --- Mock AI Provider ---
+   Offline stand-in used for demos, local development and as a fallback
+   when the configured backend fails. Replies come from the rule-based
+   legal engine (lib/legal/offlineEngine.ts), so the same message and
+   history always produce the same answer, citations and scores. With
+   stream handlers the reply is emitted word by word to exercise
+   incremental rendering.
+--- */
+
+const MOCK_LATENCY_MS = 2000;
+const MOCK_TOKEN_INTERVAL_MS = 30;
+
+export function buildMockResponse(request: AIRequest): AIResponse {
+  const structured = answerLegalQuery(request.message, request.language, request.history, request.intake);
+  return { text: structured.answer, provider: 'mock', ...toResponseDetails(structured) };
+}
+
+export function createMockProvider(latencyMs: number = MOCK_LATENCY_MS): AIProvider {
+  return {
+    id: 'mock',
+    send: async (request: AIRequest, handlers?: AIStreamHandlers) => {
+      const response = buildMockResponse(request);
+
+      if (!handlers) {
+        await waitWithSignal(latencyMs, request.signal);
+        return response;
+      }
+
+      // Shorter initial delay, then stream whitespace-delimited tokens
+      await waitWithSignal(latencyMs / 4, request.signal);
+      for (const token of response.text.match(/\S+\s*|\s+/g) || []) {
+        handlers.onToken(token);
+        await waitWithSignal(MOCK_TOKEN_INTERVAL_MS, request.signal);
+      }
+      return response;
+    },
+  };
+}
@@ -0,0 +1,169 @@
+import {
+  AIFeedback,
+  AIProvider,
+  AIProviderError,
+  AIRequest,
+  AIResponseDetails,
+  AIStreamHandlers,
+  N8nFeedbackPayload,
+  N8nStreamEvent,
+  N8nWebhookPayload,
+  N8nWebhookResponse,
+  RequestSigningConfig,
+} from '../types';
+import { detectStreamFormat, readStream } from '../stream';
+import { isStructuredResponse, parseStructuredResponse, toResponseDetails } from '../schema';
+import { signRequestBody } from '../signing';
+import { formatJurisdiction } from '../../legal/jurisdictions';
+
+/* --- n8n Webhook Provider ---
+   Posts the chat message to an n8n webhook trigger over HTTPS with CORS.
+   See N8nWebhookPayload / N8nWebhookResponse for the contract.
+
+   Streaming: when the workflow answers with text/event-stream or NDJSON
+   (n8n's "Respond to Webhook" streaming mode emits
+   {"type":"item","content":"..."} lines), tokens are forwarded as they
+   arrive. A plain JSON answer is still accepted.
+
+   Structured answers (schemaVersion, see schema.ts) are validated; in a
+   stream the structured metadata may arrive on any event, usually "end".
+
+   Signing: in "secret" mode every attempt is signed with a fresh
+   timestamp and nonce (signing.ts); in "session" mode it only carries the
+   user's Supabase access token as a bearer token. Without the secret, or
+   without a signed-in Supabase session, the request goes out without
+   either and a verifying workflow will reject it.
+
+   Feedback: ratings are posted as { event: "feedback", ... } to feedbackUrl
+   (the chat webhook unless VITE_N8N_FEEDBACK_URL is set), signed the same way.
+--- */
+
+async function getSigningHeaders(
+  body: string,
+  signing: RequestSigningConfig,
+  accessToken?: string
+): Promise<Record<string, string>> {
+  if (signing.mode === 'secret' && signing.secret) {
+    return signRequestBody(body, signing.secret);
+  }
+  if (signing.mode === 'session' && accessToken) {
+    return { Authorization: `Bearer ${accessToken}` };
+  }
+  return {};
+}
+
+export function createN8nProvider(
+  webhookUrl: string,
+  signing: RequestSigningConfig = { mode: 'off' },
+  feedbackUrl: string = webhookUrl
+): AIProvider {
+  return {
+    id: 'n8n',
+    sendFeedback: async ({ accessToken, ...feedback }: AIFeedback) => {
+      const payload: N8nFeedbackPayload = { event: 'feedback', ...feedback };
+      const body = JSON.stringify(payload);
+      const response = await fetch(feedbackUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(await getSigningHeaders(body, signing, accessToken)),
+        },
+        mode: 'cors',
+        body,
+      });
+
+      if (!response.ok) {
+        throw new AIProviderError('n8n', `HTTP error! status: ${response.status}`, response.status);
+      }
+    },
+    send: async (request: AIRequest, handlers?: AIStreamHandlers) => {
+      const payload: N8nWebhookPayload = {
+        query: request.message,
+        message: request.message,
+        userId: request.userId,
+        language: request.language,
+        conversationId: request.conversationId,
+        timestamp: request.timestamp,
+        stream: !!handlers,
+        history: request.history,
+        historySummary: request.historySummary,
+        intake: request.intake,
+        jurisdiction: request.jurisdiction && {
+          ...request.jurisdiction,
+          label: formatJurisdiction(request.jurisdiction),
+        },
+      };
+
+      const body = JSON.stringify(payload);
+      const response = await fetch(webhookUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: handlers
+            ? 'text/event-stream, application/x-ndjson, application/json'
+            : 'application/json',
+          ...(await getSigningHeaders(body, signing, request.accessToken)),
+        },
+        mode: 'cors',
+        body,
+        signal: request.signal,
+      });
+
+      if (!response.ok) {
+        throw new AIProviderError('n8n', `HTTP error! status: ${response.status}`, response.status);
+      }
+
+      const streamFormat = detectStreamFormat(response);
+      if (streamFormat && handlers) {
+        let text = '';
+        let relevance: number | undefined;
+        let details: AIResponseDetails = {};
+
+        await readStream(response, streamFormat, (raw) => {
+          const event = raw as N8nStreamEvent;
+          if (event.type === 'error') {
+            throw new AIProviderError('n8n', event.content || 'Workflow reported a streaming error');
+          }
+          if (isStructuredResponse(raw)) {
+            details = toResponseDetails(parseStructuredResponse(raw, { requireAnswer: false }));
+          }
+          if (typeof event.relevanceScore === 'number') {
+            relevance = event.relevanceScore;
+          }
+          const token = event.type === 'begin' || event.type === 'end'
+            ? ''
+            : event.content ?? event.text ?? '';
+          if (token) {
+            text += token;
+            handlers.onToken(token);
+          }
+        });
+
+        if (!text) {
+          throw new AIProviderError('n8n', 'Streamed response did not contain a reply');
+        }
+        return { text, relevance, ...details, provider: 'n8n' };
+      }
+
+      const json: unknown = await response.json();
+      if (isStructuredResponse(json)) {
+        const structured = parseStructuredResponse(json);
+        handlers?.onToken(structured.answer);
+        return { text: structured.answer, ...toResponseDetails(structured), provider: 'n8n' };
+      }
+
+      const data = json as N8nWebhookResponse;
+      const text = data.aiResponse || data.reply || data.response;
+      if (!text) {
+        throw new AIProviderError('n8n', 'Webhook response did not contain a reply');
+      }
+
+      handlers?.onToken(text);
+      return {
+        text,
+        relevance: typeof data.relevanceScore === 'number' ? data.relevanceScore : undefined,
+        provider: 'n8n',
+      };
+    },
+  };
+}
@@ -0,0 +1,100 @@
+import {
+  AIProvider,
+  AIProviderError,
+  AIRequest,
+  AIStreamHandlers,
+  ChatCompletionChunk,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+} from '../types';
+import { detectStreamFormat, readStream } from '../stream';
+import { describeIntake } from '../../legal/intake';
+import { describeJurisdiction } from '../../legal/jurisdictions';
+
+/* --- OpenAI-compatible Provider ---
+   Works with any backend exposing POST {baseUrl}/chat/completions
+   (OpenAI, Azure OpenAI proxies, Ollama, vLLM, LM Studio, ...).
+   The API key is optional so local servers can be used without one.
+   It is sent from the browser, so it must never be a real OpenAI key;
+   use a server-side proxy that adds the key instead (see config.ts).
+   Streams with `stream: true` (SSE delta chunks) when handlers are given.
+   The guided-consultation stage (legal/intake.ts) is passed as a system
+   note right before the question; the user's jurisdiction
+   (legal/jurisdictions.ts) follows the system prompt.
+--- */
+
+const SYSTEM_PROMPTS: Record<string, string> = {
+  en: 'You are Jurisly, an AI legal assistant for Indian law. Explain the relevant laws, sections and the user\'s rights in plain language, and recommend consulting a qualified lawyer for case-specific advice. Placeholders such as [PHONE_1] stand for personal details hidden for privacy; repeat them exactly as written.',
+  hi: 'आप जुरिसली हैं, भारतीय कानून के लिए एक एआई कानूनी सहायक। संबंधित कानूनों, धाराओं और उपयोगकर्ता के अधिकारों को सरल हिंदी में समझाएं, और मामले-विशिष्ट सलाह के लिए किसी योग्य वकील से परामर्श करने की सलाह दें। [PHONE_1] जैसे प्लेसहोल्डर गोपनीयता के लिए छिपाए गए निजी विवरण हैं; उन्हें ठीक वैसे ही लिखें।',
+};
+
+interface OpenAIProviderOptions {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}
+
+export function createOpenAIProvider({ baseUrl, apiKey, model }: OpenAIProviderOptions): AIProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    id: 'openai',
+    send: async (request: AIRequest, handlers?: AIStreamHandlers) => {
+      const intakeNote = request.intake && describeIntake(request.intake);
+      const body: ChatCompletionRequest = {
+        model,
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPTS[request.language] || SYSTEM_PROMPTS.en },
+          ...(request.jurisdiction ? [{ role: 'system' as const, content: describeJurisdiction(request.jurisdiction) }] : []),
+          ...(request.historySummary ? [{ role: 'system' as const, content: request.historySummary }] : []),
+          ...(request.history || []),
+          ...(intakeNote ? [{ role: 'system' as const, content: intakeNote }] : []),
+          { role: 'user', content: request.message },
+        ],
+        stream: !!handlers,
+      };
+
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (apiKey) {
+        headers.Authorization = `Bearer ${apiKey}`;
+      }
+
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal: request.signal,
+      });
+
+      if (!response.ok) {
+        throw new AIProviderError('openai', `HTTP error! status: ${response.status}`, response.status);
+      }
+
+      const streamFormat = detectStreamFormat(response);
+      if (streamFormat && handlers) {
+        let text = '';
+        await readStream(response, streamFormat, (raw) => {
+          const token = (raw as ChatCompletionChunk).choices?.[0]?.delta?.content;
+          if (token) {
+            text += token;
+            handlers.onToken(token);
+          }
+        });
+
+        if (!text) {
+          throw new AIProviderError('openai', 'Streamed completion did not contain a message');
+        }
+        return { text, provider: 'openai' };
+      }
+
+      const data = (await response.json()) as ChatCompletionResponse;
+      const text = data.choices?.[0]?.message?.content;
+      if (!text) {
+        throw new AIProviderError('openai', 'Chat completion did not contain a message');
+      }
+
+      handlers?.onToken(text);
+      return { text, provider: 'openai' };
+    },
+  };
+}
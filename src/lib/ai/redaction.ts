@@ -0,0 +1,207 @@
+/* --- PII Redaction ---
+   Personal identifiers are swapped for placeholders before a message
+   leaves the browser and put back when the reply arrives, so the AI
+   backend (often a third-party n8n cloud) never sees them:
+
+   "My Aadhaar 2345 6789 0124 and PAN ABCPE1234F"
+     → "My Aadhaar [AADHAAR_1] and PAN [PAN_1]"
+
+   Detected (standard level):
+   - Aadhaar: 12 digits, first digit 2–9, valid Verhoeff checksum
+   - PAN: AAAPA9999A, 4th letter a valid holder type
+   - Phone: Indian mobiles, with or without +91 / 0
+   - Bank account: 9–18 digits right after "account", "a/c", "खाता"…
+   - Address: text after "address", "house no", "पता"… up to a PIN code
+   - Email addresses
+   Strict also hides 12-digit numbers that fail the Aadhaar checksum, any
+   standalone 9–18 digit number and comma-separated addresses ending in a
+   PIN code. Off sends messages as typed.
+
+   The same value always gets the same placeholder within a redactor, so
+   history and the new message stay consistent. One redactor is created
+   per request; its map never leaves the browser.
+--- */
+
+import type { AIResponse } from './types';
+
+export type RedactionLevel = 'off' | 'standard' | 'strict';
+
+export const REDACTION_LEVELS: RedactionLevel[] = ['off', 'standard', 'strict'];
+
+export type PIIKind = 'AADHAAR' | 'PAN' | 'PHONE' | 'ACCOUNT' | 'ADDRESS' | 'EMAIL';
+
+export function isRedactionLevel(value: unknown): value is RedactionLevel {
+  return typeof value === 'string' && (REDACTION_LEVELS as string[]).includes(value);
+}
+
+/* --- Verhoeff Checksum ---
+   Aadhaar's last digit is a Verhoeff check digit; a number is valid
+   when the checksum over all 12 digits is 0.
+--- */
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+export function isValidVerhoeff(digits: string): boolean {
+  let check = 0;
+  const reversed = digits.split('').reverse();
+  for (let i = 0; i < reversed.length; i++) {
+    check = VERHOEFF_D[check][VERHOEFF_P[i % 8][Number(reversed[i])]];
+  }
+  return check === 0;
+}
+
+export function isValidAadhaar(value: string): boolean {
+  const digits = value.replace(/[\s-]/g, '');
+  return /^[2-9]\d{11}$/.test(digits) && isValidVerhoeff(digits);
+}
+
+/* --- Detectors ---
+   Run in order on the text left after earlier detectors; labelled
+   account numbers go before Aadhaar and phone so a 12-digit account is
+   not mistaken for either. When a pattern has a capture group, only that
+   group is replaced, so labels such as "address:" stay readable for the AI.
+--- */
+interface Detector {
+  kind: PIIKind;
+  pattern: RegExp;
+  strictOnly?: boolean;
+  validate?: (value: string, level: RedactionLevel) => boolean;
+}
+
+const PIN_CODE = '[1-9]\\d{2}\\s?\\d{3}';
+
+const DETECTORS: Detector[] = [
+  {
+    kind: 'ADDRESS',
+    pattern: new RegExp(
+      `(?:\\baddress|\\baddr\\.?|\\bhouse no\\.?|\\bh\\.?\\s?no\\.?|\\bflat(?: no\\.?)?|\\bplot(?: no\\.?)?|\\bdoor no\\.?|पता|मकान (?:नं\\.?|नंबर))\\s*(?:is|:|-)?\\s*([^\\n]{3,120}?\\b${PIN_CODE})(?!\\d)`,
+      'gi'
+    ),
+  },
+  {
+    kind: 'ADDRESS',
+    pattern: new RegExp(`(?:[^,.\\n]{2,40},\\s*){1,5}[^,.\\n]{0,40}?\\b${PIN_CODE}(?!\\d)`, 'g'),
+    strictOnly: true,
+  },
+  { kind: 'EMAIL', pattern: /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g },
+  {
+    kind: 'PAN',
+    pattern: /\b[A-Z]{3}[ABCFGHLJPT][A-Z]\d{4}[A-Z]\b/gi,
+    validate: (value) => /^[A-Z]{3}[ABCFGHLJPT]/.test(value.toUpperCase()),
+  },
+  {
+    kind: 'ACCOUNT',
+    pattern: /(?:\baccount|\ba\/c|\bacct|\bacc|खाता|खाते)(?:\s*(?:no\.?|number|num|संख्या|नंबर|नं\.?))?\s*(?:is|:|-|#)?\s*(\d[\d\s-]{7,22}\d)\b/gi,
+    validate: (value) => {
+      const digits = value.replace(/[\s-]/g, '');
+      return digits.length >= 9 && digits.length <= 18;
+    },
+  },
+  {
+    kind: 'AADHAAR',
+    pattern: /\b[2-9]\d{3}[\s-]?\d{4}[\s-]?\d{4}\b/g,
+    validate: (value, level) => level === 'strict' || isValidAadhaar(value),
+  },
+  { kind: 'PHONE', pattern: /(?:\+91[\s-]?|\b91[\s-]?|\b0)?\b[6-9]\d{4}[\s-]?\d{5}\b/g },
+  { kind: 'ACCOUNT', pattern: /\b\d{9,18}\b/g, strictOnly: true },
+];
+
+const PLACEHOLDER_PATTERN = /\[(AADHAAR|PAN|PHONE|ACCOUNT|ADDRESS|EMAIL)_(\d+)\]/g;
+
+export interface Redactor {
+  level: RedactionLevel;
+  redact: (text: string) => string;
+  restore: (text: string) => string;
+  // Number of distinct values hidden so far
+  count: () => number;
+}
+
+export function createRedactor(level: RedactionLevel): Redactor {
+  const placeholders = new Map<string, string>(); // `${kind}:${value}` → placeholder
+  const values = new Map<string, string>(); // placeholder → value
+  const counters: Partial<Record<PIIKind, number>> = {};
+
+  const placeholderFor = (kind: PIIKind, value: string) => {
+    const key = `${kind}:${value}`;
+    let placeholder = placeholders.get(key);
+    if (!placeholder) {
+      counters[kind] = (counters[kind] ?? 0) + 1;
+      placeholder = `[${kind}_${counters[kind]}]`;
+      placeholders.set(key, placeholder);
+      values.set(placeholder, value);
+    }
+    return placeholder;
+  };
+
+  const redact = (text: string) => {
+    if (level === 'off' || !text) return text;
+    return DETECTORS.reduce((current, detector) => {
+      if (detector.strictOnly && level !== 'strict') return current;
+      return current.replace(detector.pattern, (match: string, group?: unknown) => {
+        const value = typeof group === 'string' ? group : match;
+        // Never re-redact part of an earlier placeholder
+        if (/\[[A-Z]+_\d+\]/.test(value)) return match;
+        if (detector.validate && !detector.validate(value, level)) return match;
+        return match.replace(value, placeholderFor(detector.kind, value));
+      });
+    }, text);
+  };
+
+  const restore = (text: string) =>
+    values.size === 0 ? text : text.replace(PLACEHOLDER_PATTERN, (placeholder) => values.get(placeholder) ?? placeholder);
+
+  return { level, redact, restore, count: () => values.size };
+}
+
+/* --- Streaming Restore ---
+   A placeholder can be split across streamed tokens ("[PHO" + "NE_1]").
+   Text after an unclosed "[" is held back until it can be resolved.
+--- */
+export function createStreamRestorer(redactor: Redactor): (token: string) => string {
+  let pending = '';
+  return (token: string) => {
+    const text = pending + token;
+    const open = text.lastIndexOf('[');
+    if (open >= 0 && !text.includes(']', open) && /^\[[A-Z_\d]{0,12}$/.test(text.slice(open))) {
+      pending = text.slice(open);
+      return redactor.restore(text.slice(0, open));
+    }
+    pending = '';
+    return redactor.restore(text);
+  };
+}
+
+// Put the user's values back into every text field of a reply
+export function restoreAIResponse(response: AIResponse, redactor: Redactor): AIResponse {
+  if (redactor.count() === 0) return response;
+  return {
+    ...response,
+    text: redactor.restore(response.text),
+    citations: response.citations?.map((citation) => ({
+      ...citation,
+      title: citation.title && redactor.restore(citation.title),
+    })),
+    suggestions: response.suggestions?.map(redactor.restore),
+  };
+}
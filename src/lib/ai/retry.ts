@@ -0,0 +1,64 @@
+import { AIProviderError, AIRequestCancelledError, AIRequestTimeoutError } from './types';
+
+/* --- Retry With Exponential Backoff ---
+   Delay before retry n (0-based) is baseDelayMs * 2^n, capped at
+   maxDelayMs, plus up to 20% jitter so many tabs don't retry in lockstep.
+   Waiting is interrupted immediately when the signal aborts.
+--- */
+
+interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  shouldRetry: (error: unknown, attempt: number) => boolean;
+}
+
+const DEFAULT_MAX_DELAY_MS = 8000;
+
+// 5xx, rate limits, timeouts and fetch network failures are worth retrying
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof AIRequestTimeoutError) return true;
+  if (error instanceof AIProviderError) {
+    return error.status !== undefined && (error.status >= 500 || error.status === 429);
+  }
+  // fetch() rejects with a TypeError when the network is unreachable or CORS fails
+  return error instanceof TypeError;
+}
+
+export function getBackoffDelay(attempt: number, baseDelayMs: number, maxDelayMs = DEFAULT_MAX_DELAY_MS): number {
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return delay + Math.random() * delay * 0.2;
+}
+
+export function waitWithSignal(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AIRequestCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AIRequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export async function withRetry<T>(operation: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= options.maxRetries || options.signal?.aborted || !options.shouldRetry(error, attempt)) {
+        throw error;
+      }
+      console.warn(`AI request failed (attempt ${attempt + 1}), retrying:`, error);
+      await waitWithSignal(getBackoffDelay(attempt, options.baseDelayMs, options.maxDelayMs), options.signal);
+    }
+  }
+}
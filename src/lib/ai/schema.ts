@@ -0,0 +1,151 @@
+/* --- Structured AI Response Schema ---
+   Versioned contract for backends that return structured legal answers
+   instead of (or alongside) free text:
+
+   {
+     "schemaVersion": 1,
+     "answer": "Plain-language explanation…",
+     "citations": [
+       { "act": "Negotiable Instruments Act, 1881", "section": "138",
+         "title": "Dishonour of cheque", "relevance": 92 }
+     ],
+     "confidence": 0.84,          // 0–1
+     "suggestions": ["What documents do I need for the complaint?"],
+     "intakeStage": "next_steps" // optional, see src/lib/legal/intake.ts
+   }
+
+   Relevance scores are 0–100 per cited law. Responses without
+   schemaVersion are treated as the legacy { aiResponse, relevanceScore }
+   shape and never reach this validator.
+--- */
+
+import type { AIResponseDetails } from './types';
+import { isIntakeStage, type IntakeStage } from '../legal/intake';
+
+export const AI_RESPONSE_SCHEMA_VERSION = 1;
+
+export interface LawCitation {
+  act: string;
+  section?: string;
+  title?: string;
+  relevance?: number;
+}
+
+export interface StructuredAIResponse {
+  schemaVersion: number;
+  answer: string;
+  citations: LawCitation[];
+  confidence?: number;
+  suggestions: string[];
+  intakeStage?: IntakeStage;
+}
+
+export class AIResponseSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AIResponseSchemaError';
+  }
+}
+
+const MAX_CITATIONS = 20;
+const MAX_SUGGESTIONS = 5;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export function isStructuredResponse(data: unknown): data is Record<string, unknown> {
+  return isRecord(data) && 'schemaVersion' in data;
+}
+
+function parseCitation(raw: unknown, index: number): LawCitation {
+  if (!isRecord(raw) || typeof raw.act !== 'string' || !raw.act.trim()) {
+    throw new AIResponseSchemaError(`citations[${index}].act must be a non-empty string`);
+  }
+
+  const citation: LawCitation = { act: raw.act.trim() };
+  if (raw.section !== undefined) {
+    if (typeof raw.section !== 'string' && typeof raw.section !== 'number') {
+      throw new AIResponseSchemaError(`citations[${index}].section must be a string`);
+    }
+    citation.section = String(raw.section).trim();
+  }
+  if (typeof raw.title === 'string' && raw.title.trim()) {
+    citation.title = raw.title.trim();
+  }
+  if (raw.relevance !== undefined) {
+    if (typeof raw.relevance !== 'number' || Number.isNaN(raw.relevance)) {
+      throw new AIResponseSchemaError(`citations[${index}].relevance must be a number`);
+    }
+    citation.relevance = Math.round(clamp(raw.relevance, 0, 100));
+  }
+  return citation;
+}
+
+/* --- Validation ---
+   Throws AIResponseSchemaError on malformed payloads or unsupported
+   versions. `requireAnswer: false` validates metadata-only payloads, such
+   as the closing event of a stream whose text arrived token by token.
+--- */
+export function parseStructuredResponse(
+  data: unknown,
+  { requireAnswer = true }: { requireAnswer?: boolean } = {}
+): StructuredAIResponse {
+  if (!isRecord(data)) {
+    throw new AIResponseSchemaError('Response must be a JSON object');
+  }
+
+  const version = data.schemaVersion;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new AIResponseSchemaError('schemaVersion must be a positive integer');
+  }
+  if (version > AI_RESPONSE_SCHEMA_VERSION) {
+    throw new AIResponseSchemaError(
+      `Unsupported schemaVersion ${version} (client supports up to ${AI_RESPONSE_SCHEMA_VERSION})`
+    );
+  }
+
+  const answer = typeof data.answer === 'string' ? data.answer : '';
+  if (requireAnswer && !answer.trim()) {
+    throw new AIResponseSchemaError('answer must be a non-empty string');
+  }
+
+  if (data.citations !== undefined && !Array.isArray(data.citations)) {
+    throw new AIResponseSchemaError('citations must be an array');
+  }
+  const citations = ((data.citations as unknown[]) || []).slice(0, MAX_CITATIONS).map(parseCitation);
+
+  let confidence: number | undefined;
+  if (data.confidence !== undefined) {
+    if (typeof data.confidence !== 'number' || Number.isNaN(data.confidence)) {
+      throw new AIResponseSchemaError('confidence must be a number between 0 and 1');
+    }
+    confidence = clamp(data.confidence, 0, 1);
+  }
+
+  if (data.suggestions !== undefined && !Array.isArray(data.suggestions)) {
+    throw new AIResponseSchemaError('suggestions must be an array of strings');
+  }
+  const suggestions = ((data.suggestions as unknown[]) || [])
+    .filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+    .map((item) => item.trim())
+    .slice(0, MAX_SUGGESTIONS);
+
+  if (data.intakeStage !== undefined && !isIntakeStage(data.intakeStage)) {
+    throw new AIResponseSchemaError('intakeStage must be a known intake stage');
+  }
+  const intakeStage = data.intakeStage as IntakeStage | undefined;
+
+  return { schemaVersion: version, answer, citations, confidence, suggestions, intakeStage };
+}
+
+export function toResponseDetails(structured: StructuredAIResponse): AIResponseDetails {
+  return {
+    schemaVersion: structured.schemaVersion,
+    citations: structured.citations,
+    confidence: structured.confidence,
+    suggestions: structured.suggestions,
+    intakeStage: structured.intakeStage,
+  };
+}
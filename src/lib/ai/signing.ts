@@ -0,0 +1,132 @@
+/* --- Webhook Request Signing ---
+   Signs each n8n webhook call so the workflow can reject requests that
+   did not come from this app, and replays of requests that did.
+
+   Headers added to the POST:
+   X-Jurisly-Timestamp   Unix time in milliseconds
+   X-Jurisly-Nonce       random 128-bit hex value, unique per attempt
+   X-Jurisly-Signature   "v1=" + hex HMAC-SHA256 of "v1:<timestamp>:<nonce>:<body>"
+
+   Used in "secret" mode, keyed with a per-deployment secret
+   (VITE_N8N_SIGNING_SECRET). Anything in a VITE_ variable ships in the
+   bundle, so this only keeps out casual callers.
+
+   "session" mode does not sign: it sends the user's Supabase access token
+   as "Authorization: Bearer <token>" and the workflow verifies it with
+   Supabase (auth.getUser). An HMAC keyed with that token would prove
+   nothing more, since the token travels with the request and anyone who
+   captures one can re-sign any body; session mode is bearer auth only,
+   without replay protection beyond the token's expiry.
+
+   verifySignedRequest below uses only Web Crypto and has no imports, so
+   it can be copied into a Supabase Edge Function (Deno) or any Node 18+
+   server. An equivalent n8n Code node snippet is in N8N_INTEGRATION_GUIDE.md.
+--- */
+
+export const SIGNATURE_VERSION = 'v1';
+
+export const SIGNATURE_HEADERS = {
+  timestamp: 'X-Jurisly-Timestamp',
+  nonce: 'X-Jurisly-Nonce',
+  signature: 'X-Jurisly-Signature',
+} as const;
+
+// Requests older or newer than this are rejected as replays
+export const DEFAULT_SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(message)));
+}
+
+const signingString = (timestamp: string, nonce: string, body: string) =>
+  `${SIGNATURE_VERSION}:${timestamp}:${nonce}:${body}`;
+
+// `body` must be the exact string sent as the request body
+export async function signRequestBody(
+  body: string,
+  secret: string,
+  now: number = Date.now()
+): Promise<Record<string, string>> {
+  const timestamp = String(now);
+  const nonce = toHex(crypto.getRandomValues(new Uint8Array(16)).buffer);
+  const signature = await hmacSha256Hex(secret, signingString(timestamp, nonce, body));
+
+  return {
+    [SIGNATURE_HEADERS.timestamp]: timestamp,
+    [SIGNATURE_HEADERS.nonce]: nonce,
+    [SIGNATURE_HEADERS.signature]: `${SIGNATURE_VERSION}=${signature}`,
+  };
+}
+
+/* --- Verification ---
+   Checks, in order: headers present, timestamp within tolerance,
+   signature matches, nonce unused. `isNonceUsed` should record the nonce and
+   report whether it was already seen; keep nonces at least as long as
+   the tolerance window (e.g. n8n workflow static data, Redis, a table).
+--- */
+export interface VerifySignatureOptions {
+  secret: string;
+  toleranceMs?: number;
+  now?: number;
+  isNonceUsed?: (nonce: string) => boolean | Promise<boolean>;
+}
+
+export type VerifySignatureResult =
+  | { valid: true }
+  | { valid: false; reason: 'missing_headers' | 'stale_timestamp' | 'replayed_nonce' | 'bad_signature' };
+
+// Compares every character so timing does not reveal the matching prefix
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export async function verifySignedRequest(
+  headers: Headers | Record<string, string | undefined>,
+  body: string,
+  { secret, toleranceMs = DEFAULT_SIGNATURE_TOLERANCE_MS, now = Date.now(), isNonceUsed }: VerifySignatureOptions
+): Promise<VerifySignatureResult> {
+  // n8n and Node lower-case incoming header names
+  const read = (name: string) =>
+    headers instanceof Headers ? headers.get(name) ?? undefined : headers[name] ?? headers[name.toLowerCase()];
+
+  const timestamp = read(SIGNATURE_HEADERS.timestamp);
+  const nonce = read(SIGNATURE_HEADERS.nonce);
+  const signature = read(SIGNATURE_HEADERS.signature);
+  if (!timestamp || !nonce || !signature) {
+    return { valid: false, reason: 'missing_headers' };
+  }
+
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || Math.abs(now - sentAt) > toleranceMs) {
+    return { valid: false, reason: 'stale_timestamp' };
+  }
+
+  const expected = `${SIGNATURE_VERSION}=${await hmacSha256Hex(secret, signingString(timestamp, nonce, body))}`;
+  if (!timingSafeEqual(signature, expected)) {
+    return { valid: false, reason: 'bad_signature' };
+  }
+
+  // Only record nonces of correctly signed requests, so forged calls can't fill the store
+  if (isNonceUsed && (await isNonceUsed(nonce))) {
+    return { valid: false, reason: 'replayed_nonce' };
+  }
+
+  return { valid: true };
+}
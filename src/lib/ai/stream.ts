@@ -0,0 +1,77 @@
+/* --- Streaming Response Reader ---
+   Reads a chunked fetch Response body and yields parsed events.
+   Supports two wire formats:
+   - SSE (text/event-stream): lines of `data: <json>`; `data: [DONE]` ends the stream
+   - NDJSON (application/x-ndjson, application/jsonl): one JSON object per line
+
+   Plain text lines that are not JSON are passed through as { text }.
+--- */
+
+export type StreamFormat = 'sse' | 'ndjson';
+
+export function detectStreamFormat(response: Response): StreamFormat | null {
+  const contentType = response.headers.get('content-type') || '';
+  if (contentType.includes('text/event-stream')) return 'sse';
+  if (contentType.includes('ndjson') || contentType.includes('jsonl')) return 'ndjson';
+  return null;
+}
+
+function parseLine(line: string): unknown {
+  try {
+    return JSON.parse(line);
+  } catch {
+    return { text: line };
+  }
+}
+
+export async function readStream(
+  response: Response,
+  format: StreamFormat,
+  onEvent: (event: unknown) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let done = false;
+
+  const handleLine = (rawLine: string) => {
+    const line = rawLine.replace(/\r$/, '');
+    if (!line.trim()) return;
+
+    if (format === 'sse') {
+      // Ignore comments, event names and ids; only data lines carry payloads
+      if (!line.startsWith('data:')) return;
+      const data = line.slice(5).trimStart();
+      if (data === '[DONE]') {
+        done = true;
+        return;
+      }
+      onEvent(parseLine(data));
+    } else {
+      onEvent(parseLine(line));
+    }
+  };
+
+  while (!done) {
+    const { value, done: streamDone } = await reader.read();
+    if (streamDone) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.forEach(handleLine);
+  }
+
+  buffer += decoder.decode();
+  if (!done && buffer) {
+    handleLine(buffer);
+  }
+
+  if (done) {
+    await reader.cancel().catch(() => undefined);
+  }
+}
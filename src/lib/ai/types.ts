@@ -0,0 +1,200 @@
+import { LawCitation } from './schema';
+import type { FeedbackReason, FeedbackRating } from '../feedback';
+import type { IntakeStage, IntakeState } from '../legal/intake';
+import type { Jurisdiction } from '../legal/jurisdictions';
+
+/* --- AI Provider Contract ---
+   Every AI backend (n8n webhook, OpenAI-compatible endpoint, local mock)
+   receives the same AIRequest and resolves to the same AIResponse.
+   ChatPage only talks to this contract, never to a specific backend.
+--- */
+
+export type AIProviderId = 'n8n' | 'openai' | 'mock';
+
+export interface AIHistoryTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface AIRequest {
+  message: string;
+  language: string;
+  userId?: string;
+  conversationId?: string;
+  timestamp: string;
+  signal?: AbortSignal;
+  // Prior turns, oldest first. Trimmed per provider before sending (contextWindow.ts)
+  history?: AIHistoryTurn[];
+  // Condensed description of turns that did not fit the window
+  historySummary?: string;
+  // Supabase access token, sent as a bearer token to n8n in "session" mode
+  accessToken?: string;
+  // Where a guided consultation stands after this message (legal/intake.ts)
+  intake?: IntakeState;
+  // State / district the answer should be scoped to (legal/jurisdictions.ts)
+  jurisdiction?: Jurisdiction;
+  // Skip the cached answer and store the fresh one (regenerate / refresh, see cache.ts)
+  refreshCache?: boolean;
+}
+
+// Structured fields from a schemaVersion'd response (see schema.ts)
+export interface AIResponseDetails {
+  schemaVersion?: number;
+  citations?: LawCitation[];
+  confidence?: number;
+  suggestions?: string[];
+  intakeStage?: IntakeStage;
+}
+
+export interface AIResponse extends AIResponseDetails {
+  text: string;
+  relevance?: number;
+  provider: AIProviderId;
+  // Set when the answer came from the response cache (cache.ts)
+  cachedAt?: string;
+}
+
+/* --- Streaming ---
+   When handlers are passed, providers that support it emit partial text
+   through onToken as it arrives. send() still resolves with the full reply.
+--- */
+export interface AIStreamHandlers {
+  onToken: (token: string) => void;
+}
+
+// A user's rating of an answer, forwarded so bad answers can be reviewed (feedback.ts)
+export interface AIFeedback {
+  conversationId: string;
+  messageId: string;
+  variantIndex: number;
+  rating: FeedbackRating;
+  reasons: FeedbackReason[];
+  comment?: string;
+  question: string;
+  answer: string;
+  citations?: LawCitation[];
+  language: string;
+  userId?: string;
+  timestamp: string;
+  accessToken?: string;
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  send: (request: AIRequest, handlers?: AIStreamHandlers) => Promise<AIResponse>;
+  // Optional: backends without a review queue ignore feedback
+  sendFeedback?: (feedback: AIFeedback) => Promise<void>;
+}
+
+// How much conversation history a provider receives
+export interface ContextWindowOptions {
+  maxTurns: number;
+  maxChars: number;
+  maxTurnChars: number;
+  summarize: boolean;
+}
+
+export type RequestSigningMode = 'off' | 'secret' | 'session';
+
+export interface RequestSigningConfig {
+  mode: RequestSigningMode;
+  secret?: string;
+}
+
+export interface AIProviderConfig {
+  provider: AIProviderId;
+  n8nWebhookUrl: string;
+  // Where answer feedback is posted; defaults to the chat webhook with event: 'feedback'
+  n8nFeedbackUrl: string;
+  n8nSigning: RequestSigningConfig;
+  openaiBaseUrl: string;
+  openaiApiKey?: string;
+  openaiModel: string;
+  fallbackToMock: boolean;
+  // Max silence before an attempt is aborted: time to first byte, then between streamed tokens
+  timeoutMs: number;
+  // Extra attempts after the first for transient 5xx, 429, network and timeout errors
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  contextWindow: Record<AIProviderId, ContextWindowOptions>;
+  // How long cached answers stay valid; 0 disables the response cache
+  cacheTtlMs: number;
+}
+
+/* --- n8n Webhook Contract ---
+   Payload posted to the webhook and the response shapes it may return.
+   Older workflows answer with `reply` or `response` instead of `aiResponse`.
+--- */
+export interface N8nWebhookPayload {
+  query: string;
+  message: string;
+  userId?: string;
+  language: string;
+  conversationId?: string;
+  timestamp: string;
+  stream?: boolean;
+  history?: AIHistoryTurn[];
+  historySummary?: string;
+  intake?: IntakeState;
+  // `label` is the readable form, e.g. "Pune, Maharashtra, India"
+  jurisdiction?: Jurisdiction & { label: string };
+}
+
+export type N8nFeedbackPayload = Omit<AIFeedback, 'accessToken'> & { event: 'feedback' };
+
+export interface N8nWebhookResponse {
+  success?: boolean;
+  aiResponse?: string;
+  reply?: string;
+  response?: string;
+  relevanceScore?: number;
+}
+
+// One line of a streamed n8n reply (SSE data or NDJSON)
+export interface N8nStreamEvent extends N8nWebhookResponse {
+  type?: 'begin' | 'item' | 'end' | 'error';
+  content?: string;
+  text?: string;
+}
+
+/* --- OpenAI-compatible Chat Completions Contract --- */
+export interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatCompletionMessage[];
+  stream?: boolean;
+}
+
+export interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+}
+
+export interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string } }[];
+}
+
+export class AIProviderError extends Error {
+  constructor(public provider: AIProviderId, message: string, public status?: number) {
+    super(message);
+    this.name = 'AIProviderError';
+  }
+}
+
+export class AIRequestTimeoutError extends Error {
+  constructor(public timeoutMs: number) {
+    super(`AI request timed out after ${timeoutMs}ms`);
+    this.name = 'AIRequestTimeoutError';
+  }
+}
+
+// Raised when the user stops generation; never retried and never shown as an error
+export class AIRequestCancelledError extends Error {
+  constructor() {
+    super('AI request was cancelled');
+    this.name = 'AIRequestCancelledError';
+  }
+}
@@ -0,0 +1,53 @@
+import type { Bilingual } from '../legal/knowledgeBase';
+
+/* --- Plan Tiers ---
+   Every account is on a plan with a daily and a monthly message quota.
+   "standard" is the free default; paid plans are bought through the
+   billing provider (billing/provider.ts; a local stand-in for development).
+
+   Limits are mirrored in the plan_tiers table (supabase_usage_quotas.sql),
+   which is what the server enforces; keep the two in sync.
+--- */
+
+export type PlanTier = 'standard' | 'plus' | 'pro';
+
+export interface Plan {
+  tier: PlanTier;
+  name: Bilingual;
+  dailyLimit: number;
+  monthlyLimit: number;
+  // Monthly price in rupees; 0 for the free plan
+  priceInr: number;
+}
+
+export const DEFAULT_PLAN: PlanTier = 'standard';
+
+export const PLANS: Record<PlanTier, Plan> = {
+  standard: {
+    tier: 'standard',
+    name: { en: 'Standard', hi: 'मानक' },
+    dailyLimit: 25,
+    monthlyLimit: 300,
+    priceInr: 0,
+  },
+  plus: {
+    tier: 'plus',
+    name: { en: 'Plus', hi: 'प्लस' },
+    dailyLimit: 150,
+    monthlyLimit: 3000,
+    priceInr: 299,
+  },
+  pro: {
+    tier: 'pro',
+    name: { en: 'Professional', hi: 'प्रोफेशनल' },
+    dailyLimit: 1000,
+    monthlyLimit: 20000,
+    priceInr: 999,
+  },
+};
+
+export const PLAN_TIERS = Object.keys(PLANS) as PlanTier[];
+
+export function isPlanTier(value: unknown): value is PlanTier {
+  return typeof value === 'string' && (PLAN_TIERS as string[]).includes(value);
+}
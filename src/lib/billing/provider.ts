@@ -0,0 +1,48 @@
+import { DEFAULT_PLAN, isPlanTier, PlanTier } from './plans';
+
+/* --- Billing Provider ---
+   Where the user's plan comes from and how it is changed. Only a local
+   stand-in exists today: it keeps the plan in localStorage
+   ("jurisly_plan_<userEmail>") and switches plans instantly without
+   taking payment, so quotas and the upgrade flow can be developed and
+   tested. It is only used in development builds (import.meta.env.DEV)
+   or when VITE_BILLING_PROVIDER=local is set explicitly; otherwise there
+   is no provider, the plan comes from the server (or DEFAULT_PLAN) and
+   it cannot be changed from the app.
+
+   A real provider (Razorpay, Stripe, ...) would open its checkout in
+   changePlan and let its webhook write public.user_plans with the service
+   role; with Supabase configured the plan returned by get_message_usage
+   takes precedence over the provider's.
+--- */
+
+export interface BillingProvider {
+  id: 'local';
+  getPlan: (userEmail: string) => Promise<PlanTier>;
+  // Resolves to the plan now in effect
+  changePlan: (userEmail: string, plan: PlanTier) => Promise<PlanTier>;
+}
+
+const storageKey = (userEmail: string) => `jurisly_plan_${userEmail}`;
+
+export function createLocalBillingProvider(): BillingProvider {
+  return {
+    id: 'local',
+    getPlan: async (userEmail) => {
+      const saved = localStorage.getItem(storageKey(userEmail));
+      return isPlanTier(saved) ? saved : DEFAULT_PLAN;
+    },
+    changePlan: async (userEmail, plan) => {
+      localStorage.setItem(storageKey(userEmail), plan);
+      return plan;
+    },
+  };
+}
+
+// Null when no provider is enabled for this build
+export function getBillingProvider(): BillingProvider | null {
+  if (import.meta.env.DEV || import.meta.env.VITE_BILLING_PROVIDER === 'local') {
+    return createLocalBillingProvider();
+  }
+  return null;
+}
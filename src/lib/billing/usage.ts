@@ -0,0 +1,137 @@
+import { supabase, isSupabaseConfigured } from '../supabase';
+import { DEFAULT_PLAN, isPlanTier, PLANS, PlanTier } from './plans';
+
+/* --- Message Usage ---
+   Every AI request (new question, edit, retry, regenerate) uses one
+   message of the plan's quota. Days and months are counted in Indian
+   time (Asia/Kolkata), matching the server, so quotas reset at IST midnight.
+
+   Client side: a counter in localStorage under "jurisly_usage_<userEmail>"
+   blocks sending once the quota is used up, and works without Supabase.
+   Server side: the consume_message_quota RPC (supabase_usage_quotas.sql)
+   counts and checks atomically and is authoritative; its answer
+   overwrites the local counter, so other devices' usage is reflected.
+--- */
+
+export interface UsageCounter {
+  day: string; // YYYY-MM-DD
+  month: string; // YYYY-MM
+  dailyUsed: number;
+  monthlyUsed: number;
+}
+
+export interface QuotaStatus {
+  plan: PlanTier;
+  dailyLimit: number;
+  monthlyLimit: number;
+  dailyUsed: number;
+  monthlyUsed: number;
+  // The smaller of what is left today and this month
+  remaining: number;
+  // Which limit was hit, if any
+  exhausted: 'daily' | 'monthly' | null;
+}
+
+// Row returned by the get_message_usage / consume_message_quota RPCs
+interface ServerUsageRow {
+  allowed?: boolean;
+  plan: string;
+  daily_limit: number;
+  monthly_limit: number;
+  daily_used: number;
+  monthly_used: number;
+}
+
+export interface ServerUsage {
+  allowed: boolean;
+  plan: PlanTier;
+  dailyLimit: number;
+  monthlyLimit: number;
+  counter: UsageCounter;
+}
+
+const storageKey = (userEmail: string) => `jurisly_usage_${userEmail}`;
+
+export function currentPeriod(now: Date = new Date()): Pick<UsageCounter, 'day' | 'month'> {
+  // en-CA formats as YYYY-MM-DD
+  const day = now.toLocaleDateString('en-CA', { timeZone: 'Asia/Kolkata' });
+  return { day, month: day.slice(0, 7) };
+}
+
+// Start a new day / month when the stored one has passed
+export function rollOver(counter: UsageCounter, now: Date = new Date()): UsageCounter {
+  const { day, month } = currentPeriod(now);
+  if (counter.day === day) return counter;
+  return {
+    day,
+    month,
+    dailyUsed: 0,
+    monthlyUsed: counter.month === month ? counter.monthlyUsed : 0,
+  };
+}
+
+export function loadUsage(userEmail: string): UsageCounter {
+  try {
+    const saved = localStorage.getItem(storageKey(userEmail));
+    if (saved) return rollOver(JSON.parse(saved) as UsageCounter);
+  } catch (error) {
+    console.error('Error loading usage:', error);
+  }
+  return { ...currentPeriod(), dailyUsed: 0, monthlyUsed: 0 };
+}
+
+export function saveUsage(userEmail: string, counter: UsageCounter) {
+  localStorage.setItem(storageKey(userEmail), JSON.stringify(counter));
+}
+
+export function recordMessage(counter: UsageCounter): UsageCounter {
+  const current = rollOver(counter);
+  return { ...current, dailyUsed: current.dailyUsed + 1, monthlyUsed: current.monthlyUsed + 1 };
+}
+
+export function getQuotaStatus(
+  plan: PlanTier,
+  counter: UsageCounter,
+  limits: { dailyLimit: number; monthlyLimit: number } = PLANS[plan]
+): QuotaStatus {
+  const { dailyUsed, monthlyUsed } = rollOver(counter);
+  const dailyLeft = Math.max(0, limits.dailyLimit - dailyUsed);
+  const monthlyLeft = Math.max(0, limits.monthlyLimit - monthlyUsed);
+  return {
+    plan,
+    ...limits,
+    dailyUsed,
+    monthlyUsed,
+    remaining: Math.min(dailyLeft, monthlyLeft),
+    exhausted: monthlyLeft === 0 ? 'monthly' : dailyLeft === 0 ? 'daily' : null,
+  };
+}
+
+function toServerUsage(row: ServerUsageRow): ServerUsage {
+  return {
+    allowed: row.allowed ?? true,
+    plan: isPlanTier(row.plan) ? row.plan : DEFAULT_PLAN,
+    dailyLimit: row.daily_limit,
+    monthlyLimit: row.monthly_limit,
+    counter: { ...currentPeriod(), dailyUsed: row.daily_used, monthlyUsed: row.monthly_used },
+  };
+}
+
+// null when Supabase is not set up, the user has no session or the call fails
+async function callUsageRpc(fn: 'get_message_usage' | 'consume_message_quota'): Promise<ServerUsage | null> {
+  if (!isSupabaseConfigured()) return null;
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return null;
+
+  const { data, error } = await supabase.rpc(fn);
+  if (error) {
+    console.error(`Error calling ${fn}:`, error.message);
+    return null;
+  }
+  const row = (Array.isArray(data) ? data[0] : data) as ServerUsageRow | undefined;
+  return row ? toServerUsage(row) : null;
+}
+
+export const fetchServerUsage = () => callUsageRpc('get_message_usage');
+
+export const consumeServerQuota = () => callUsageRpc('consume_message_quota');
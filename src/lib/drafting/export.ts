@@ -0,0 +1,69 @@
+import { buildDocx } from './docx';
+import { DraftBlock, draftToText } from './templates';
+
+/* --- Draft Export ---
+   Downloads a draft as .txt or .docx, or opens it as an A4 page in a new
+   window with the print dialog, from which the browser saves it as PDF
+   (the same approach as the chat export; no PDF library is bundled).
+--- */
+
+export type DraftExportFormat = 'txt' | 'pdf' | 'docx';
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+function draftToHtml(blocks: DraftBlock[], title: string): string {
+  const paragraphs = blocks
+    .map((block) => `<p class="${block.style ?? ''}">${escapeHtml(block.text).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    @page { size: A4; margin: 2.5cm; }
+    body { font-family: 'Times New Roman', Times, serif; font-size: 12pt; line-height: 1.5; color: #000; max-width: 16cm; margin: 0 auto; }
+    p { margin: 0 0 12pt; text-align: justify; }
+    .title { text-align: center; font-weight: bold; font-size: 14pt; }
+    .heading { font-weight: bold; }
+    .center { text-align: center; }
+    .right { text-align: right; }
+  </style>
+</head>
+<body>
+${paragraphs}
+</body>
+</html>`;
+}
+
+// False when the browser blocked the print window
+export function exportDraft(blocks: DraftBlock[], format: DraftExportFormat, filename: string, title: string): boolean {
+  if (format === 'txt') {
+    downloadBlob(new Blob([draftToText(blocks)], { type: 'text/plain' }), `${filename}.txt`);
+    return true;
+  }
+  if (format === 'docx') {
+    downloadBlob(buildDocx(blocks), `${filename}.docx`);
+    return true;
+  }
+
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+  printWindow.document.write(draftToHtml(blocks, title));
+  printWindow.document.close();
+  printWindow.focus();
+  // Give the page a moment to lay out before the print dialog opens
+  setTimeout(() => printWindow.print(), 300);
+  return true;
+}
@@ -0,0 +1,122 @@
+import { readDate, toIsoDate } from '../legal/limitation';
+import { classifyLegalTopic } from '../legal/offlineEngine';
+import { DRAFT_TEMPLATES, DraftContextKey, DraftTemplate, DraftTemplateId, DraftValues } from './templates';
+
+/* --- Draft Prefill ---
+   Starting values for a draft, read from what the user already told the
+   assistant: their name (from the account), the chat's jurisdiction, and
+   from their messages the amounts, dates and cheque numbers mentioned,
+   the kind of dispute, and the messages themselves as the facts.
+
+   detectDraftRequest spots "draft a legal notice for me" / "RTI
+   application बना दो" style requests, for which the chat offers the
+   drafting wizard next to the AI's answer. Questions about a document
+   ("how do I make a consumer complaint?", "what is the format of a
+   legal notice?") are not requests and are left to the AI alone.
+--- */
+
+export interface DraftContext {
+  userName?: string;
+  // District and state of the chat's jurisdiction
+  district?: string;
+  state?: string;
+  // The user's messages in the conversation, oldest first
+  userMessages: string[];
+}
+
+// Replies to a notice received are not one of the templates
+const REPLY_WORDS = /\b(?:reply|respond|response|received|got)\b|जवाब|मिला|मिली/i;
+// Asking for a document to be written: "draft ...", "write/prepare ... for me", "write me ...",
+// an imperative "Write/Prepare a ..." or "... बना दो"
+const DRAFT_REQUESTS = [
+  /\bdraft\b|ड्राफ्ट कर/i,
+  /\b(?:write|prepare|create|generate|make)\b.*\bfor (?:me|us)\b/i,
+  /\b(?:write|prepare|create|generate|make) (?:me|us)\b/i,
+  /^(?:please |kindly )?(?:(?:can|could|would|will) you )?(?:please )?(?:write|prepare|create|generate|make)\b/i,
+  /बना दो|बना दें|बना दीजिए|बना दीजिये|बनाओ|बनाइए|बनाइये|लिख दो|लिख दें|लिख दीजिए|लिख दीजिये|लिखो|लिखिए|लिखिये|तैयार कर दो|तैयार कर दें|तैयार कर दीजिए/,
+];
+// How-to questions about a document, answered by the AI
+const QUESTION_START = /^(?:what|how|why|when|where|which|who|whose|is|are|do|does|did|should|shall|must|can i|can we|could i|may i)\b|^क्या (?!आप)/i;
+const QUESTION_WORDS = /\bhow (?:to|do|does|can|should)\b|\bwhat (?:is|are|should|do|does)\b|कैसे|क्यों|किस|कौन|कहाँ|कहां/i;
+const POLITE_REQUEST = /^(?:please|kindly|(?:can|could|would|will) you)\b/i;
+
+const isQuestion = (text: string) =>
+  QUESTION_START.test(text) || QUESTION_WORDS.test(text) || (text.endsWith('?') && !POLITE_REQUEST.test(text));
+
+const AMOUNT = /(?:₹|\brs\.?|\binr)\s*([\d,]+(?:\.\d+)?)|([\d,]+(?:\.\d+)?)\s*(?:rupees|\/-|रुपये|रुपए)/i;
+const LAKH = /([\d.]+)\s*(?:lakh|lac|लाख)/i;
+const CHEQUE_NUMBER = /(?:cheque|check|चेक)\s*(?:no\.?|number|#|संख्या)?\s*[:-]?\s*(\d{6})\b/i;
+
+// Facts longer than this are cut at a sentence end
+const MAX_FACTS_LENGTH = 1200;
+
+const NOTICE_TYPE_BY_TOPIC: Record<string, string> = {
+  cheque_bounce: 'cheque_dishonour',
+  tenancy: 'deposit_refund',
+  consumer: 'consumer_deficiency',
+};
+
+const containsKeyword = (text: string, keyword: string) =>
+  /^[a-z ]+$/.test(keyword) ? new RegExp(`\\b${keyword}\\b`, 'i').test(text) : text.includes(keyword);
+
+// The template a message asks to be written, if it asks for one
+export function detectDraftRequest(message: string): DraftTemplateId | null {
+  const lower = message.trim().toLowerCase();
+  if (!DRAFT_REQUESTS.some((pattern) => pattern.test(lower)) || isQuestion(lower) || REPLY_WORDS.test(lower)) {
+    return null;
+  }
+  // Longer keywords first, so "consumer complaint" beats "notice"-style generic words
+  const matches = DRAFT_TEMPLATES.flatMap((template) => template.keywords.map((keyword) => ({ template, keyword })))
+    .filter(({ keyword }) => containsKeyword(lower, keyword))
+    .sort((a, b) => b.keyword.length - a.keyword.length);
+  return matches[0]?.template.id ?? null;
+}
+
+// A template that fits the conversation so far, to suggest first
+export function suggestDraftTemplate(context: DraftContext): DraftTemplate | null {
+  const topic = classifyLegalTopic(context.userMessages.join('\n'))?.topic.id;
+  return (topic && DRAFT_TEMPLATES.find((template) => template.topics.includes(topic))) || null;
+}
+
+function readAmount(text: string): string | undefined {
+  const lakh = text.match(LAKH);
+  if (lakh) return String(Math.round(Number(lakh[1]) * 100000));
+  const match = text.match(AMOUNT);
+  return match ? (match[1] ?? match[2]).replace(/,/g, '') : undefined;
+}
+
+function readFacts(messages: string[]): string | undefined {
+  // The request for the draft itself says nothing about the facts
+  const facts = messages.filter((message) => !detectDraftRequest(message)).join('\n').trim();
+  if (!facts) return undefined;
+  if (facts.length <= MAX_FACTS_LENGTH) return facts;
+  const cut = facts.slice(0, MAX_FACTS_LENGTH);
+  return cut.slice(0, Math.max(cut.lastIndexOf('. ') + 1, cut.lastIndexOf('\n'))) || cut;
+}
+
+function readContext(context: DraftContext): Partial<Record<DraftContextKey, string>> {
+  const text = context.userMessages.join('\n');
+  const topic = classifyLegalTopic(text)?.topic.id;
+
+  return {
+    today: toIsoDate(new Date()),
+    name: context.userName,
+    place: context.district || context.state,
+    district: context.district,
+    amount: readAmount(text),
+    chequeNumber: text.match(CHEQUE_NUMBER)?.[1],
+    eventDate: readDate(text),
+    facts: readFacts(context.userMessages),
+    noticeType: topic ? NOTICE_TYPE_BY_TOPIC[topic] : undefined,
+  };
+}
+
+// Default values for every field: conversation values first, then the template's defaults
+export function prefillDraft(template: DraftTemplate, context: DraftContext): DraftValues {
+  const known = readContext(context);
+  const values: DraftValues = {};
+  for (const field of template.steps.flatMap((step) => step.fields)) {
+    values[field.name] = (field.prefill && known[field.prefill]) || field.defaultValue || '';
+  }
+  return values;
+}
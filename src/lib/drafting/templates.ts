@@ -0,0 +1,513 @@
+import type { Bilingual, LegalTopicId } from '../legal/knowledgeBase';
+
+/* --- Document Templates ---
+   Parameterised drafts for the documents users most often ask the
+   assistant to "write": a legal notice, an RTI application, a consumer
+   complaint, a rent agreement and an affidavit. Each template has:
+   - steps: the wizard pages, each a list of fields
+   - keywords: how a chat message asks for it ("draft a legal notice")
+   - topics: knowledge-base topics it usually follows, to suggest it
+   - guidance: what to check before using the draft
+   - render: the document as blocks, from the field values
+
+   Fields may name a `prefill` key; those are filled from the
+   conversation (prefill.ts). Missing values render as "[Label]" so the
+   live preview shows what is still to be filled in.
+
+   Drafts are in English, which courts and government offices accept
+   everywhere; the wizard itself is bilingual.
+--- */
+
+export type DraftTemplateId = 'legal_notice' | 'rti_application' | 'consumer_complaint' | 'rent_agreement' | 'affidavit';
+
+export type DraftFieldType = 'text' | 'textarea' | 'date' | 'money' | 'number' | 'select';
+
+// Values read from the conversation, see prefill.ts
+export type DraftContextKey = 'today' | 'name' | 'place' | 'district' | 'amount' | 'chequeNumber' | 'eventDate' | 'facts' | 'noticeType';
+
+export type DraftValues = Record<string, string>;
+
+export interface DraftField {
+  name: string;
+  label: Bilingual;
+  type: DraftFieldType;
+  required?: boolean;
+  placeholder?: Bilingual;
+  options?: Array<{ value: string; label: Bilingual }>;
+  defaultValue?: string;
+  prefill?: DraftContextKey;
+  // Only asked (and rendered) when this returns true
+  showIf?: (values: DraftValues) => boolean;
+}
+
+export interface DraftStep {
+  title: Bilingual;
+  fields: DraftField[];
+}
+
+export interface DraftBlock {
+  text: string;
+  style?: 'title' | 'heading' | 'center' | 'right';
+}
+
+// A field's display value: formatted, or "[Label]" while empty
+export type FieldReader = (name: string) => string;
+
+export interface DraftTemplate {
+  id: DraftTemplateId;
+  name: Bilingual;
+  description: Bilingual;
+  keywords: string[];
+  topics: LegalTopicId[];
+  guidance: Bilingual;
+  steps: DraftStep[];
+  render: (field: FieldReader, values: DraftValues) => DraftBlock[];
+}
+
+const textField = (name: string, en: string, hi: string, extra: Partial<DraftField> = {}): DraftField => ({
+  name,
+  label: { en, hi },
+  type: 'text',
+  required: true,
+  ...extra,
+});
+
+const numbered = (paragraphs: string[]): DraftBlock[] => paragraphs.map((paragraph, i) => ({ text: `${i + 1}. ${paragraph}` }));
+
+// One statement per line of a textarea
+const lines = (value: string) => value.split('\n').map((line) => line.trim()).filter(Boolean);
+
+const isCheque = (values: DraftValues) => values.noticeType === 'cheque_dishonour';
+
+const LEGAL_NOTICE: DraftTemplate = {
+  id: 'legal_notice',
+  name: { en: 'Legal notice', hi: 'कानूनी नोटिस' },
+  description: {
+    en: 'Demand payment or action before going to court, including a cheque-bounce notice.',
+    hi: 'अदालत जाने से पहले भुगतान या कार्रवाई की मांग, चेक बाउंस नोटिस सहित।',
+  },
+  keywords: ['legal notice', 'notice', 'demand notice', 'कानूनी नोटिस', 'लीगल नोटिस', 'नोटिस'],
+  topics: ['cheque_bounce', 'tenancy', 'consumer', 'cheating'],
+  guidance: {
+    en: 'Send by registered post with acknowledgement (and email, if known) and keep the postal receipt. For a bounced cheque, the notice must go within 30 days of the bank\'s return memo.',
+    hi: 'पावती सहित रजिस्टर्ड डाक से (और ज्ञात हो तो ईमेल से) भेजें और डाक रसीद रखें। बाउंस चेक के लिए नोटिस बैंक के रिटर्न मेमो के 30 दिनों के भीतर जाना चाहिए।',
+  },
+  steps: [
+    {
+      title: { en: 'Parties', hi: 'पक्षकार' },
+      fields: [
+        textField('senderName', 'Your full name', 'आपका पूरा नाम', { prefill: 'name' }),
+        { ...textField('senderAddress', 'Your address', 'आपका पता'), type: 'textarea' },
+        textField('recipientName', 'Recipient\'s name', 'प्राप्तकर्ता का नाम'),
+        { ...textField('recipientAddress', 'Recipient\'s address', 'प्राप्तकर्ता का पता'), type: 'textarea' },
+        textField('advocateName', 'Advocate sending it for you (optional)', 'आपकी ओर से भेजने वाले अधिवक्ता (वैकल्पिक)', { required: false }),
+      ],
+    },
+    {
+      title: { en: 'The dispute', hi: 'विवाद' },
+      fields: [
+        {
+          name: 'noticeType',
+          label: { en: 'Notice for', hi: 'नोटिस का विषय' },
+          type: 'select',
+          required: true,
+          defaultValue: 'money_recovery',
+          prefill: 'noticeType',
+          options: [
+            { value: 'cheque_dishonour', label: { en: 'Dishonour of cheque', hi: 'चेक का अनादरण' } },
+            { value: 'money_recovery', label: { en: 'Recovery of money', hi: 'धन की वसूली' } },
+            { value: 'deposit_refund', label: { en: 'Refund of security deposit', hi: 'सिक्योरिटी डिपॉज़िट की वापसी' } },
+            { value: 'consumer_deficiency', label: { en: 'Defective goods or deficient service', hi: 'दोषपूर्ण सामान या सेवा में कमी' } },
+          ],
+        },
+        { ...textField('facts', 'What happened', 'क्या हुआ'), type: 'textarea', prefill: 'facts', placeholder: { en: 'Dates, what was agreed, what went wrong', hi: 'तारीखें, क्या तय हुआ था, क्या गलत हुआ' } },
+        { ...textField('amount', 'Amount due (₹)', 'देय राशि (₹)'), type: 'money', prefill: 'amount' },
+        textField('chequeNumber', 'Cheque number', 'चेक संख्या', { prefill: 'chequeNumber', showIf: isCheque }),
+        { ...textField('chequeDate', 'Cheque date', 'चेक की तारीख'), type: 'date', prefill: 'eventDate', showIf: isCheque },
+        textField('bankName', 'Bank the cheque was drawn on', 'जिस बैंक पर चेक काटा गया', { showIf: isCheque }),
+        { ...textField('returnDate', 'Date of the bank\'s return memo', 'बैंक के रिटर्न मेमो की तारीख'), type: 'date', showIf: isCheque },
+      ],
+    },
+    {
+      title: { en: 'Demand', hi: 'मांग' },
+      fields: [
+        { ...textField('complianceDays', 'Days given to comply', 'पालन के लिए दिए गए दिन'), type: 'number', defaultValue: '15' },
+        { ...textField('demand', 'Anything else you demand (optional)', 'अन्य मांग (वैकल्पिक)', { required: false }), type: 'textarea' },
+        textField('place', 'Place', 'स्थान', { prefill: 'place' }),
+        { ...textField('date', 'Date of notice', 'नोटिस की तारीख'), type: 'date', prefill: 'today' },
+      ],
+    },
+  ],
+  render: (field, values) => {
+    const viaAdvocate = !!values.advocateName?.trim();
+    const subjects: Record<string, string> = {
+      cheque_dishonour: `Legal notice under Section 138 of the Negotiable Instruments Act, 1881 for dishonour of cheque no. ${field('chequeNumber')}`,
+      money_recovery: `Legal notice for recovery of ${field('amount')}`,
+      deposit_refund: `Legal notice for refund of security deposit of ${field('amount')}`,
+      consumer_deficiency: 'Legal notice for defective goods / deficiency in service',
+    };
+    const paragraphs = [field('facts')];
+    if (isCheque(values)) {
+      paragraphs.push(
+        `Towards the said liability you issued cheque no. ${field('chequeNumber')} dated ${field('chequeDate')} for ${field('amount')}, drawn on ${field('bankName')}. The cheque was presented for payment and returned unpaid, as shown by the bank's return memo dated ${field('returnDate')}.`,
+        'The dishonour of the cheque is an offence punishable under Section 138 of the Negotiable Instruments Act, 1881.'
+      );
+    }
+    paragraphs.push(
+      `${viaAdvocate ? 'My client therefore calls upon you' : 'I therefore call upon you'} to pay the sum of ${field('amount')} within ${field('complianceDays')} days of receipt of this notice.${
+        values.demand?.trim() ? ` ${values.demand.trim()}` : ''
+      }`,
+      `If you fail to do so, ${viaAdvocate ? 'my client' : 'I'} will be constrained to initiate appropriate civil and/or criminal proceedings against you, entirely at your risk as to costs and consequences.`
+    );
+
+    return [
+      { text: 'LEGAL NOTICE', style: 'title' },
+      { text: `Date: ${field('date')}`, style: 'right' },
+      { text: `To,\n${field('recipientName')}\n${field('recipientAddress')}` },
+      { text: `Subject: ${subjects[values.noticeType] ?? subjects.money_recovery}`, style: 'heading' },
+      { text: 'Sir/Madam,' },
+      {
+        text: viaAdvocate
+          ? `Under instructions from and on behalf of my client, ${field('senderName')}, residing at ${field('senderAddress')}, I hereby serve you with the following notice:`
+          : `I, ${field('senderName')}, residing at ${field('senderAddress')}, hereby serve you with the following notice:`,
+      },
+      ...numbered(paragraphs),
+      { text: 'A copy of this notice is retained for record and further action.' },
+      {
+        text: viaAdvocate ? `${field('advocateName')}\nAdvocate for ${field('senderName')}\n${field('place')}` : `${field('senderName')}\n${field('place')}`,
+        style: 'right',
+      },
+    ];
+  },
+};
+
+const RTI_APPLICATION: DraftTemplate = {
+  id: 'rti_application',
+  name: { en: 'RTI application', hi: 'आरटीआई आवेदन' },
+  description: {
+    en: 'Ask a public authority for information under the Right to Information Act, 2005.',
+    hi: 'सूचना का अधिकार अधिनियम, 2005 के तहत किसी लोक प्राधिकरण से जानकारी मांगें।',
+  },
+  keywords: ['rti', 'right to information', 'आरटीआई', 'सूचना का अधिकार'],
+  topics: [],
+  guidance: {
+    en: 'The fee for central authorities is ₹10; states set their own. The reply is due within 30 days; if it does not come, file a first appeal with the appellate authority within 30 days after that.',
+    hi: 'केंद्रीय प्राधिकरणों के लिए शुल्क ₹10 है; राज्य अपना शुल्क तय करते हैं। उत्तर 30 दिनों में देय है; न आए तो उसके बाद 30 दिनों के भीतर अपीलीय प्राधिकारी के पास प्रथम अपील करें।',
+  },
+  steps: [
+    {
+      title: { en: 'Public authority', hi: 'लोक प्राधिकरण' },
+      fields: [
+        textField('authority', 'Department or office', 'विभाग या कार्यालय', { placeholder: { en: 'e.g. Municipal Corporation, Ward Office', hi: 'जैसे नगर निगम, वार्ड कार्यालय' } }),
+        { ...textField('authorityAddress', 'Its address', 'उसका पता'), type: 'textarea' },
+      ],
+    },
+    {
+      title: { en: 'Information sought', hi: 'मांगी गई जानकारी' },
+      fields: [
+        {
+          ...textField('information', 'Information you want, one item per line', 'आप जो जानकारी चाहते हैं, हर पंक्ति में एक'),
+          type: 'textarea',
+          placeholder: { en: 'Certified copy of…\nStatus of my application no. … dated …', hi: '… की प्रमाणित प्रति\nमेरे आवेदन संख्या … दिनांक … की स्थिति' },
+        },
+        textField('period', 'Period it relates to (optional)', 'संबंधित अवधि (वैकल्पिक)', { required: false }),
+      ],
+    },
+    {
+      title: { en: 'Applicant and fee', hi: 'आवेदक और शुल्क' },
+      fields: [
+        textField('applicantName', 'Your full name', 'आपका पूरा नाम', { prefill: 'name' }),
+        { ...textField('applicantAddress', 'Your address', 'आपका पता'), type: 'textarea' },
+        {
+          name: 'feeMode',
+          label: { en: 'Fee paid by', hi: 'शुल्क का भुगतान' },
+          type: 'select',
+          required: true,
+          defaultValue: 'ipo',
+          options: [
+            { value: 'ipo', label: { en: 'Indian Postal Order', hi: 'भारतीय पोस्टल ऑर्डर' } },
+            { value: 'dd', label: { en: 'Demand draft', hi: 'डिमांड ड्राफ्ट' } },
+            { value: 'stamp', label: { en: 'Court fee stamp', hi: 'कोर्ट फीस स्टांप' } },
+            { value: 'bpl', label: { en: 'Exempt (Below Poverty Line)', hi: 'छूट (गरीबी रेखा से नीचे)' } },
+          ],
+        },
+        textField('place', 'Place', 'स्थान', { prefill: 'place' }),
+        { ...textField('date', 'Date', 'तारीख'), type: 'date', prefill: 'today' },
+      ],
+    },
+  ],
+  render: (field, values) => {
+    const items = lines(values.information ?? '');
+    const fee =
+      values.feeMode === 'bpl'
+        ? 'I belong to the Below Poverty Line category and am exempt from the application fee. A copy of my BPL card is enclosed.'
+        : `The application fee of ₹10 is paid by ${field('feeMode')}.`;
+
+    return [
+      { text: 'APPLICATION FOR INFORMATION UNDER SECTION 6(1) OF THE RIGHT TO INFORMATION ACT, 2005', style: 'title' },
+      { text: `To,\nThe Public Information Officer\n${field('authority')}\n${field('authorityAddress')}` },
+      { text: 'Subject: Request for information under the Right to Information Act, 2005', style: 'heading' },
+      { text: 'Sir/Madam,' },
+      {
+        text: `I request the following information${values.period?.trim() ? ` for the period ${values.period.trim()}` : ''}:`,
+      },
+      ...(items.length > 0 ? numbered(items) : [{ text: `1. ${field('information')}` }]),
+      { text: fee },
+      { text: 'I request that the information be provided within 30 days, as required by Section 7(1) of the Act. I am a citizen of India.' },
+      { text: `${field('applicantName')}\n${field('applicantAddress')}\nPlace: ${field('place')}\nDate: ${field('date')}`, style: 'right' },
+    ];
+  },
+};
+
+const CONSUMER_COMPLAINT: DraftTemplate = {
+  id: 'consumer_complaint',
+  name: { en: 'Consumer complaint', hi: 'उपभोक्ता शिकायत' },
+  description: {
+    en: 'Complaint to the District Consumer Commission for defective goods or deficient service.',
+    hi: 'दोषपूर्ण सामान या सेवा में कमी के लिए जिला उपभोक्ता आयोग में शिकायत।',
+  },
+  keywords: ['consumer complaint', 'consumer court', 'consumer forum', 'उपभोक्ता शिकायत', 'उपभोक्ता फोरम', 'उपभोक्ता अदालत'],
+  topics: ['consumer'],
+  guidance: {
+    en: 'File within two years of the problem (Section 69), on e-Daakhil or at the District Commission, with copies of the bill, warranty and your complaints to the seller. The District Commission hears claims up to ₹50 lakh.',
+    hi: 'समस्या के दो वर्षों के भीतर (धारा 69) ई-दाखिल पर या जिला आयोग में, बिल, वारंटी और विक्रेता को की गई शिकायतों की प्रतियों के साथ दायर करें। जिला आयोग ₹50 लाख तक के दावे सुनता है।',
+  },
+  steps: [
+    {
+      title: { en: 'Parties', hi: 'पक्षकार' },
+      fields: [
+        textField('district', 'District of the Commission', 'आयोग का जिला', { prefill: 'district' }),
+        textField('complainantName', 'Your full name', 'आपका पूरा नाम', { prefill: 'name' }),
+        { ...textField('complainantAddress', 'Your address', 'आपका पता'), type: 'textarea' },
+        textField('opponentName', 'Seller or service provider', 'विक्रेता या सेवा प्रदाता'),
+        { ...textField('opponentAddress', 'Their address', 'उनका पता'), type: 'textarea' },
+      ],
+    },
+    {
+      title: { en: 'The complaint', hi: 'शिकायत' },
+      fields: [
+        textField('product', 'Goods or service bought', 'खरीदा गया सामान या सेवा'),
+        { ...textField('purchaseDate', 'Date of purchase', 'खरीद की तारीख'), type: 'date', prefill: 'eventDate' },
+        { ...textField('pricePaid', 'Amount paid (₹)', 'भुगतान की गई राशि (₹)'), type: 'money', prefill: 'amount' },
+        { ...textField('deficiency', 'What was wrong, and what the seller did when you complained', 'क्या गलत था, और शिकायत पर विक्रेता ने क्या किया'), type: 'textarea', prefill: 'facts' },
+      ],
+    },
+    {
+      title: { en: 'Relief', hi: 'राहत' },
+      fields: [
+        { ...textField('refund', 'Refund or replacement value (₹)', 'धनवापसी या प्रतिस्थापन मूल्य (₹)'), type: 'money', prefill: 'amount' },
+        { ...textField('compensation', 'Compensation for harassment (₹)', 'उत्पीड़न के लिए मुआवजा (₹)'), type: 'money' },
+        { ...textField('costs', 'Litigation costs (₹)', 'मुकदमे का खर्च (₹)'), type: 'money', defaultValue: '5000' },
+        textField('place', 'Place', 'स्थान', { prefill: 'place' }),
+        { ...textField('date', 'Date', 'तारीख'), type: 'date', prefill: 'today' },
+      ],
+    },
+  ],
+  render: (field) => [
+    { text: `BEFORE THE DISTRICT CONSUMER DISPUTES REDRESSAL COMMISSION, ${field('district').toUpperCase()}`, style: 'title' },
+    { text: `Consumer Complaint No. ______ of ${new Date().getFullYear()}`, style: 'center' },
+    { text: `IN THE MATTER OF:\n${field('complainantName')}, ${field('complainantAddress')}\n… Complainant\n\nVERSUS\n\n${field('opponentName')}, ${field('opponentAddress')}\n… Opposite Party` },
+    { text: 'COMPLAINT UNDER SECTION 35 OF THE CONSUMER PROTECTION ACT, 2019', style: 'heading' },
+    { text: 'MOST RESPECTFULLY SHOWETH:' },
+    ...numbered([
+      `That the Complainant purchased ${field('product')} from the Opposite Party on ${field('purchaseDate')} for a consideration of ${field('pricePaid')}, and is a consumer within the meaning of Section 2(7) of the Act.`,
+      field('deficiency'),
+      'That the above amounts to a defect in goods and/or deficiency in service and an unfair trade practice on the part of the Opposite Party, within the meaning of Sections 2(10), 2(11) and 2(47) of the Act.',
+      `That the cause of action arose on ${field('purchaseDate')} and continues; the complaint is within the limitation period of two years under Section 69 of the Act.`,
+      'That the value of the goods or services paid as consideration is within the pecuniary jurisdiction of this Commission, and the Complainant resides within its territorial jurisdiction, as permitted by Section 34(2)(d) of the Act.',
+    ]),
+    { text: 'PRAYER', style: 'heading' },
+    {
+      text: `It is therefore prayed that this Commission may direct the Opposite Party to:\n(a) refund or replace the goods/services, valued at ${field('refund')};\n(b) pay compensation of ${field('compensation')} for the mental agony and harassment caused;\n(c) pay ${field('costs')} towards the cost of this litigation; and\n(d) grant any other relief this Commission deems fit.`,
+    },
+    { text: `${field('complainantName')}\nComplainant`, style: 'right' },
+    { text: 'VERIFICATION', style: 'heading' },
+    {
+      text: `I, ${field('complainantName')}, the Complainant, verify that the contents of the above complaint are true and correct to the best of my knowledge and belief, and nothing material has been concealed. Verified at ${field('place')} on ${field('date')}.`,
+    },
+    { text: `${field('complainantName')}\nComplainant`, style: 'right' },
+  ],
+};
+
+const RENT_AGREEMENT: DraftTemplate = {
+  id: 'rent_agreement',
+  name: { en: 'Rent agreement', hi: 'किरायानामा' },
+  description: {
+    en: 'Residential rent agreement between a landlord and a tenant.',
+    hi: 'मकान मालिक और किरायेदार के बीच आवासीय किरायानामा।',
+  },
+  keywords: ['rent agreement', 'rental agreement', 'lease agreement', 'lease deed', 'किरायानामा', 'रेंट एग्रीमेंट', 'किराया अनुबंध'],
+  topics: ['tenancy'],
+  guidance: {
+    en: 'Print on stamp paper of the value your state requires and have it signed before two witnesses. Agreements for more than 11 months must be registered (Section 17, Registration Act); some states require registration for all tenancies.',
+    hi: 'अपने राज्य द्वारा अपेक्षित मूल्य के स्टांप पेपर पर छापें और दो गवाहों के सामने हस्ताक्षर कराएं। 11 महीने से अधिक के अनुबंध का पंजीकरण अनिवार्य है (धारा 17, रजिस्ट्रीकरण अधिनियम); कुछ राज्यों में सभी किरायेदारियों का पंजीकरण अनिवार्य है।',
+  },
+  steps: [
+    {
+      title: { en: 'Parties', hi: 'पक्षकार' },
+      fields: [
+        textField('landlordName', 'Landlord\'s full name', 'मकान मालिक का पूरा नाम'),
+        { ...textField('landlordAddress', 'Landlord\'s address', 'मकान मालिक का पता'), type: 'textarea' },
+        textField('tenantName', 'Tenant\'s full name', 'किरायेदार का पूरा नाम'),
+        { ...textField('tenantAddress', 'Tenant\'s permanent address', 'किरायेदार का स्थायी पता'), type: 'textarea' },
+      ],
+    },
+    {
+      title: { en: 'Property and rent', hi: 'संपत्ति और किराया' },
+      fields: [
+        { ...textField('propertyAddress', 'Address of the rented premises', 'किराये के परिसर का पता'), type: 'textarea' },
+        { ...textField('startDate', 'Tenancy starts on', 'किरायेदारी आरंभ तिथि'), type: 'date' },
+        { ...textField('months', 'Duration (months)', 'अवधि (महीने)'), type: 'number', defaultValue: '11' },
+        { ...textField('rent', 'Monthly rent (₹)', 'मासिक किराया (₹)'), type: 'money', prefill: 'amount' },
+        { ...textField('deposit', 'Security deposit (₹)', 'सिक्योरिटी डिपॉज़िट (₹)'), type: 'money' },
+        { ...textField('dueDay', 'Rent due by day of the month', 'किराया महीने के किस दिन तक देय'), type: 'number', defaultValue: '5' },
+      ],
+    },
+    {
+      title: { en: 'Terms', hi: 'शर्तें' },
+      fields: [
+        { ...textField('noticeMonths', 'Notice period to end the tenancy (months)', 'किरायेदारी समाप्त करने की नोटिस अवधि (महीने)'), type: 'number', defaultValue: '1' },
+        { ...textField('increase', 'Rent increase on renewal (%)', 'नवीनीकरण पर किराया वृद्धि (%)'), type: 'number', defaultValue: '5' },
+        { ...textField('extraTerms', 'Other terms, one per line (optional)', 'अन्य शर्तें, हर पंक्ति में एक (वैकल्पिक)', { required: false }), type: 'textarea' },
+        textField('place', 'Place of signing', 'हस्ताक्षर का स्थान', { prefill: 'place' }),
+        { ...textField('date', 'Date of signing', 'हस्ताक्षर की तारीख'), type: 'date', prefill: 'today' },
+      ],
+    },
+  ],
+  render: (field, values) => [
+    { text: 'RENT AGREEMENT', style: 'title' },
+    {
+      text: `This Rent Agreement is made at ${field('place')} on ${field('date')} between ${field('landlordName')}, residing at ${field('landlordAddress')} (the "Landlord"), and ${field('tenantName')}, residing at ${field('tenantAddress')} (the "Tenant").`,
+    },
+    { text: `The Landlord is the owner of the premises at ${field('propertyAddress')} (the "Premises") and has agreed to let them to the Tenant on the following terms:` },
+    ...numbered([
+      `The tenancy is for ${field('months')} months, starting on ${field('startDate')}.`,
+      `The Tenant shall pay a monthly rent of ${field('rent')}, in advance, on or before day ${field('dueDay')} of each month.`,
+      `The Tenant has paid a refundable security deposit of ${field('deposit')}, which the Landlord shall return without interest when the Tenant vacates, after deducting only unpaid rent, unpaid bills and the cost of damage beyond normal wear and tear.`,
+      'The Tenant shall pay the electricity and water charges as per actual consumption. Property tax and structural repairs are the Landlord\'s responsibility.',
+      'The Premises shall be used only for residence by the Tenant and family, and shall not be sublet or used for any illegal purpose.',
+      'The Tenant shall not make structural changes without the Landlord\'s written consent. The Landlord may inspect the Premises at a reasonable time with prior notice.',
+      `Either party may end this agreement by giving ${field('noticeMonths')} month(s) written notice.`,
+      `The agreement may be renewed by mutual consent, with the rent increased by ${field('increase')}%.`,
+      ...lines(values.extraTerms ?? ''),
+    ]),
+    { text: 'IN WITNESS WHEREOF the parties have signed this agreement on the date and at the place first written above.' },
+    { text: `Landlord: ${field('landlordName')}\n\nTenant: ${field('tenantName')}` },
+    { text: 'Witnesses:\n1. Name, address and signature\n2. Name, address and signature' },
+  ],
+};
+
+const AFFIDAVIT: DraftTemplate = {
+  id: 'affidavit',
+  name: { en: 'Affidavit', hi: 'शपथ पत्र' },
+  description: {
+    en: 'General sworn statement, e.g. for name change, address proof or a lost document.',
+    hi: 'सामान्य शपथपूर्ण कथन, जैसे नाम परिवर्तन, पते के प्रमाण या खोए दस्तावेज़ के लिए।',
+  },
+  keywords: ['affidavit', 'self declaration', 'शपथ पत्र', 'हलफनामा', 'एफिडेविट'],
+  topics: [],
+  guidance: {
+    en: 'Print on non-judicial stamp paper of the value your state requires and sign before a Notary or Oath Commissioner. A false statement on oath is an offence (Section 229 BNS).',
+    hi: 'अपने राज्य द्वारा अपेक्षित मूल्य के गैर-न्यायिक स्टांप पेपर पर छापें और नोटरी या शपथ आयुक्त के सामने हस्ताक्षर करें। शपथ पर झूठा कथन अपराध है (धारा 229 बीएनएस)।',
+  },
+  steps: [
+    {
+      title: { en: 'Deponent', hi: 'अभिसाक्षी' },
+      fields: [
+        textField('name', 'Your full name', 'आपका पूरा नाम', { prefill: 'name' }),
+        {
+          name: 'relation',
+          label: { en: 'Relation', hi: 'संबंध' },
+          type: 'select',
+          required: true,
+          defaultValue: 'S/o',
+          options: [
+            { value: 'S/o', label: { en: 'Son of', hi: 'पुत्र' } },
+            { value: 'D/o', label: { en: 'Daughter of', hi: 'पुत्री' } },
+            { value: 'W/o', label: { en: 'Wife of', hi: 'पत्नी' } },
+            { value: 'H/o', label: { en: 'Husband of', hi: 'पति' } },
+          ],
+        },
+        textField('relativeName', 'Parent\'s or spouse\'s name', 'माता-पिता या पति/पत्नी का नाम'),
+        { ...textField('age', 'Age (years)', 'आयु (वर्ष)'), type: 'number' },
+        { ...textField('address', 'Address', 'पता'), type: 'textarea' },
+      ],
+    },
+    {
+      title: { en: 'Statements', hi: 'कथन' },
+      fields: [
+        {
+          ...textField('statements', 'What you declare, one statement per line', 'आप जो घोषित करते हैं, हर पंक्ति में एक कथन'),
+          type: 'textarea',
+          placeholder: { en: 'I am a citizen of India.\nMy name has been wrongly recorded as … in …', hi: 'मैं भारत का नागरिक हूँ।\nमेरा नाम … में गलती से … दर्ज है।' },
+        },
+        textField('purpose', 'To be submitted to / purpose (optional)', 'किसे प्रस्तुत / प्रयोजन (वैकल्पिक)', { required: false }),
+        textField('place', 'Place', 'स्थान', { prefill: 'place' }),
+        { ...textField('date', 'Date', 'तारीख'), type: 'date', prefill: 'today' },
+      ],
+    },
+  ],
+  render: (field, values) => {
+    const statements = lines(values.statements ?? '');
+    return [
+      { text: 'AFFIDAVIT', style: 'title' },
+      {
+        text: `I, ${field('name')}, ${field('relation')} ${field('relativeName')}, aged about ${field('age')} years, residing at ${field('address')}, do hereby solemnly affirm and declare as under:`,
+      },
+      ...numbered([
+        ...(statements.length > 0 ? statements.map((statement) => `That ${statement.replace(/^that\s+/i, '')}`) : [field('statements')]),
+        ...(values.purpose?.trim() ? [`That this affidavit is made for submission to ${values.purpose.trim()}.`] : []),
+      ]),
+      { text: 'DEPONENT', style: 'right' },
+      { text: 'VERIFICATION', style: 'heading' },
+      {
+        text: `Verified at ${field('place')} on ${field('date')} that the contents of the above affidavit are true and correct to the best of my knowledge and belief, and nothing material has been concealed therefrom.`,
+      },
+      { text: 'DEPONENT', style: 'right' },
+    ];
+  },
+};
+
+export const DRAFT_TEMPLATES: DraftTemplate[] = [LEGAL_NOTICE, RTI_APPLICATION, CONSUMER_COMPLAINT, RENT_AGREEMENT, AFFIDAVIT];
+
+export function getDraftTemplate(id: DraftTemplateId): DraftTemplate {
+  return DRAFT_TEMPLATES.find((template) => template.id === id) ?? LEGAL_NOTICE;
+}
+
+export const visibleFields = (step: DraftStep, values: DraftValues) => step.fields.filter((field) => !field.showIf || field.showIf(values));
+
+const formatDate = (iso: string) => {
+  const date = new Date(`${iso}T00:00:00`);
+  return Number.isNaN(date.getTime()) ? iso : date.toLocaleDateString('en-IN', { day: 'numeric', month: 'long', year: 'numeric' });
+};
+
+const formatMoney = (value: string) => {
+  const amount = Number(value.replace(/[,\s₹]/g, ''));
+  return Number.isFinite(amount) ? `₹${amount.toLocaleString('en-IN')}` : value;
+};
+
+// The document for these values; empty fields show as "[Label]"
+export function renderDraft(template: DraftTemplate, values: DraftValues): DraftBlock[] {
+  const fields = template.steps.flatMap((step) => step.fields);
+  const field: FieldReader = (name) => {
+    const definition = fields.find((f) => f.name === name);
+    const value = values[name]?.trim();
+    if (!value) return `[${definition?.label.en ?? name}]`;
+    switch (definition?.type) {
+      case 'date':
+        return formatDate(value);
+      case 'money':
+        return formatMoney(value);
+      case 'select':
+        return definition.options?.find((option) => option.value === value)?.label.en ?? value;
+      default:
+        return value;
+    }
+  };
+  return template.render(field, values);
+}
+
+// Plain text of the blocks, as exported to .txt
+export function draftToText(blocks: DraftBlock[]): string {
+  return blocks.map((block) => (block.style === 'title' ? block.text.toUpperCase() : block.text)).join('\n\n');
+}
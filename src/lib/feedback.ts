@@ -0,0 +1,65 @@
+import { supabase, isSupabaseConfigured } from './supabase';
+import type { LawCitation } from './ai/schema';
+
+/* --- Answer Feedback ---
+   Thumbs up/down on AI answers, with optional reasons and a comment.
+   Stored on the message (ChatContext), in the Supabase message_feedback
+   table (supabase_message_feedback.sql) and forwarded to the AI backend
+   so the workflow team can review bad answers.
+--- */
+
+export type FeedbackRating = 'up' | 'down';
+
+export type FeedbackReason = 'wrong_law' | 'outdated' | 'unclear' | 'incomplete' | 'other';
+
+export const FEEDBACK_REASONS: FeedbackReason[] = ['wrong_law', 'outdated', 'unclear', 'incomplete', 'other'];
+
+export interface MessageFeedback {
+  rating: FeedbackRating;
+  reasons?: FeedbackReason[];
+  comment?: string;
+  createdAt: string;
+}
+
+// The rated answer and the question it answered
+export interface FeedbackSubject {
+  conversationId: string;
+  messageId: string;
+  variantIndex: number;
+  question: string;
+  answer: string;
+  citations?: LawCitation[];
+}
+
+export async function saveFeedbackToSupabase(subject: FeedbackSubject, feedback: MessageFeedback | null) {
+  if (!isSupabaseConfigured()) return;
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return;
+
+  const key = {
+    user_id: session.user.id,
+    conversation_id: subject.conversationId,
+    message_id: subject.messageId,
+    variant_index: subject.variantIndex,
+  };
+
+  const { error } = feedback
+    ? await supabase.from('message_feedback').upsert(
+        {
+          ...key,
+          rating: feedback.rating,
+          reasons: feedback.reasons ?? [],
+          comment: feedback.comment ?? null,
+          question: subject.question,
+          answer: subject.answer,
+          citations: subject.citations ?? [],
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id,conversation_id,message_id,variant_index' }
+      )
+    : await supabase.from('message_feedback').delete().match(key);
+
+  if (error) {
+    console.error('Error saving feedback:', error.message);
+  }
+}
@@ -0,0 +1,152 @@
+import { StatuteActId } from './statutes';
+import { detectStatuteAct, findStatuteSection, StatuteRef } from './statuteSearch';
+
+/* --- Citation Links ---
+   Finds citations in chat message text that the statute dataset can
+   show, so they can be linked:
+   - "Section 138 NI Act", "s. 318(4) of the BNS", "u/s 154 CrPC"
+   - "IPC 420", "NI Act Section 138", "आईपीसी की धारा 420"
+   - "Article 21", "Articles 14 and 21 of the Constitution", "अनुच्छेद 21"
+   - a bare "Section 103" or "धारा 420"
+
+   A bare section takes the act of the citation before it in the same
+   text, else an act the text mentions, else the first act in
+   BARE_SECTION_ORDER that has it. Bare sections followed or preceded by
+   another act's name ("Section 35 of the Consumer Protection Act") are
+   not linked. In a list ("Sections 323, 504 and 506 IPC") each number
+   is its own link; numbers missing from the dataset stay plain text.
+--- */
+
+export interface CitationLink {
+  index: number;
+  length: number;
+  text: string;
+  ref: StatuteRef;
+}
+
+interface RawCitation {
+  index: number;
+  length: number;
+  // Undefined for a bare "Section N"
+  act?: StatuteActId;
+  list: string;
+  listOffset: number;
+}
+
+const ACT_NAMES: Array<{ pattern: string; act: StatuteActId }> = [
+  { pattern: 'bnss|bharatiya nagarik suraksha sanhita(?:,? 2023)?|बीएनएसएस|भारतीय नागरिक सुरक्षा संहिता', act: 'BNSS' },
+  { pattern: 'bns|bharatiya nyaya sanhita(?:,? 2023)?|बीएनएस|भारतीय न्याय संहिता', act: 'BNS' },
+  { pattern: 'bsa|bharatiya sakshya adhiniyam(?:,? 2023)?|बीएसए|भारतीय साक्ष्य अधिनियम,? 2023', act: 'BSA' },
+  { pattern: 'i\\.?p\\.?c\\.?|indian penal code|penal code|आईपीसी|भारतीय दंड संहिता', act: 'IPC' },
+  { pattern: 'cr\\.?\\s?p\\.?\\s?c\\.?|code of criminal procedure|सीआरपीसी|दंड प्रक्रिया संहिता', act: 'CRPC' },
+  { pattern: '(?:indian )?evidence act(?:,? 1872)?|भारतीय साक्ष्य अधिनियम,? 1872|साक्ष्य अधिनियम,? 1872', act: 'IEA' },
+  { pattern: 'n\\.?\\s?i\\.? act|negotiable instruments act(?:,? 1881)?|एनआई एक्ट|परक्राम्य लिखत अधिनियम', act: 'NI' },
+  { pattern: '(?:the )?constitution(?: of india)?|भारत के संविधान|भारतीय संविधान|संविधान', act: 'COI' },
+];
+
+// Colloquially "धारा 420" is the penal code; procedure and evidence come later
+const BARE_SECTION_ORDER: StatuteActId[] = ['BNS', 'IPC', 'NI', 'BNSS', 'CRPC', 'BSA', 'IEA'];
+
+const ACT = `(${ACT_NAMES.map((name) => name.pattern).join('|')})`;
+const NUMBER = '\\d{1,3}[a-z]{0,2}(?:\\(\\d+\\))?';
+const NUMBER_LIST = `(${NUMBER}(?:\\s*(?:,|&|/|and|or|और|व)\\s*${NUMBER})*)`;
+const SECTION_WORD = '(sections?|secs?\\.?|ss?\\.|u/s\\.?|articles?|arts?\\.|धाराओं|धाराएं|धारा|अनुच्छेदों|अनुच्छेद)';
+const END = '(?![\\p{L}\\p{N}])';
+
+// "Section 138 of the NI Act", "420 IPC", "Article 21 of the Constitution"
+const NUMBER_FIRST = new RegExp(`(?:${SECTION_WORD}\\s*)?${NUMBER_LIST}\\s*(?:of\\s+(?:the\\s+)?)?${ACT}${END}`, 'giu');
+// "IPC 420", "NI Act Section 138", "आईपीसी की धारा 420", "संविधान के अनुच्छेद 21"
+const ACT_FIRST = new RegExp(`${ACT}\\s*(?:की|के|का)?\\s*(?:${SECTION_WORD}\\s*)?${NUMBER_LIST}${END}`, 'giu');
+// "Section 103", "धारा 420", "Article 21"
+const BARE = new RegExp(`${SECTION_WORD}\\s*${NUMBER_LIST}${END}`, 'giu');
+
+const ARTICLE_WORD = /^(?:articles?|arts?\.|अनुच्छेद)/i;
+
+// Another act named right after or before a bare section
+const OTHER_ACT_AFTER = /^\s*,?\s*(?:of\s+(?:the\s+)?)?(?:[\p{Lu}][\p{L}.'&-]*,?\s+){0,6}(?:Act|Code|Rules|Regulations|Ordinance)(?![\p{L}\p{N}])/u;
+const OTHER_ACT_AFTER_HI = /^\s*(?:[\p{L}\p{M}]+\s+){0,4}(?:अधिनियम|संहिता|नियम)/u;
+const OTHER_ACT_BEFORE = /(?:act|code|rules|अधिनियम|संहिता|नियम)(?:,?\s*\d{4})?\s*(?:की|के|का|,)?\s*$/iu;
+
+function actOf(name: string): StatuteActId | undefined {
+  return ACT_NAMES.find((entry) => new RegExp(`^(?:${entry.pattern})$`, 'iu').test(name.trim()))?.act;
+}
+
+const isWordStart = (text: string, index: number) => index === 0 || !/[\p{L}\p{N}]/u.test(text[index - 1]);
+
+function collect(text: string, pattern: RegExp, read: (match: RegExpExecArray) => Omit<RawCitation, 'index' | 'length'> | null): RawCitation[] {
+  const found: RawCitation[] = [];
+  pattern.lastIndex = 0;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    if (!isWordStart(text, match.index)) continue;
+    const citation = read(match);
+    if (citation) found.push({ ...citation, index: match.index, length: match[0].length });
+  }
+  return found;
+}
+
+// The section a bare "Section N" most likely means
+function resolveBare(section: string, previous: StatuteActId | undefined, mentioned: StatuteActId | undefined): StatuteActId | undefined {
+  const order = [previous, mentioned, ...BARE_SECTION_ORDER].filter((act): act is StatuteActId => !!act && act !== 'COI');
+  return order.find((act) => findStatuteSection(act, section));
+}
+
+export function findCitationLinks(text: string): CitationLink[] {
+  const raw = [
+    ...collect(text, NUMBER_FIRST, (match) => {
+      const act = actOf(match[3]);
+      return act ? { act, list: match[2], listOffset: match[0].indexOf(match[2]) } : null;
+    }),
+    ...collect(text, ACT_FIRST, (match) => {
+      const act = actOf(match[1]);
+      return act ? { act, list: match[3], listOffset: match[0].lastIndexOf(match[3]) } : null;
+    }),
+    ...collect(text, BARE, (match) => {
+      const after = text.slice(match.index + match[0].length);
+      const before = text.slice(Math.max(0, match.index - 40), match.index);
+      if (OTHER_ACT_AFTER.test(after) || OTHER_ACT_AFTER_HI.test(after) || OTHER_ACT_BEFORE.test(before)) return null;
+      return {
+        act: ARTICLE_WORD.test(match[1]) ? 'COI' : undefined,
+        list: match[2],
+        listOffset: match[0].indexOf(match[2], match[1].length),
+      };
+    }),
+  ];
+
+  // Keep the first (and longest) of overlapping matches
+  const kept: RawCitation[] = [];
+  for (const citation of raw.sort((a, b) => a.index - b.index || b.length - a.length)) {
+    const last = kept[kept.length - 1];
+    if (!last || citation.index >= last.index + last.length) kept.push(citation);
+  }
+
+  const mentioned = detectStatuteAct(text);
+  const links: CitationLink[] = [];
+  let previous: StatuteActId | undefined;
+
+  for (const citation of kept) {
+    const numbers = [...citation.list.matchAll(new RegExp(NUMBER, 'giu'))];
+    const resolved = numbers.flatMap((number) => {
+      const act = citation.act ?? resolveBare(number[0], previous, mentioned);
+      const hit = act ? findStatuteSection(act, number[0]) : null;
+      return hit ? [{ number, act: hit.act }] : [];
+    });
+    if (citation.act) previous = citation.act;
+    if (resolved.length === 0) continue;
+
+    // One number: the whole citation is the link; a list: each number is
+    if (numbers.length === 1) {
+      links.push({
+        index: citation.index,
+        length: citation.length,
+        text: text.slice(citation.index, citation.index + citation.length),
+        ref: { act: resolved[0].act, section: resolved[0].number[0] },
+      });
+      continue;
+    }
+    for (const { number, act } of resolved) {
+      const index = citation.index + citation.listOffset + (number.index ?? 0);
+      links.push({ index, length: number[0].length, text: number[0], ref: { act, section: number[0] } });
+    }
+  }
+  return links;
+}
@@ -0,0 +1,436 @@
+import type { Bilingual } from './knowledgeBase';
+import { STATUTES, StatuteActId } from './statutes';
+
+/* --- Old ↔ New Code Section Mapping ---
+   On 1 July 2024 the Indian Penal Code, the Code of Criminal Procedure
+   and the Indian Evidence Act were replaced by the Bharatiya Nyaya
+   Sanhita (BNS), Bharatiya Nagarik Suraksha Sanhita (BNSS) and Bharatiya
+   Sakshya Adhiniyam (BSA). Users, FIRs and older answers still cite the
+   old numbers, so references are converted both ways here.
+
+   Each row maps old sections to new ones at the finest level known
+   (sub-sections where the new code split a section). A lookup prefers
+   rows naming the exact sub-section and falls back to the whole section,
+   so "IPC 420" gives BNS 318(4) while "BNS 318" gives IPC 415, 417, 418
+   and 420. From the queried side a conversion is:
+   - renumbered: one section on the other side
+   - split: an old section spread over several new ones
+   - merged: a new section that combines several old ones
+   - omitted: an old section with no equivalent in the new code
+   - new: a new section with no equivalent in the old code
+
+   findOldCodeReferences finds "Section 420 IPC", "IPC 420",
+   "u/s 154 CrPC", "धारा 498A आईपीसी" and lists like "Sections 323, 504
+   and 506 IPC" in free text, for annotating chat messages.
+
+   Keep in sync with the official correspondence tables; the sections
+   browsed in statutes.ts take their old/new links from here.
+--- */
+
+type Lang = 'en' | 'hi';
+
+export type OldCodeId = 'IPC' | 'CRPC' | 'IEA';
+export type NewCodeId = 'BNS' | 'BNSS' | 'BSA';
+
+export type ConversionKind = 'renumbered' | 'split' | 'merged' | 'omitted' | 'new';
+
+interface SectionMapping {
+  old: string[];
+  new: string[];
+  note?: Bilingual;
+}
+
+export interface SectionConversion {
+  from: { act: StatuteActId; section: string };
+  toAct: StatuteActId;
+  targets: string[];
+  kind: ConversionKind;
+  notes: Bilingual[];
+}
+
+export const CODE_PAIRS: Record<OldCodeId, NewCodeId> = { IPC: 'BNS', CRPC: 'BNSS', IEA: 'BSA' };
+
+const OLD_CODE_OF: Record<NewCodeId, OldCodeId> = { BNS: 'IPC', BNSS: 'CRPC', BSA: 'IEA' };
+
+const row = (old: string[], next: string[], note?: Bilingual): SectionMapping => ({ old, new: next, note });
+
+const IPC_TO_BNS: SectionMapping[] = [
+  row(['34'], ['3(5)']),
+  row(['96'], ['34']),
+  row(['97'], ['35']),
+  row(['98'], ['36']),
+  row(['99'], ['37']),
+  row(['100'], ['38']),
+  row(['101'], ['39']),
+  row(['102'], ['40']),
+  row(['103'], ['41']),
+  row(['104'], ['42']),
+  row(['105'], ['43']),
+  row(['106'], ['44']),
+  row(['107'], ['45']),
+  row(['109'], ['49']),
+  row(['120A'], ['61(1)']),
+  row(['120B'], ['61(2)']),
+  row(['121'], ['147']),
+  row(['124A'], ['152'], {
+    en: 'Sedition was not carried over; Section 152 BNS punishes acts endangering the sovereignty, unity and integrity of India.',
+    hi: 'राजद्रोह को आगे नहीं रखा गया; धारा 152 बीएनएस भारत की संप्रभुता, एकता और अखंडता को संकट में डालने वाले कार्यों को दंडित करती है।',
+  }),
+  row(['141'], ['189(1)']),
+  row(['143'], ['189(2)']),
+  row(['146'], ['191(1)']),
+  row(['147'], ['191(2)']),
+  row(['148'], ['191(3)']),
+  row(['149'], ['190']),
+  row(['153A'], ['196']),
+  row(['182'], ['217']),
+  row(['186'], ['221']),
+  row(['188'], ['223']),
+  row(['191'], ['227']),
+  row(['193'], ['229']),
+  row(['201'], ['238']),
+  row(['268'], ['270']),
+  row(['279'], ['281']),
+  row(['294'], ['296']),
+  row(['295A'], ['299']),
+  row(['299'], ['100']),
+  row(['300'], ['101']),
+  row(['302'], ['103(1)'], {
+    en: 'Murder by a group of five or more on grounds such as caste or religion (mob lynching) is now a separate sub-section, 103(2).',
+    hi: 'जाति या धर्म जैसे आधारों पर पांच या अधिक के समूह द्वारा हत्या (मॉब लिंचिंग) अब अलग उप-धारा 103(2) है।',
+  }),
+  row(['304'], ['105']),
+  row(['304A'], ['106(1)']),
+  row(['304B'], ['80']),
+  row(['306'], ['108']),
+  row(['307'], ['109']),
+  row(['308'], ['110']),
+  row(['309'], [], {
+    en: 'Attempt to suicide is no longer an offence; Section 226 BNS only covers attempting suicide to compel or restrain a public servant.',
+    hi: 'आत्महत्या का प्रयत्न अब अपराध नहीं है; धारा 226 बीएनएस केवल लोक सेवक को विवश करने या रोकने के लिए आत्महत्या के प्रयत्न से संबंधित है।',
+  }),
+  row(['312'], ['88']),
+  row(['319'], ['114']),
+  row(['320'], ['116']),
+  row(['321'], ['115(1)']),
+  row(['322'], ['117(1)']),
+  row(['323'], ['115(2)']),
+  row(['324'], ['118(1)']),
+  row(['325'], ['117(2)']),
+  row(['326'], ['118(2)']),
+  row(['326A'], ['124(1)']),
+  row(['326B'], ['124(2)']),
+  row(['336'], ['125']),
+  row(['337'], ['125(a)']),
+  row(['338'], ['125(b)']),
+  row(['339'], ['126(1)']),
+  row(['340'], ['127(1)']),
+  row(['341'], ['126(2)']),
+  row(['342'], ['127(2)']),
+  row(['349'], ['128']),
+  row(['350'], ['129']),
+  row(['351'], ['130']),
+  row(['352'], ['131']),
+  row(['354'], ['74']),
+  row(['354A'], ['75']),
+  row(['354B'], ['76']),
+  row(['354C'], ['77']),
+  row(['354D'], ['78']),
+  row(['359', '360', '361'], ['137(1)']),
+  row(['362'], ['138']),
+  row(['363'], ['137(2)']),
+  row(['364'], ['140(1)']),
+  row(['364A'], ['140(2)']),
+  row(['365'], ['140(3)']),
+  row(['366'], ['87']),
+  row(['370'], ['143']),
+  row(['375'], ['63']),
+  row(['376'], ['64']),
+  row(['376D'], ['70(1)']),
+  row(['377'], [], {
+    en: 'Not carried over into the BNS; non-consensual acts may fall under other provisions, such as those on rape or hurt.',
+    hi: 'बीएनएस में आगे नहीं रखी गई; असहमति से किए गए कार्य बलात्संग या उपहति जैसे अन्य उपबंधों में आ सकते हैं।',
+  }),
+  row(['378'], ['303(1)']),
+  row(['379'], ['303(2)']),
+  row(['380'], ['305']),
+  row(['383'], ['308(1)']),
+  row(['384'], ['308(2)']),
+  row(['390'], ['309(1)']),
+  row(['391'], ['310(1)']),
+  row(['392'], ['309(4)']),
+  row(['395'], ['310(2)']),
+  row(['396'], ['310(3)']),
+  row(['397'], ['311']),
+  row(['403'], ['314']),
+  row(['405'], ['316(1)']),
+  row(['406'], ['316(2)']),
+  row(['407'], ['316(3)']),
+  row(['408'], ['316(4)']),
+  row(['409'], ['316(5)']),
+  row(['410'], ['317(1)']),
+  row(['411'], ['317(2)']),
+  row(['415'], ['318(1)']),
+  row(['416'], ['319(1)']),
+  row(['417'], ['318(2)']),
+  row(['418'], ['318(3)']),
+  row(['419'], ['319(2)']),
+  row(['420'], ['318(4)']),
+  row(['425'], ['324(1)']),
+  row(['426'], ['324(2)']),
+  row(['441'], ['329(1)']),
+  row(['442'], ['329(2)']),
+  row(['447'], ['329(3)']),
+  row(['448'], ['329(4)']),
+  row(['463'], ['336(1)']),
+  row(['464'], ['335']),
+  row(['465'], ['336(2)']),
+  row(['467'], ['338']),
+  row(['468'], ['336(3)']),
+  row(['471'], ['340(2)']),
+  row(['494'], ['82(1)']),
+  row(['497'], [], {
+    en: 'Adultery was struck down by the Supreme Court in 2018 (Joseph Shine) and is not an offence in the BNS.',
+    hi: 'व्यभिचार को 2018 में सर्वोच्च न्यायालय ने (जोसेफ शाइन) निरस्त कर दिया था और यह बीएनएस में अपराध नहीं है।',
+  }),
+  row(['498'], ['84']),
+  row(['498A'], ['85', '86'], {
+    en: 'Section 85 is the offence; the meaning of "cruelty" moved into Section 86.',
+    hi: 'धारा 85 अपराध है; "क्रूरता" का अर्थ धारा 86 में चला गया।',
+  }),
+  row(['499'], ['356(1)']),
+  row(['500'], ['356(2)']),
+  row(['503'], ['351(1)']),
+  row(['504'], ['352']),
+  row(['506'], ['351(2)', '351(3)'], {
+    en: 'Ordinary threats fall under 351(2); threats of death, grievous hurt or fire under 351(3).',
+    hi: 'साधारण धमकी 351(2) में; मृत्यु, घोर उपहति या आग की धमकी 351(3) में।',
+  }),
+  row(['509'], ['79']),
+  row(['511'], ['62']),
+  row([], ['69'], {
+    en: 'New offence: sexual intercourse by deceitful means, including a false promise to marry.',
+    hi: 'नया अपराध: प्रवंचनापूर्ण साधनों से मैथुन, जिसमें विवाह का झूठा वचन शामिल है।',
+  }),
+  row([], ['111'], { en: 'New offence: organised crime.', hi: 'नया अपराध: संगठित अपराध।' }),
+  row([], ['113'], { en: 'New offence: terrorist act.', hi: 'नया अपराध: आतंकवादी कृत्य।' }),
+  row([], ['304'], { en: 'New offence: snatching.', hi: 'नया अपराध: झपटमारी।' }),
+];
+
+const CRPC_TO_BNSS: SectionMapping[] = [
+  row(['41'], ['35(1)']),
+  row(['41A'], ['35(3)']),
+  row(['41D'], ['38']),
+  row(['46'], ['43']),
+  row(['50'], ['47']),
+  row(['50A'], ['48']),
+  row(['57'], ['58']),
+  row(['91'], ['94']),
+  row(['125'], ['144']),
+  row(['144'], ['163']),
+  row(['154'], ['173']),
+  row(['154(3)'], ['173(4)']),
+  row(['155'], ['174']),
+  row(['156'], ['175']),
+  row(['156(3)'], ['175(3)']),
+  row(['157'], ['176']),
+  row(['160'], ['179']),
+  row(['161'], ['180']),
+  row(['164'], ['183']),
+  row(['167'], ['187']),
+  row(['173'], ['193']),
+  row(['174'], ['194']),
+  row(['190'], ['210']),
+  row(['197'], ['218']),
+  row(['200'], ['223']),
+  row(['202'], ['225']),
+  row(['204'], ['227']),
+  row(['227'], ['250']),
+  row(['239'], ['262']),
+  row(['313'], ['351']),
+  row(['320'], ['359']),
+  row(['374'], ['415']),
+  row(['389'], ['430']),
+  row(['397'], ['438']),
+  row(['436'], ['478']),
+  row(['436A'], ['479']),
+  row(['437'], ['480']),
+  row(['438'], ['482']),
+  row(['439'], ['483']),
+  row(['482'], ['528']),
+];
+
+const IEA_TO_BSA: SectionMapping[] = [
+  row(['3'], ['2']),
+  row(['17'], ['15']),
+  row(['24'], ['22']),
+  row(['25'], ['23(1)']),
+  row(['26', '27'], ['23(2)'], {
+    en: 'Section 27 (discovery of a fact) is now the proviso to Section 23(2).',
+    hi: 'धारा 27 (तथ्य का पता चलना) अब धारा 23(2) का परंतुक है।',
+  }),
+  row(['32'], ['26']),
+  row(['45'], ['39(1)']),
+  row(['45A'], ['39(2)']),
+  row(['65A'], ['62']),
+  row(['65B'], ['63']),
+  row(['101'], ['104']),
+  row(['103'], ['106']),
+  row(['105'], ['108']),
+  row(['106'], ['109']),
+  row(['112'], ['116']),
+  row(['113A'], ['117']),
+  row(['113B'], ['118']),
+  row(['114'], ['119']),
+  row(['118'], ['124']),
+  row(['122'], ['128']),
+  row(['126'], ['132']),
+  row(['133'], ['138']),
+  row(['134'], ['139']),
+  row(['137'], ['142']),
+  row(['141'], ['146']),
+  row(['154'], ['157']),
+  row([], ['61'], {
+    en: 'New: electronic and digital records cannot be refused as evidence only because they are electronic.',
+    hi: 'नया: इलेक्ट्रॉनिक और डिजिटल अभिलेखों को केवल इलेक्ट्रॉनिक होने के कारण साक्ष्य के रूप में अस्वीकार नहीं किया जा सकता।',
+  }),
+];
+
+const MAPPINGS: Record<OldCodeId, SectionMapping[]> = { IPC: IPC_TO_BNS, CRPC: CRPC_TO_BNSS, IEA: IEA_TO_BSA };
+
+// "318(4)" and "318" are the same section; so are "498a" and "498A"
+const normalizeSection = (section: string) => section.replace(/\s+/g, '').toUpperCase();
+const baseSection = (section: string) => normalizeSection(section).replace(/\(.*$/, '');
+
+export const CONVERSION_KIND_LABELS: Record<ConversionKind, Bilingual> = {
+  renumbered: { en: 'Renumbered', hi: 'नई संख्या' },
+  split: { en: 'Split into several sections', hi: 'कई धाराओं में बंटी' },
+  merged: { en: 'Combines several old sections', hi: 'कई पुरानी धाराओं को जोड़ती है' },
+  omitted: { en: 'Not carried over into the new code', hi: 'नई संहिता में आगे नहीं रखी गई' },
+  new: { en: 'New; no equivalent in the old code', hi: 'नई; पुरानी संहिता में समकक्ष नहीं' },
+};
+
+export const isOldCode = (act: StatuteActId): act is OldCodeId => act in CODE_PAIRS;
+
+// Only the three replaced codes and their successors are mapped
+export const hasCodeMapping = (act: StatuteActId) => isOldCode(act) || act in OLD_CODE_OF;
+
+// For acts with a code mapping
+export function getPairedCode(act: StatuteActId): StatuteActId {
+  return isOldCode(act) ? CODE_PAIRS[act] : OLD_CODE_OF[act as NewCodeId];
+}
+
+// Null when the section is not in the table
+export function convertSection(act: StatuteActId, section: string): SectionConversion | null {
+  if (!hasCodeMapping(act)) return null;
+  const fromOld = isOldCode(act);
+  const rows = MAPPINGS[fromOld ? act : OLD_CODE_OF[act as NewCodeId]];
+  const side = (mapping: SectionMapping) => (fromOld ? mapping.old : mapping.new);
+  const other = (mapping: SectionMapping) => (fromOld ? mapping.new : mapping.old);
+
+  const wanted = normalizeSection(section);
+  const exact = rows.filter((mapping) => side(mapping).some((s) => normalizeSection(s) === wanted));
+  const matched = exact.length > 0
+    ? exact
+    : rows.filter((mapping) => side(mapping).some((s) => baseSection(s) === baseSection(section)));
+  if (matched.length === 0) return null;
+
+  const targets = [...new Set(matched.flatMap(other))];
+  const kind: ConversionKind =
+    targets.length === 0 ? (fromOld ? 'omitted' : 'new') : targets.length === 1 ? 'renumbered' : fromOld ? 'split' : 'merged';
+
+  return {
+    from: { act, section: wanted },
+    toAct: getPairedCode(act),
+    targets,
+    kind,
+    notes: matched.flatMap((mapping) => (mapping.note ? [mapping.note] : [])),
+  };
+}
+
+// Every mapped section of an old code and its new sections, for the converter table
+export function listMappings(oldCode: OldCodeId): Array<{ old: string[]; new: string[] }> {
+  return MAPPINGS[oldCode].map((mapping) => ({ old: mapping.old, new: mapping.new }));
+}
+
+// "BNS 318(4)", "BNS 351(2), 351(3)", or why there is none
+export function describeConversion(conversion: SectionConversion, language: Lang): string {
+  const name = STATUTES[conversion.toAct].shortName[language];
+  if (conversion.targets.length > 0) return `${name} ${conversion.targets.join(', ')}`;
+  if (conversion.kind === 'omitted') return language === 'hi' ? `${name} में नहीं` : `not in ${name}`;
+  return language === 'hi' ? `${name} में कोई पूर्व धारा नहीं` : `no ${name} equivalent`;
+}
+
+/* --- Finding old references in text --- */
+
+export interface OldCodeReference {
+  index: number;
+  length: number;
+  text: string;
+  act: OldCodeId;
+  conversions: SectionConversion[];
+}
+
+const CODE_NAMES: Array<{ pattern: string; act: OldCodeId }> = [
+  { pattern: 'i\\.?p\\.?c\\.?|indian penal code|penal code|आईपीसी|भारतीय दंड संहिता', act: 'IPC' },
+  { pattern: 'cr\\.?\\s?p\\.?\\s?c\\.?|code of criminal procedure|सीआरपीसी|दंड प्रक्रिया संहिता', act: 'CRPC' },
+  { pattern: '(?:indian )?evidence act(?:,? 1872)?|भारतीय साक्ष्य अधिनियम,? 1872|साक्ष्य अधिनियम,? 1872', act: 'IEA' },
+];
+
+const CODE = `(${CODE_NAMES.map((code) => code.pattern).join('|')})`;
+const NUMBER = '\\d{1,3}[a-z]{0,2}(?:\\(\\d+\\))?';
+const NUMBER_LIST = `(${NUMBER}(?:\\s*(?:,|&|/|and|or|और|व)\\s*${NUMBER})*)`;
+const SECTION_WORD = '(?:sections?|secs?\\.?|ss?\\.|u/s\\.?|धाराओं|धाराएं|धारा)';
+
+// "Section 420 of the IPC", "s. 154 CrPC", "धारा 420 आईपीसी", "420 IPC"
+const NUMBER_FIRST = new RegExp(`(?:${SECTION_WORD}\\s*)?${NUMBER_LIST}\\s*(?:of\\s+(?:the\\s+)?)?${CODE}(?![\\p{L}\\p{N}])`, 'giu');
+// "IPC 420", "IPC Section 498A", "आईपीसी की धारा 420"
+const CODE_FIRST = new RegExp(`${CODE}\\s*(?:की|के)?\\s*(?:${SECTION_WORD}\\s*)?${NUMBER_LIST}(?![\\p{L}\\p{N}])`, 'giu');
+
+// Text that already gives both, e.g. "BNS 318 (formerly IPC 420)" or "IPC 420 (now BNS 318)"
+const ALREADY_CONVERTED_BEFORE = /(formerly|earlier|old|previously|पहले|पूर्व)\W{0,3}$/i;
+const ALREADY_CONVERTED_AFTER = /^\W{0,3}(now|अब)(?![\p{L}\p{N}])/iu;
+
+function codeOf(name: string): OldCodeId | undefined {
+  return CODE_NAMES.find((code) => new RegExp(`^(?:${code.pattern})$`, 'i').test(name.trim()))?.act;
+}
+
+const splitNumbers = (list: string) =>
+  list.split(/\s*(?:,|&|\/|\band\b|\bor\b|और|व)\s*/i).filter((part) => /^\d/.test(part));
+
+// Where "(420 IPC)" style text starts: skip a leading non-letter the pattern needed
+function isWordStart(text: string, index: number): boolean {
+  return index === 0 || !/[\p{L}\p{N}]/u.test(text[index - 1]);
+}
+
+export function findOldCodeReferences(text: string): OldCodeReference[] {
+  const found: OldCodeReference[] = [];
+
+  const collect = (pattern: RegExp, codeGroup: number, listGroup: number) => {
+    pattern.lastIndex = 0;
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+      if (!isWordStart(text, match.index)) continue;
+      const act = codeOf(match[codeGroup]);
+      if (!act) continue;
+      if (ALREADY_CONVERTED_BEFORE.test(text.slice(Math.max(0, match.index - 20), match.index))) continue;
+      if (ALREADY_CONVERTED_AFTER.test(text.slice(match.index + match[0].length))) continue;
+
+      const conversions = splitNumbers(match[listGroup])
+        .map((section) => convertSection(act, section))
+        .filter((conversion): conversion is SectionConversion => conversion !== null);
+      if (conversions.length === 0) continue;
+
+      found.push({ index: match.index, length: match[0].length, text: match[0], act, conversions });
+    }
+  };
+  collect(NUMBER_FIRST, 2, 1);
+  collect(CODE_FIRST, 1, 2);
+
+  // Keep the first (and longest) of overlapping matches
+  const kept: OldCodeReference[] = [];
+  for (const reference of found.sort((a, b) => a.index - b.index || b.length - a.length)) {
+    const last = kept[kept.length - 1];
+    if (!last || reference.index >= last.index + last.length) kept.push(reference);
+  }
+  return kept;
+}
@@ -0,0 +1,146 @@
+import type { Bilingual, BilingualList } from './knowledgeBase';
+
+/* --- Crisis Detection ---
+   Local, rule-based check run on every message before it is sent, so a
+   user describing violence, threats, an arrest in progress or self-harm
+   sees emergency numbers immediately, whatever the AI backend does.
+
+   Patterns look for first-person or in-progress wording ("he beats me",
+   "police are at my door") rather than topic words, so questions about
+   the law itself ("punishment for domestic violence", "अपहरण की सज़ा
+   क्या है") do not trigger it.
+   Self-harm wording always triggers; a false alarm costs less than a miss.
+--- */
+
+export type CrisisCategory = 'domestic_violence' | 'threat' | 'arrest' | 'self_harm';
+
+export interface Helpline {
+  number: string;
+  name: Bilingual;
+}
+
+export interface CrisisGuidance {
+  title: Bilingual;
+  steps: BilingualList;
+}
+
+const PATTERNS: Record<CrisisCategory, RegExp[]> = {
+  domestic_violence: [
+    /\b(my )?(husband|wife|in-?laws?|father|mother|brother|partner|boyfriend)\b.{0,40}\b(beat|hit|slap|kick|attack|burn|lock(ed)? me)/i,
+    /\bdomestic violence\b.{0,30}\b(now|right now|today|help)\b/i,
+    /(पति|पत्नी|ससुराल|सास|ससुर).{0,30}(मारते|मारता|मारती|पीटते|पीटता|पीटती|जला)|दहेज के लिए.{0,20}(मार|पीट|जला)/,
+  ],
+  threat: [
+    /\b(beats?|beating|beaten|hits?|hitting|slaps?|slapping|kicks?|kicking|chok(e|es|ed|ing)|tortur(es|ed|ing)|attack(s|ed|ing)?|hurt(s|ing)?) me\b/i,
+    /\b(threaten(s|ed|ing)?|going|trying|wants?) (to )?(kill|murder|hurt|harm|kidnap|rape|throw acid on) (me|us|my)\b/i,
+    /\b(will|gonna) (kill|murder|hurt|kidnap) (me|us|my)\b/i,
+    /\b(someone|he|she|they) (is|are) (following|stalking) me\b/i,
+    /\bacid attack\b.{0,30}\b(threat|me)\b/i,
+    /मुझे (मारता|मारती|मारते|पीटता|पीटती|पीटते)|मारपीट (कर|हो) रह|जान से मारने की धमकी|मार (डालेगा|डालेंगे|डालूंगा)|धमकी दे (रहा|रही|रहे)|मेरा पीछा कर (रहा|रहे)|(मेरा|मेरी|मेरे|मुझे).{0,20}अपहरण|अपहरण (कर|हो) (लिया|गया|गई|रहा|रहे)/,
+  ],
+  arrest: [
+    /\bpolice (is|are) (here|at (my|our) (door|house|home|shop|office))\b/i,
+    /\b(arresting|detaining|picked up|took away|taken away) (me|my|him|her|them)\b/i,
+    /\b(i|he|she|my \w+) (have been|has been|was|got|am being|is being) (arrested|detained|picked up)\b/i,
+    /\b(arrested|detained) (me|my \w+) (today|now|just now|last night|without)/i,
+    /\bin police custody\b/i,
+    /(पुलिस ने|पुलिस).{0,30}(गिरफ्तार कर|उठा ले|हिरासत में ले)|गिरफ्तार (कर लिया|हो गया|हो गई)|थाने (ले गई|ले गए)/,
+  ],
+  self_harm: [
+    /\b(kill|hurt|harm) myself\b/i,
+    /\b(end|take) my (own )?life\b/i,
+    /\bsuicid(e|al)\b/i,
+    /\b(want to|wanna) die\b|\bdon'?t want to live\b|\bno reason to live\b/i,
+    /आत्महत्या|ख़ुदकुशी|खुदकुशी|जान दे (दूंगा|दूंगी|दूँगा|दूँगी)|मरना चाहत(ा|ी)|जीना नहीं चाहत(ा|ी)/,
+  ],
+};
+
+export const CRISIS_CATEGORIES = Object.keys(PATTERNS) as CrisisCategory[];
+
+// Categories in the order their guidance is shown; empty when nothing matched
+export function detectCrisis(message: string): CrisisCategory[] {
+  return CRISIS_CATEGORIES.filter((category) => PATTERNS[category].some((pattern) => pattern.test(message)));
+}
+
+export const HELPLINES: Helpline[] = [
+  { number: '112', name: { en: 'Emergency (police, ambulance, fire)', hi: 'आपातकाल (पुलिस, एम्बुलेंस, दमकल)' } },
+  { number: '181', name: { en: 'Women Helpline', hi: 'महिला हेल्पलाइन' } },
+  { number: '15100', name: { en: 'NALSA free legal aid', hi: 'नालसा निःशुल्क कानूनी सहायता' } },
+];
+
+// Shown in addition to HELPLINES for self-harm
+export const MENTAL_HEALTH_HELPLINE: Helpline = {
+  number: '14416',
+  name: { en: 'Tele-MANAS mental health support (24x7)', hi: 'टेली-मानस मानसिक स्वास्थ्य सहायता (24x7)' },
+};
+
+export const CRISIS_GUIDANCE: Record<CrisisCategory, CrisisGuidance> = {
+  domestic_violence: {
+    title: { en: 'If you are being hurt at home', hi: 'यदि घर में आपके साथ हिंसा हो रही है' },
+    steps: {
+      en: [
+        'If you are in danger now, call 112 and move to a neighbour or a public place.',
+        'Call 181 for the Women Helpline; they can connect you to a One Stop Centre, shelter and a Protection Officer.',
+        'A magistrate can order protection and your right to stay in the shared home (Sections 17–19, Domestic Violence Act, 2005).',
+        'Get a medical examination and keep photos and messages as evidence.',
+      ],
+      hi: [
+        'यदि आप अभी खतरे में हैं, तो 112 पर कॉल करें और पड़ोसी या किसी सार्वजनिक स्थान पर जाएं।',
+        'महिला हेल्पलाइन के लिए 181 पर कॉल करें; वे वन स्टॉप सेंटर, आश्रय और संरक्षण अधिकारी से जोड़ सकते हैं।',
+        'मजिस्ट्रेट संरक्षण आदेश और साझा घर में रहने का अधिकार दे सकते हैं (धारा 17–19, घरेलू हिंसा अधिनियम, 2005)।',
+        'मेडिकल जांच कराएं और फ़ोटो व संदेश सबूत के रूप में रखें।',
+      ],
+    },
+  },
+  threat: {
+    title: { en: 'If you are being attacked or threatened', hi: 'यदि आप पर हमला हो रहा है या धमकी दी जा रही है' },
+    steps: {
+      en: [
+        'If you are in danger now, call 112 and stay with people you trust.',
+        'Any police station must register your FIR, even outside its area (zero FIR, Section 173 BNSS).',
+        'Hurting someone and criminal intimidation are offences (Sections 115 and 351 BNS, formerly IPC 323 and 506).',
+        'Get injuries examined and save calls, messages and the names of witnesses.',
+      ],
+      hi: [
+        'यदि आप अभी खतरे में हैं, तो 112 पर कॉल करें और भरोसेमंद लोगों के साथ रहें।',
+        'कोई भी थाना आपकी एफआईआर दर्ज करने के लिए बाध्य है, अपने क्षेत्र के बाहर भी (ज़ीरो एफआईआर, धारा 173 बीएनएसएस)।',
+        'चोट पहुंचाना और आपराधिक धमकी अपराध हैं (धारा 115 और 351 बीएनएस, पूर्व में आईपीसी 323 और 506)।',
+        'चोटों की जांच कराएं और कॉल, संदेश व गवाहों के नाम सहेज कर रखें।',
+      ],
+    },
+  },
+  arrest: {
+    title: { en: 'Rights during an arrest', hi: 'गिरफ्तारी के समय अधिकार' },
+    steps: {
+      en: [
+        'The arrested person must be told the grounds of arrest and whether bail is available (Section 47 BNSS).',
+        'Police must inform a relative or friend of the arrest and where the person is held (Section 48 BNSS).',
+        'They may meet a lawyer during interrogation (Section 38 BNSS); call 15100 for free legal aid.',
+        'They must be produced before a magistrate within 24 hours (Section 58 BNSS).',
+        'A woman cannot be arrested after sunset or before sunrise except in exceptional cases, with a magistrate\'s permission (Section 43(5) BNSS).',
+      ],
+      hi: [
+        'गिरफ्तार व्यक्ति को गिरफ्तारी का कारण और ज़मानत की उपलब्धता बताई जानी चाहिए (धारा 47 बीएनएसएस)।',
+        'पुलिस को गिरफ्तारी और हिरासत के स्थान की सूचना किसी रिश्तेदार या मित्र को देनी होगी (धारा 48 बीएनएसएस)।',
+        'पूछताछ के दौरान वकील से मिल सकते हैं (धारा 38 बीएनएसएस); निःशुल्क कानूनी सहायता के लिए 15100 पर कॉल करें।',
+        '24 घंटे के भीतर मजिस्ट्रेट के सामने पेश करना अनिवार्य है (धारा 58 बीएनएसएस)।',
+        'असाधारण मामलों को छोड़कर, मजिस्ट्रेट की अनुमति के बिना किसी महिला को सूर्यास्त के बाद या सूर्योदय से पहले गिरफ्तार नहीं किया जा सकता (धारा 43(5) बीएनएसएस)।',
+      ],
+    },
+  },
+  self_harm: {
+    title: { en: 'You are not alone', hi: 'आप अकेले नहीं हैं' },
+    steps: {
+      en: [
+        'Please call Tele-MANAS at 14416 now to talk to a counsellor, free and confidential, in your language.',
+        'If you might act on these thoughts, call 112 or go to the nearest hospital.',
+        'Reach out to someone you trust and stay with them.',
+      ],
+      hi: [
+        'कृपया अभी टेली-मानस 14416 पर कॉल करें और किसी परामर्शदाता से अपनी भाषा में बात करें, निःशुल्क और गोपनीय।',
+        'यदि आप इन विचारों पर अमल कर सकते हैं, तो 112 पर कॉल करें या निकटतम अस्पताल जाएं।',
+        'किसी भरोसेमंद व्यक्ति से संपर्क करें और उनके साथ रहें।',
+      ],
+    },
+  },
+};
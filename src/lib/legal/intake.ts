@@ -0,0 +1,99 @@
+import { findLawReference, isSkipMessage } from './offlineEngine';
+
+/* --- Consultation Intake ---
+   A law-only question ("Tell me about Section 138 NI Act") starts a short
+   guided consultation:
+
+   law_identified      the user named a law, the reply is on its way
+   awaiting_situation  the reply asked the user to describe their situation
+   analysis            a situation was given (or skipped) and is being analysed
+   next_steps          the analysis was delivered; follow-ups are next steps
+
+   Questions that describe a situation without naming a law go straight to
+   analysis. The state is folded from the conversation's active branch
+   (deriveIntake), so edits, branches and regenerated answers always agree
+   with what is on screen. The state after the latest question is sent to
+   the backend as AIRequest.intake; a structured reply may move the
+   conversation on explicitly with `intakeStage` (see schema.ts).
+--- */
+
+export type IntakeStage = 'idle' | 'law_identified' | 'awaiting_situation' | 'analysis' | 'next_steps';
+
+export const INTAKE_STAGES: IntakeStage[] = ['idle', 'law_identified', 'awaiting_situation', 'analysis', 'next_steps'];
+
+export interface IntakeLaw {
+  section: string;
+  act?: string;
+  title?: string;
+}
+
+export interface IntakeState {
+  stage: IntakeStage;
+  law?: IntakeLaw;
+  // The user chose general information instead of describing a situation
+  skipped?: boolean;
+}
+
+export const INITIAL_INTAKE: IntakeState = { stage: 'idle' };
+
+export function isIntakeStage(value: unknown): value is IntakeStage {
+  return typeof value === 'string' && (INTAKE_STAGES as string[]).includes(value);
+}
+
+// Replies from backends without intakeStage are recognised by their prompt
+const SITUATION_PROMPT = /describe (?:your|the) (?:situation|problem)|अपनी (?:स्थिति|समस्या) का वर्णन/i;
+
+export function intakeAfterQuestion(state: IntakeState, question: string): IntakeState {
+  if (state.stage === 'awaiting_situation') {
+    return { stage: 'analysis', law: state.law, skipped: isSkipMessage(question) || undefined };
+  }
+
+  const law = findLawReference(question);
+  if (law) return { stage: 'law_identified', law };
+  return { stage: 'analysis', law: state.stage === 'idle' ? undefined : state.law };
+}
+
+export function intakeAfterReply(state: IntakeState, reply: { text: string; intakeStage?: IntakeStage }): IntakeState {
+  if (reply.intakeStage) return { ...state, stage: reply.intakeStage };
+
+  switch (state.stage) {
+    case 'law_identified':
+      return { ...state, stage: SITUATION_PROMPT.test(reply.text) ? 'awaiting_situation' : 'next_steps' };
+    case 'analysis':
+      return { ...state, stage: 'next_steps' };
+    default:
+      return state;
+  }
+}
+
+// Replay the active branch; failed, pending and streaming messages do not count
+export function deriveIntake(
+  messages: Array<{ sender: 'user' | 'ai'; text: string; status?: string; intakeStage?: IntakeStage }>
+): IntakeState {
+  let state = INITIAL_INTAKE;
+  let hasQuestion = false;
+  for (const msg of messages) {
+    if (msg.sender === 'user') {
+      state = intakeAfterQuestion(state, msg.text);
+      hasQuestion = true;
+    } else if (!msg.status && hasQuestion) {
+      state = intakeAfterReply(state, msg);
+    }
+  }
+  return state;
+}
+
+// Instruction for chat-completion backends, which have no structured intake field
+export function describeIntake(state: IntakeState): string | undefined {
+  const law = state.law ? `Section ${state.law.section}${state.law.act ? ` of the ${state.law.act}` : ''}` : 'the law';
+  switch (state.stage) {
+    case 'law_identified':
+      return `The user asked about ${law} without describing their situation. Explain it briefly, then ask them to describe their situation or type 'nothing' for general information.`;
+    case 'analysis':
+      return state.skipped
+        ? `The user skipped describing their situation. Give general information about ${law}.`
+        : `The user is describing their situation${state.law ? ` in relation to ${law}` : ''}. Analyse how the law applies and end with concrete next steps.`;
+    default:
+      return undefined;
+  }
+}
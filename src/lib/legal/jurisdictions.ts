@@ -0,0 +1,99 @@
+import type { Bilingual } from './knowledgeBase';
+
+/* --- Jurisdictions ---
+   Rent control, stamp duty, police procedure and court fees differ by
+   state, so answers are scoped to where the user is. A jurisdiction is a
+   country (India only for now), an optional state or union territory
+   (ISO 3166-2:IN code) and an optional free-text district.
+
+   The default comes from Settings (asked once at onboarding); a single
+   conversation can override it from the chat header.
+--- */
+
+export interface Jurisdiction {
+  country: 'IN';
+  state?: string;
+  district?: string;
+}
+
+export interface IndianState {
+  code: string;
+  name: Bilingual;
+  isUnionTerritory?: boolean;
+}
+
+export const ALL_INDIA: Jurisdiction = { country: 'IN' };
+
+export const INDIAN_STATES: IndianState[] = [
+  { code: 'AN', name: { en: 'Andaman and Nicobar Islands', hi: 'अंडमान और निकोबार द्वीपसमूह' }, isUnionTerritory: true },
+  { code: 'AP', name: { en: 'Andhra Pradesh', hi: 'आंध्र प्रदेश' } },
+  { code: 'AR', name: { en: 'Arunachal Pradesh', hi: 'अरुणाचल प्रदेश' } },
+  { code: 'AS', name: { en: 'Assam', hi: 'असम' } },
+  { code: 'BR', name: { en: 'Bihar', hi: 'बिहार' } },
+  { code: 'CH', name: { en: 'Chandigarh', hi: 'चंडीगढ़' }, isUnionTerritory: true },
+  { code: 'CG', name: { en: 'Chhattisgarh', hi: 'छत्तीसगढ़' } },
+  { code: 'DH', name: { en: 'Dadra and Nagar Haveli and Daman and Diu', hi: 'दादरा और नगर हवेली और दमन और दीव' }, isUnionTerritory: true },
+  { code: 'DL', name: { en: 'Delhi', hi: 'दिल्ली' }, isUnionTerritory: true },
+  { code: 'GA', name: { en: 'Goa', hi: 'गोवा' } },
+  { code: 'GJ', name: { en: 'Gujarat', hi: 'गुजरात' } },
+  { code: 'HR', name: { en: 'Haryana', hi: 'हरियाणा' } },
+  { code: 'HP', name: { en: 'Himachal Pradesh', hi: 'हिमाचल प्रदेश' } },
+  { code: 'JK', name: { en: 'Jammu and Kashmir', hi: 'जम्मू और कश्मीर' }, isUnionTerritory: true },
+  { code: 'JH', name: { en: 'Jharkhand', hi: 'झारखंड' } },
+  { code: 'KA', name: { en: 'Karnataka', hi: 'कर्नाटक' } },
+  { code: 'KL', name: { en: 'Kerala', hi: 'केरल' } },
+  { code: 'LA', name: { en: 'Ladakh', hi: 'लद्दाख' }, isUnionTerritory: true },
+  { code: 'LD', name: { en: 'Lakshadweep', hi: 'लक्षद्वीप' }, isUnionTerritory: true },
+  { code: 'MP', name: { en: 'Madhya Pradesh', hi: 'मध्य प्रदेश' } },
+  { code: 'MH', name: { en: 'Maharashtra', hi: 'महाराष्ट्र' } },
+  { code: 'MN', name: { en: 'Manipur', hi: 'मणिपुर' } },
+  { code: 'ML', name: { en: 'Meghalaya', hi: 'मेघालय' } },
+  { code: 'MZ', name: { en: 'Mizoram', hi: 'मिज़ोरम' } },
+  { code: 'NL', name: { en: 'Nagaland', hi: 'नागालैंड' } },
+  { code: 'OD', name: { en: 'Odisha', hi: 'ओडिशा' } },
+  { code: 'PY', name: { en: 'Puducherry', hi: 'पुडुचेरी' }, isUnionTerritory: true },
+  { code: 'PB', name: { en: 'Punjab', hi: 'पंजाब' } },
+  { code: 'RJ', name: { en: 'Rajasthan', hi: 'राजस्थान' } },
+  { code: 'SK', name: { en: 'Sikkim', hi: 'सिक्किम' } },
+  { code: 'TN', name: { en: 'Tamil Nadu', hi: 'तमिलनाडु' } },
+  { code: 'TG', name: { en: 'Telangana', hi: 'तेलंगाना' } },
+  { code: 'TR', name: { en: 'Tripura', hi: 'त्रिपुरा' } },
+  { code: 'UP', name: { en: 'Uttar Pradesh', hi: 'उत्तर प्रदेश' } },
+  { code: 'UK', name: { en: 'Uttarakhand', hi: 'उत्तराखंड' } },
+  { code: 'WB', name: { en: 'West Bengal', hi: 'पश्चिम बंगाल' } },
+];
+
+export function getIndianState(code: string | undefined): IndianState | undefined {
+  return code ? INDIAN_STATES.find((state) => state.code === code) : undefined;
+}
+
+export function isJurisdiction(value: unknown): value is Jurisdiction {
+  if (typeof value !== 'object' || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    candidate.country === 'IN' &&
+    (candidate.state === undefined || !!getIndianState(candidate.state as string)) &&
+    (candidate.district === undefined || typeof candidate.district === 'string')
+  );
+}
+
+// "Pune, Maharashtra, India" / "All India"
+export function formatJurisdiction(jurisdiction: Jurisdiction, language: string = 'en'): string {
+  const lang = language === 'hi' ? 'hi' : 'en';
+  const state = getIndianState(jurisdiction.state);
+  if (!state) return lang === 'en' ? 'All India' : 'संपूर्ण भारत';
+  const country = lang === 'en' ? 'India' : 'भारत';
+  return [jurisdiction.district, state.name[lang], country].filter(Boolean).join(', ');
+}
+
+export function isSameJurisdiction(a: Jurisdiction, b: Jurisdiction): boolean {
+  return a.country === b.country && a.state === b.state && (a.district ?? '') === (b.district ?? '');
+}
+
+// Instruction for chat-completion backends, which have no structured jurisdiction field
+export function describeJurisdiction(jurisdiction: Jurisdiction): string {
+  if (!jurisdiction.state) {
+    return 'The user has not chosen a state. Answer under central Indian law and mention when the answer depends on state law.';
+  }
+  return `The user is in ${formatJurisdiction(jurisdiction)}. Where state laws, rules or procedures differ (rent, stamp duty, land, police and court procedure), answer for this state and say so.`;
+}
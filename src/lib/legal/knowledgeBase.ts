@@ -0,0 +1,431 @@
+/* --- Offline Legal Knowledge Base ---
+   Bundled summary of common Indian legal topics used by the offline
+   answer engine (offlineEngine.ts). Each topic lists:
+   - keywords: `strong` terms almost always mean this topic (weight 3),
+     `related` terms only hint at it (weight 1)
+   - provisions: the statute sections to cite, with a base relevance score
+     and the pre-July-2024 equivalent (IPC/CrPC) where the section moved
+   - steps and followUps shown to the user, in English and Hindi
+
+   This is general legal information, not legal advice. Keep section
+   numbers in sync with the Bharatiya Nyaya Sanhita (BNS) and Bharatiya
+   Nagarik Suraksha Sanhita (BNSS), in force since 1 July 2024.
+--- */
+
+export interface Bilingual {
+  en: string;
+  hi: string;
+}
+
+export interface BilingualList {
+  en: string[];
+  hi: string[];
+}
+
+export interface StatuteProvision {
+  act: string;
+  section: string;
+  title: string;
+  relevance: number;
+  formerly?: { act: string; section: string };
+}
+
+export type LegalTopicId =
+  | 'tenancy'
+  | 'consumer'
+  | 'cheque_bounce'
+  | 'fir'
+  | 'arrest_bail'
+  | 'domestic_violence'
+  | 'cyber_fraud'
+  | 'cheating'
+  | 'marriage_maintenance'
+  | 'inheritance';
+
+export interface LegalTopic {
+  id: LegalTopicId;
+  name: Bilingual;
+  keywords: { strong: string[]; related: string[] };
+  summary: Bilingual;
+  provisions: StatuteProvision[];
+  steps: BilingualList;
+  followUps: BilingualList;
+}
+
+export const ACTS = {
+  BNS: 'Bharatiya Nyaya Sanhita, 2023',
+  BNSS: 'Bharatiya Nagarik Suraksha Sanhita, 2023',
+  IPC: 'Indian Penal Code, 1860',
+  CRPC: 'Code of Criminal Procedure, 1973',
+  BSA: 'Bharatiya Sakshya Adhiniyam, 2023',
+  IEA: 'Indian Evidence Act, 1872',
+  NI: 'Negotiable Instruments Act, 1881',
+  CPA: 'Consumer Protection Act, 2019',
+  TPA: 'Transfer of Property Act, 1882',
+  REGISTRATION: 'Registration Act, 1908',
+  SRA: 'Specific Relief Act, 1963',
+  PWDVA: 'Protection of Women from Domestic Violence Act, 2005',
+  DOWRY: 'Dowry Prohibition Act, 1961',
+  IT: 'Information Technology Act, 2000',
+  HMA: 'Hindu Marriage Act, 1955',
+  HSA: 'Hindu Succession Act, 1956',
+  COI: 'Constitution of India',
+};
+
+export const LEGAL_TOPICS: LegalTopic[] = [
+  {
+    id: 'tenancy',
+    name: { en: 'Tenancy & Rent', hi: 'किरायेदारी और किराया' },
+    keywords: {
+      strong: ['landlord', 'tenant', 'tenancy', 'rent agreement', 'lease', 'eviction', 'evict', 'security deposit', 'मकान मालिक', 'किरायेदार', 'किराया', 'बेदखल', 'किरायानामा'],
+      related: ['rent', 'house owner', 'flat', 'deposit', 'vacate', 'notice period', 'मकान', 'जमानत राशि'],
+    },
+    summary: {
+      en: 'Tenancies are governed by the Transfer of Property Act, the rent-control law of your state and your rent agreement. A landlord cannot evict you by force, cut utilities or lock you out; eviction needs a valid notice and, if you do not leave, an order from a court or rent authority.',
+      hi: 'किरायेदारी संपत्ति अंतरण अधिनियम, आपके राज्य के किराया नियंत्रण कानून और आपके किरायानामे से नियंत्रित होती है। मकान मालिक आपको ज़बरदस्ती नहीं निकाल सकता, बिजली-पानी नहीं काट सकता और ताला नहीं लगा सकता; बेदखली के लिए वैध नोटिस और, यदि आप न निकलें, तो न्यायालय या किराया प्राधिकरण का आदेश आवश्यक है।',
+    },
+    provisions: [
+      { act: ACTS.TPA, section: '106', title: 'Duration of leases and notice to quit (15 days for month-to-month tenancies)', relevance: 90 },
+      { act: ACTS.TPA, section: '108', title: 'Rights and liabilities of lessor and lessee', relevance: 85 },
+      { act: ACTS.TPA, section: '111', title: 'Determination (ending) of a lease', relevance: 80 },
+      { act: ACTS.SRA, section: '6', title: 'Suit by a person dispossessed of immovable property without due process', relevance: 78 },
+      { act: ACTS.REGISTRATION, section: '17', title: 'Leases above one year must be registered', relevance: 70 },
+    ],
+    steps: {
+      en: [
+        'Keep your rent agreement, rent receipts or bank transfer records safe.',
+        'Reply in writing to any eviction or rent-hike notice and keep proof of delivery.',
+        'If you are locked out or utilities are cut, complain to the police and file a suit for possession/injunction.',
+        'For deposit disputes, send a legal notice and then approach the civil court or your state rent authority.',
+      ],
+      hi: [
+        'अपना किरायानामा, किराया रसीदें या बैंक ट्रांसफर के रिकॉर्ड सुरक्षित रखें।',
+        'बेदखली या किराया वृद्धि के किसी भी नोटिस का लिखित जवाब दें और डिलीवरी का प्रमाण रखें।',
+        'यदि ताला लगा दिया गया है या बिजली-पानी काटा गया है, तो पुलिस में शिकायत करें और कब्ज़े/निषेधाज्ञा का वाद दायर करें।',
+        'जमानत राशि के विवाद में कानूनी नोटिस भेजें, फिर सिविल न्यायालय या राज्य किराया प्राधिकरण से संपर्क करें।',
+      ],
+    },
+    followUps: {
+      en: ['How much notice must my landlord give me?', 'How do I get my security deposit back?', 'Does my rent agreement need to be registered?'],
+      hi: ['मकान मालिक को मुझे कितने दिन का नोटिस देना होगा?', 'मैं अपनी जमानत राशि वापस कैसे पाऊं?', 'क्या मेरे किरायानामे का पंजीकरण ज़रूरी है?'],
+    },
+  },
+  {
+    id: 'consumer',
+    name: { en: 'Consumer Rights', hi: 'उपभोक्ता अधिकार' },
+    keywords: {
+      strong: ['consumer', 'defective', 'refund', 'warranty', 'deficiency in service', 'consumer court', 'उपभोक्ता', 'रिफंड', 'खराब सामान', 'वारंटी'],
+      related: ['product', 'seller', 'shop', 'online order', 'delivery', 'service', 'company', 'overcharged', 'सामान', 'दुकानदार', 'कंपनी'],
+    },
+    summary: {
+      en: 'If goods are defective or a service is deficient, the Consumer Protection Act, 2019 lets you claim replacement, refund and compensation. Complaints are filed before the District, State or National Consumer Commission depending on the value paid, and can be filed online on e-Daakhil.',
+      hi: 'यदि सामान खराब है या सेवा में कमी है, तो उपभोक्ता संरक्षण अधिनियम, 2019 के तहत आप बदलाव, रिफंड और मुआवज़े का दावा कर सकते हैं। शिकायत भुगतान की गई राशि के अनुसार ज़िला, राज्य या राष्ट्रीय उपभोक्ता आयोग में दर्ज होती है, और ई-दाखिल पर ऑनलाइन भी की जा सकती है।',
+    },
+    provisions: [
+      { act: ACTS.CPA, section: '35', title: 'Manner of filing a complaint before the District Commission', relevance: 92 },
+      { act: ACTS.CPA, section: '2(11)', title: 'Definition of deficiency in service', relevance: 85 },
+      { act: ACTS.CPA, section: '2(47)', title: 'Definition of unfair trade practice', relevance: 78 },
+      { act: ACTS.CPA, section: '69', title: 'Complaint must be filed within two years of the cause of action', relevance: 75 },
+    ],
+    steps: {
+      en: [
+        'Collect the invoice, payment proof, warranty card and all chats or emails with the seller.',
+        'Send a written complaint or legal notice to the seller giving a reasonable deadline.',
+        'Call the National Consumer Helpline (1915) for free mediation.',
+        'If unresolved, file a complaint on edaakhil.nic.in within two years.',
+      ],
+      hi: [
+        'बिल, भुगतान का प्रमाण, वारंटी कार्ड और विक्रेता के साथ सभी चैट या ईमेल इकट्ठा करें।',
+        'विक्रेता को उचित समय-सीमा के साथ लिखित शिकायत या कानूनी नोटिस भेजें।',
+        'निःशुल्क मध्यस्थता के लिए राष्ट्रीय उपभोक्ता हेल्पलाइन (1915) पर कॉल करें।',
+        'समाधान न होने पर दो वर्ष के भीतर edaakhil.nic.in पर शिकायत दर्ज करें।',
+      ],
+    },
+    followUps: {
+      en: ['Which consumer commission should I file in?', 'Can I file a consumer complaint online?', 'How much compensation can I claim?'],
+      hi: ['मुझे किस उपभोक्ता आयोग में शिकायत करनी चाहिए?', 'क्या मैं ऑनलाइन उपभोक्ता शिकायत दर्ज कर सकता हूं?', 'मैं कितने मुआवज़े का दावा कर सकता हूं?'],
+    },
+  },
+  {
+    id: 'cheque_bounce',
+    name: { en: 'Cheque Bounce', hi: 'चेक बाउंस' },
+    keywords: {
+      strong: ['cheque bounce', 'check bounce', 'bounced cheque', 'cheque bounced', 'cheque got bounced', 'bounced', 'cheque dishonour', 'dishonoured', 'insufficient funds', 'चेक बाउंस', 'चेक अनादरण'],
+      related: ['cheque', 'check', 'ni act', 'negotiable instruments', 'चेक'],
+    },
+    summary: {
+      en: 'Dishonour of a cheque given to pay a debt is an offence under Section 138 of the Negotiable Instruments Act. The timelines are strict: send a written demand notice within 30 days of the bank memo, wait 15 days for payment, then file the complaint within the next month.',
+      hi: 'किसी ऋण के भुगतान के लिए दिया गया चेक बाउंस होना परक्राम्य लिखत अधिनियम की धारा 138 के तहत अपराध है। समय-सीमा सख्त है: बैंक मेमो के 30 दिनों के भीतर लिखित मांग नोटिस भेजें, भुगतान के लिए 15 दिन प्रतीक्षा करें, फिर अगले एक महीने के भीतर शिकायत दर्ज करें।',
+    },
+    provisions: [
+      { act: ACTS.NI, section: '138', title: 'Dishonour of cheque for insufficiency of funds', relevance: 96 },
+      { act: ACTS.NI, section: '142', title: 'Cognizance of offence; complaint within one month of the cause of action', relevance: 88 },
+      { act: ACTS.NI, section: '143A', title: 'Interim compensation up to 20% of the cheque amount', relevance: 75 },
+      { act: ACTS.NI, section: '139', title: 'Presumption in favour of the holder', relevance: 72 },
+    ],
+    steps: {
+      en: [
+        'Keep the original cheque and the bank\'s return memo.',
+        'Send a demand notice to the drawer within 30 days of receiving the memo (registered post/speed post).',
+        'If payment is not made within 15 days of the notice being received, file a complaint before the Magistrate within one month.',
+      ],
+      hi: [
+        'मूल चेक और बैंक का रिटर्न मेमो सुरक्षित रखें।',
+        'मेमो प्राप्त होने के 30 दिनों के भीतर चेक जारीकर्ता को मांग नोटिस (रजिस्टर्ड/स्पीड पोस्ट) भेजें।',
+        'नोटिस मिलने के 15 दिनों में भुगतान न हो, तो एक महीने के भीतर मजिस्ट्रेट के समक्ष शिकायत दर्ज करें।',
+      ],
+    },
+    followUps: {
+      en: ['What should the cheque bounce notice contain?', 'What is the punishment for cheque bounce?', 'What if I missed the 30-day notice deadline?'],
+      hi: ['चेक बाउंस नोटिस में क्या लिखा होना चाहिए?', 'चेक बाउंस की सज़ा क्या है?', 'अगर 30 दिन की नोटिस सीमा निकल गई तो क्या करें?'],
+    },
+  },
+  {
+    id: 'fir',
+    name: { en: 'Police Complaint & FIR', hi: 'पुलिस शिकायत और एफआईआर' },
+    keywords: {
+      strong: ['fir', 'first information report', 'police complaint', 'refused to register', 'zero fir', 'एफआईआर', 'प्राथमिकी', 'पुलिस शिकायत'],
+      related: ['police', 'police station', 'complaint', 'thana', 'पुलिस', 'थाना', 'शिकायत'],
+    },
+    summary: {
+      en: 'For a cognizable offence the police must register an FIR, free of cost, and give you a copy. You can file it at any police station (Zero FIR) or electronically. If the officer refuses, you can send your complaint to the Superintendent of Police and then to the Magistrate.',
+      hi: 'संज्ञेय अपराध के लिए पुलिस को निःशुल्क एफआईआर दर्ज करनी होगी और आपको उसकी प्रति देनी होगी। आप इसे किसी भी थाने में (ज़ीरो एफआईआर) या इलेक्ट्रॉनिक रूप से दर्ज करा सकते हैं। अधिकारी के मना करने पर आप पुलिस अधीक्षक को और फिर मजिस्ट्रेट को शिकायत भेज सकते हैं।',
+    },
+    provisions: [
+      { act: ACTS.BNSS, section: '173', title: 'Information in cognizable cases (FIR, Zero FIR and e-FIR)', relevance: 95, formerly: { act: 'CrPC', section: '154' } },
+      { act: ACTS.BNSS, section: '173(4)', title: 'Complaint to the Superintendent of Police when an FIR is refused', relevance: 85, formerly: { act: 'CrPC', section: '154(3)' } },
+      { act: ACTS.BNSS, section: '175(3)', title: 'Magistrate may order investigation', relevance: 80, formerly: { act: 'CrPC', section: '156(3)' } },
+    ],
+    steps: {
+      en: [
+        'Write down what happened, when and where, and the names of any witnesses.',
+        'Go to the nearest police station (any station can register a Zero FIR) and ask for a free copy of the FIR.',
+        'If they refuse, send your complaint in writing to the Superintendent of Police.',
+        'If there is still no action, file an application before the Magistrate under BNSS Section 175(3).',
+      ],
+      hi: [
+        'क्या, कब और कहां हुआ, और गवाहों के नाम लिख लें।',
+        'निकटतम थाने जाएं (कोई भी थाना ज़ीरो एफआईआर दर्ज कर सकता है) और एफआईआर की निःशुल्क प्रति मांगें।',
+        'मना करने पर अपनी शिकायत लिखित में पुलिस अधीक्षक को भेजें।',
+        'फिर भी कार्रवाई न हो तो बीएनएसएस धारा 175(3) के तहत मजिस्ट्रेट के समक्ष आवेदन करें।',
+      ],
+    },
+    followUps: {
+      en: ['What can I do if the police refuse to file my FIR?', 'What is a Zero FIR?', 'Can I file an FIR online?'],
+      hi: ['अगर पुलिस एफआईआर दर्ज न करे तो मैं क्या करूं?', 'ज़ीरो एफआईआर क्या है?', 'क्या मैं ऑनलाइन एफआईआर दर्ज कर सकता हूं?'],
+    },
+  },
+  {
+    id: 'arrest_bail',
+    name: { en: 'Arrest & Bail', hi: 'गिरफ्तारी और ज़मानत' },
+    keywords: {
+      strong: ['arrest', 'arrested', 'bail', 'anticipatory bail', 'custody', 'detained', 'गिरफ्तार', 'गिरफ्तारी', 'ज़मानत', 'जमानत', 'अग्रिम जमानत', 'हिरासत'],
+      related: ['police took', 'lockup', 'remand', 'warrant', 'लॉकअप', 'वारंट'],
+    },
+    summary: {
+      en: 'A person who is arrested must be told the grounds of arrest and whether they are entitled to bail, may inform a relative or friend, may meet a lawyer, and must be produced before a Magistrate within 24 hours. Bail can be sought from the police or court, and anticipatory bail before an expected arrest.',
+      hi: 'गिरफ्तार व्यक्ति को गिरफ्तारी के आधार और ज़मानत के अधिकार के बारे में बताया जाना चाहिए, वह किसी रिश्तेदार या मित्र को सूचित कर सकता है, वकील से मिल सकता है, और उसे 24 घंटे के भीतर मजिस्ट्रेट के सामने पेश किया जाना चाहिए। ज़मानत पुलिस या न्यायालय से, और संभावित गिरफ्तारी से पहले अग्रिम ज़मानत मांगी जा सकती है।',
+    },
+    provisions: [
+      { act: ACTS.BNSS, section: '47', title: 'Person arrested to be informed of grounds of arrest and of right to bail', relevance: 92, formerly: { act: 'CrPC', section: '50' } },
+      { act: ACTS.BNSS, section: '58', title: 'Not to be detained more than 24 hours without a Magistrate', relevance: 90, formerly: { act: 'CrPC', section: '57' } },
+      { act: ACTS.BNSS, section: '480', title: 'Bail in non-bailable offences', relevance: 82, formerly: { act: 'CrPC', section: '437' } },
+      { act: ACTS.BNSS, section: '482', title: 'Anticipatory bail', relevance: 80, formerly: { act: 'CrPC', section: '438' } },
+    ],
+    steps: {
+      en: [
+        'Ask the police for the grounds of arrest and the name of the police station.',
+        'Inform a family member and contact a lawyer; free legal aid is available through NALSA (15100).',
+        'Make sure the person is produced before a Magistrate within 24 hours.',
+        'Apply for bail; for bailable offences bail is a right.',
+      ],
+      hi: [
+        'पुलिस से गिरफ्तारी के आधार और थाने का नाम पूछें।',
+        'परिवार के सदस्य को सूचित करें और वकील से संपर्क करें; नालसा (15100) के माध्यम से निःशुल्क कानूनी सहायता उपलब्ध है।',
+        'सुनिश्चित करें कि व्यक्ति को 24 घंटे के भीतर मजिस्ट्रेट के सामने पेश किया जाए।',
+        'ज़मानत के लिए आवेदन करें; ज़मानती अपराधों में ज़मानत एक अधिकार है।',
+      ],
+    },
+    followUps: {
+      en: ['How do I apply for anticipatory bail?', 'What are my rights after arrest?', 'What is the difference between bailable and non-bailable offences?'],
+      hi: ['अग्रिम ज़मानत के लिए कैसे आवेदन करें?', 'गिरफ्तारी के बाद मेरे क्या अधिकार हैं?', 'ज़मानती और गैर-ज़मानती अपराध में क्या अंतर है?'],
+    },
+  },
+  {
+    id: 'domestic_violence',
+    name: { en: 'Domestic Violence & Cruelty', hi: 'घरेलू हिंसा और क्रूरता' },
+    keywords: {
+      strong: ['domestic violence', 'husband beats', 'in-laws', 'dowry', 'cruelty', 'harassment by husband', 'घरेलू हिंसा', 'दहेज', 'ससुराल', 'पति मारता', 'क्रूरता'],
+      related: ['husband', 'wife', 'marital home', 'abuse', 'पति', 'पत्नी', 'मारपीट'],
+    },
+    summary: {
+      en: 'A woman facing physical, emotional, sexual or economic abuse at home can seek protection, residence and monetary relief under the Domestic Violence Act through a Protection Officer or directly before the Magistrate. Cruelty by a husband or his relatives, including dowry harassment, is also a criminal offence.',
+      hi: 'घर में शारीरिक, भावनात्मक, यौन या आर्थिक हिंसा झेल रही महिला घरेलू हिंसा अधिनियम के तहत संरक्षण अधिकारी के माध्यम से या सीधे मजिस्ट्रेट के समक्ष संरक्षण, निवास और आर्थिक राहत मांग सकती है। पति या उसके रिश्तेदारों द्वारा क्रूरता, जिसमें दहेज उत्पीड़न भी शामिल है, एक आपराधिक अपराध भी है।',
+    },
+    provisions: [
+      { act: ACTS.PWDVA, section: '12', title: 'Application to the Magistrate for reliefs', relevance: 92 },
+      { act: ACTS.PWDVA, section: '18', title: 'Protection orders', relevance: 88 },
+      { act: ACTS.PWDVA, section: '17', title: 'Right to reside in the shared household', relevance: 85 },
+      { act: ACTS.BNS, section: '85', title: 'Cruelty by husband or his relatives', relevance: 84, formerly: { act: 'IPC', section: '498A' } },
+      { act: ACTS.DOWRY, section: '4', title: 'Penalty for demanding dowry', relevance: 70 },
+    ],
+    steps: {
+      en: [
+        'If you are in danger, call 112 immediately, or the Women Helpline 181.',
+        'Keep medical records, photos, messages and names of witnesses.',
+        'Contact the Protection Officer of your district or a women\'s cell to file a Domestic Incident Report.',
+        'A lawyer or free legal aid (NALSA 15100) can help you apply for protection and residence orders.',
+      ],
+      hi: [
+        'खतरे में हों तो तुरंत 112 या महिला हेल्पलाइन 181 पर कॉल करें।',
+        'मेडिकल रिकॉर्ड, फ़ोटो, संदेश और गवाहों के नाम सुरक्षित रखें।',
+        'घरेलू घटना रिपोर्ट दर्ज कराने के लिए अपने ज़िले के संरक्षण अधिकारी या महिला प्रकोष्ठ से संपर्क करें।',
+        'वकील या निःशुल्क कानूनी सहायता (नालसा 15100) संरक्षण और निवास आदेश के लिए आवेदन में मदद कर सकती है।',
+      ],
+    },
+    followUps: {
+      en: ['How do I get a protection order?', 'Can I stay in my husband\'s house?', 'How do I claim maintenance?'],
+      hi: ['संरक्षण आदेश कैसे प्राप्त करें?', 'क्या मैं अपने पति के घर में रह सकती हूं?', 'भरण-पोषण का दावा कैसे करें?'],
+    },
+  },
+  {
+    id: 'cyber_fraud',
+    name: { en: 'Online & Cyber Fraud', hi: 'ऑनलाइन और साइबर धोखाधड़ी' },
+    keywords: {
+      strong: ['cyber', 'online fraud', 'upi fraud', 'otp', 'phishing', 'hacked', 'scam call', 'identity theft', 'साइबर', 'ऑनलाइन धोखाधड़ी', 'ओटीपी', 'हैक'],
+      related: ['upi', 'bank account debited', 'fake website', 'social media', 'password', 'यूपीआई', 'फर्जी'],
+    },
+    summary: {
+      en: 'Money lost to online fraud can often be frozen if reported quickly. Call the cyber crime helpline 1930 within the first hours, then file a complaint on cybercrime.gov.in. Cheating by impersonation online and identity theft are offences under the IT Act, and cheating is also punishable under the BNS.',
+      hi: 'ऑनलाइन धोखाधड़ी में गया पैसा जल्दी रिपोर्ट करने पर अक्सर रोका जा सकता है। पहले कुछ घंटों में साइबर अपराध हेल्पलाइन 1930 पर कॉल करें, फिर cybercrime.gov.in पर शिकायत दर्ज करें। ऑनलाइन प्रतिरूपण द्वारा धोखाधड़ी और पहचान की चोरी आईटी अधिनियम के तहत अपराध हैं, और धोखाधड़ी बीएनएस के तहत भी दंडनीय है।',
+    },
+    provisions: [
+      { act: ACTS.IT, section: '66D', title: 'Cheating by personation using a computer resource', relevance: 92 },
+      { act: ACTS.IT, section: '66C', title: 'Identity theft', relevance: 85 },
+      { act: ACTS.BNS, section: '318', title: 'Cheating', relevance: 80, formerly: { act: 'IPC', section: '420' } },
+      { act: ACTS.IT, section: '43', title: 'Compensation for unauthorised access to a computer system', relevance: 65 },
+    ],
+    steps: {
+      en: [
+        'Call 1930 immediately and ask your bank to block the card/account.',
+        'File a complaint on cybercrime.gov.in with transaction IDs and screenshots.',
+        'Do not delete messages, call logs or emails from the fraudster.',
+        'Write to your bank within 3 days; under RBI rules your liability may be zero if reported promptly.',
+      ],
+      hi: [
+        'तुरंत 1930 पर कॉल करें और बैंक से कार्ड/खाता ब्लॉक करने को कहें।',
+        'लेनदेन आईडी और स्क्रीनशॉट के साथ cybercrime.gov.in पर शिकायत दर्ज करें।',
+        'धोखेबाज़ के संदेश, कॉल लॉग या ईमेल न मिटाएं।',
+        '3 दिनों के भीतर बैंक को लिखें; आरबीआई नियमों के तहत समय पर सूचना देने पर आपकी देनदारी शून्य हो सकती है।',
+      ],
+    },
+    followUps: {
+      en: ['How do I report a UPI fraud?', 'Will the bank refund my money?', 'What is the punishment for online fraud?'],
+      hi: ['यूपीआई धोखाधड़ी की रिपोर्ट कैसे करें?', 'क्या बैंक मेरा पैसा वापस करेगा?', 'ऑनलाइन धोखाधड़ी की सज़ा क्या है?'],
+    },
+  },
+  {
+    id: 'cheating',
+    name: { en: 'Cheating & Breach of Trust', hi: 'धोखाधड़ी और विश्वासघात' },
+    keywords: {
+      strong: ['cheated', 'cheating', 'fraud', 'breach of trust', 'took my money', 'not returning money', 'धोखा', 'धोखाधड़ी', 'ठगी', 'विश्वासघात'],
+      related: ['money', 'loan', 'promise', 'investment', 'पैसे', 'उधार'],
+    },
+    summary: {
+      en: 'Taking money or property by deceiving someone is cheating, and misusing property entrusted to you is criminal breach of trust; both are offences under the Bharatiya Nyaya Sanhita. A simple failure to repay a loan is usually a civil matter, recoverable through a money suit.',
+      hi: 'किसी को धोखा देकर पैसा या संपत्ति लेना छल (धोखाधड़ी) है, और सौंपी गई संपत्ति का दुरुपयोग आपराधिक विश्वासघात है; दोनों भारतीय न्याय संहिता के तहत अपराध हैं। उधार न लौटाना सामान्यतः एक दीवानी मामला है, जिसकी वसूली धन वाद से होती है।',
+    },
+    provisions: [
+      { act: ACTS.BNS, section: '318', title: 'Cheating (including cheating and dishonestly inducing delivery of property)', relevance: 90, formerly: { act: 'IPC', section: '420' } },
+      { act: ACTS.BNS, section: '316', title: 'Criminal breach of trust', relevance: 84, formerly: { act: 'IPC', section: '406' } },
+      { act: ACTS.BNS, section: '308', title: 'Extortion', relevance: 60, formerly: { act: 'IPC', section: '384' } },
+    ],
+    steps: {
+      en: [
+        'Gather proof of the payment and of the promise made (messages, agreements, witnesses).',
+        'Send a legal notice demanding return of the money.',
+        'File a police complaint if there was deception from the start; otherwise consider a civil recovery suit.',
+      ],
+      hi: [
+        'भुगतान और किए गए वादे का प्रमाण (संदेश, समझौते, गवाह) इकट्ठा करें।',
+        'पैसे वापस मांगते हुए कानूनी नोटिस भेजें।',
+        'यदि शुरुआत से ही धोखा था तो पुलिस में शिकायत करें; अन्यथा दीवानी वसूली वाद पर विचार करें।',
+      ],
+    },
+    followUps: {
+      en: ['Is not returning a loan a crime?', 'What is the new section for IPC 420?', 'How do I send a legal notice for recovery?'],
+      hi: ['क्या उधार न लौटाना अपराध है?', 'आईपीसी 420 की नई धारा क्या है?', 'वसूली के लिए कानूनी नोटिस कैसे भेजें?'],
+    },
+  },
+  {
+    id: 'marriage_maintenance',
+    name: { en: 'Divorce & Maintenance', hi: 'तलाक और भरण-पोषण' },
+    keywords: {
+      strong: ['divorce', 'maintenance', 'alimony', 'mutual consent', 'custody of child', 'तलाक', 'भरण-पोषण', 'गुज़ारा भत्ता', 'आपसी सहमति'],
+      related: ['marriage', 'separation', 'spouse', 'child custody', 'शादी', 'विवाह', 'अलग'],
+    },
+    summary: {
+      en: 'Hindu spouses can divorce by mutual consent or on grounds such as cruelty or desertion under the Hindu Marriage Act. A wife, children or parents who cannot maintain themselves can claim monthly maintenance under the BNSS, whatever their religion.',
+      hi: 'हिंदू पति-पत्नी हिंदू विवाह अधिनियम के तहत आपसी सहमति से या क्रूरता, परित्याग जैसे आधारों पर तलाक ले सकते हैं। जो पत्नी, बच्चे या माता-पिता अपना भरण-पोषण नहीं कर सकते, वे धर्म की परवाह किए बिना बीएनएसएस के तहत मासिक भरण-पोषण का दावा कर सकते हैं।',
+    },
+    provisions: [
+      { act: ACTS.BNSS, section: '144', title: 'Maintenance of wives, children and parents', relevance: 90, formerly: { act: 'CrPC', section: '125' } },
+      { act: ACTS.HMA, section: '13B', title: 'Divorce by mutual consent', relevance: 85 },
+      { act: ACTS.HMA, section: '13', title: 'Grounds for divorce', relevance: 82 },
+      { act: ACTS.HMA, section: '24', title: 'Maintenance pending proceedings', relevance: 75 },
+    ],
+    steps: {
+      en: [
+        'Keep your marriage certificate, income proofs of both spouses and records of expenses.',
+        'For mutual consent, both spouses file a joint petition in the Family Court.',
+        'For maintenance, apply before the Family Court or Magistrate with details of needs and the spouse\'s income.',
+      ],
+      hi: [
+        'विवाह प्रमाणपत्र, दोनों पति-पत्नी की आय के प्रमाण और खर्चों के रिकॉर्ड रखें।',
+        'आपसी सहमति के लिए दोनों पति-पत्नी परिवार न्यायालय में संयुक्त याचिका दायर करते हैं।',
+        'भरण-पोषण के लिए ज़रूरतों और पति/पत्नी की आय के विवरण के साथ परिवार न्यायालय या मजिस्ट्रेट के समक्ष आवेदन करें।',
+      ],
+    },
+    followUps: {
+      en: ['How long does a mutual consent divorce take?', 'How is maintenance calculated?', 'Who gets custody of the children?'],
+      hi: ['आपसी सहमति से तलाक में कितना समय लगता है?', 'भरण-पोषण की राशि कैसे तय होती है?', 'बच्चों की कस्टडी किसे मिलती है?'],
+    },
+  },
+  {
+    id: 'inheritance',
+    name: { en: 'Inheritance & Property Shares', hi: 'उत्तराधिकार और संपत्ति में हिस्सा' },
+    keywords: {
+      strong: ['inheritance', 'ancestral property', 'will', 'succession', 'share in property', 'partition', 'उत्तराधिकार', 'पैतृक संपत्ति', 'वसीयत', 'बंटवारा'],
+      related: ['father died', 'property', 'daughter', 'legal heir', 'संपत्ति', 'बेटी', 'वारिस'],
+    },
+    summary: {
+      en: 'Among Hindus, daughters are coparceners in ancestral property with the same rights as sons. When a person dies without a will, their property passes to legal heirs under the Hindu Succession Act; a valid will overrides this for self-acquired property.',
+      hi: 'हिंदुओं में बेटियां पैतृक संपत्ति में बेटों के समान अधिकार वाली सहदायिक हैं। बिना वसीयत मृत्यु होने पर संपत्ति हिंदू उत्तराधिकार अधिनियम के अनुसार कानूनी वारिसों को मिलती है; स्वअर्जित संपत्ति के लिए वैध वसीयत इस पर प्रभावी होती है।',
+    },
+    provisions: [
+      { act: ACTS.HSA, section: '6', title: 'Devolution of interest in coparcenary property (daughters as coparceners)', relevance: 90 },
+      { act: ACTS.HSA, section: '8', title: 'General rules of succession for a male Hindu', relevance: 85 },
+      { act: ACTS.HSA, section: '15', title: 'General rules of succession for a female Hindu', relevance: 78 },
+    ],
+    steps: {
+      en: [
+        'Obtain the death certificate and a legal heir or succession certificate.',
+        'Collect title documents and revenue records of the property.',
+        'Try a family settlement; if that fails, file a partition suit in the civil court.',
+      ],
+      hi: [
+        'मृत्यु प्रमाणपत्र और कानूनी वारिस या उत्तराधिकार प्रमाणपत्र प्राप्त करें।',
+        'संपत्ति के स्वामित्व दस्तावेज़ और राजस्व रिकॉर्ड इकट्ठा करें।',
+        'पारिवारिक समझौते का प्रयास करें; असफल होने पर सिविल न्यायालय में बंटवारे का वाद दायर करें।',
+      ],
+    },
+    followUps: {
+      en: ['Do married daughters get a share in ancestral property?', 'How do I get a succession certificate?', 'Can a will be challenged?'],
+      hi: ['क्या विवाहित बेटियों को पैतृक संपत्ति में हिस्सा मिलता है?', 'उत्तराधिकार प्रमाणपत्र कैसे प्राप्त करें?', 'क्या वसीयत को चुनौती दी जा सकती है?'],
+    },
+  },
+];
+
+export function getLegalTopic(id: LegalTopicId): LegalTopic | undefined {
+  return LEGAL_TOPICS.find((topic) => topic.id === id);
+}
@@ -0,0 +1,850 @@
+import type { Bilingual } from './knowledgeBase';
+
+/* --- Limitation Periods ---
+   Time limits for going to court (or sending a notice) under the
+   Schedule to the Limitation Act, 1963 and common special laws: cheque
+   bounce (NI Act), consumer complaints, RTI appeals, arbitral awards,
+   industrial disputes and criminal complaints (BNSS).
+
+   calculateLimitation works out the last date from the event that
+   starts time running, and lists each rule it applied:
+   - the day of the event is not counted (Section 12(1); Section 9,
+     General Clauses Act for other laws)
+   - time spent getting a certified copy of the judgment, for appeals,
+     review and revision (Section 12(2))
+   - time spent in good faith in a court without jurisdiction (Section 14)
+   - a last day on a Sunday moves to the next day (Section 4; Section
+     10, General Clauses Act for other laws); court holidays and
+     vacations are not known here, so the user is told to check them
+
+   Periods are general information; the facts of a case (acknowledgement
+   of a debt, fraud, disability) can change when time starts or stops.
+--- */
+
+export type LimitationRuleId =
+  | 'money_lent'
+  | 'breach_of_contract'
+  | 'arrears_of_rent'
+  | 'specific_performance'
+  | 'declaration'
+  | 'possession_title'
+  | 'possession_dispossessed'
+  | 'defamation'
+  | 'malicious_prosecution'
+  | 'residuary_suit'
+  | 'civil_appeal_high_court'
+  | 'civil_appeal_other'
+  | 'criminal_appeal_high_court'
+  | 'criminal_appeal_other'
+  | 'appeal_against_acquittal'
+  | 'review'
+  | 'revision'
+  | 'set_aside_ex_parte'
+  | 'execution'
+  | 'residuary_application'
+  | 'cheque_notice'
+  | 'cheque_complaint'
+  | 'consumer_complaint'
+  | 'consumer_appeal'
+  | 'rti_first_appeal'
+  | 'rti_second_appeal'
+  | 'arbitral_award'
+  | 'industrial_dispute'
+  | 'offence_fine_only'
+  | 'offence_up_to_one_year'
+  | 'offence_up_to_three_years';
+
+export type LimitationGroup = 'suits' | 'appeals' | 'applications' | 'special';
+
+// Days excluded from the period, entered by the user
+export type LimitationExclusion = 'copy' | 'wrongCourt';
+
+export interface LimitationPeriod {
+  years?: number;
+  months?: number;
+  days?: number;
+}
+
+export interface LimitationRule {
+  id: LimitationRuleId;
+  group: LimitationGroup;
+  name: Bilingual;
+  // Article of the Schedule or section of the special law
+  basis: Bilingual;
+  period: LimitationPeriod;
+  // The event that starts time running, i.e. what the date entered means
+  event: Bilingual;
+  // A wait before time starts, e.g. the 15 days the drawer of a bounced cheque has to pay
+  waitBefore?: { period: LimitationPeriod; label: Bilingual };
+  exclusions: LimitationExclusion[];
+  // The last date is for filing in court or a tribunal, so it moves past a Sunday
+  // (Section 4; Section 10, General Clauses Act for special laws)
+  courtFiling: boolean;
+  // Whether, and how, a late filing can be excused
+  condonation?: Bilingual;
+  note?: Bilingual;
+  // How a chat message names it ("cheque bounce", "consumer complaint")
+  keywords: string[];
+}
+
+export const LIMITATION_GROUPS: Record<LimitationGroup, Bilingual> = {
+  suits: { en: 'Suits (civil cases)', hi: 'वाद (दीवानी मामले)' },
+  appeals: { en: 'Appeals, review and revision', hi: 'अपील, पुनर्विलोकन और पुनरीक्षण' },
+  applications: { en: 'Applications', hi: 'आवेदन' },
+  special: { en: 'Special laws', hi: 'विशेष कानून' },
+};
+
+const SECTION_5: Bilingual = {
+  en: 'A late appeal or application can be admitted if you show sufficient cause for the delay (Section 5, Limitation Act). This does not apply to suits.',
+  hi: 'देरी का पर्याप्त कारण दिखाने पर विलंबित अपील या आवेदन स्वीकार किया जा सकता है (धारा 5, परिसीमा अधिनियम)। यह वादों पर लागू नहीं होता।',
+};
+
+const NO_CONDONATION_FOR_SUITS: Bilingual = {
+  en: 'A suit filed after this date must be dismissed, even if the delay is not raised as a defence (Section 3). Delay in filing a suit cannot be condoned.',
+  hi: 'इस तारीख के बाद दायर वाद खारिज किया जाना चाहिए, भले ही देरी का बचाव न उठाया गया हो (धारा 3)। वाद दायर करने में देरी माफ़ नहीं की जा सकती।',
+};
+
+const BNSS_519: Bilingual = {
+  en: 'The court may take cognizance after this date if the delay is properly explained or it is necessary in the interests of justice (Section 519 BNSS, formerly Section 473 CrPC). The limit runs to the filing of the complaint, not to when the court acts on it.',
+  hi: 'देरी का उचित स्पष्टीकरण होने या न्याय के हित में आवश्यक होने पर न्यायालय इस तारीख के बाद भी संज्ञान ले सकता है (धारा 519 बीएनएसएस, पहले धारा 473 सीआरपीसी)। सीमा शिकायत दायर करने तक है, न्यायालय की कार्रवाई तक नहीं।',
+};
+
+const article = (number: string, en: string, hi: string): Bilingual => ({
+  en: `Limitation Act, 1963, Schedule, Article ${number} (${en})`,
+  hi: `परिसीमा अधिनियम, 1963, अनुसूची, अनुच्छेद ${number} (${hi})`,
+});
+
+export const LIMITATION_RULES: LimitationRule[] = [
+  // Suits
+  {
+    id: 'money_lent',
+    group: 'suits',
+    name: { en: 'Recovery of money lent', hi: 'उधार दिए धन की वसूली' },
+    basis: article('19', 'money lent', 'उधार दिया धन'),
+    period: { years: 3 },
+    event: { en: 'Date the loan was given', hi: 'ऋण दिए जाने की तारीख' },
+    exclusions: ['wrongCourt'],
+    courtFiling: true,
+    condonation: NO_CONDONATION_FOR_SUITS,
+    note: {
+      en: 'A written acknowledgement of the debt, or a part payment, signed before this date starts a fresh three years (Sections 18 and 19).',
+      hi: 'इस तारीख से पहले हस्ताक्षरित ऋण की लिखित स्वीकृति या आंशिक भुगतान से नए सिरे से तीन वर्ष शुरू होते हैं (धारा 18 और 19)।',
+    },
+    keywords: ['money lent', 'loan', 'recovery of money', 'उधार', 'कर्ज़', 'कर्ज'],
+  },
+  {
+    id: 'breach_of_contract',
+    group: 'suits',
+    name: { en: 'Compensation for breach of contract', hi: 'अनुबंध भंग के लिए प्रतिकर' },
+    basis: article('55', 'breach of contract', 'अनुबंध भंग'),
+    period: { years: 3 },
+    event: { en: 'Date the contract was broken', hi: 'अनुबंध भंग होने की तारीख' },
+    exclusions: ['wrongCourt'],
+    courtFiling: true,
+    condonation: NO_CONDONATION_FOR_SUITS,
+    keywords: ['breach of contract', 'contract', 'अनुबंध'],
+  },
+  {
+    id: 'arrears_of_rent',
+    group: 'suits',
+    name: { en: 'Arrears of rent', hi: 'बकाया किराया' },
+    basis: article('52', 'arrears of rent', 'बकाया किराया'),
+    period: { years: 3 },
+    event: { en: 'Date the rent fell due', hi: 'किराया देय होने की तारीख' },
+    exclusions: ['wrongCourt'],
+    courtFiling: true,
+    condonation: NO_CONDONATION_FOR_SUITS,
+    note: {
+      en: 'Each month\'s rent has its own three years, counted from its due date.',
+      hi: 'हर महीने के किराये के लिए अलग से तीन वर्ष हैं, उसकी देय तारीख से।',
+    },
+    keywords: ['arrears of rent', 'unpaid rent', 'rent', 'बकाया किराया', 'किराया'],
+  },
+  {
+    id: 'specific_performance',
+    group: 'suits',
+    name: { en: 'Specific performance of a contract', hi: 'अनुबंध का विनिर्दिष्ट पालन' },
+    basis: article('54', 'specific performance', 'विनिर्दिष्ट पालन'),
+    period: { years: 3 },
+    event: {
+      en: 'Date fixed for performance or, if none, the date you learnt it was refused',
+      hi: 'पालन के लिए तय तारीख या, तय न हो तो, इनकार का पता चलने की तारीख',
+    },
+    exclusions: ['wrongCourt'],
+    courtFiling: true,
+    condonation: NO_CONDONATION_FOR_SUITS,
+    keywords: ['specific performance', 'agreement to sell', 'sale agreement'],
+  },
+  {
+    id: 'declaration',
+    group: 'suits',
+    name: { en: 'Declaration of a right', hi: 'अधिकार की घोषणा' },
+    basis: article('58', 'declaration', 'घोषणा'),
+    period: { years: 3 },
+    event: { en: 'Date the right to sue first accrued', hi: 'वाद लाने का अधिकार पहली बार उत्पन्न होने की तारीख' },
+    exclusions: ['wrongCourt'],
+    courtFiling: true,
+    condonation: NO_CONDONATION_FOR_SUITS,
+    keywords: ['declaration', 'घोषणा'],
+  },
+  {
+    id: 'possession_title',
+    group: 'suits',
+    name: { en: 'Possession of property, based on title', hi: 'स्वामित्व के आधार पर संपत्ति का कब्ज़ा' },
+    basis: article('65', 'possession based on title', 'स्वामित्व पर आधारित कब्ज़ा'),
+    period: { years: 12 },
+    event: {
+      en: 'Date the other person\'s possession became adverse to you',
+      hi: 'दूसरे व्यक्ति का कब्ज़ा आपके प्रतिकूल होने की तारीख',
+    },
+    exclusions: ['wrongCourt'],
+    courtFiling: true,
+    condonation: NO_CONDONATION_FOR_SUITS,
+    note: {
+      en: 'Suits by the Government have 30 years (Article 112).',
+      hi: 'सरकार द्वारा वाद के लिए 30 वर्ष हैं (अनुच्छेद 112)।',
+    },
+    keywords: ['adverse possession', 'possession', 'कब्ज़ा', 'कब्जा'],
+  },
+  {
+    id: 'possession_dispossessed',
+    group: 'suits',
+    name: { en: 'Possession after being dispossessed', hi: 'बेदखली के बाद कब्ज़ा' },
+    basis: article('64', 'possession based on previous possession', 'पूर्व कब्ज़े पर आधारित कब्ज़ा'),
+    period: { years: 12 },
+    event: { en: 'Date you were dispossessed', hi: 'बेदखल किए जाने की तारीख' },
+    exclusions: ['wrongCourt'],
+    courtFiling: true,
+    condonation: NO_CONDONATION_FOR_SUITS,
+    keywords: ['dispossessed', 'dispossession', 'बेदखल'],
+  },
+  {
+    id: 'defamation',
+    group: 'suits',
+    name: { en: 'Compensation for defamation', hi: 'मानहानि के लिए प्रतिकर' },
+    basis: {
+      en: 'Limitation Act, 1963, Schedule, Articles 75 and 76 (libel and slander)',
+      hi: 'परिसीमा अधिनियम, 1963, अनुसूची, अनुच्छेद 75 और 76 (लिखित और मौखिक मानहानि)',
+    },
+    period: { years: 1 },
+    event: { en: 'Date the statement was published or spoken', hi: 'कथन प्रकाशित किए जाने या बोले जाने की तारीख' },
+    exclusions: ['wrongCourt'],
+    courtFiling: true,
+    condonation: NO_CONDONATION_FOR_SUITS,
+    keywords: ['defamation', 'libel', 'slander', 'मानहानि'],
+  },
+  {
+    id: 'malicious_prosecution',
+    group: 'suits',
+    name: { en: 'Compensation for malicious prosecution', hi: 'विद्वेषपूर्ण अभियोजन के लिए प्रतिकर' },
+    basis: article('74', 'malicious prosecution', 'विद्वेषपूर्ण अभियोजन'),
+    period: { years: 1 },
+    event: {
+      en: 'Date you were acquitted or the prosecution otherwise ended',
+      hi: 'दोषमुक्त होने या अभियोजन अन्यथा समाप्त होने की तारीख',
+    },
+    exclusions: ['wrongCourt'],
+    courtFiling: true,
+    condonation: NO_CONDONATION_FOR_SUITS,
+    keywords: ['malicious prosecution', 'विद्वेषपूर्ण अभियोजन'],
+  },
+  {
+    id: 'residuary_suit',
+    group: 'suits',
+    name: { en: 'Any other civil suit', hi: 'कोई अन्य दीवानी वाद' },
+    basis: article('113', 'residuary', 'अवशिष्ट'),
+    period: { years: 3 },
+    event: { en: 'Date the right to sue accrued', hi: 'वाद लाने का अधिकार उत्पन्न होने की तारीख' },
+    exclusions: ['wrongCourt'],
+    courtFiling: true,
+    condonation: NO_CONDONATION_FOR_SUITS,
+    keywords: ['civil suit', 'दीवानी वाद'],
+  },
+
+  // Appeals, review and revision
+  {
+    id: 'civil_appeal_high_court',
+    group: 'appeals',
+    name: { en: 'Civil appeal to the High Court', hi: 'उच्च न्यायालय में दीवानी अपील' },
+    basis: article('116(a)', 'appeal under the CPC to a High Court', 'सीपीसी के तहत उच्च न्यायालय में अपील'),
+    period: { days: 90 },
+    event: { en: 'Date of the decree or order', hi: 'डिक्री या आदेश की तारीख' },
+    exclusions: ['copy'],
+    courtFiling: true,
+    condonation: SECTION_5,
+    keywords: ['civil appeal to the high court', 'first appeal', 'appeal to high court'],
+  },
+  {
+    id: 'civil_appeal_other',
+    group: 'appeals',
+    name: { en: 'Civil appeal to the District Court', hi: 'जिला न्यायालय में दीवानी अपील' },
+    basis: article('116(b)', 'appeal under the CPC to any other court', 'सीपीसी के तहत किसी अन्य न्यायालय में अपील'),
+    period: { days: 30 },
+    event: { en: 'Date of the decree or order', hi: 'डिक्री या आदेश की तारीख' },
+    exclusions: ['copy'],
+    courtFiling: true,
+    condonation: SECTION_5,
+    keywords: ['civil appeal', 'appeal to district court', 'दीवानी अपील'],
+  },
+  {
+    id: 'criminal_appeal_high_court',
+    group: 'appeals',
+    name: { en: 'Appeal against conviction, to the High Court', hi: 'दोषसिद्धि के विरुद्ध उच्च न्यायालय में अपील' },
+    basis: article('115(b)(i)', 'appeal against a sentence to a High Court', 'दंडादेश के विरुद्ध उच्च न्यायालय में अपील'),
+    period: { days: 60 },
+    event: { en: 'Date of the sentence or order', hi: 'दंडादेश या आदेश की तारीख' },
+    exclusions: ['copy'],
+    courtFiling: true,
+    condonation: SECTION_5,
+    note: {
+      en: 'An appeal against a death sentence must be filed within 30 days (Article 115(a)).',
+      hi: 'मृत्युदंड के विरुद्ध अपील 30 दिनों के भीतर दायर करनी होती है (अनुच्छेद 115(a))।',
+    },
+    keywords: ['appeal against conviction to the high court', 'criminal appeal', 'appeal against conviction', 'conviction', 'दोषसिद्धि'],
+  },
+  {
+    id: 'criminal_appeal_other',
+    group: 'appeals',
+    name: { en: 'Appeal against conviction, to the Sessions Court', hi: 'दोषसिद्धि के विरुद्ध सत्र न्यायालय में अपील' },
+    basis: article('115(b)(ii)', 'appeal against a sentence to any other court', 'दंडादेश के विरुद्ध किसी अन्य न्यायालय में अपील'),
+    period: { days: 30 },
+    event: { en: 'Date of the sentence or order', hi: 'दंडादेश या आदेश की तारीख' },
+    exclusions: ['copy'],
+    courtFiling: true,
+    condonation: SECTION_5,
+    keywords: ['appeal to sessions court', 'सत्र न्यायालय में अपील'],
+  },
+  {
+    id: 'appeal_against_acquittal',
+    group: 'appeals',
+    name: { en: 'Appeal by the State against acquittal', hi: 'दोषमुक्ति के विरुद्ध राज्य की अपील' },
+    basis: article('114(a)', 'appeal from an order of acquittal', 'दोषमुक्ति के आदेश से अपील'),
+    period: { days: 90 },
+    event: { en: 'Date of the order of acquittal', hi: 'दोषमुक्ति के आदेश की तारीख' },
+    exclusions: ['copy'],
+    courtFiling: true,
+    condonation: SECTION_5,
+    note: {
+      en: 'A complainant\'s appeal needs special leave from the High Court, applied for within 60 days (six months for a public servant\'s complaint, Section 419(5) BNSS, formerly Section 378(5) CrPC); the appeal itself is due within 30 days of the leave (Article 114(b)).',
+      hi: 'शिकायतकर्ता की अपील के लिए उच्च न्यायालय से विशेष अनुमति चाहिए, जिसके लिए 60 दिनों (लोक सेवक की शिकायत में छह महीने, धारा 419(5) बीएनएसएस, पहले धारा 378(5) सीआरपीसी) में आवेदन करना होता है; अपील अनुमति के 30 दिनों के भीतर देय है (अनुच्छेद 114(b))।',
+    },
+    keywords: ['appeal against acquittal', 'acquittal', 'दोषमुक्ति'],
+  },
+  {
+    id: 'review',
+    group: 'appeals',
+    name: { en: 'Review of a judgment', hi: 'निर्णय का पुनर्विलोकन' },
+    basis: article('124', 'review of judgment', 'निर्णय का पुनर्विलोकन'),
+    period: { days: 30 },
+    event: { en: 'Date of the decree or order', hi: 'डिक्री या आदेश की तारीख' },
+    exclusions: ['copy'],
+    courtFiling: true,
+    condonation: SECTION_5,
+    keywords: ['review petition', 'review', 'पुनर्विलोकन'],
+  },
+  {
+    id: 'revision',
+    group: 'appeals',
+    name: { en: 'Revision', hi: 'पुनरीक्षण' },
+    basis: article('131', 'revision under the CPC or CrPC', 'सीपीसी या सीआरपीसी के तहत पुनरीक्षण'),
+    period: { days: 90 },
+    event: { en: 'Date of the decree, order or sentence', hi: 'डिक्री, आदेश या दंडादेश की तारीख' },
+    exclusions: ['copy'],
+    courtFiling: true,
+    condonation: SECTION_5,
+    keywords: ['revision petition', 'revision', 'पुनरीक्षण'],
+  },
+
+  // Applications
+  {
+    id: 'set_aside_ex_parte',
+    group: 'applications',
+    name: { en: 'Setting aside an ex parte decree', hi: 'एकपक्षीय डिक्री अपास्त कराना' },
+    basis: article('123', 'setting aside an ex parte decree', 'एकपक्षीय डिक्री अपास्त करना'),
+    period: { days: 30 },
+    event: {
+      en: 'Date of the decree, or the date you learnt of it if you were not duly served',
+      hi: 'डिक्री की तारीख, या समन की सम्यक तामील न होने पर उसकी जानकारी मिलने की तारीख',
+    },
+    exclusions: [],
+    courtFiling: true,
+    condonation: SECTION_5,
+    keywords: ['ex parte', 'ex-parte', 'एकपक्षीय'],
+  },
+  {
+    id: 'execution',
+    group: 'applications',
+    name: { en: 'Execution of a decree', hi: 'डिक्री का निष्पादन' },
+    basis: article('136', 'execution of a decree', 'डिक्री का निष्पादन'),
+    period: { years: 12 },
+    event: { en: 'Date the decree became enforceable', hi: 'डिक्री प्रवर्तनीय होने की तारीख' },
+    exclusions: [],
+    courtFiling: true,
+    note: {
+      en: 'A decree for a perpetual injunction can be enforced at any time.',
+      hi: 'स्थायी व्यादेश की डिक्री किसी भी समय प्रवर्तित की जा सकती है।',
+    },
+    keywords: ['execution of decree', 'execute decree', 'execution', 'डिक्री का निष्पादन'],
+  },
+  {
+    id: 'residuary_application',
+    group: 'applications',
+    name: { en: 'Any other application', hi: 'कोई अन्य आवेदन' },
+    basis: article('137', 'residuary', 'अवशिष्ट'),
+    period: { years: 3 },
+    event: { en: 'Date the right to apply accrued', hi: 'आवेदन का अधिकार उत्पन्न होने की तारीख' },
+    exclusions: ['wrongCourt'],
+    courtFiling: true,
+    condonation: SECTION_5,
+    keywords: [],
+  },
+
+  // Special laws
+  {
+    id: 'cheque_notice',
+    group: 'special',
+    name: { en: 'Cheque bounce: demand notice', hi: 'चेक बाउंस: मांग नोटिस' },
+    basis: {
+      en: 'Negotiable Instruments Act, 1881, Section 138, proviso (b)',
+      hi: 'परक्राम्य लिखत अधिनियम, 1881, धारा 138, परंतुक (b)',
+    },
+    period: { days: 30 },
+    event: { en: 'Date you got the bank\'s return memo', hi: 'बैंक का रिटर्न मेमो मिलने की तारीख' },
+    exclusions: [],
+    courtFiling: false,
+    note: {
+      en: 'The notice must demand the cheque amount. The drawer then has 15 days from receiving it to pay; after that, the complaint can be filed.',
+      hi: 'नोटिस में चेक की राशि की मांग होनी चाहिए। प्राप्ति के बाद चेक जारीकर्ता के पास भुगतान के लिए 15 दिन होते हैं; उसके बाद शिकायत दायर की जा सकती है।',
+    },
+    keywords: ['cheque bounce notice', 'cheque notice', 'notice for cheque', 'demand notice', 'चेक बाउंस नोटिस', 'चेक नोटिस'],
+  },
+  {
+    id: 'cheque_complaint',
+    group: 'special',
+    name: { en: 'Cheque bounce: complaint to the Magistrate', hi: 'चेक बाउंस: मजिस्ट्रेट के समक्ष शिकायत' },
+    basis: {
+      en: 'Negotiable Instruments Act, 1881, Section 142(1)(b)',
+      hi: 'परक्राम्य लिखत अधिनियम, 1881, धारा 142(1)(b)',
+    },
+    period: { months: 1 },
+    event: { en: 'Date the drawer received your notice', hi: 'चेक जारीकर्ता को आपका नोटिस मिलने की तारीख' },
+    waitBefore: {
+      period: { days: 15 },
+      label: { en: 'The drawer\'s 15 days to pay (Section 138, proviso (c))', hi: 'भुगतान के लिए जारीकर्ता के 15 दिन (धारा 138, परंतुक (c))' },
+    },
+    exclusions: [],
+    courtFiling: true,
+    condonation: {
+      en: 'The court may take a late complaint if you show sufficient cause for the delay (proviso to Section 142(1)(b)).',
+      hi: 'देरी का पर्याप्त कारण दिखाने पर न्यायालय विलंबित शिकायत ले सकता है (धारा 142(1)(b) का परंतुक)।',
+    },
+    note: {
+      en: 'A complaint filed before the 15 days run out is premature.',
+      hi: '15 दिन पूरे होने से पहले दायर शिकायत समयपूर्व है।',
+    },
+    keywords: ['cheque bounce complaint', 'cheque bounce case', 'cheque bounce', 'cheque dishonour', 'bounced cheque', 'section 138', 'cheque', 'चेक बाउंस', 'चेक'],
+  },
+  {
+    id: 'consumer_complaint',
+    group: 'special',
+    name: { en: 'Consumer complaint', hi: 'उपभोक्ता शिकायत' },
+    basis: {
+      en: 'Consumer Protection Act, 2019, Section 69(1)',
+      hi: 'उपभोक्ता संरक्षण अधिनियम, 2019, धारा 69(1)',
+    },
+    period: { years: 2 },
+    event: {
+      en: 'Date the cause of action arose (e.g. when the defect or deficiency showed up)',
+      hi: 'वाद कारण उत्पन्न होने की तारीख (जैसे जब दोष या कमी सामने आई)',
+    },
+    exclusions: ['wrongCourt'],
+    courtFiling: true,
+    condonation: {
+      en: 'The Commission may admit a late complaint if you show sufficient cause, recording its reasons (Section 69(2)).',
+      hi: 'पर्याप्त कारण दिखाने पर आयोग कारण दर्ज करके विलंबित शिकायत स्वीकार कर सकता है (धारा 69(2))।',
+    },
+    keywords: ['consumer complaint', 'consumer court', 'consumer forum', 'consumer', 'उपभोक्ता शिकायत', 'उपभोक्ता'],
+  },
+  {
+    id: 'consumer_appeal',
+    group: 'special',
+    name: { en: 'Consumer appeal to the State Commission', hi: 'राज्य आयोग में उपभोक्ता अपील' },
+    basis: {
+      en: 'Consumer Protection Act, 2019, Section 41',
+      hi: 'उपभोक्ता संरक्षण अधिनियम, 2019, धारा 41',
+    },
+    period: { days: 45 },
+    event: { en: 'Date of the District Commission\'s order', hi: 'जिला आयोग के आदेश की तारीख' },
+    exclusions: [],
+    courtFiling: true,
+    condonation: {
+      en: 'The State Commission may admit a late appeal for sufficient cause (proviso to Section 41).',
+      hi: 'पर्याप्त कारण होने पर राज्य आयोग विलंबित अपील स्वीकार कर सकता है (धारा 41 का परंतुक)।',
+    },
+    note: {
+      en: 'A party ordered to pay must deposit 50% of the amount with the appeal.',
+      hi: 'भुगतान का आदेश पाने वाले पक्ष को अपील के साथ राशि का 50% जमा करना होता है।',
+    },
+    keywords: ['consumer appeal', 'उपभोक्ता अपील'],
+  },
+  {
+    id: 'rti_first_appeal',
+    group: 'special',
+    name: { en: 'RTI first appeal', hi: 'आरटीआई प्रथम अपील' },
+    basis: {
+      en: 'Right to Information Act, 2005, Section 19(1)',
+      hi: 'सूचना का अधिकार अधिनियम, 2005, धारा 19(1)',
+    },
+    period: { days: 30 },
+    event: {
+      en: 'Date you got the PIO\'s reply, or the date the 30 days for a reply ran out',
+      hi: 'लोक सूचना अधिकारी का उत्तर मिलने की तारीख, या उत्तर के 30 दिन पूरे होने की तारीख',
+    },
+    exclusions: [],
+    courtFiling: false,
+    condonation: {
+      en: 'The appellate authority may admit a late appeal for sufficient cause.',
+      hi: 'पर्याप्त कारण होने पर अपीलीय प्राधिकारी विलंबित अपील स्वीकार कर सकता है।',
+    },
+    keywords: ['rti first appeal', 'rti appeal', 'आरटीआई अपील', 'प्रथम अपील'],
+  },
+  {
+    id: 'rti_second_appeal',
+    group: 'special',
+    name: { en: 'RTI second appeal to the Information Commission', hi: 'सूचना आयोग में आरटीआई द्वितीय अपील' },
+    basis: {
+      en: 'Right to Information Act, 2005, Section 19(3)',
+      hi: 'सूचना का अधिकार अधिनियम, 2005, धारा 19(3)',
+    },
+    period: { days: 90 },
+    event: {
+      en: 'Date of the first appellate authority\'s decision, or the date it was due',
+      hi: 'प्रथम अपीलीय प्राधिकारी के निर्णय की तारीख, या जिस तारीख को वह देय था',
+    },
+    exclusions: [],
+    courtFiling: false,
+    condonation: {
+      en: 'The Information Commission may admit a late appeal for sufficient cause.',
+      hi: 'पर्याप्त कारण होने पर सूचना आयोग विलंबित अपील स्वीकार कर सकता है।',
+    },
+    keywords: ['rti second appeal', 'second appeal', 'द्वितीय अपील'],
+  },
+  {
+    id: 'arbitral_award',
+    group: 'special',
+    name: { en: 'Challenge to an arbitral award', hi: 'माध्यस्थम पंचाट को चुनौती' },
+    basis: {
+      en: 'Arbitration and Conciliation Act, 1996, Section 34(3)',
+      hi: 'माध्यस्थम और सुलह अधिनियम, 1996, धारा 34(3)',
+    },
+    period: { months: 3 },
+    event: { en: 'Date you received the signed award', hi: 'हस्ताक्षरित पंचाट प्राप्त होने की तारीख' },
+    exclusions: [],
+    courtFiling: true,
+    condonation: {
+      en: 'The court may allow a further 30 days at most for sufficient cause, and never more (proviso to Section 34(3)).',
+      hi: 'पर्याप्त कारण होने पर न्यायालय अधिकतम 30 दिन और दे सकता है, इससे अधिक कभी नहीं (धारा 34(3) का परंतुक)।',
+    },
+    keywords: ['arbitral award', 'arbitration award', 'arbitration', 'माध्यस्थम', 'पंचाट'],
+  },
+  {
+    id: 'industrial_dispute',
+    group: 'special',
+    name: { en: 'Dismissal or termination of a worker', hi: 'कर्मकार की बर्खास्तगी या सेवा समाप्ति' },
+    basis: {
+      en: 'Industrial Disputes Act, 1947, Section 2A(3)',
+      hi: 'औद्योगिक विवाद अधिनियम, 1947, धारा 2A(3)',
+    },
+    period: { years: 3 },
+    event: {
+      en: 'Date of the discharge, dismissal, retrenchment or termination',
+      hi: 'सेवामुक्ति, बर्खास्तगी, छंटनी या सेवा समाप्ति की तारीख',
+    },
+    exclusions: [],
+    courtFiling: true,
+    note: {
+      en: 'The worker may go directly to the Labour Court after 45 days from applying to the conciliation officer (Section 2A(2)).',
+      hi: 'सुलह अधिकारी को आवेदन के 45 दिन बाद कर्मकार सीधे श्रम न्यायालय जा सकता है (धारा 2A(2))।',
+    },
+    keywords: ['wrongful termination', 'termination', 'dismissal', 'retrenchment', 'labour court', 'बर्खास्त', 'छंटनी'],
+  },
+  {
+    id: 'offence_fine_only',
+    group: 'special',
+    name: { en: 'Criminal complaint: offence punishable with fine only', hi: 'आपराधिक शिकायत: केवल जुर्माने से दंडनीय अपराध' },
+    basis: { en: 'BNSS, 2023, Section 514(2)(a) (formerly Section 468 CrPC)', hi: 'बीएनएसएस, 2023, धारा 514(2)(a) (पहले धारा 468 सीआरपीसी)' },
+    period: { months: 6 },
+    event: {
+      en: 'Date of the offence, or the date it became known to you or the police',
+      hi: 'अपराध की तारीख, या आपको या पुलिस को उसकी जानकारी होने की तारीख',
+    },
+    exclusions: [],
+    courtFiling: true,
+    condonation: BNSS_519,
+    keywords: ['offence punishable with fine'],
+  },
+  {
+    id: 'offence_up_to_one_year',
+    group: 'special',
+    name: { en: 'Criminal complaint: offence with up to 1 year\'s imprisonment', hi: 'आपराधिक शिकायत: 1 वर्ष तक के कारावास वाला अपराध' },
+    basis: { en: 'BNSS, 2023, Section 514(2)(b) (formerly Section 468 CrPC)', hi: 'बीएनएसएस, 2023, धारा 514(2)(b) (पहले धारा 468 सीआरपीसी)' },
+    period: { years: 1 },
+    event: {
+      en: 'Date of the offence, or the date it became known to you or the police',
+      hi: 'अपराध की तारीख, या आपको या पुलिस को उसकी जानकारी होने की तारीख',
+    },
+    exclusions: [],
+    courtFiling: true,
+    condonation: BNSS_519,
+    keywords: [],
+  },
+  {
+    id: 'offence_up_to_three_years',
+    group: 'special',
+    name: { en: 'Criminal complaint: offence with 1 to 3 years\' imprisonment', hi: 'आपराधिक शिकायत: 1 से 3 वर्ष के कारावास वाला अपराध' },
+    basis: { en: 'BNSS, 2023, Section 514(2)(c) (formerly Section 468 CrPC)', hi: 'बीएनएसएस, 2023, धारा 514(2)(c) (पहले धारा 468 सीआरपीसी)' },
+    period: { years: 3 },
+    event: {
+      en: 'Date of the offence, or the date it became known to you or the police',
+      hi: 'अपराध की तारीख, या आपको या पुलिस को उसकी जानकारी होने की तारीख',
+    },
+    exclusions: [],
+    courtFiling: true,
+    condonation: BNSS_519,
+    note: {
+      en: 'Offences punishable with more than 3 years\' imprisonment have no time limit.',
+      hi: '3 वर्ष से अधिक कारावास से दंडनीय अपराधों के लिए कोई समय सीमा नहीं है।',
+    },
+    keywords: [],
+  },
+];
+
+export const LIMITATION_EXCLUSION_LABELS: Record<LimitationExclusion, Bilingual> = {
+  copy: {
+    en: 'Days taken to get a certified copy of the judgment (Section 12(2))',
+    hi: 'निर्णय की प्रमाणित प्रति प्राप्त करने में लगे दिन (धारा 12(2))',
+  },
+  wrongCourt: {
+    en: 'Days spent in good faith in a court without jurisdiction (Section 14)',
+    hi: 'क्षेत्राधिकार रहित न्यायालय में सद्भावपूर्वक लगे दिन (धारा 14)',
+  },
+};
+
+export function getLimitationRule(id: LimitationRuleId): LimitationRule | undefined {
+  return LIMITATION_RULES.find((rule) => rule.id === id);
+}
+
+/* --- Dates --- */
+
+const DATE_NUMERIC = /\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})\b/;
+const DATE_ISO = /\b(\d{4})-(\d{2})-(\d{2})\b/;
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DATE_WORDS = /\b(\d{1,2})(?:st|nd|rd|th)?\s+(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?,?\s+(\d{4})\b/i;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const toIsoDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Local midnight of a "YYYY-MM-DD" date, or null if it is not a real date
+export function parseIsoDate(iso: string): Date | null {
+  const match = iso.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+// The first date written in the text ("5/8/2025", "2025-08-05", "5 August 2025"), as YYYY-MM-DD
+export function readDate(text: string): string | undefined {
+  const iso = text.match(DATE_ISO);
+  if (iso && parseIsoDate(iso[0])) return iso[0];
+
+  const numeric = text.match(DATE_NUMERIC);
+  const words = text.match(DATE_WORDS);
+  const [day, month, year] = numeric
+    ? [Number(numeric[1]), Number(numeric[2]), numeric[3].length === 2 ? 2000 + Number(numeric[3]) : Number(numeric[3])]
+    : words
+      ? [Number(words[1]), MONTHS.indexOf(words[2].toLowerCase()) + 1, Number(words[3])]
+      : [];
+  if (!day || !month || !year) return undefined;
+  const candidate = `${year}-${pad(month)}-${pad(day)}`;
+  return parseIsoDate(candidate) ? candidate : undefined;
+}
+
+export function formatLimitationDate(date: Date, language: string = 'en'): string {
+  return date.toLocaleDateString(language === 'hi' ? 'hi-IN' : 'en-IN', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+}
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Months and years end on the same date of the month, or the month's last day if it has no such date
+function addPeriod(date: Date, period: LimitationPeriod): Date {
+  const months = (period.years ?? 0) * 12 + (period.months ?? 0);
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(date.getDate(), lastDay));
+  return addDays(target, period.days ?? 0);
+}
+
+export function describePeriod(period: LimitationPeriod, language: string = 'en'): string {
+  const hi = language === 'hi';
+  const parts: string[] = [];
+  if (period.years) parts.push(hi ? `${period.years} वर्ष` : `${period.years} year${period.years > 1 ? 's' : ''}`);
+  if (period.months) parts.push(hi ? `${period.months} ${period.months > 1 ? 'महीने' : 'महीना'}` : `${period.months} month${period.months > 1 ? 's' : ''}`);
+  if (period.days) parts.push(hi ? `${period.days} दिन` : `${period.days} day${period.days > 1 ? 's' : ''}`);
+  return parts.join(hi ? ' और ' : ' and ');
+}
+
+/* --- Calculation --- */
+
+export interface LimitationOptions {
+  // Days to exclude, by exclusion; only the rule's own exclusions count
+  excludedDays?: Partial<Record<LimitationExclusion, number>>;
+  // For "days left"; defaults to now
+  today?: Date;
+}
+
+export interface LimitationResult {
+  rule: LimitationRule;
+  eventDate: Date;
+  // When time starts running, after any wait (the day itself is not counted)
+  startDate: Date;
+  lastDate: Date;
+  // Negative once the last date has passed
+  daysLeft: number;
+  // Each rule applied, in order
+  steps: Bilingual[];
+}
+
+const both = (build: (lang: 'en' | 'hi', date: (d: Date) => string) => string): Bilingual => ({
+  en: build('en', (d) => formatLimitationDate(d, 'en')),
+  hi: build('hi', (d) => formatLimitationDate(d, 'hi')),
+});
+
+export function calculateLimitation(rule: LimitationRule, eventDate: Date, options: LimitationOptions = {}): LimitationResult {
+  const steps: Bilingual[] = [];
+  const isLimitationAct = rule.group !== 'special';
+  // Courts closed on the last day: Section 4, or for special laws Section 10 of the General Clauses Act
+  const closedCourtBasis: Bilingual = isLimitationAct
+    ? { en: 'Section 4', hi: 'धारा 4' }
+    : { en: 'Section 10, General Clauses Act', hi: 'धारा 10, साधारण खंड अधिनियम' };
+
+  let startDate = eventDate;
+  if (rule.waitBefore) {
+    const waitEnd = addPeriod(eventDate, rule.waitBefore.period);
+    startDate = addDays(waitEnd, 1);
+    const label = rule.waitBefore.label;
+    steps.push(
+      both((lang, date) =>
+        lang === 'en'
+          ? `${label.en} end on ${date(waitEnd)}; time starts running the next day, ${date(startDate)}.`
+          : `${label.hi} ${date(waitEnd)} को पूरे होते हैं; समय अगले दिन, ${date(startDate)} से चलना शुरू होता है।`
+      )
+    );
+  }
+
+  const countFrom = addDays(startDate, 1);
+  steps.push(
+    both((lang, date) =>
+      lang === 'en'
+        ? `${date(startDate)} itself is not counted (${isLimitationAct ? 'Section 12(1)' : 'Section 9, General Clauses Act'}); the period of ${describePeriod(rule.period, 'en')} runs from ${date(countFrom)}.`
+        : `${date(startDate)} स्वयं नहीं गिना जाता (${isLimitationAct ? 'धारा 12(1)' : 'धारा 9, साधारण खंड अधिनियम'}); ${describePeriod(rule.period, 'hi')} की अवधि ${date(countFrom)} से गिनी जाती है।`
+    )
+  );
+
+  let lastDate = addPeriod(startDate, rule.period);
+  steps.push(
+    both((lang, date) =>
+      lang === 'en'
+        ? `The period ends on ${date(lastDate)}.`
+        : `अवधि ${date(lastDate)} को पूरी होती है।`
+    )
+  );
+
+  for (const exclusion of rule.exclusions) {
+    const days = Math.max(0, Math.floor(options.excludedDays?.[exclusion] ?? 0));
+    if (!days) continue;
+    lastDate = addDays(lastDate, days);
+    const label = LIMITATION_EXCLUSION_LABELS[exclusion];
+    steps.push(
+      both((lang, date) =>
+        lang === 'en'
+          ? `${label.en}: ${days} day${days > 1 ? 's' : ''} excluded, moving the last date to ${date(lastDate)}.`
+          : `${label.hi}: ${days} दिन घटाए गए, अंतिम तारीख ${date(lastDate)} हुई।`
+      )
+    );
+  }
+
+  if (lastDate.getDay() === 0) {
+    if (rule.courtFiling) {
+      const sunday = lastDate;
+      lastDate = addDays(lastDate, 1);
+      steps.push(
+        both((lang, date) =>
+          lang === 'en'
+            ? `${date(sunday)} is a Sunday, when courts are closed, so it can be filed on the day they reopen, ${date(lastDate)} (${closedCourtBasis.en}).`
+            : `${date(sunday)} रविवार है, जब न्यायालय बंद रहते हैं, इसलिए इसे उनके खुलने के दिन, ${date(lastDate)} को दायर किया जा सकता है (${closedCourtBasis.hi})।`
+        )
+      );
+    } else {
+      steps.push({
+        en: 'The last day is a Sunday, but this limit is not for filing in court, so it does not move.',
+        hi: 'अंतिम दिन रविवार है, पर यह सीमा न्यायालय में दायर करने की नहीं है, इसलिए यह आगे नहीं बढ़ती।',
+      });
+    }
+  }
+
+  if (rule.courtFiling) {
+    steps.push({
+      en: `If the court is closed on the last date for a holiday or vacation, you can file on the day it reopens (${closedCourtBasis.en}). Check the court's calendar.`,
+      hi: `यदि अंतिम तारीख को अवकाश के कारण न्यायालय बंद हो, तो आप उसके खुलने के दिन दायर कर सकते हैं (${closedCourtBasis.hi})। न्यायालय का कैलेंडर देखें।`,
+    });
+  }
+
+  const today = options.today ?? new Date();
+  const todayMidnight = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  const daysLeft = Math.round((lastDate.getTime() - todayMidnight.getTime()) / 86400000);
+
+  return { rule, eventDate, startDate, lastDate, daysLeft, steps };
+}
+
+/* --- Chat --- */
+
+export interface LimitationRequest {
+  ruleId?: LimitationRuleId;
+  // YYYY-MM-DD
+  eventDate?: string;
+}
+
+// Words that name limitation itself
+const LIMITATION_WORDS = /\b(?:limitation|time[- ]barred)\b|परिसीमा|मियाद|कालबाधित|काल-बाधित/i;
+// Words that ask for a deadline, which count only together with FILING_WORDS
+const DEADLINE_WORDS =
+  /\b(?:deadline|last date|last day|time[- ]limit|how many days|how much time|how long do i have|by when|till when|until when)\b|समय सीमा|समय-सीमा|अंतिम तिथि|अंतिम तारीख|आखिरी तारीख|कितने दिन|कब तक/i;
+const FILING_WORDS =
+  /\b(?:file|filing|sue|suing|institute|appeal|challenge|send (?:a |the )?(?:legal |demand )?notice)\b|दायर|दाखिल|मुकदमा|अपील|याचिका|शिकायत कर|नोटिस भेज/i;
+const CALCULATE_WORDS = /\b(?:calculate|calculator|compute|work out)\b|गणना|हिसाब/i;
+
+const containsKeyword = (text: string, keyword: string) =>
+  /^[a-z0-9 ]+$/.test(keyword) ? new RegExp(`\\b${keyword}\\b`, 'i').test(text) : text.includes(keyword);
+
+/* Questions asking for a filing deadline to be worked out ("last date to
+   file a consumer complaint, bought on 3/2/2025", "is my rent suit
+   time-barred?") get the calculator offered, with the case type and date
+   filled in. Only explicit limitation or filing wording counts: "by when
+   should I pay my rent?" or "चेक कब तक क्लियर होगा?" are not about
+   limitation. General questions ("what is limitation?") with no case
+   type, date or "calculate" are left to the AI alone. */
+export function detectLimitationRequest(message: string): LimitationRequest | null {
+  const asksLimitation =
+    LIMITATION_WORDS.test(message) || (DEADLINE_WORDS.test(message) && FILING_WORDS.test(message));
+  if (!asksLimitation) return null;
+
+  const lower = message.toLowerCase();
+  const match = LIMITATION_RULES.flatMap((rule) => rule.keywords.map((keyword) => ({ rule, keyword })))
+    .filter(({ keyword }) => containsKeyword(lower, keyword))
+    .sort((a, b) => b.keyword.length - a.keyword.length)[0];
+  const eventDate = readDate(message);
+  if (!match && !eventDate && !CALCULATE_WORDS.test(message)) return null;
+  return { ruleId: match?.rule.id, eventDate };
+}
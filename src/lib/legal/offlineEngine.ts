@@ -0,0 +1,365 @@
+import { AI_RESPONSE_SCHEMA_VERSION, LawCitation, StructuredAIResponse } from '../ai/schema';
+import type { AIHistoryTurn } from '../ai/types';
+import { ACTS, LEGAL_TOPICS, LegalTopic, StatuteProvision } from './knowledgeBase';
+import type { IntakeLaw, IntakeState } from './intake';
+
+/* --- Offline Legal Answer Engine ---
+   Rule-based answers from the bundled knowledge base, used by the mock
+   provider so demos and offline use give real section references instead
+   of placeholder text. Everything here is deterministic: the same message
+   and history always produce the same answer, citations and scores.
+
+   Flow:
+   1. "Section 138 NI Act" style references are looked up in the KB
+   2. The message is classified into a topic by keyword weights
+   3. A law mentioned without a situation asks the user to describe it
+      (or type 'nothing' for general information)
+   4. Short follow-ups with no keywords reuse the topic of earlier turns
+
+   Answers carry the intake stage they leave the conversation in
+   (intake.ts): a law-only answer waits for the situation, a topic answer
+   moves on to next steps.
+
+   suggestFollowUps gives follow-up questions for replies from backends
+   that send none, from the topic the conversation is about.
+--- */
+
+const STRONG_WEIGHT = 3;
+const RELATED_WEIGHT = 1;
+const MIN_TOPIC_SCORE = 2;
+const FOLLOW_UP_MIN_WORDS = 3;
+
+export interface TopicMatch {
+  topic: LegalTopic;
+  score: number;
+}
+
+interface SectionReference {
+  section: string;
+  actHint?: string;
+  provision?: StatuteProvision;
+  topic?: LegalTopic;
+}
+
+type Lang = 'en' | 'hi';
+
+const SITUATION_KEYWORDS = ['my', 'i am', "i'm", 'happened', 'situation', 'case', 'मेरा', 'मेरी', 'मुझे', 'हुआ', 'स्थिति'];
+const SKIP_KEYWORDS = ['nothing', 'skip', 'none', 'general information', 'कुछ नहीं', 'छोड़ें'];
+
+// Act names as users type them, mapped to the KB act (or the old code)
+const ACT_HINTS: Array<{ pattern: RegExp; act: string }> = [
+  { pattern: /\bbnss\b|नागरिक सुरक्षा/, act: ACTS.BNSS },
+  { pattern: /\bbns\b|न्याय संहिता/, act: ACTS.BNS },
+  { pattern: /\bipc\b|indian penal code|आईपीसी|भारतीय दंड/, act: 'IPC' },
+  { pattern: /\bcr\.?p\.?c\b|criminal procedure|सीआरपीसी/, act: 'CrPC' },
+  { pattern: /\bni act\b|negotiable instruments|परक्राम्य/, act: ACTS.NI },
+  { pattern: /consumer protection|\bcpa\b|उपभोक्ता संरक्षण/, act: ACTS.CPA },
+  { pattern: /transfer of property|\btpa\b|संपत्ति अंतरण/, act: ACTS.TPA },
+  { pattern: /specific relief/, act: ACTS.SRA },
+  { pattern: /registration act/, act: ACTS.REGISTRATION },
+  { pattern: /domestic violence act|\bpwdva\b|घरेलू हिंसा अधिनियम/, act: ACTS.PWDVA },
+  { pattern: /dowry prohibition|दहेज प्रतिषेध/, act: ACTS.DOWRY },
+  { pattern: /\bit act\b|information technology|सूचना प्रौद्योगिकी/, act: ACTS.IT },
+  { pattern: /hindu marriage|\bhma\b|हिंदू विवाह/, act: ACTS.HMA },
+  { pattern: /hindu succession|\bhsa\b|हिंदू उत्तराधिकार/, act: ACTS.HSA },
+];
+
+// Starter questions when no topic has been identified yet
+const GENERAL_SUGGESTIONS: Record<Lang, string[]> = {
+  en: ['My cheque bounced, what can I do?', 'How do I file an FIR?', 'My landlord will not return my deposit'],
+  hi: ['मेरा चेक बाउंस हो गया, मैं क्या करूं?', 'मैं एफआईआर कैसे दर्ज करूं?', 'मकान मालिक मेरी जमानत राशि वापस नहीं कर रहा'],
+};
+
+const SECTION_PATTERN = /(?:\bsection|\bsec\.?|\bu\/s|धारा)\s*(\d+[a-z]?(?:\(\d+\))?)/i;
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Latin terms match on word boundaries ("fir" must not match "first");
+// Devanagari has no \b support, so substring matching is used instead
+function containsTerm(text: string, term: string): boolean {
+  if (/^[a-z0-9 .'()/-]+$/.test(term)) {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`).test(text);
+  }
+  return text.includes(term);
+}
+
+function scoreTopic(text: string, topic: LegalTopic): number {
+  const strong = topic.keywords.strong.filter((term) => containsTerm(text, term)).length;
+  const related = topic.keywords.related.filter((term) => containsTerm(text, term)).length;
+  return strong * STRONG_WEIGHT + related * RELATED_WEIGHT;
+}
+
+// Highest-scoring topic; ties go to the topic listed first in the KB
+export function classifyLegalTopic(message: string): TopicMatch | null {
+  const text = normalize(message);
+  let best: TopicMatch | null = null;
+  for (const topic of LEGAL_TOPICS) {
+    const score = scoreTopic(text, topic);
+    if (score >= MIN_TOPIC_SCORE && (!best || score > best.score)) {
+      best = { topic, score };
+    }
+  }
+  return best;
+}
+
+const baseSection = (section: string) => section.toLowerCase().replace(/\(.*$/, '');
+
+function findSectionReference(message: string): SectionReference | null {
+  const text = normalize(message);
+  const match = text.match(SECTION_PATTERN);
+  if (!match) return null;
+
+  const section = match[1];
+  const actHint = ACT_HINTS.find(({ pattern }) => pattern.test(text))?.act;
+
+  // A section can be cited under several topics (BNS 318 is both cheating
+  // and cyber fraud); the topic that ranks it highest owns the answer
+  for (const exact of [true, false]) {
+    let best: SectionReference | null = null;
+    for (const topic of LEGAL_TOPICS) {
+      for (const provision of topic.provisions) {
+        const candidates: Array<{ act: string; section: string }> = [provision];
+        if (provision.formerly) candidates.push(provision.formerly);
+
+        const found = candidates.some((candidate) => {
+          if (actHint && candidate.act !== actHint) return false;
+          return exact
+            ? candidate.section.toLowerCase() === section
+            : baseSection(candidate.section) === baseSection(section);
+        });
+        if (found && (!best?.provision || provision.relevance > best.provision.relevance)) {
+          best = { section, actHint, provision, topic };
+        }
+      }
+    }
+    if (best) return best;
+  }
+  return { section, actHint };
+}
+
+// The law a message names, for the intake flow; unknown sections keep the user's act hint
+export function findLawReference(message: string): IntakeLaw | null {
+  const reference = findSectionReference(message);
+  if (!reference) return null;
+  if (reference.provision) {
+    return { section: reference.provision.section, act: reference.provision.act, title: reference.provision.title };
+  }
+  return { section: reference.section, act: reference.actHint };
+}
+
+export function isSkipMessage(message: string): boolean {
+  const text = normalize(message);
+  return SKIP_KEYWORDS.some((keyword) => containsTerm(text, keyword));
+}
+
+function formatProvision(provision: StatuteProvision): string {
+  const formerly = provision.formerly ? ` (formerly ${provision.formerly.act} ${provision.formerly.section})` : '';
+  return `Section ${provision.section}, ${provision.act}${formerly}`;
+}
+
+// Per-law relevance: KB base score, nudged up by how strongly the message
+// matched the topic, and pinned to the top for the section the user named
+function buildCitations(topic: LegalTopic, score: number, focus?: StatuteProvision): LawCitation[] {
+  const boost = Math.min(5, Math.max(0, score - STRONG_WEIGHT));
+  const provisions = focus
+    ? [focus, ...topic.provisions.filter((provision) => provision !== focus)]
+    : topic.provisions;
+
+  return provisions.map((provision) => ({
+    act: provision.act,
+    section: provision.section,
+    title: provision.formerly
+      ? `${provision.title} (formerly ${provision.formerly.act} ${provision.formerly.section})`
+      : provision.title,
+    relevance: provision === focus ? 98 : Math.min(97, provision.relevance + boost),
+  }));
+}
+
+const confidenceFor = (score: number) => Math.round(Math.min(0.95, 0.5 + score * 0.05) * 100) / 100;
+
+function topicAnswer(
+  topic: LegalTopic,
+  lang: Lang,
+  { score, focus, confidence, intro }: { score: number; focus?: StatuteProvision; confidence: number; intro?: string }
+): StructuredAIResponse {
+  const steps = topic.steps[lang].map((step, index) => `${index + 1}. ${step}`).join('\n');
+  const parts = [
+    intro,
+    `📋 ${topic.name[lang]}`,
+    topic.summary[lang],
+    focus ? `⚖️ ${lang === 'en' ? 'Key provision' : 'मुख्य प्रावधान'}: ${formatProvision(focus)} – ${focus.title}` : undefined,
+    `📝 ${lang === 'en' ? 'What you can do' : 'आप क्या कर सकते हैं'}:\n${steps}`,
+    lang === 'en'
+      ? 'ℹ️ This is general legal information, not a substitute for advice from a lawyer.'
+      : 'ℹ️ यह सामान्य कानूनी जानकारी है, वकील की सलाह का विकल्प नहीं।',
+  ];
+
+  return {
+    schemaVersion: AI_RESPONSE_SCHEMA_VERSION,
+    answer: parts.filter(Boolean).join('\n\n'),
+    citations: buildCitations(topic, score, focus),
+    confidence,
+    suggestions: topic.followUps[lang],
+    intakeStage: 'next_steps',
+  };
+}
+
+function sectionOnlyAnswer(reference: Required<SectionReference>, lang: Lang): StructuredAIResponse {
+  const { provision, topic } = reference;
+  const prompt = lang === 'en'
+    ? "To tell you how this applies to you, please describe your situation, or type 'nothing' to get general information about this law."
+    : "यह आप पर कैसे लागू होता है, यह बताने के लिए कृपया अपनी स्थिति का वर्णन करें, या इस कानून के बारे में सामान्य जानकारी के लिए 'कुछ नहीं' टाइप करें।";
+
+  return {
+    schemaVersion: AI_RESPONSE_SCHEMA_VERSION,
+    answer: `📋 ${formatProvision(provision)}\n${provision.title}\n\n${topic.summary[lang]}\n\n${prompt}`,
+    citations: [{ act: provision.act, section: provision.section, title: provision.title, relevance: 98 }],
+    confidence: 0.9,
+    suggestions: topic.followUps[lang],
+    intakeStage: 'awaiting_situation',
+  };
+}
+
+function unknownSectionAnswer(reference: SectionReference, lang: Lang): StructuredAIResponse {
+  const act = reference.actHint ? ` ${reference.actHint}` : '';
+  return {
+    schemaVersion: AI_RESPONSE_SCHEMA_VERSION,
+    answer: lang === 'en'
+      ? `Section ${reference.section}${act} is not in my offline library yet. Describe the problem you are facing and I will point you to the laws that usually apply.`
+      : `धारा ${reference.section}${act} अभी मेरी ऑफ़लाइन लाइब्रेरी में नहीं है। अपनी समस्या का वर्णन करें, मैं आपको सामान्यतः लागू होने वाले कानून बताऊंगा।`,
+    citations: [],
+    suggestions: [],
+    intakeStage: 'awaiting_situation',
+  };
+}
+
+function generalAnswer(lang: Lang): StructuredAIResponse {
+  const topics = LEGAL_TOPICS.map((topic) => topic.name[lang]).join(', ');
+  return {
+    schemaVersion: AI_RESPONSE_SCHEMA_VERSION,
+    answer: lang === 'en'
+      ? `I'm here to help you with legal questions! You can:\n\n• Ask about a specific law (e.g., 'Tell me about Section 138 NI Act')\n• Describe a legal situation you're facing\n• Get information about your rights and obligations\n\nI can answer offline about: ${topics}.\n\nHow can I assist you today?`
+      : `मैं कानूनी सवालों में आपकी मदद के लिए यहां हूं! आप कर सकते हैं:\n\n• किसी विशिष्ट कानून के बारे में पूछें (जैसे, 'मुझे धारा 138 एनआई एक्ट के बारे में बताएं')\n• अपनी कानूनी स्थिति का वर्णन करें\n• अपने अधिकारों और दायित्वों के बारे में जानकारी प्राप्त करें\n\nमैं ऑफ़लाइन इन विषयों पर उत्तर दे सकता हूं: ${topics}।\n\nमैं आज आपकी कैसे सहायता कर सकता हूं?`,
+    citations: [],
+    suggestions: GENERAL_SUGGESTIONS[lang],
+  };
+}
+
+function situationAnswer(reference: Required<SectionReference>, match: TopicMatch | null, lang: Lang): StructuredAIResponse {
+  const topic = match?.topic ?? reference.topic;
+  const score = match?.score ?? STRONG_WEIGHT;
+  return topicAnswer(topic, lang, {
+    score,
+    focus: topic === reference.topic ? reference.provision : undefined,
+    confidence: confidenceFor(score + STRONG_WEIGHT),
+  });
+}
+
+// KB provision for a law recorded by the intake flow
+function findProvision(law: IntakeLaw): Required<SectionReference> | null {
+  let best: Required<SectionReference> | null = null;
+  for (const topic of LEGAL_TOPICS) {
+    for (const provision of topic.provisions) {
+      if (provision.act === law.act && provision.section === law.section && (!best || provision.relevance > best.provision.relevance)) {
+        best = { section: law.section, actHint: law.act, provision, topic };
+      }
+    }
+  }
+  return best;
+}
+
+// Most recent earlier user turn that named a section or a topic
+function topicFromHistory(history: AIHistoryTurn[]): { topic: LegalTopic; focus?: StatuteProvision } | null {
+  for (let i = history.length - 1; i >= 0; i--) {
+    const turn = history[i];
+    if (turn.role !== 'user') continue;
+    const reference = findSectionReference(turn.content);
+    if (reference?.topic) return { topic: reference.topic, focus: reference.provision };
+    const match = classifyLegalTopic(turn.content);
+    if (match) return { topic: match.topic };
+  }
+  return null;
+}
+
+export function answerLegalQuery(
+  message: string,
+  language: string,
+  history: AIHistoryTurn[] = [],
+  intake?: IntakeState
+): StructuredAIResponse {
+  const lang: Lang = language === 'hi' ? 'hi' : 'en';
+  const text = normalize(message);
+  const reference = findSectionReference(message);
+  const match = classifyLegalTopic(message);
+
+  // 'nothing' (or Skip) after a law-only question: general information on that law
+  if (intake?.skipped || isSkipMessage(message)) {
+    const previous = topicFromHistory(history);
+    if (previous) {
+      return topicAnswer(previous.topic, lang, { score: STRONG_WEIGHT, focus: previous.focus, confidence: 0.8 });
+    }
+  }
+
+  if (reference?.provision && reference.topic) {
+    const hasSituation = SITUATION_KEYWORDS.some((keyword) => containsTerm(text, keyword)) ||
+      (match !== null && match.score >= STRONG_WEIGHT);
+    if (!hasSituation) {
+      return sectionOnlyAnswer(reference as Required<SectionReference>, lang);
+    }
+    return situationAnswer(reference as Required<SectionReference>, match, lang);
+  }
+
+  // The situation the user was asked for: analyse it against the law they named
+  const intakeReference = !reference && intake?.stage === 'analysis' && intake.law ? findProvision(intake.law) : null;
+  if (intakeReference) {
+    return situationAnswer(intakeReference, match, lang);
+  }
+
+  if (match) {
+    return topicAnswer(match.topic, lang, { score: match.score, confidence: confidenceFor(match.score) });
+  }
+
+  if (reference) {
+    return unknownSectionAnswer(reference, lang);
+  }
+
+  // Short acknowledgements ("thanks") get the general reply, not a repeat
+  const previous = text.split(' ').length >= FOLLOW_UP_MIN_WORDS ? topicFromHistory(history) : null;
+  if (previous) {
+    return topicAnswer(previous.topic, lang, {
+      score: STRONG_WEIGHT,
+      confidence: 0.45,
+      intro: lang === 'en'
+        ? `Continuing with your question on ${previous.topic.name.en.toLowerCase()}:`
+        : `${previous.topic.name.hi} पर आपके प्रश्न को आगे बढ़ाते हुए:`,
+    });
+  }
+
+  return generalAnswer(lang);
+}
+
+/* --- Follow-up Suggestions ---
+   Topic follow-ups for the latest question, answer or earlier user turn,
+   falling back to starter questions. Questions the user already asked
+   are left out.
+--- */
+export function suggestFollowUps(
+  question: string,
+  answer: string,
+  language: string,
+  history: AIHistoryTurn[] = []
+): string[] {
+  const lang: Lang = language === 'hi' ? 'hi' : 'en';
+  const topic =
+    findSectionReference(question)?.topic ??
+    classifyLegalTopic(question)?.topic ??
+    classifyLegalTopic(answer)?.topic ??
+    topicFromHistory(history)?.topic;
+
+  const asked = new Set(
+    [question, ...history.filter((turn) => turn.role === 'user').map((turn) => turn.content)].map(normalize)
+  );
+  const suggestions = topic ? topic.followUps[lang] : GENERAL_SUGGESTIONS[lang];
+  return suggestions.filter((suggestion) => !asked.has(normalize(suggestion)));
+}
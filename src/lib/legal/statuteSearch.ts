@@ -0,0 +1,129 @@
+import { STATUTES, STATUTE_ACT_IDS, StatuteAct, StatuteActId, StatuteChapter, StatuteSection, statuteLabels } from './statutes';
+
+/* --- Statute Lookup & Search ---
+   Offline search over the bundled statutes (statutes.ts) for the statute
+   browser. A query that names a section ("420", "s. 318(4) BNS",
+   "धारा 103") opens that section directly; anything else is matched
+   word by word against titles, keywords and text in both languages.
+
+   Scoring, highest first:
+   - section number matches the query (more if the act matches too)
+   - every query word in the title or keywords
+   - query words found anywhere in the section text
+--- */
+
+type Lang = 'en' | 'hi';
+
+export interface StatuteRef {
+  act: StatuteActId;
+  section: string;
+}
+
+export interface StatuteHit extends StatuteRef {
+  chapter: StatuteChapter;
+  entry: StatuteSection;
+  score: number;
+}
+
+const NUMBER_SCORE = 10;
+const ACT_MATCH_SCORE = 5;
+const TITLE_WORD_SCORE = 3;
+const KEYWORD_SCORE = 2;
+const TEXT_WORD_SCORE = 1;
+const MAX_RESULTS = 30;
+
+// Act names as users type them
+const ACT_HINTS: Array<{ pattern: RegExp; act: StatuteActId }> = [
+  { pattern: /\bbnss\b|नागरिक सुरक्षा|बीएनएसएस/, act: 'BNSS' },
+  { pattern: /\bbns\b|न्याय संहिता|बीएनएस/, act: 'BNS' },
+  { pattern: /\bbsa\b|sakshya|साक्ष्य अधिनियम, 2023|बीएसए/, act: 'BSA' },
+  { pattern: /\bipc\b|indian penal code|penal code|आईपीसी|भारतीय दंड/, act: 'IPC' },
+  { pattern: /\bcr\.?p\.?c\b|criminal procedure|सीआरपीसी|दंड प्रक्रिया/, act: 'CRPC' },
+  { pattern: /\biea\b|evidence act|साक्ष्य अधिनियम/, act: 'IEA' },
+  { pattern: /\bn\.?i\.? act\b|negotiable instruments|एनआई एक्ट|परक्राम्य लिखत/, act: 'NI' },
+  { pattern: /constitution|\barticles?\b|संविधान|अनुच्छेद/, act: 'COI' },
+];
+
+// Words that say nothing about which section is meant
+const STOP_WORDS = new Set(['section', 'sec', 'article', 'act', 'the', 'of', 'and', 'or', 'in', 'to', 'for', 'what', 'is', 'under', 'धारा', 'अनुच्छेद', 'की', 'का', 'के', 'में', 'और', 'क्या', 'है']);
+
+const SECTION_PATTERN = /(?:^|\s)(?:section|sec\.?|s\.|u\/s|article|art\.|धारा|अनुच्छेद)?\s*(\d{1,3}[a-z]{0,2})(\(\d+\))?(?=\s|$|[,.;)])/i;
+
+// "318(4)" and "318" are the same entry; so are "498a" and "498A"
+const baseNumber = (number: string) => number.replace(/\(.*$/, '').toUpperCase();
+
+export function detectStatuteAct(query: string): StatuteActId | undefined {
+  const lower = query.toLowerCase();
+  return ACT_HINTS.find((hint) => hint.pattern.test(lower))?.act;
+}
+
+export function findStatuteSection(act: StatuteActId, section: string): StatuteHit | null {
+  const wanted = baseNumber(section);
+  for (const chapter of STATUTES[act].chapters) {
+    const entry =
+      chapter.sections.find((s) => s.number.toUpperCase() === section.toUpperCase()) ??
+      chapter.sections.find((s) => baseNumber(s.number) === wanted);
+    if (entry) return { act, section: entry.number, chapter, entry, score: NUMBER_SCORE };
+  }
+  return null;
+}
+
+export function formatStatuteCitation(act: StatuteAct, entry: StatuteSection, language: Lang): string {
+  return `${statuteLabels(act).section[language]} ${entry.number}, ${act.name[language]} (${entry.title[language]})`;
+}
+
+const normalize = (text: string) => text.normalize('NFKC').toLowerCase();
+
+const queryWords = (query: string) =>
+  normalize(query)
+    .split(/[^\p{L}\p{N}\p{M}]+/u)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word));
+
+function scoreSection(act: StatuteActId, entry: StatuteSection, query: string, words: string[], actHint?: StatuteActId): number {
+  let score = 0;
+
+  const numberMatch = query.match(SECTION_PATTERN);
+  if (numberMatch && baseNumber(numberMatch[1]) === baseNumber(entry.number)) {
+    // "302 IPC" means IPC 302; BNS 302 still shows, lower down
+    score += NUMBER_SCORE + (!actHint ? 0 : actHint === act ? ACT_MATCH_SCORE : -ACT_MATCH_SCORE);
+  }
+
+  const title = normalize(`${entry.title.en} ${entry.title.hi}`);
+  const keywords = (entry.keywords ?? []).map(normalize);
+  const body = normalize([entry.text.en, entry.text.hi, entry.explanation?.en, entry.explanation?.hi].filter(Boolean).join(' '));
+
+  const phrase = normalize(query).trim();
+  if (phrase && keywords.some((keyword) => keyword === phrase)) score += KEYWORD_SCORE * 2;
+
+  const contentWords = words.filter((word) => !/^\d/.test(word) && !detectStatuteAct(word));
+  if (contentWords.length > 0 && contentWords.every((word) => title.includes(word))) {
+    score += TITLE_WORD_SCORE * contentWords.length;
+  }
+  for (const word of contentWords) {
+    if (keywords.some((keyword) => keyword.includes(word))) score += KEYWORD_SCORE;
+    else if (body.includes(word)) score += TEXT_WORD_SCORE;
+  }
+  return score;
+}
+
+// Matching sections across all acts (or only `act`), best match first
+export function searchStatutes(query: string, act?: StatuteActId): StatuteHit[] {
+  const words = queryWords(query);
+  if (words.length === 0) return [];
+  const actHint = detectStatuteAct(query);
+
+  const hits: StatuteHit[] = [];
+  for (const id of act ? [act] : STATUTE_ACT_IDS) {
+    for (const chapter of STATUTES[id].chapters) {
+      for (const entry of chapter.sections) {
+        const score = scoreSection(id, entry, query, words, actHint);
+        if (score > 0) hits.push({ act: id, section: entry.number, chapter, entry, score });
+      }
+    }
+  }
+
+  // Acts in force first on a tie, then the order of the dataset
+  return hits
+    .sort((a, b) => b.score - a.score || Number(STATUTES[b.act].inForce) - Number(STATUTES[a.act].inForce))
+    .slice(0, MAX_RESULTS);
+}
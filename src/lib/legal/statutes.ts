@@ -0,0 +1,2450 @@
+import { ACTS, Bilingual } from './knowledgeBase';
+
+/* --- Bundled Statute Dataset ---
+   Sections of the major central criminal laws that users look up most,
+   plus the cheque-bounce chapter of the Negotiable Instruments Act and
+   the Articles of the Constitution that answers cite most, for the
+   statute browser (StatuteBrowser.tsx) and the citation links in chat
+   messages. Each act is grouped into its chapters (Parts, for the
+   Constitution); each section has:
+   - text: what the section says, in plain words (not the bare act text)
+   - explanation: how it is applied, or what changed from the old code
+   - punishment: for offences, as written in the section
+
+   Links to the same provision in the paired act (BNS ↔ IPC, BNSS ↔ CrPC,
+   BSA ↔ Indian Evidence Act) come from the section mapping in
+   codeMapping.ts.
+
+   The 2023 codes replaced the old ones from 1 July 2024. The old codes
+   are kept because offences committed before that date are still tried
+   under them, and because FIRs and judgments keep citing them.
+
+   This is a curated selection, not the full text of the acts. Section
+   numbers and punishments must match the official Gazette text.
+--- */
+
+export type StatuteActId = 'BNS' | 'IPC' | 'BNSS' | 'CRPC' | 'BSA' | 'IEA' | 'NI' | 'COI';
+
+export interface StatuteSection {
+  number: string;
+  title: Bilingual;
+  text: Bilingual;
+  explanation?: Bilingual;
+  punishment?: Bilingual;
+  // Everyday words people search with ("420", "dowry", "धोखा")
+  keywords?: string[];
+}
+
+export interface StatuteChapter {
+  number: string;
+  title: Bilingual;
+  sections: StatuteSection[];
+}
+
+export interface StatuteAct {
+  id: StatuteActId;
+  name: Bilingual;
+  shortName: Bilingual;
+  // false for the codes repealed on 1 July 2024
+  inForce: boolean;
+  // What the act calls its divisions, when not "Chapter" and "Section"
+  labels?: { chapter: Bilingual; section: Bilingual };
+  chapters: StatuteChapter[];
+}
+
+export const STATUTE_ACT_IDS: StatuteActId[] = ['BNS', 'IPC', 'BNSS', 'CRPC', 'BSA', 'IEA', 'NI', 'COI'];
+
+const DEFAULT_LABELS = {
+  chapter: { en: 'Chapter', hi: 'अध्याय' },
+  section: { en: 'Section', hi: 'धारा' },
+};
+
+export const statuteLabels = (act: StatuteAct) => act.labels ?? DEFAULT_LABELS;
+
+const BNS: StatuteAct = {
+  id: 'BNS',
+  name: { en: ACTS.BNS, hi: 'भारतीय न्याय संहिता, 2023' },
+  shortName: { en: 'BNS', hi: 'बीएनएस' },
+  inForce: true,
+  chapters: [
+    {
+      number: 'I',
+      title: { en: 'Preliminary', hi: 'प्रारंभिक' },
+      sections: [
+        {
+          number: '3(5)',
+          title: { en: 'Acts done by several persons in furtherance of common intention', hi: 'सामान्य आशय को अग्रसर करने में कई व्यक्तियों द्वारा किए गए कार्य' },
+          text: {
+            en: 'When a criminal act is done by several persons to carry out the intention they all share, each of them is liable as if they had done the whole act alone.',
+            hi: 'जब कोई आपराधिक कार्य कई व्यक्ति अपने साझा आशय को पूरा करने के लिए करते हैं, तो उनमें से हर एक उसी तरह दायी है मानो उसने वह पूरा कार्य अकेले किया हो।',
+          },
+          explanation: {
+            en: 'Not an offence by itself; it is always read with the offence charged, e.g. "Section 103 read with 3(5) BNS".',
+            hi: 'यह अपने आप में अपराध नहीं है; इसे हमेशा लगाए गए अपराध के साथ पढ़ा जाता है, जैसे "धारा 103 सहपठित 3(5) बीएनएस"।',
+          },
+          keywords: ['common intention', 'सामान्य आशय'],
+        },
+      ],
+    },
+    {
+      number: 'IV',
+      title: { en: 'Of abetment, criminal conspiracy and attempt', hi: 'दुष्प्रेरण, आपराधिक षड्यंत्र और प्रयत्न' },
+      sections: [
+        {
+          number: '61',
+          title: { en: 'Criminal conspiracy', hi: 'आपराधिक षड्यंत्र' },
+          text: {
+            en: 'Two or more persons who agree to do an illegal act, or a legal act by illegal means, commit criminal conspiracy. An agreement to commit an offence is enough; for other illegal acts some act must also be done in pursuance of the agreement.',
+            hi: 'दो या अधिक व्यक्ति जो कोई अवैध कार्य, या वैध कार्य अवैध साधनों से करने के लिए सहमत होते हैं, आपराधिक षड्यंत्र करते हैं। अपराध करने का करार ही पर्याप्त है; अन्य अवैध कार्यों के लिए करार के अनुसरण में कोई कार्य भी होना चाहिए।',
+          },
+          punishment: {
+            en: 'For a conspiracy to commit an offence punishable with death, life imprisonment or rigorous imprisonment of two years or more: as if the conspirator had abetted that offence. Otherwise: imprisonment up to six months, or fine, or both.',
+            hi: 'मृत्यु, आजीवन कारावास या दो वर्ष या अधिक के कठोर कारावास से दंडनीय अपराध के षड्यंत्र के लिए: मानो षड्यंत्रकारी ने उस अपराध का दुष्प्रेरण किया हो। अन्यथा: छह मास तक का कारावास, या जुर्माना, या दोनों।',
+          },
+          keywords: ['conspiracy', 'षड्यंत्र', 'साजिश'],
+        },
+        {
+          number: '62',
+          title: { en: 'Punishment for attempting to commit offences punishable with imprisonment for life or other imprisonment', hi: 'आजीवन कारावास या अन्य कारावास से दंडनीय अपराधों को करने के प्रयत्न के लिए दंड' },
+          text: {
+            en: 'Attempting an offence and doing any act towards committing it is punishable even if the offence is not completed, where the Sanhita has no specific provision for that attempt.',
+            hi: 'किसी अपराध का प्रयत्न करना और उसे करने की दिशा में कोई कार्य करना दंडनीय है, भले ही अपराध पूरा न हो, जहां संहिता में उस प्रयत्न के लिए कोई विशेष उपबंध नहीं है।',
+          },
+          punishment: {
+            en: 'Up to one-half of the longest term of imprisonment provided for the offence (or of imprisonment for life), or fine, or both.',
+            hi: 'उस अपराध के लिए उपबंधित सबसे लंबी कारावास अवधि (या आजीवन कारावास) के आधे तक, या जुर्माना, या दोनों।',
+          },
+          keywords: ['attempt', 'प्रयत्न', 'कोशिश'],
+        },
+      ],
+    },
+    {
+      number: 'V',
+      title: { en: 'Of offences against woman and child', hi: 'महिला और बालक के विरुद्ध अपराध' },
+      sections: [
+        {
+          number: '63',
+          title: { en: 'Rape', hi: 'बलात्संग' },
+          text: {
+            en: 'Defines rape: the acts covered and the circumstances (against her will, without consent, consent obtained by fear or deception, or when she is under eighteen) in which they amount to rape.',
+            hi: 'बलात्संग की परिभाषा: कौन से कार्य शामिल हैं और किन परिस्थितियों में (उसकी इच्छा के विरुद्ध, सहमति के बिना, भय या धोखे से ली गई सहमति, या जब वह अठारह वर्ष से कम हो) वे बलात्संग हैं।',
+          },
+          explanation: {
+            en: 'Punishment is in Section 64 onwards. The identity of the survivor must not be disclosed (Section 72).',
+            hi: 'दंड धारा 64 और आगे की धाराओं में है। पीड़िता की पहचान प्रकट नहीं की जानी चाहिए (धारा 72)।',
+          },
+          keywords: ['rape', 'sexual assault', 'बलात्कार', 'यौन हमला'],
+        },
+        {
+          number: '64',
+          title: { en: 'Punishment for rape', hi: 'बलात्संग के लिए दंड' },
+          text: {
+            en: 'Sets the punishment for rape, with higher punishment for rape by police officers, public servants, relatives, persons in a position of trust, and in other aggravated cases listed in sub-section (2).',
+            hi: 'बलात्संग के लिए दंड निर्धारित करती है, और पुलिस अधिकारियों, लोक सेवकों, रिश्तेदारों, विश्वास की स्थिति वाले व्यक्तियों द्वारा और उप-धारा (2) में दिए अन्य गंभीर मामलों में अधिक दंड।',
+          },
+          punishment: {
+            en: 'Rigorous imprisonment of at least ten years, which may extend to imprisonment for life, and fine. In the cases in sub-section (2): at least ten years, up to imprisonment for the remainder of natural life, and fine.',
+            hi: 'कम से कम दस वर्ष का कठोर कारावास, जो आजीवन कारावास तक हो सकता है, और जुर्माना। उप-धारा (2) के मामलों में: कम से कम दस वर्ष, शेष प्राकृत जीवनकाल के कारावास तक, और जुर्माना।',
+          },
+          keywords: ['rape', 'बलात्कार'],
+        },
+        {
+          number: '69',
+          title: { en: 'Sexual intercourse by employing deceitful means, etc.', hi: 'प्रवंचनापूर्ण साधनों आदि का प्रयोग करके मैथुन' },
+          text: {
+            en: 'Sexual intercourse obtained by deceit, or by a promise to marry made without any intention of keeping it, is an offence even where it does not amount to rape. Deceit includes false promises of employment or promotion, or marrying after hiding one\'s identity.',
+            hi: 'धोखे से, या निभाने के किसी आशय के बिना किए गए विवाह के वचन से प्राप्त मैथुन अपराध है, भले ही वह बलात्संग न हो। धोखे में रोज़गार या पदोन्नति के झूठे वादे, या पहचान छिपाकर विवाह करना शामिल है।',
+          },
+          explanation: {
+            en: 'New in the BNS; the IPC had no separate offence, and such cases were argued under Section 375/376 IPC.',
+            hi: 'बीएनएस में नई धारा; आईपीसी में ऐसा अलग अपराध नहीं था, और ऐसे मामलों को धारा 375/376 आईपीसी के तहत चलाया जाता था।',
+          },
+          punishment: {
+            en: 'Imprisonment of either description up to ten years, and fine.',
+            hi: 'किसी भी भांति का दस वर्ष तक का कारावास, और जुर्माना।',
+          },
+          keywords: ['false promise of marriage', 'promise to marry', 'शादी का झूठा वादा', 'विवाह का वचन'],
+        },
+        {
+          number: '74',
+          title: { en: 'Assault or use of criminal force to woman with intent to outrage her modesty', hi: 'महिला की लज्जा भंग करने के आशय से उस पर हमला या आपराधिक बल का प्रयोग' },
+          text: {
+            en: 'Assaulting or using criminal force on a woman, intending to outrage her modesty or knowing it is likely to do so.',
+            hi: 'किसी महिला पर उसकी लज्जा भंग करने के आशय से, या यह जानते हुए कि इससे ऐसा होना संभाव्य है, हमला करना या आपराधिक बल का प्रयोग करना।',
+          },
+          punishment: {
+            en: 'Imprisonment of either description for at least one year, which may extend to five years, and fine.',
+            hi: 'किसी भी भांति का कम से कम एक वर्ष का कारावास, जो पांच वर्ष तक हो सकता है, और जुर्माना।',
+          },
+          keywords: ['molestation', 'outrage modesty', 'छेड़छाड़', 'लज्जा भंग'],
+        },
+        {
+          number: '75',
+          title: { en: 'Sexual harassment', hi: 'लैंगिक उत्पीड़न' },
+          text: {
+            en: 'Unwelcome physical contact and advances, demanding sexual favours, showing pornography against a woman\'s will, or making sexually coloured remarks.',
+            hi: 'अवांछित शारीरिक संपर्क और प्रस्ताव, यौन अनुग्रह की मांग, महिला की इच्छा के विरुद्ध अश्लील सामग्री दिखाना, या यौन टिप्पणियां करना।',
+          },
+          punishment: {
+            en: 'Physical contact, demands or showing pornography: rigorous imprisonment up to three years, or fine, or both. Sexually coloured remarks: imprisonment up to one year, or fine, or both.',
+            hi: 'शारीरिक संपर्क, मांग या अश्लील सामग्री दिखाना: तीन वर्ष तक का कठोर कारावास, या जुर्माना, या दोनों। यौन टिप्पणियां: एक वर्ष तक का कारावास, या जुर्माना, या दोनों।',
+          },
+          keywords: ['sexual harassment', 'यौन उत्पीड़न'],
+        },
+        {
+          number: '78',
+          title: { en: 'Stalking', hi: 'पीछा करना' },
+          text: {
+            en: 'Following or contacting a woman repeatedly despite her clear disinterest, or monitoring her use of the internet, email or other electronic communication.',
+            hi: 'किसी महिला की स्पष्ट अरुचि के बावजूद बार-बार उसका पीछा करना या उससे संपर्क करना, या उसके इंटरनेट, ईमेल या अन्य इलेक्ट्रॉनिक संचार के उपयोग की निगरानी करना।',
+          },
+          punishment: {
+            en: 'First conviction: imprisonment up to three years and fine. Second or later conviction: imprisonment up to five years and fine.',
+            hi: 'पहली दोषसिद्धि: तीन वर्ष तक का कारावास और जुर्माना। दूसरी या बाद की दोषसिद्धि: पांच वर्ष तक का कारावास और जुर्माना।',
+          },
+          keywords: ['stalking', 'cyber stalking', 'पीछा'],
+        },
+        {
+          number: '79',
+          title: { en: 'Word, gesture or act intended to insult modesty of a woman', hi: 'महिला की लज्जा का अनादर करने के आशय से शब्द, अंगविक्षेप या कार्य' },
+          text: {
+            en: 'Saying any word, making any sound or gesture, or showing any object intending that a woman hears or sees it and her modesty is insulted, or intruding on her privacy.',
+            hi: 'कोई शब्द कहना, ध्वनि या अंगविक्षेप करना, या कोई वस्तु दिखाना इस आशय से कि महिला उसे सुने या देखे और उसकी लज्जा का अनादर हो, या उसकी एकांतता में दखल देना।',
+          },
+          punishment: {
+            en: 'Simple imprisonment up to three years, and fine.',
+            hi: 'तीन वर्ष तक का सादा कारावास, और जुर्माना।',
+          },
+          keywords: ['eve teasing', 'lewd comments', 'अश्लील टिप्पणी'],
+        },
+        {
+          number: '80',
+          title: { en: 'Dowry death', hi: 'दहेज मृत्यु' },
+          text: {
+            en: 'Where a woman dies of burns, bodily injury or otherwise than in normal circumstances within seven years of marriage, and was shown to have been subjected to cruelty or harassment for dowry soon before her death, the husband or relative responsible is deemed to have caused her death.',
+            hi: 'जहां किसी महिला की मृत्यु विवाह के सात वर्ष के भीतर जलने, शारीरिक क्षति या असामान्य परिस्थितियों में होती है, और यह दिखाया जाता है कि मृत्यु से कुछ पहले दहेज के लिए उसके साथ क्रूरता या उत्पीड़न हुआ था, तो जिम्मेदार पति या रिश्तेदार को उसकी मृत्यु कारित करने वाला माना जाता है।',
+          },
+          explanation: {
+            en: 'The court presumes dowry death once these facts are shown (Section 118, Bharatiya Sakshya Adhiniyam).',
+            hi: 'इन तथ्यों के दिखाए जाने पर न्यायालय दहेज मृत्यु की उपधारणा करता है (धारा 118, भारतीय साक्ष्य अधिनियम, 2023)।',
+          },
+          punishment: {
+            en: 'Imprisonment of at least seven years, which may extend to imprisonment for life.',
+            hi: 'कम से कम सात वर्ष का कारावास, जो आजीवन कारावास तक हो सकता है।',
+          },
+          keywords: ['dowry death', 'दहेज हत्या', 'दहेज मृत्यु'],
+        },
+        {
+          number: '85',
+          title: { en: 'Husband or relative of husband of a woman subjecting her to cruelty', hi: 'किसी महिला के पति या पति के नातेदार द्वारा उसके प्रति क्रूरता' },
+          text: {
+            en: 'A husband or his relative who subjects a woman to cruelty. Cruelty (defined in Section 86) is wilful conduct likely to drive her to suicide or cause grave injury to her life, limb or health, or harassment to coerce her or her family into meeting an unlawful demand such as dowry.',
+            hi: 'पति या उसका नातेदार जो महिला के प्रति क्रूरता करता है। क्रूरता (धारा 86 में परिभाषित) ऐसा जानबूझकर किया गया आचरण है जिससे वह आत्महत्या के लिए प्रेरित हो या उसके जीवन, अंग या स्वास्थ्य को गंभीर क्षति हो, या दहेज जैसी अवैध मांग पूरी कराने के लिए उसे या उसके परिवार को उत्पीड़ित करना।',
+          },
+          punishment: {
+            en: 'Imprisonment up to three years, and fine.',
+            hi: 'तीन वर्ष तक का कारावास, और जुर्माना।',
+          },
+          keywords: ['498a', 'cruelty', 'dowry harassment', 'क्रूरता', 'दहेज उत्पीड़न'],
+        },
+      ],
+    },
+    {
+      number: 'VI',
+      title: { en: 'Of offences affecting the human body', hi: 'मानव शरीर पर प्रभाव डालने वाले अपराध' },
+      sections: [
+        {
+          number: '100',
+          title: { en: 'Culpable homicide', hi: 'आपराधिक मानव वध' },
+          text: {
+            en: 'Causing death by an act done with the intention of causing death, or of causing bodily injury likely to cause death, or with the knowledge that the act is likely to cause death.',
+            hi: 'मृत्यु कारित करने के आशय से, या ऐसी शारीरिक क्षति कारित करने के आशय से जिससे मृत्यु संभाव्य है, या यह ज्ञान रखते हुए कि कार्य से मृत्यु संभाव्य है, कोई कार्य करके मृत्यु कारित करना।',
+          },
+          keywords: ['culpable homicide', 'मानव वध'],
+        },
+        {
+          number: '101',
+          title: { en: 'Murder', hi: 'हत्या' },
+          text: {
+            en: 'Culpable homicide is murder when done with the intention of causing death, or in the other cases listed in the section, unless one of its exceptions applies (grave and sudden provocation, private defence, sudden fight, and others).',
+            hi: 'आपराधिक मानव वध हत्या है जब वह मृत्यु कारित करने के आशय से, या धारा में दिए अन्य मामलों में किया जाता है, जब तक कि उसका कोई अपवाद लागू न हो (गंभीर और अचानक प्रकोपन, निजी प्रतिरक्षा, अचानक लड़ाई, आदि)।',
+          },
+          keywords: ['murder', 'हत्या', 'कत्ल'],
+        },
+        {
+          number: '103',
+          title: { en: 'Punishment for murder', hi: 'हत्या के लिए दंड' },
+          text: {
+            en: 'Sets the punishment for murder. Sub-section (2) covers murder by a group of five or more acting together on the ground of race, caste, community, sex, place of birth, language, personal belief or similar grounds (mob lynching).',
+            hi: 'हत्या के लिए दंड निर्धारित करती है। उप-धारा (2) पांच या अधिक व्यक्तियों के समूह द्वारा मूलवंश, जाति, समुदाय, लिंग, जन्मस्थान, भाषा, व्यक्तिगत विश्वास या ऐसे आधारों पर मिलकर की गई हत्या (मॉब लिंचिंग) से संबंधित है।',
+          },
+          punishment: {
+            en: 'Death or imprisonment for life, and fine. The same applies to each member of the group under sub-section (2).',
+            hi: 'मृत्युदंड या आजीवन कारावास, और जुर्माना। उप-धारा (2) के तहत समूह के प्रत्येक सदस्य पर यही लागू होता है।',
+          },
+          keywords: ['302', 'murder', 'mob lynching', 'हत्या', 'मॉब लिंचिंग'],
+        },
+        {
+          number: '105',
+          title: { en: 'Punishment for culpable homicide not amounting to murder', hi: 'हत्या की कोटि में न आने वाले आपराधिक मानव वध के लिए दंड' },
+          text: {
+            en: 'Sets the punishment for culpable homicide that falls within an exception to murder, depending on whether death was caused with intention or only with knowledge.',
+            hi: 'हत्या के किसी अपवाद में आने वाले आपराधिक मानव वध का दंड, इस पर निर्भर कि मृत्यु आशय से कारित हुई या केवल ज्ञान से।',
+          },
+          punishment: {
+            en: 'With intention: imprisonment for life, or imprisonment of at least five years up to ten years, and fine. With knowledge only: imprisonment up to ten years and fine.',
+            hi: 'आशय से: आजीवन कारावास, या कम से कम पांच वर्ष से दस वर्ष तक का कारावास, और जुर्माना। केवल ज्ञान से: दस वर्ष तक का कारावास और जुर्माना।',
+          },
+          keywords: ['culpable homicide', 'manslaughter', 'गैर इरादतन हत्या'],
+        },
+        {
+          number: '106',
+          title: { en: 'Causing death by negligence', hi: 'उपेक्षा द्वारा मृत्यु कारित करना' },
+          text: {
+            en: 'Causing death by a rash or negligent act not amounting to culpable homicide, including death caused by a registered medical practitioner during a medical procedure. Sub-section (2) covers rash and negligent driving where the driver escapes without reporting the accident.',
+            hi: 'ऐसे उतावलेपन या उपेक्षापूर्ण कार्य से मृत्यु कारित करना जो आपराधिक मानव वध नहीं है, जिसमें चिकित्सा प्रक्रिया के दौरान पंजीकृत चिकित्सक द्वारा हुई मृत्यु शामिल है। उप-धारा (2) उतावलेपन से वाहन चलाकर दुर्घटना की सूचना दिए बिना भाग जाने के मामले से संबंधित है।',
+          },
+          explanation: {
+            en: 'Sub-section (2) (hit and run) has not been brought into force yet.',
+            hi: 'उप-धारा (2) (हिट एंड रन) अभी लागू नहीं की गई है।',
+          },
+          punishment: {
+            en: 'Imprisonment up to five years and fine; for a registered medical practitioner, up to two years and fine. Under sub-section (2): up to ten years and fine.',
+            hi: 'पांच वर्ष तक का कारावास और जुर्माना; पंजीकृत चिकित्सक के लिए दो वर्ष तक और जुर्माना। उप-धारा (2) के तहत: दस वर्ष तक और जुर्माना।',
+          },
+          keywords: ['negligence', 'accident', 'hit and run', 'medical negligence', 'लापरवाही', 'दुर्घटना'],
+        },
+        {
+          number: '108',
+          title: { en: 'Abetment of suicide', hi: 'आत्महत्या का दुष्प्रेरण' },
+          text: {
+            en: 'Abetting (instigating, conspiring in or intentionally aiding) the suicide of any person.',
+            hi: 'किसी व्यक्ति की आत्महत्या का दुष्प्रेरण (उकसाना, षड्यंत्र करना या जानबूझकर सहायता करना)।',
+          },
+          punishment: {
+            en: 'Imprisonment up to ten years, and fine.',
+            hi: 'दस वर्ष तक का कारावास, और जुर्माना।',
+          },
+          keywords: ['abetment of suicide', 'आत्महत्या के लिए उकसाना'],
+        },
+        {
+          number: '109',
+          title: { en: 'Attempt to murder', hi: 'हत्या का प्रयत्न' },
+          text: {
+            en: 'Doing any act with such intention or knowledge that, if it caused death, it would be murder.',
+            hi: 'कोई कार्य ऐसे आशय या ज्ञान से करना कि यदि उससे मृत्यु हो जाती तो वह हत्या होती।',
+          },
+          punishment: {
+            en: 'Imprisonment up to ten years and fine; if hurt is caused, imprisonment for life or the same term.',
+            hi: 'दस वर्ष तक का कारावास और जुर्माना; उपहति कारित होने पर आजीवन कारावास या वही अवधि।',
+          },
+          keywords: ['307', 'attempt to murder', 'हत्या का प्रयास'],
+        },
+        {
+          number: '111',
+          title: { en: 'Organised crime', hi: 'संगठित अपराध' },
+          text: {
+            en: 'Continuing unlawful activity such as kidnapping, robbery, extortion, land grabbing, contract killing, economic offences, cyber crime or trafficking, carried out by a group or syndicate for material benefit.',
+            hi: 'अपहरण, लूट, उद्दापन, भूमि हड़पना, सुपारी हत्या, आर्थिक अपराध, साइबर अपराध या तस्करी जैसी निरंतर अवैध गतिविधि, जो किसी समूह या गिरोह द्वारा भौतिक लाभ के लिए की जाती है।',
+          },
+          explanation: {
+            en: 'New in the BNS; earlier such offences were covered only by state laws such as MCOCA.',
+            hi: 'बीएनएस में नई धारा; पहले ऐसे अपराध केवल मकोका जैसे राज्य कानूनों के अंतर्गत थे।',
+          },
+          punishment: {
+            en: 'If it results in death: death or imprisonment for life, and fine of at least ₹10 lakh. Otherwise: imprisonment of at least five years up to life, and fine of at least ₹5 lakh.',
+            hi: 'मृत्यु होने पर: मृत्युदंड या आजीवन कारावास, और कम से कम ₹10 लाख जुर्माना। अन्यथा: कम से कम पांच वर्ष से आजीवन तक कारावास, और कम से कम ₹5 लाख जुर्माना।',
+          },
+          keywords: ['organised crime', 'gang', 'syndicate', 'संगठित अपराध', 'गिरोह'],
+        },
+        {
+          number: '115',
+          title: { en: 'Voluntarily causing hurt', hi: 'स्वेच्छया उपहति कारित करना' },
+          text: {
+            en: 'Doing any act intending to cause, or knowing it is likely to cause, bodily pain, disease or infirmity to any person.',
+            hi: 'किसी व्यक्ति को शारीरिक पीड़ा, रोग या अंग-शैथिल्य कारित करने के आशय से, या यह जानते हुए कि इससे ऐसा होना संभाव्य है, कोई कार्य करना।',
+          },
+          punishment: {
+            en: 'Imprisonment up to one year, or fine up to ₹10,000, or both.',
+            hi: 'एक वर्ष तक का कारावास, या ₹10,000 तक जुर्माना, या दोनों।',
+          },
+          keywords: ['323', 'hurt', 'beating', 'assault', 'मारपीट', 'चोट'],
+        },
+        {
+          number: '117',
+          title: { en: 'Voluntarily causing grievous hurt', hi: 'स्वेच्छया घोर उपहति कारित करना' },
+          text: {
+            en: 'Voluntarily causing grievous hurt, such as a fracture, loss of sight or hearing, permanent disfigurement, or hurt that endangers life or causes severe pain for fifteen days (Section 116).',
+            hi: 'स्वेच्छया घोर उपहति कारित करना, जैसे हड्डी टूटना, दृष्टि या श्रवण की हानि, स्थायी विद्रूपता, या ऐसी उपहति जो जीवन को संकट में डाले या पंद्रह दिन तक तीव्र पीड़ा दे (धारा 116)।',
+          },
+          punishment: {
+            en: 'Imprisonment up to seven years, and fine.',
+            hi: 'सात वर्ष तक का कारावास, और जुर्माना।',
+          },
+          keywords: ['grievous hurt', 'fracture', 'गंभीर चोट'],
+        },
+        {
+          number: '118',
+          title: { en: 'Voluntarily causing hurt or grievous hurt by dangerous weapons or means', hi: 'खतरनाक आयुधों या साधनों द्वारा स्वेच्छया उपहति या घोर उपहति कारित करना' },
+          text: {
+            en: 'Causing hurt or grievous hurt with a weapon for shooting, stabbing or cutting, or with fire, poison, explosives, corrosive substances or an animal.',
+            hi: 'गोली चलाने, भोंकने या काटने के आयुध से, या आग, विष, विस्फोटक, संक्षारक पदार्थ या किसी जीव से उपहति या घोर उपहति कारित करना।',
+          },
+          punishment: {
+            en: 'Hurt: imprisonment up to three years, or fine up to ₹20,000, or both. Grievous hurt: imprisonment for life, or at least one year up to ten years, and fine.',
+            hi: 'उपहति: तीन वर्ष तक का कारावास, या ₹20,000 तक जुर्माना, या दोनों। घोर उपहति: आजीवन कारावास, या कम से कम एक वर्ष से दस वर्ष तक, और जुर्माना।',
+          },
+          keywords: ['weapon', 'knife', 'हथियार', 'चाकू'],
+        },
+        {
+          number: '124',
+          title: { en: 'Voluntarily causing grievous hurt by use of acid, etc.', hi: 'अम्ल, आदि का प्रयोग करके स्वेच्छया घोर उपहति कारित करना' },
+          text: {
+            en: 'Throwing or administering acid, or using any other means, to cause permanent or partial damage, deformity, burns, maiming or disfigurement. Attempting to throw acid is also an offence under sub-section (2).',
+            hi: 'स्थायी या आंशिक क्षति, विरूपता, जलन, विकलांगता या विद्रूपता कारित करने के लिए अम्ल फेंकना या देना, या कोई अन्य साधन प्रयोग करना। अम्ल फेंकने का प्रयत्न भी उप-धारा (2) के तहत अपराध है।',
+          },
+          punishment: {
+            en: 'Imprisonment of at least ten years, which may extend to imprisonment for life, and a fine that meets the victim\'s medical expenses and is paid to the victim. Attempt: five to seven years and fine.',
+            hi: 'कम से कम दस वर्ष का कारावास, जो आजीवन कारावास तक हो सकता है, और पीड़ित के चिकित्सा व्यय के लिए पर्याप्त जुर्माना जो पीड़ित को दिया जाएगा। प्रयत्न: पांच से सात वर्ष और जुर्माना।',
+          },
+          keywords: ['acid attack', 'तेजाब हमला'],
+        },
+        {
+          number: '126',
+          title: { en: 'Wrongful restraint', hi: 'सदोष अवरोध' },
+          text: {
+            en: 'Voluntarily obstructing a person so as to prevent them from going in a direction they have a right to go.',
+            hi: 'किसी व्यक्ति को स्वेच्छया इस प्रकार बाधित करना कि वह उस दिशा में न जा सके जिसमें जाने का उसे अधिकार है।',
+          },
+          punishment: {
+            en: 'Simple imprisonment up to one month, or fine up to ₹5,000, or both.',
+            hi: 'एक मास तक का सादा कारावास, या ₹5,000 तक जुर्माना, या दोनों।',
+          },
+          keywords: ['blocking way', 'रास्ता रोकना'],
+        },
+        {
+          number: '127',
+          title: { en: 'Wrongful confinement', hi: 'सदोष परिरोध' },
+          text: {
+            en: 'Wrongfully restraining a person so as to prevent them from going beyond certain limits.',
+            hi: 'किसी व्यक्ति का सदोष अवरोध इस प्रकार करना कि वह कुछ सीमाओं से बाहर न जा सके।',
+          },
+          punishment: {
+            en: 'Imprisonment up to one year, or fine up to ₹5,000, or both; longer terms for confinement of three days or more.',
+            hi: 'एक वर्ष तक का कारावास, या ₹5,000 तक जुर्माना, या दोनों; तीन दिन या अधिक के परिरोध के लिए अधिक अवधि।',
+          },
+          keywords: ['illegal confinement', 'locked up', 'बंधक', 'कैद'],
+        },
+        {
+          number: '137',
+          title: { en: 'Kidnapping', hi: 'व्यपहरण' },
+          text: {
+            en: 'Conveying a person out of India without their consent, or taking or enticing a child or a person of unsound mind out of the keeping of their lawful guardian without the guardian\'s consent.',
+            hi: 'किसी व्यक्ति को उसकी सहमति के बिना भारत से बाहर ले जाना, या किसी बालक या विकृतचित्त व्यक्ति को उसके विधिपूर्ण संरक्षक की सहमति के बिना उसकी देखरेख से ले जाना या फुसलाना।',
+          },
+          explanation: {
+            en: 'A "child" here means anyone under eighteen, whether boy or girl; the IPC used sixteen for boys.',
+            hi: 'यहां "बालक" का अर्थ अठारह वर्ष से कम आयु का कोई भी है, लड़का हो या लड़की; आईपीसी में लड़कों के लिए सोलह वर्ष था।',
+          },
+          punishment: {
+            en: 'Imprisonment up to seven years, and fine.',
+            hi: 'सात वर्ष तक का कारावास, और जुर्माना।',
+          },
+          keywords: ['kidnapping', 'अपहरण'],
+        },
+      ],
+    },
+    {
+      number: 'XI',
+      title: { en: 'Of offences against the public tranquillity', hi: 'लोक प्रशांति के विरुद्ध अपराध' },
+      sections: [
+        {
+          number: '196',
+          title: { en: 'Promoting enmity between different groups', hi: 'विभिन्न समूहों के बीच शत्रुता का संप्रवर्तन' },
+          text: {
+            en: 'Promoting enmity, hatred or ill-will between groups on grounds of religion, race, place of birth, residence, language, caste or community, by words, signs or electronic communication, or doing acts prejudicial to harmony.',
+            hi: 'धर्म, मूलवंश, जन्मस्थान, निवास, भाषा, जाति या समुदाय के आधार पर शब्दों, संकेतों या इलेक्ट्रॉनिक संचार द्वारा समूहों के बीच शत्रुता, घृणा या वैमनस्य फैलाना, या सद्भाव के प्रतिकूल कार्य करना।',
+          },
+          punishment: {
+            en: 'Imprisonment up to three years, or fine, or both; in a place of worship or religious gathering, up to five years and fine.',
+            hi: 'तीन वर्ष तक का कारावास, या जुर्माना, या दोनों; पूजा स्थल या धार्मिक समारोह में, पांच वर्ष तक और जुर्माना।',
+          },
+          keywords: ['hate speech', 'communal', 'भड़काऊ भाषण', 'सांप्रदायिक'],
+        },
+      ],
+    },
+    {
+      number: 'XVII',
+      title: { en: 'Of offences against property', hi: 'संपत्ति के विरुद्ध अपराध' },
+      sections: [
+        {
+          number: '303',
+          title: { en: 'Theft', hi: 'चोरी' },
+          text: {
+            en: 'Dishonestly taking movable property out of a person\'s possession without their consent.',
+            hi: 'किसी व्यक्ति के कब्ज़े से उसकी सहमति के बिना चल संपत्ति बेईमानी से ले लेना।',
+          },
+          explanation: {
+            en: 'A first-time offender who stole property worth less than ₹5,000 and returns or restores its value may be sentenced to community service.',
+            hi: '₹5,000 से कम मूल्य की संपत्ति चुराने वाला पहली बार का अपराधी, संपत्ति या उसका मूल्य लौटाने पर, सामुदायिक सेवा से दंडित किया जा सकता है।',
+          },
+          punishment: {
+            en: 'Imprisonment up to three years, or fine, or both. Second or later conviction: rigorous imprisonment of at least one year up to five years, and fine.',
+            hi: 'तीन वर्ष तक का कारावास, या जुर्माना, या दोनों। दूसरी या बाद की दोषसिद्धि: कम से कम एक वर्ष से पांच वर्ष तक का कठोर कारावास, और जुर्माना।',
+          },
+          keywords: ['379', 'theft', 'stolen', 'चोरी'],
+        },
+        {
+          number: '304',
+          title: { en: 'Snatching', hi: 'झपटमारी' },
+          text: {
+            en: 'Theft committed by suddenly or quickly or forcibly seizing or grabbing movable property from a person or from their possession.',
+            hi: 'किसी व्यक्ति से या उसके कब्ज़े से चल संपत्ति अचानक, तेज़ी से या बलपूर्वक छीनकर या झपटकर की गई चोरी।',
+          },
+          explanation: {
+            en: 'New in the BNS; chain and phone snatching were earlier booked as theft or robbery.',
+            hi: 'बीएनएस में नई धारा; चेन और फ़ोन झपटमारी पहले चोरी या लूट के रूप में दर्ज होती थी।',
+          },
+          punishment: {
+            en: 'Imprisonment up to three years, and fine.',
+            hi: 'तीन वर्ष तक का कारावास, और जुर्माना।',
+          },
+          keywords: ['snatching', 'chain snatching', 'phone snatching', 'झपटमारी', 'चेन स्नैचिंग'],
+        },
+        {
+          number: '308',
+          title: { en: 'Extortion', hi: 'उद्दापन' },
+          text: {
+            en: 'Intentionally putting a person in fear of injury to dishonestly make them deliver property, valuable security or anything signed that can be converted into a valuable security.',
+            hi: 'किसी व्यक्ति को क्षति के भय में डालकर बेईमानी से उससे संपत्ति, मूल्यवान प्रतिभूति या ऐसी हस्ताक्षरित वस्तु दिलवाना जो मूल्यवान प्रतिभूति में बदली जा सके।',
+          },
+          punishment: {
+            en: 'Imprisonment up to seven years, or fine, or both; more for fear of death or grievous hurt.',
+            hi: 'सात वर्ष तक का कारावास, या जुर्माना, या दोनों; मृत्यु या घोर उपहति के भय के लिए अधिक।',
+          },
+          keywords: ['extortion', 'blackmail', 'ransom', 'जबरन वसूली', 'ब्लैकमेल'],
+        },
+        {
+          number: '309',
+          title: { en: 'Robbery', hi: 'लूट' },
+          text: {
+            en: 'Theft or extortion becomes robbery when, to commit it or carry away the property, the offender causes or attempts to cause death, hurt or wrongful restraint, or fear of these.',
+            hi: 'चोरी या उद्दापन तब लूट बन जाता है जब उसे करने या संपत्ति ले जाने के लिए अपराधी मृत्यु, उपहति या सदोष अवरोध, या इनका भय, कारित करता है या करने का प्रयत्न करता है।',
+          },
+          punishment: {
+            en: 'Rigorous imprisonment up to ten years, and fine; up to fourteen years if committed on a highway between sunset and sunrise.',
+            hi: 'दस वर्ष तक का कठोर कारावास, और जुर्माना; सूर्यास्त और सूर्योदय के बीच राजमार्ग पर किए जाने पर चौदह वर्ष तक।',
+          },
+          keywords: ['robbery', 'loot', 'लूट'],
+        },
+        {
+          number: '310',
+          title: { en: 'Dacoity', hi: 'डकैती' },
+          text: {
+            en: 'Robbery committed or attempted by five or more persons together.',
+            hi: 'पांच या अधिक व्यक्तियों द्वारा मिलकर की गई या प्रयत्नित लूट।',
+          },
+          punishment: {
+            en: 'Imprisonment for life, or rigorous imprisonment up to ten years, and fine.',
+            hi: 'आजीवन कारावास, या दस वर्ष तक का कठोर कारावास, और जुर्माना।',
+          },
+          keywords: ['dacoity', 'डकैती'],
+        },
+        {
+          number: '314',
+          title: { en: 'Dishonest misappropriation of property', hi: 'संपत्ति का बेईमानी से दुर्विनियोग' },
+          text: {
+            en: 'Dishonestly misappropriating or converting to one\'s own use any movable property, for example keeping property one has found without trying to trace the owner.',
+            hi: 'किसी चल संपत्ति का बेईमानी से दुर्विनियोग करना या उसे अपने उपयोग में लेना, जैसे मिली हुई संपत्ति को मालिक का पता लगाने का प्रयास किए बिना रख लेना।',
+          },
+          punishment: {
+            en: 'Imprisonment of at least six months, which may extend to two years, and fine.',
+            hi: 'कम से कम छह मास का कारावास, जो दो वर्ष तक हो सकता है, और जुर्माना।',
+          },
+          keywords: ['misappropriation', 'दुर्विनियोग'],
+        },
+        {
+          number: '316',
+          title: { en: 'Criminal breach of trust', hi: 'आपराधिक न्यासभंग' },
+          text: {
+            en: 'A person entrusted with property, or with control over it, who dishonestly misappropriates it, uses it, or disposes of it against the terms of the trust.',
+            hi: 'संपत्ति या उस पर नियंत्रण सौंपा गया व्यक्ति जो उसका बेईमानी से दुर्विनियोग करता है, उपयोग करता है, या न्यास की शर्तों के विरुद्ध उसका व्ययन करता है।',
+          },
+          punishment: {
+            en: 'Imprisonment up to five years, or fine, or both; more for carriers, clerks, servants, public servants, bankers and agents.',
+            hi: 'पांच वर्ष तक का कारावास, या जुर्माना, या दोनों; वाहकों, लिपिकों, सेवकों, लोक सेवकों, बैंककारों और अभिकर्ताओं के लिए अधिक।',
+          },
+          keywords: ['406', 'breach of trust', 'embezzlement', 'न्यासभंग', 'गबन'],
+        },
+        {
+          number: '318',
+          title: { en: 'Cheating', hi: 'छल' },
+          text: {
+            en: 'Deceiving a person to fraudulently or dishonestly induce them to deliver property, or to do or omit something they would not otherwise do, causing or likely to cause them harm.',
+            hi: 'किसी व्यक्ति को धोखा देकर कपटपूर्वक या बेईमानी से उसे संपत्ति देने, या ऐसा कुछ करने या न करने के लिए उत्प्रेरित करना जो वह अन्यथा न करता, जिससे उसे हानि हो या होना संभाव्य हो।',
+          },
+          explanation: {
+            en: 'Sub-section (4) covers cheating that induces delivery of property or a valuable security, the offence formerly known by "Section 420".',
+            hi: 'उप-धारा (4) संपत्ति या मूल्यवान प्रतिभूति दिलवाने वाले छल से संबंधित है, जिसे पहले "धारा 420" के नाम से जाना जाता था।',
+          },
+          punishment: {
+            en: 'Cheating: imprisonment up to three years, or fine, or both. Inducing delivery of property (sub-section (4)): imprisonment up to seven years, and fine.',
+            hi: 'छल: तीन वर्ष तक का कारावास, या जुर्माना, या दोनों। संपत्ति दिलवाना (उप-धारा (4)): सात वर्ष तक का कारावास, और जुर्माना।',
+          },
+          keywords: ['420', 'cheating', 'fraud', 'scam', 'धोखा', 'धोखाधड़ी', 'ठगी'],
+        },
+        {
+          number: '319',
+          title: { en: 'Cheating by personation', hi: 'प्रतिरूपण द्वारा छल' },
+          text: {
+            en: 'Cheating by pretending to be some other person, real or imaginary, or knowingly substituting one person for another.',
+            hi: 'किसी अन्य व्यक्ति, वास्तविक या काल्पनिक, होने का ढोंग करके, या जानबूझकर एक व्यक्ति के स्थान पर दूसरे को प्रस्तुत करके छल करना।',
+          },
+          punishment: {
+            en: 'Imprisonment up to five years, or fine, or both.',
+            hi: 'पांच वर्ष तक का कारावास, या जुर्माना, या दोनों।',
+          },
+          keywords: ['impersonation', 'fake identity', 'प्रतिरूपण', 'फर्जी पहचान'],
+        },
+        {
+          number: '324',
+          title: { en: 'Mischief', hi: 'रिष्टि' },
+          text: {
+            en: 'Causing destruction of or damage to property, intending or knowing it is likely to cause wrongful loss or damage to the public or any person.',
+            hi: 'लोक या किसी व्यक्ति को सदोष हानि या नुकसान पहुंचाने के आशय से, या यह जानते हुए कि ऐसा होना संभाव्य है, संपत्ति का नाश या उसे क्षति कारित करना।',
+          },
+          punishment: {
+            en: 'Imprisonment up to six months, or fine, or both; more as the value of the damage rises.',
+            hi: 'छह मास तक का कारावास, या जुर्माना, या दोनों; क्षति का मूल्य बढ़ने पर अधिक।',
+          },
+          keywords: ['damage to property', 'vandalism', 'तोड़फोड़'],
+        },
+        {
+          number: '329',
+          title: { en: 'Criminal trespass and house-trespass', hi: 'आपराधिक अतिचार और गृह-अतिचार' },
+          text: {
+            en: 'Entering property in another\'s possession intending to commit an offence, intimidate, insult or annoy, or staying there unlawfully with such intent. Doing so in a building used as a dwelling, place of worship or for keeping property is house-trespass.',
+            hi: 'अपराध करने, अभित्रास, अपमान या क्षोभ कारित करने के आशय से दूसरे के कब्ज़े की संपत्ति में प्रवेश करना, या ऐसे आशय से वहां अवैध रूप से बने रहना। निवास, पूजा या संपत्ति रखने के काम आने वाले भवन में ऐसा करना गृह-अतिचार है।',
+          },
+          punishment: {
+            en: 'Criminal trespass: imprisonment up to three months, or fine up to ₹5,000, or both. House-trespass: imprisonment up to one year, or fine up to ₹5,000, or both.',
+            hi: 'आपराधिक अतिचार: तीन मास तक का कारावास, या ₹5,000 तक जुर्माना, या दोनों। गृह-अतिचार: एक वर्ष तक का कारावास, या ₹5,000 तक जुर्माना, या दोनों।',
+          },
+          keywords: ['trespass', 'encroachment', 'अतिचार', 'अवैध प्रवेश', 'कब्ज़ा'],
+        },
+      ],
+    },
+    {
+      number: 'XVIII',
+      title: { en: 'Of offences relating to documents and to property marks', hi: 'दस्तावेज़ों और संपत्ति चिह्नों से संबंधित अपराध' },
+      sections: [
+        {
+          number: '336',
+          title: { en: 'Forgery', hi: 'कूटरचना' },
+          text: {
+            en: 'Making a false document or false electronic record, or part of one, intending to cause damage or injury, support a claim, make a person part with property, or commit fraud.',
+            hi: 'क्षति या नुकसान पहुंचाने, किसी दावे का समर्थन करने, किसी व्यक्ति से संपत्ति छुड़वाने, या कपट करने के आशय से मिथ्या दस्तावेज़ या मिथ्या इलेक्ट्रॉनिक अभिलेख, या उसका भाग, बनाना।',
+          },
+          punishment: {
+            en: 'Imprisonment up to two years, or fine, or both; up to seven years and fine when forged for cheating.',
+            hi: 'दो वर्ष तक का कारावास, या जुर्माना, या दोनों; छल के प्रयोजन से कूटरचना पर सात वर्ष तक और जुर्माना।',
+          },
+          keywords: ['forgery', 'fake document', 'जालसाजी', 'फर्जी दस्तावेज़'],
+        },
+      ],
+    },
+    {
+      number: 'XIX',
+      title: { en: 'Of criminal intimidation, insult, annoyance, defamation, etc.', hi: 'आपराधिक अभित्रास, अपमान, क्षोभ, मानहानि, आदि' },
+      sections: [
+        {
+          number: '351',
+          title: { en: 'Criminal intimidation', hi: 'आपराधिक अभित्रास' },
+          text: {
+            en: 'Threatening a person with injury to their person, reputation or property, or to someone they care about, to cause alarm or make them do or stop doing something.',
+            hi: 'किसी व्यक्ति को उसके शरीर, ख्याति या संपत्ति, या उसके किसी प्रियजन को क्षति की धमकी देना, ताकि उसे संत्रास हो या वह कुछ करे या करना बंद करे।',
+          },
+          punishment: {
+            en: 'Imprisonment up to two years, or fine, or both; up to seven years, or fine, or both for threats of death, grievous hurt, fire or serious offences.',
+            hi: 'दो वर्ष तक का कारावास, या जुर्माना, या दोनों; मृत्यु, घोर उपहति, आग या गंभीर अपराधों की धमकी के लिए सात वर्ष तक, या जुर्माना, या दोनों।',
+          },
+          keywords: ['506', 'threat', 'threatening', 'धमकी'],
+        },
+        {
+          number: '352',
+          title: { en: 'Intentional insult with intent to provoke breach of peace', hi: 'शांति भंग कराने के आशय से साशय अपमान' },
+          text: {
+            en: 'Intentionally insulting a person, knowing it is likely to provoke them to break the public peace or commit another offence.',
+            hi: 'किसी व्यक्ति का जानबूझकर अपमान करना, यह जानते हुए कि इससे वह लोक शांति भंग करने या कोई अन्य अपराध करने के लिए प्रकुपित हो सकता है।',
+          },
+          punishment: {
+            en: 'Imprisonment up to two years, or fine, or both.',
+            hi: 'दो वर्ष तक का कारावास, या जुर्माना, या दोनों।',
+          },
+          keywords: ['abuse', 'insult', 'गाली', 'अपमान'],
+        },
+        {
+          number: '356',
+          title: { en: 'Defamation', hi: 'मानहानि' },
+          text: {
+            en: 'Making or publishing, by words, signs or visible representations, any imputation about a person intending to harm, or knowing it will harm, their reputation, unless one of the exceptions (truth for public good, fair comment, and others) applies.',
+            hi: 'शब्दों, संकेतों या दृश्य रूपणों द्वारा किसी व्यक्ति के बारे में ऐसा लांछन लगाना या प्रकाशित करना जिससे उसकी ख्याति को हानि पहुंचाने का आशय या ज्ञान हो, जब तक कि कोई अपवाद (लोकहित में सत्य, उचित टिप्पणी, आदि) लागू न हो।',
+          },
+          punishment: {
+            en: 'Simple imprisonment up to two years, or fine, or both, or community service.',
+            hi: 'दो वर्ष तक का सादा कारावास, या जुर्माना, या दोनों, या सामुदायिक सेवा।',
+          },
+          keywords: ['defamation', 'मानहानि', 'बदनामी'],
+        },
+      ],
+    },
+  ],
+};
+
+const IPC: StatuteAct = {
+  id: 'IPC',
+  name: { en: ACTS.IPC, hi: 'भारतीय दंड संहिता, 1860' },
+  shortName: { en: 'IPC', hi: 'आईपीसी' },
+  inForce: false,
+  chapters: [
+    {
+      number: 'II',
+      title: { en: 'General explanations', hi: 'साधारण स्पष्टीकरण' },
+      sections: [
+        {
+          number: '34',
+          title: { en: 'Acts done by several persons in furtherance of common intention', hi: 'सामान्य आशय को अग्रसर करने में कई व्यक्तियों द्वारा किए गए कार्य' },
+          text: {
+            en: 'When a criminal act is done by several persons in furtherance of the common intention of all, each is liable as if they had done it alone.',
+            hi: 'जब कोई आपराधिक कार्य कई व्यक्तियों द्वारा सबके सामान्य आशय को अग्रसर करने में किया जाता है, तो प्रत्येक उसी तरह दायी है मानो उसने वह अकेले किया हो।',
+          },
+          keywords: ['common intention', 'सामान्य आशय'],
+        },
+      ],
+    },
+    {
+      number: 'V-A',
+      title: { en: 'Criminal conspiracy', hi: 'आपराधिक षड्यंत्र' },
+      sections: [
+        {
+          number: '120B',
+          title: { en: 'Punishment of criminal conspiracy', hi: 'आपराधिक षड्यंत्र का दंड' },
+          text: {
+            en: 'Punishes being a party to a criminal conspiracy (defined in Section 120A).',
+            hi: 'आपराधिक षड्यंत्र (धारा 120A में परिभाषित) का पक्षकार होने को दंडित करती है।',
+          },
+          punishment: {
+            en: 'For conspiracy to commit a serious offence: as if the person had abetted it. Otherwise: imprisonment up to six months, or fine, or both.',
+            hi: 'गंभीर अपराध करने के षड्यंत्र के लिए: मानो व्यक्ति ने उसका दुष्प्रेरण किया हो। अन्यथा: छह मास तक का कारावास, या जुर्माना, या दोनों।',
+          },
+          keywords: ['conspiracy', 'षड्यंत्र'],
+        },
+      ],
+    },
+    {
+      number: 'VIII',
+      title: { en: 'Of offences against the public tranquillity', hi: 'लोक प्रशांति के विरुद्ध अपराध' },
+      sections: [
+        {
+          number: '153A',
+          title: { en: 'Promoting enmity between different groups', hi: 'विभिन्न समूहों के बीच शत्रुता का संप्रवर्तन' },
+          text: {
+            en: 'Promoting enmity between groups on grounds of religion, race, place of birth, residence, language and similar grounds, or doing acts prejudicial to harmony.',
+            hi: 'धर्म, मूलवंश, जन्मस्थान, निवास, भाषा और ऐसे आधारों पर समूहों के बीच शत्रुता फैलाना, या सद्भाव के प्रतिकूल कार्य करना।',
+          },
+          punishment: {
+            en: 'Imprisonment up to three years, or fine, or both; up to five years and fine in a place of worship.',
+            hi: 'तीन वर्ष तक का कारावास, या जुर्माना, या दोनों; पूजा स्थल में पांच वर्ष तक और जुर्माना।',
+          },
+          keywords: ['hate speech', 'भड़काऊ भाषण'],
+        },
+      ],
+    },
+    {
+      number: 'XVI',
+      title: { en: 'Of offences affecting the human body', hi: 'मानव शरीर पर प्रभाव डालने वाले अपराध' },
+      sections: [
+        {
+          number: '299',
+          title: { en: 'Culpable homicide', hi: 'आपराधिक मानव वध' },
+          text: {
+            en: 'Causing death with the intention of causing death or likely-fatal bodily injury, or with knowledge that the act is likely to cause death.',
+            hi: 'मृत्यु या संभावित घातक शारीरिक क्षति कारित करने के आशय से, या इस ज्ञान से कि कार्य से मृत्यु संभाव्य है, मृत्यु कारित करना।',
+          },
+          keywords: ['culpable homicide', 'मानव वध'],
+        },
+        {
+          number: '300',
+          title: { en: 'Murder', hi: 'हत्या' },
+          text: {
+            en: 'When culpable homicide is murder, and its five exceptions.',
+            hi: 'आपराधिक मानव वध कब हत्या है, और उसके पांच अपवाद।',
+          },
+          keywords: ['murder', 'हत्या'],
+        },
+        {
+          number: '302',
+          title: { en: 'Punishment for murder', hi: 'हत्या के लिए दंड' },
+          text: {
+            en: 'Sets the punishment for murder.',
+            hi: 'हत्या के लिए दंड निर्धारित करती है।',
+          },
+          punishment: {
+            en: 'Death or imprisonment for life, and fine.',
+            hi: 'मृत्युदंड या आजीवन कारावास, और जुर्माना।',
+          },
+          keywords: ['murder', 'हत्या'],
+        },
+        {
+          number: '304',
+          title: { en: 'Punishment for culpable homicide not amounting to murder', hi: 'हत्या की कोटि में न आने वाले आपराधिक मानव वध के लिए दंड' },
+          text: {
+            en: 'Part I covers death caused with intention, Part II death caused with knowledge only.',
+            hi: 'भाग I आशय से कारित मृत्यु, और भाग II केवल ज्ञान से कारित मृत्यु से संबंधित है।',
+          },
+          punishment: {
+            en: 'Part I: imprisonment for life, or up to ten years, and fine. Part II: up to ten years, or fine, or both.',
+            hi: 'भाग I: आजीवन कारावास, या दस वर्ष तक, और जुर्माना। भाग II: दस वर्ष तक, या जुर्माना, या दोनों।',
+          },
+          keywords: ['culpable homicide', 'गैर इरादतन हत्या'],
+        },
+        {
+          number: '304A',
+          title: { en: 'Causing death by negligence', hi: 'उपेक्षा द्वारा मृत्यु कारित करना' },
+          text: {
+            en: 'Causing death by a rash or negligent act not amounting to culpable homicide.',
+            hi: 'ऐसे उतावलेपन या उपेक्षापूर्ण कार्य से मृत्यु कारित करना जो आपराधिक मानव वध नहीं है।',
+          },
+          punishment: {
+            en: 'Imprisonment up to two years, or fine, or both.',
+            hi: 'दो वर्ष तक का कारावास, या जुर्माना, या दोनों।',
+          },
+          keywords: ['negligence', 'accident', 'लापरवाही', 'दुर्घटना'],
+        },
+        {
+          number: '304B',
+          title: { en: 'Dowry death', hi: 'दहेज मृत्यु' },
+          text: {
+            en: 'Death of a woman in abnormal circumstances within seven years of marriage, after cruelty or harassment for dowry soon before her death.',
+            hi: 'विवाह के सात वर्ष के भीतर असामान्य परिस्थितियों में महिला की मृत्यु, जब मृत्यु से कुछ पहले दहेज के लिए क्रूरता या उत्पीड़न हुआ हो।',
+          },
+          punishment: {
+            en: 'Imprisonment of at least seven years, which may extend to imprisonment for life.',
+            hi: 'कम से कम सात वर्ष का कारावास, जो आजीवन कारावास तक हो सकता है।',
+          },
+          keywords: ['dowry death', 'दहेज हत्या'],
+        },
+        {
+          number: '306',
+          title: { en: 'Abetment of suicide', hi: 'आत्महत्या का दुष्प्रेरण' },
+          text: {
+            en: 'Abetting the commission of suicide by any person.',
+            hi: 'किसी व्यक्ति द्वारा आत्महत्या किए जाने का दुष्प्रेरण।',
+          },
+          punishment: {
+            en: 'Imprisonment up to ten years, and fine.',
+            hi: 'दस वर्ष तक का कारावास, और जुर्माना।',
+          },
+          keywords: ['abetment of suicide', 'आत्महत्या के लिए उकसाना'],
+        },
+        {
+          number: '307',
+          title: { en: 'Attempt to murder', hi: 'हत्या का प्रयत्न' },
+          text: {
+            en: 'Doing an act with such intention or knowledge that, if it caused death, it would be murder.',
+            hi: 'ऐसे आशय या ज्ञान से कार्य करना कि यदि उससे मृत्यु होती तो वह हत्या होती।',
+          },
+          punishment: {
+            en: 'Imprisonment up to ten years and fine; if hurt is caused, imprisonment for life or the same term.',
+            hi: 'दस वर्ष तक का कारावास और जुर्माना; उपहति होने पर आजीवन कारावास या वही अवधि।',
+          },
+          keywords: ['attempt to murder', 'हत्या का प्रयास'],
+        },
+        {
+          number: '323',
+          title: { en: 'Punishment for voluntarily causing hurt', hi: 'स्वेच्छया उपहति कारित करने के लिए दंड' },
+          text: {
+            en: 'Punishes voluntarily causing hurt (defined in Sections 319 and 321).',
+            hi: 'स्वेच्छया उपहति कारित करने (धारा 319 और 321 में परिभाषित) को दंडित करती है।',
+          },
+          punishment: {
+            en: 'Imprisonment up to one year, or fine up to ₹1,000, or both.',
+            hi: 'एक वर्ष तक का कारावास, या ₹1,000 तक जुर्माना, या दोनों।',
+          },
+          keywords: ['hurt', 'beating', 'मारपीट'],
+        },
+        {
+          number: '324',
+          title: { en: 'Voluntarily causing hurt by dangerous weapons or means', hi: 'खतरनाक आयुधों या साधनों द्वारा स्वेच्छया उपहति कारित करना' },
+          text: {
+            en: 'Causing hurt with a weapon or with fire, poison, corrosive or explosive substances, or an animal.',
+            hi: 'आयुध, या आग, विष, संक्षारक या विस्फोटक पदार्थ, या किसी जीव से उपहति कारित करना।',
+          },
+          punishment: {
+            en: 'Imprisonment up to three years, or fine, or both.',
+            hi: 'तीन वर्ष तक का कारावास, या जुर्माना, या दोनों।',
+          },
+          keywords: ['weapon', 'हथियार'],
+        },
+        {
+          number: '325',
+          title: { en: 'Punishment for voluntarily causing grievous hurt', hi: 'स्वेच्छया घोर उपहति कारित करने के लिए दंड' },
+          text: {
+            en: 'Punishes voluntarily causing grievous hurt (defined in Section 320).',
+            hi: 'स्वेच्छया घोर उपहति कारित करने (धारा 320 में परिभाषित) को दंडित करती है।',
+          },
+          punishment: {
+            en: 'Imprisonment up to seven years, and fine.',
+            hi: 'सात वर्ष तक का कारावास, और जुर्माना।',
+          },
+          keywords: ['grievous hurt', 'गंभीर चोट'],
+        },
+        {
+          number: '326A',
+          title: { en: 'Voluntarily causing grievous hurt by use of acid, etc.', hi: 'अम्ल, आदि का प्रयोग करके स्वेच्छया घोर उपहति' },
+          text: {
+            en: 'Causing permanent or partial damage, deformity or disfigurement by throwing or administering acid.',
+            hi: 'अम्ल फेंककर या देकर स्थायी या आंशिक क्षति, विरूपता या विद्रूपता कारित करना।',
+          },
+          punishment: {
+            en: 'Imprisonment of at least ten years, which may extend to imprisonment for life, and fine paid to the victim.',
+            hi: 'कम से कम दस वर्ष का कारावास, जो आजीवन कारावास तक हो सकता है, और पीड़ित को दिया जाने वाला जुर्माना।',
+          },
+          keywords: ['acid attack', 'तेजाब हमला'],
+        },
+        {
+          number: '341',
+          title: { en: 'Punishment for wrongful restraint', hi: 'सदोष अवरोध के लिए दंड' },
+          text: {
+            en: 'Punishes wrongful restraint (defined in Section 339).',
+            hi: 'सदोष अवरोध (धारा 339 में परिभाषित) को दंडित करती है।',
+          },
+          punishment: {
+            en: 'Simple imprisonment up to one month, or fine up to ₹500, or both.',
+            hi: 'एक मास तक का सादा कारावास, या ₹500 तक जुर्माना, या दोनों।',
+          },
+          keywords: ['blocking way', 'रास्ता रोकना'],
+        },
+        {
+          number: '342',
+          title: { en: 'Punishment for wrongful confinement', hi: 'सदोष परिरोध के लिए दंड' },
+          text: {
+            en: 'Punishes wrongful confinement (defined in Section 340).',
+            hi: 'सदोष परिरोध (धारा 340 में परिभाषित) को दंडित करती है।',
+          },
+          punishment: {
+            en: 'Imprisonment up to one year, or fine up to ₹1,000, or both.',
+            hi: 'एक वर्ष तक का कारावास, या ₹1,000 तक जुर्माना, या दोनों।',
+          },
+          keywords: ['illegal confinement', 'बंधक'],
+        },
+        {
+          number: '354',
+          title: { en: 'Assault or criminal force to woman with intent to outrage her modesty', hi: 'महिला की लज्जा भंग करने के आशय से उस पर हमला या आपराधिक बल' },
+          text: {
+            en: 'Assaulting or using criminal force on a woman intending or knowing it likely to outrage her modesty.',
+            hi: 'महिला की लज्जा भंग करने के आशय या ज्ञान से उस पर हमला या आपराधिक बल का प्रयोग।',
+          },
+          punishment: {
+            en: 'Imprisonment of at least one year, which may extend to five years, and fine.',
+            hi: 'कम से कम एक वर्ष का कारावास, जो पांच वर्ष तक हो सकता है, और जुर्माना।',
+          },
+          keywords: ['molestation', 'छेड़छाड़'],
+        },
+        {
+          number: '354A',
+          title: { en: 'Sexual harassment', hi: 'लैंगिक उत्पीड़न' },
+          text: {
+            en: 'Unwelcome physical contact, demands for sexual favours, showing pornography, or sexually coloured remarks.',
+            hi: 'अवांछित शारीरिक संपर्क, यौन अनुग्रह की मांग, अश्लील सामग्री दिखाना, या यौन टिप्पणियां।',
+          },
+          punishment: {
+            en: 'Rigorous imprisonment up to three years, or fine, or both; for remarks, up to one year, or fine, or both.',
+            hi: 'तीन वर्ष तक का कठोर कारावास, या जुर्माना, या दोनों; टिप्पणियों के लिए एक वर्ष तक, या जुर्माना, या दोनों।',
+          },
+          keywords: ['sexual harassment', 'यौन उत्पीड़न'],
+        },
+        {
+          number: '354D',
+          title: { en: 'Stalking', hi: 'पीछा करना' },
+          text: {
+            en: 'Repeatedly following or contacting a woman despite clear disinterest, or monitoring her electronic communication.',
+            hi: 'स्पष्ट अरुचि के बावजूद महिला का बार-बार पीछा करना या संपर्क करना, या उसके इलेक्ट्रॉनिक संचार की निगरानी करना।',
+          },
+          punishment: {
+            en: 'First conviction: up to three years and fine. Subsequent conviction: up to five years and fine.',
+            hi: 'पहली दोषसिद्धि: तीन वर्ष तक और जुर्माना। बाद की दोषसिद्धि: पांच वर्ष तक और जुर्माना।',
+          },
+          keywords: ['stalking', 'पीछा'],
+        },
+        {
+          number: '363',
+          title: { en: 'Punishment for kidnapping', hi: 'व्यपहरण के लिए दंड' },
+          text: {
+            en: 'Punishes kidnapping from India or from lawful guardianship (Sections 359 to 361). A minor was a boy under sixteen or a girl under eighteen.',
+            hi: 'भारत से या विधिपूर्ण संरक्षकता से व्यपहरण (धारा 359 से 361) को दंडित करती है। अवयस्क का अर्थ सोलह वर्ष से कम लड़का या अठारह वर्ष से कम लड़की था।',
+          },
+          punishment: {
+            en: 'Imprisonment up to seven years, and fine.',
+            hi: 'सात वर्ष तक का कारावास, और जुर्माना।',
+          },
+          keywords: ['kidnapping', 'अपहरण'],
+        },
+        {
+          number: '375',
+          title: { en: 'Rape', hi: 'बलात्संग' },
+          text: {
+            en: 'Defines rape and the circumstances in which the acts described amount to rape.',
+            hi: 'बलात्संग की परिभाषा और वे परिस्थितियां जिनमें वर्णित कार्य बलात्संग हैं।',
+          },
+          keywords: ['rape', 'बलात्कार'],
+        },
+        {
+          number: '376',
+          title: { en: 'Punishment for rape', hi: 'बलात्संग के लिए दंड' },
+          text: {
+            en: 'Sets the punishment for rape, with higher punishment in aggravated cases.',
+            hi: 'बलात्संग के लिए दंड, गंभीर मामलों में अधिक दंड के साथ।',
+          },
+          punishment: {
+            en: 'Rigorous imprisonment of at least ten years, which may extend to imprisonment for life, and fine.',
+            hi: 'कम से कम दस वर्ष का कठोर कारावास, जो आजीवन कारावास तक हो सकता है, और जुर्माना।',
+          },
+          keywords: ['rape', 'बलात्कार'],
+        },
+      ],
+    },
+    {
+      number: 'XVII',
+      title: { en: 'Of offences against property', hi: 'संपत्ति के विरुद्ध अपराध' },
+      sections: [
+        {
+          number: '379',
+          title: { en: 'Punishment for theft', hi: 'चोरी के लिए दंड' },
+          text: {
+            en: 'Punishes theft (defined in Section 378).',
+            hi: 'चोरी (धारा 378 में परिभाषित) को दंडित करती है।',
+          },
+          punishment: {
+            en: 'Imprisonment up to three years, or fine, or both.',
+            hi: 'तीन वर्ष तक का कारावास, या जुर्माना, या दोनों।',
+          },
+          keywords: ['theft', 'चोरी'],
+        },
+        {
+          number: '384',
+          title: { en: 'Punishment for extortion', hi: 'उद्दापन के लिए दंड' },
+          text: {
+            en: 'Punishes extortion (defined in Section 383).',
+            hi: 'उद्दापन (धारा 383 में परिभाषित) को दंडित करती है।',
+          },
+          punishment: {
+            en: 'Imprisonment up to three years, or fine, or both.',
+            hi: 'तीन वर्ष तक का कारावास, या जुर्माना, या दोनों।',
+          },
+          keywords: ['extortion', 'जबरन वसूली'],
+        },
+        {
+          number: '392',
+          title: { en: 'Punishment for robbery', hi: 'लूट के लिए दंड' },
+          text: {
+            en: 'Punishes robbery (defined in Section 390).',
+            hi: 'लूट (धारा 390 में परिभाषित) को दंडित करती है।',
+          },
+          punishment: {
+            en: 'Rigorous imprisonment up to ten years, and fine; up to fourteen years on a highway between sunset and sunrise.',
+            hi: 'दस वर्ष तक का कठोर कारावास, और जुर्माना; सूर्यास्त और सूर्योदय के बीच राजमार्ग पर चौदह वर्ष तक।',
+          },
+          keywords: ['robbery', 'लूट'],
+        },
+        {
+          number: '395',
+          title: { en: 'Punishment for dacoity', hi: 'डकैती के लिए दंड' },
+          text: {
+            en: 'Punishes dacoity, robbery by five or more persons (defined in Section 391).',
+            hi: 'डकैती, यानी पांच या अधिक व्यक्तियों द्वारा लूट (धारा 391 में परिभाषित), को दंडित करती है।',
+          },
+          punishment: {
+            en: 'Imprisonment for life, or rigorous imprisonment up to ten years, and fine.',
+            hi: 'आजीवन कारावास, या दस वर्ष तक का कठोर कारावास, और जुर्माना।',
+          },
+          keywords: ['dacoity', 'डकैती'],
+        },
+        {
+          number: '403',
+          title: { en: 'Dishonest misappropriation of property', hi: 'संपत्ति का बेईमानी से दुर्विनियोग' },
+          text: {
+            en: 'Dishonestly misappropriating or converting movable property to one\'s own use.',
+            hi: 'चल संपत्ति का बेईमानी से दुर्विनियोग करना या अपने उपयोग में लेना।',
+          },
+          punishment: {
+            en: 'Imprisonment up to two years, or fine, or both.',
+            hi: 'दो वर्ष तक का कारावास, या जुर्माना, या दोनों।',
+          },
+          keywords: ['misappropriation', 'दुर्विनियोग'],
+        },
+        {
+          number: '406',
+          title: { en: 'Punishment for criminal breach of trust', hi: 'आपराधिक न्यासभंग के लिए दंड' },
+          text: {
+            en: 'Punishes criminal breach of trust (defined in Section 405).',
+            hi: 'आपराधिक न्यासभंग (धारा 405 में परिभाषित) को दंडित करती है।',
+          },
+          punishment: {
+            en: 'Imprisonment up to three years, or fine, or both.',
+            hi: 'तीन वर्ष तक का कारावास, या जुर्माना, या दोनों।',
+          },
+          keywords: ['breach of trust', 'न्यासभंग'],
+        },
+        {
+          number: '419',
+          title: { en: 'Punishment for cheating by personation', hi: 'प्रतिरूपण द्वारा छल के लिए दंड' },
+          text: {
+            en: 'Punishes cheating by pretending to be another person (defined in Section 416).',
+            hi: 'दूसरा व्यक्ति होने का ढोंग करके छल (धारा 416 में परिभाषित) को दंडित करती है।',
+          },
+          punishment: {
+            en: 'Imprisonment up to three years, or fine, or both.',
+            hi: 'तीन वर्ष तक का कारावास, या जुर्माना, या दोनों।',
+          },
+          keywords: ['impersonation', 'प्रतिरूपण'],
+        },
+        {
+          number: '420',
+          title: { en: 'Cheating and dishonestly inducing delivery of property', hi: 'छल करना और संपत्ति परिदत्त करने के लिए बेईमानी से उत्प्रेरित करना' },
+          text: {
+            en: 'Cheating that dishonestly induces a person to deliver property, or to make, alter or destroy a valuable security.',
+            hi: 'ऐसा छल जो किसी व्यक्ति को बेईमानी से संपत्ति परिदत्त करने, या मूल्यवान प्रतिभूति बनाने, बदलने या नष्ट करने के लिए उत्प्रेरित करता है।',
+          },
+          punishment: {
+            en: 'Imprisonment up to seven years, and fine.',
+            hi: 'सात वर्ष तक का कारावास, और जुर्माना।',
+          },
+          keywords: ['cheating', 'fraud', 'धोखाधड़ी', 'ठगी'],
+        },
+        {
+          number: '426',
+          title: { en: 'Punishment for mischief', hi: 'रिष्टि के लिए दंड' },
+          text: {
+            en: 'Punishes mischief (defined in Section 425).',
+            hi: 'रिष्टि (धारा 425 में परिभाषित) को दंडित करती है।',
+          },
+          punishment: {
+            en: 'Imprisonment up to three months, or fine, or both.',
+            hi: 'तीन मास तक का कारावास, या जुर्माना, या दोनों।',
+          },
+          keywords: ['damage to property', 'तोड़फोड़'],
+        },
+        {
+          number: '447',
+          title: { en: 'Punishment for criminal trespass', hi: 'आपराधिक अतिचार के लिए दंड' },
+          text: {
+            en: 'Punishes criminal trespass (defined in Section 441).',
+            hi: 'आपराधिक अतिचार (धारा 441 में परिभाषित) को दंडित करती है।',
+          },
+          punishment: {
+            en: 'Imprisonment up to three months, or fine up to ₹500, or both.',
+            hi: 'तीन मास तक का कारावास, या ₹500 तक जुर्माना, या दोनों।',
+          },
+          keywords: ['trespass', 'अतिचार'],
+        },
+      ],
+    },
+    {
+      number: 'XVIII',
+      title: { en: 'Of offences relating to documents and to property marks', hi: 'दस्तावेज़ों और संपत्ति चिह्नों से संबंधित अपराध' },
+      sections: [
+        {
+          number: '465',
+          title: { en: 'Punishment for forgery', hi: 'कूटरचना के लिए दंड' },
+          text: {
+            en: 'Punishes forgery (defined in Section 463).',
+            hi: 'कूटरचना (धारा 463 में परिभाषित) को दंडित करती है।',
+          },
+          punishment: {
+            en: 'Imprisonment up to two years, or fine, or both.',
+            hi: 'दो वर्ष तक का कारावास, या जुर्माना, या दोनों।',
+          },
+          keywords: ['forgery', 'जालसाजी'],
+        },
+      ],
+    },
+    {
+      number: 'XX-A',
+      title: { en: 'Of cruelty by husband or relatives of husband', hi: 'पति या पति के नातेदारों द्वारा क्रूरता' },
+      sections: [
+        {
+          number: '498A',
+          title: { en: 'Husband or relative of husband of a woman subjecting her to cruelty', hi: 'किसी महिला के पति या पति के नातेदार द्वारा उसके प्रति क्रूरता' },
+          text: {
+            en: 'A husband or his relative who subjects a woman to cruelty, including harassment for dowry.',
+            hi: 'पति या उसका नातेदार जो महिला के प्रति क्रूरता करता है, जिसमें दहेज के लिए उत्पीड़न शामिल है।',
+          },
+          punishment: {
+            en: 'Imprisonment up to three years, and fine.',
+            hi: 'तीन वर्ष तक का कारावास, और जुर्माना।',
+          },
+          keywords: ['cruelty', 'dowry harassment', 'दहेज उत्पीड़न'],
+        },
+      ],
+    },
+    {
+      number: 'XXI',
+      title: { en: 'Of defamation', hi: 'मानहानि' },
+      sections: [
+        {
+          number: '500',
+          title: { en: 'Punishment for defamation', hi: 'मानहानि के लिए दंड' },
+          text: {
+            en: 'Punishes defamation (defined in Section 499).',
+            hi: 'मानहानि (धारा 499 में परिभाषित) को दंडित करती है।',
+          },
+          punishment: {
+            en: 'Simple imprisonment up to two years, or fine, or both.',
+            hi: 'दो वर्ष तक का सादा कारावास, या जुर्माना, या दोनों।',
+          },
+          keywords: ['defamation', 'मानहानि'],
+        },
+      ],
+    },
+    {
+      number: 'XXII',
+      title: { en: 'Of criminal intimidation, insult and annoyance', hi: 'आपराधिक अभित्रास, अपमान और क्षोभ' },
+      sections: [
+        {
+          number: '504',
+          title: { en: 'Intentional insult with intent to provoke breach of the peace', hi: 'लोक शांति भंग कराने के आशय से साशय अपमान' },
+          text: {
+            en: 'Intentionally insulting a person, knowing it is likely to provoke a breach of the public peace.',
+            hi: 'लोक शांति भंग होने की संभावना जानते हुए किसी व्यक्ति का जानबूझकर अपमान करना।',
+          },
+          punishment: {
+            en: 'Imprisonment up to two years, or fine, or both.',
+            hi: 'दो वर्ष तक का कारावास, या जुर्माना, या दोनों।',
+          },
+          keywords: ['abuse', 'insult', 'गाली'],
+        },
+        {
+          number: '506',
+          title: { en: 'Punishment for criminal intimidation', hi: 'आपराधिक अभित्रास के लिए दंड' },
+          text: {
+            en: 'Punishes criminal intimidation (defined in Section 503).',
+            hi: 'आपराधिक अभित्रास (धारा 503 में परिभाषित) को दंडित करती है।',
+          },
+          punishment: {
+            en: 'Imprisonment up to two years, or fine, or both; up to seven years, or fine, or both for threats of death or grievous hurt.',
+            hi: 'दो वर्ष तक का कारावास, या जुर्माना, या दोनों; मृत्यु या घोर उपहति की धमकी के लिए सात वर्ष तक, या जुर्माना, या दोनों।',
+          },
+          keywords: ['threat', 'धमकी'],
+        },
+        {
+          number: '509',
+          title: { en: 'Word, gesture or act intended to insult the modesty of a woman', hi: 'महिला की लज्जा का अनादर करने के आशय से शब्द, अंगविक्षेप या कार्य' },
+          text: {
+            en: 'Words, sounds, gestures or objects intended to insult a woman\'s modesty, or intruding on her privacy.',
+            hi: 'महिला की लज्जा का अनादर करने के आशय से शब्द, ध्वनि, अंगविक्षेप या वस्तु, या उसकी एकांतता में दखल।',
+          },
+          punishment: {
+            en: 'Simple imprisonment up to three years, and fine.',
+            hi: 'तीन वर्ष तक का सादा कारावास, और जुर्माना।',
+          },
+          keywords: ['eve teasing', 'अश्लील टिप्पणी'],
+        },
+      ],
+    },
+    {
+      number: 'XXIII',
+      title: { en: 'Of attempts to commit offences', hi: 'अपराधों को करने के प्रयत्न' },
+      sections: [
+        {
+          number: '511',
+          title: { en: 'Punishment for attempting to commit offences punishable with imprisonment for life or other imprisonment', hi: 'आजीवन कारावास या अन्य कारावास से दंडनीय अपराधों को करने के प्रयत्न के लिए दंड' },
+          text: {
+            en: 'Attempting an offence, where the Code has no specific provision for that attempt.',
+            hi: 'किसी अपराध का प्रयत्न, जहां संहिता में उस प्रयत्न के लिए कोई विशेष उपबंध नहीं है।',
+          },
+          punishment: {
+            en: 'Up to one-half of the longest term provided for the offence, or fine, or both.',
+            hi: 'उस अपराध के लिए उपबंधित सबसे लंबी अवधि के आधे तक, या जुर्माना, या दोनों।',
+          },
+          keywords: ['attempt', 'प्रयत्न'],
+        },
+      ],
+    },
+  ],
+};
+
+const BNSS: StatuteAct = {
+  id: 'BNSS',
+  name: { en: ACTS.BNSS, hi: 'भारतीय नागरिक सुरक्षा संहिता, 2023' },
+  shortName: { en: 'BNSS', hi: 'बीएनएसएस' },
+  inForce: true,
+  chapters: [
+    {
+      number: 'V',
+      title: { en: 'Arrest of persons', hi: 'व्यक्तियों की गिरफ्तारी' },
+      sections: [
+        {
+          number: '35',
+          title: { en: 'When police may arrest without warrant', hi: 'पुलिस वारंट के बिना कब गिरफ्तार कर सकेगी' },
+          text: {
+            en: 'Lists when police may arrest without a warrant. For offences punishable with up to seven years, arrest needs recorded reasons, and where arrest is not required the police must issue a notice to appear instead (sub-section (3)).',
+            hi: 'बताती है कि पुलिस कब वारंट के बिना गिरफ्तार कर सकती है। सात वर्ष तक से दंडनीय अपराधों में गिरफ्तारी के कारण दर्ज करने होते हैं, और जहां गिरफ्तारी आवश्यक नहीं है वहां पुलिस को उपस्थिति की सूचना (उप-धारा (3)) जारी करनी होती है।',
+          },
+          explanation: {
+            en: 'New: for offences punishable with less than three years, a person who is infirm or over sixty cannot be arrested without the permission of an officer not below the rank of Deputy Superintendent of Police.',
+            hi: 'नया: तीन वर्ष से कम से दंडनीय अपराधों में, अशक्त या साठ वर्ष से अधिक आयु के व्यक्ति को उप पुलिस अधीक्षक से अनिम्न पद के अधिकारी की अनुमति के बिना गिरफ्तार नहीं किया जा सकता।',
+          },
+          keywords: ['arrest without warrant', 'notice of appearance', '41a notice', 'गिरफ्तारी', 'नोटिस'],
+        },
+        {
+          number: '38',
+          title: { en: 'Right of arrested person to meet an advocate of his choice during interrogation', hi: 'पूछताछ के दौरान गिरफ्तार व्यक्ति का अपनी पसंद के अधिवक्ता से मिलने का अधिकार' },
+          text: {
+            en: 'A person arrested and interrogated by the police may meet an advocate of their choice during interrogation, though not throughout it.',
+            hi: 'पुलिस द्वारा गिरफ्तार कर पूछताछ किया जा रहा व्यक्ति पूछताछ के दौरान अपनी पसंद के अधिवक्ता से मिल सकता है, यद्यपि पूरी पूछताछ के दौरान नहीं।',
+          },
+          keywords: ['lawyer', 'advocate', 'वकील'],
+        },
+        {
+          number: '43',
+          title: { en: 'Arrest how made', hi: 'गिरफ्तारी कैसे की जाएगी' },
+          text: {
+            en: 'How an arrest is made. Save in exceptional circumstances, no woman may be arrested after sunset and before sunrise, and then only by a woman officer with a Magistrate\'s prior permission (sub-section (5)).',
+            hi: 'गिरफ्तारी कैसे की जाती है। असाधारण परिस्थितियों के सिवाय, किसी महिला को सूर्यास्त के बाद और सूर्योदय से पहले गिरफ्तार नहीं किया जा सकता, और तब केवल महिला अधिकारी द्वारा मजिस्ट्रेट की पूर्व अनुमति से (उप-धारा (5))।',
+          },
+          explanation: {
+            en: 'New: handcuffs may be used for habitual or repeat offenders, escapees and persons accused of certain grave offences (sub-section (3)).',
+            hi: 'नया: आदतन या बार-बार अपराध करने वालों, भागे हुए व्यक्तियों और कुछ गंभीर अपराधों के अभियुक्तों के लिए हथकड़ी का प्रयोग किया जा सकता है (उप-धारा (3))।',
+          },
+          keywords: ['arrest of woman', 'handcuff', 'महिला की गिरफ्तारी', 'हथकड़ी'],
+        },
+        {
+          number: '47',
+          title: { en: 'Person arrested to be informed of grounds of arrest and of right to bail', hi: 'गिरफ्तार व्यक्ति को गिरफ्तारी के आधार और ज़मानत के अधिकार की सूचना' },
+          text: {
+            en: 'The arrested person must be told the full particulars of the offence or other grounds of arrest at once, and, if the offence is bailable, that they may be released on bail.',
+            hi: 'गिरफ्तार व्यक्ति को तुरंत अपराध के पूरे विवरण या गिरफ्तारी के अन्य आधार बताए जाने चाहिए, और यदि अपराध ज़मानतीय है तो यह कि वह ज़मानत पर छोड़ा जा सकता है।',
+          },
+          keywords: ['grounds of arrest', 'right to bail', 'गिरफ्तारी के आधार'],
+        },
+        {
+          number: '48',
+          title: { en: 'Obligation of person making arrest to inform about the arrest to relative or friend', hi: 'गिरफ्तारी करने वाले व्यक्ति का गिरफ्तारी के बारे में नातेदार या मित्र को सूचित करने का दायित्व' },
+          text: {
+            en: 'The police must inform a relative or friend nominated by the arrested person, and the designated police officer of the district, about the arrest and where the person is held.',
+            hi: 'पुलिस को गिरफ्तार व्यक्ति द्वारा नामित नातेदार या मित्र को, और ज़िले के पदाभिहित पुलिस अधिकारी को, गिरफ्तारी और व्यक्ति को कहां रखा गया है, इसकी सूचना देनी होगी।',
+          },
+          keywords: ['inform family', 'परिवार को सूचना'],
+        },
+        {
+          number: '58',
+          title: { en: 'Person arrested not to be detained more than twenty-four hours', hi: 'गिरफ्तार व्यक्ति को चौबीस घंटे से अधिक निरुद्ध न किया जाना' },
+          text: {
+            en: 'The police cannot keep an arrested person in custody for more than twenty-four hours, excluding travel time, without producing them before a Magistrate.',
+            hi: 'पुलिस गिरफ्तार व्यक्ति को मजिस्ट्रेट के समक्ष पेश किए बिना यात्रा के समय को छोड़कर चौबीस घंटे से अधिक हिरासत में नहीं रख सकती।',
+          },
+          keywords: ['24 hours', 'custody', '24 घंटे', 'हिरासत'],
+        },
+      ],
+    },
+    {
+      number: 'X',
+      title: { en: 'Order for maintenance of wives, children and parents', hi: 'पत्नियों, संतान और माता-पिता के भरण-पोषण के लिए आदेश' },
+      sections: [
+        {
+          number: '144',
+          title: { en: 'Order for maintenance of wives, children and parents', hi: 'पत्नियों, संतान और माता-पिता के भरण-पोषण के लिए आदेश' },
+          text: {
+            en: 'A Magistrate may order a person with sufficient means to pay monthly maintenance to a wife, children or parents who cannot maintain themselves and whom they have neglected or refused to maintain.',
+            hi: 'मजिस्ट्रेट पर्याप्त साधन वाले व्यक्ति को आदेश दे सकता है कि वह ऐसी पत्नी, संतान या माता-पिता को मासिक भरण-पोषण दे जो स्वयं का भरण-पोषण नहीं कर सकते और जिनकी उसने उपेक्षा की है या भरण-पोषण से इनकार किया है।',
+          },
+          explanation: {
+            en: 'Interim maintenance and litigation expenses can be ordered while the application is pending. "Wife" includes a divorced wife who has not remarried.',
+            hi: 'आवेदन लंबित रहते अंतरिम भरण-पोषण और मुकदमे के खर्च का आदेश दिया जा सकता है। "पत्नी" में ऐसी तलाकशुदा पत्नी शामिल है जिसने पुनर्विवाह नहीं किया है।',
+          },
+          keywords: ['maintenance', 'alimony', '125', 'भरण-पोषण', 'गुज़ारा भत्ता'],
+        },
+      ],
+    },
+    {
+      number: 'XIII',
+      title: { en: 'Information to the police and their powers to investigate', hi: 'पुलिस को सूचना और उनकी अन्वेषण की शक्तियां' },
+      sections: [
+        {
+          number: '173',
+          title: { en: 'Information in cognizable cases', hi: 'संज्ञेय मामलों में सूचना' },
+          text: {
+            en: 'Information about a cognizable offence, given orally or electronically at any police station irrespective of where the offence took place, must be recorded as an FIR, and a free copy given to the informant or victim.',
+            hi: 'संज्ञेय अपराध की सूचना, मौखिक या इलेक्ट्रॉनिक रूप से, किसी भी थाने में दी जाए, चाहे अपराध कहीं भी हुआ हो, एफआईआर के रूप में दर्ज की जानी चाहिए, और उसकी निःशुल्क प्रति सूचना देने वाले या पीड़ित को दी जानी चाहिए।',
+          },
+          explanation: {
+            en: 'New: Zero FIR and e-FIR are recognised (an e-FIR must be signed within three days). For offences punishable with three to seven years, the police may hold a preliminary enquiry of up to fourteen days first. If an officer refuses, the complaint can be sent to the Superintendent of Police (sub-section (4)).',
+            hi: 'नया: ज़ीरो एफआईआर और ई-एफआईआर मान्य हैं (ई-एफआईआर पर तीन दिन में हस्ताक्षर आवश्यक)। तीन से सात वर्ष से दंडनीय अपराधों में पुलिस पहले चौदह दिन तक की प्रारंभिक जांच कर सकती है। अधिकारी के मना करने पर शिकायत पुलिस अधीक्षक को भेजी जा सकती है (उप-धारा (4))।',
+          },
+          keywords: ['fir', 'zero fir', 'e-fir', 'first information report', 'एफआईआर', 'प्राथमिकी'],
+        },
+        {
+          number: '174',
+          title: { en: 'Information as to non-cognizable cases and investigation of such cases', hi: 'असंज्ञेय मामलों के बारे में सूचना और ऐसे मामलों का अन्वेषण' },
+          text: {
+            en: 'Information about a non-cognizable offence is entered in a register and the informant is referred to the Magistrate. The police cannot investigate such a case without the Magistrate\'s order.',
+            hi: 'असंज्ञेय अपराध की सूचना रजिस्टर में दर्ज की जाती है और सूचना देने वाले को मजिस्ट्रेट के पास भेजा जाता है। पुलिस मजिस्ट्रेट के आदेश के बिना ऐसे मामले का अन्वेषण नहीं कर सकती।',
+          },
+          keywords: ['ncr', 'non-cognizable', 'असंज्ञेय'],
+        },
+        {
+          number: '175',
+          title: { en: 'Police officer\'s power to investigate cognizable case', hi: 'संज्ञेय मामले का अन्वेषण करने की पुलिस अधिकारी की शक्ति' },
+          text: {
+            en: 'The police may investigate a cognizable case without a Magistrate\'s order. Under sub-section (3) a Magistrate may order an investigation on an application supported by an affidavit, after the complainant has approached the Superintendent of Police.',
+            hi: 'पुलिस मजिस्ट्रेट के आदेश के बिना संज्ञेय मामले का अन्वेषण कर सकती है। उप-धारा (3) के तहत मजिस्ट्रेट शपथपत्र सहित आवेदन पर, शिकायतकर्ता के पुलिस अधीक्षक के पास जाने के बाद, अन्वेषण का आदेश दे सकता है।',
+          },
+          keywords: ['156(3)', 'magistrate order investigation', 'मजिस्ट्रेट'],
+        },
+        {
+          number: '180',
+          title: { en: 'Examination of witnesses by police', hi: 'पुलिस द्वारा साक्षियों की परीक्षा' },
+          text: {
+            en: 'The investigating officer may question anyone acquainted with the facts; they must answer truthfully but need not incriminate themselves. Statements may be recorded by audio-video means.',
+            hi: 'अन्वेषण अधिकारी तथ्यों से परिचित किसी भी व्यक्ति से प्रश्न कर सकता है; उसे सच उत्तर देना होगा पर स्वयं को अपराध में फंसाने वाले उत्तर देना आवश्यक नहीं। कथन श्रव्य-दृश्य साधनों से दर्ज किए जा सकते हैं।',
+          },
+          explanation: {
+            en: 'Statements are not signed by the witness and cannot be used as evidence at trial, except to contradict the witness.',
+            hi: 'कथनों पर साक्षी हस्ताक्षर नहीं करता और विचारण में उनका साक्ष्य के रूप में उपयोग नहीं हो सकता, सिवाय साक्षी का खंडन करने के।',
+          },
+          keywords: ['police statement', '161 statement', 'बयान'],
+        },
+        {
+          number: '183',
+          title: { en: 'Recording of confessions and statements', hi: 'संस्वीकृतियों और कथनों को अभिलिखित करना' },
+          text: {
+            en: 'A Magistrate may record a confession or statement during investigation, after warning the accused that they need not confess and that it may be used against them. It may be recorded by audio-video means in the presence of the accused\'s advocate.',
+            hi: 'मजिस्ट्रेट अन्वेषण के दौरान संस्वीकृति या कथन अभिलिखित कर सकता है, अभियुक्त को यह चेतावनी देने के बाद कि वह संस्वीकृति के लिए बाध्य नहीं है और इसका उसके विरुद्ध उपयोग हो सकता है। यह अभियुक्त के अधिवक्ता की उपस्थिति में श्रव्य-दृश्य साधनों से दर्ज किया जा सकता है।',
+          },
+          keywords: ['164 statement', 'confession', 'magistrate statement', 'इकबालिया बयान'],
+        },
+        {
+          number: '187',
+          title: { en: 'Procedure when investigation cannot be completed in twenty-four hours', hi: 'जब अन्वेषण चौबीस घंटे में पूरा न हो सके तब प्रक्रिया' },
+          text: {
+            en: 'A Magistrate may authorise detention (remand) while investigation continues. If the charge-sheet is not filed within 60 or 90 days, depending on the offence, the accused is entitled to bail (default bail).',
+            hi: 'अन्वेषण जारी रहते मजिस्ट्रेट निरोध (रिमांड) प्राधिकृत कर सकता है। अपराध के अनुसार 60 या 90 दिन में आरोप-पत्र दाखिल न होने पर अभियुक्त ज़मानत (डिफ़ॉल्ट ज़मानत) का हकदार है।',
+          },
+          explanation: {
+            en: 'New: police custody of up to fifteen days may be taken in parts at any time during the first 40 or 60 days of detention, instead of only in the first fifteen days.',
+            hi: 'नया: पंद्रह दिन तक की पुलिस हिरासत केवल पहले पंद्रह दिनों में नहीं, बल्कि निरोध के पहले 40 या 60 दिनों में कभी भी टुकड़ों में ली जा सकती है।',
+          },
+          keywords: ['remand', 'police custody', 'default bail', 'रिमांड', 'पुलिस हिरासत'],
+        },
+        {
+          number: '193',
+          title: { en: 'Report of police officer on completion of investigation', hi: 'अन्वेषण पूरा होने पर पुलिस अधिकारी की रिपोर्ट' },
+          text: {
+            en: 'On completing the investigation the police send their report (charge-sheet or closure report) to the Magistrate.',
+            hi: 'अन्वेषण पूरा होने पर पुलिस अपनी रिपोर्ट (आरोप-पत्र या क्लोज़र रिपोर्ट) मजिस्ट्रेट को भेजती है।',
+          },
+          explanation: {
+            en: 'New: the informant or victim must be told of the progress of the investigation within ninety days, and investigation of certain sexual offences against children must be completed within two months.',
+            hi: 'नया: सूचना देने वाले या पीड़ित को नब्बे दिन के भीतर अन्वेषण की प्रगति बतानी होगी, और बालकों के विरुद्ध कुछ यौन अपराधों का अन्वेषण दो मास में पूरा करना होगा।',
+          },
+          keywords: ['chargesheet', 'charge sheet', 'closure report', 'आरोप पत्र'],
+        },
+      ],
+    },
+    {
+      number: 'XVI',
+      title: { en: 'Complaints to Magistrates', hi: 'मजिस्ट्रेटों से परिवाद' },
+      sections: [
+        {
+          number: '223',
+          title: { en: 'Examination of complainant', hi: 'परिवादी की परीक्षा' },
+          text: {
+            en: 'A Magistrate taking cognizance on a complaint examines the complainant and witnesses on oath. The accused must be given a chance to be heard before cognizance is taken.',
+            hi: 'परिवाद पर संज्ञान लेने वाला मजिस्ट्रेट परिवादी और साक्षियों की शपथ पर परीक्षा करता है। संज्ञान लेने से पहले अभियुक्त को सुनवाई का अवसर दिया जाना चाहिए।',
+          },
+          keywords: ['private complaint', 'complaint case', 'परिवाद', 'शिकायत'],
+        },
+      ],
+    },
+    {
+      number: 'XXXV',
+      title: { en: 'Provisions as to bail and bonds', hi: 'ज़मानत और बंधपत्रों के बारे में उपबंध' },
+      sections: [
+        {
+          number: '478',
+          title: { en: 'In what cases bail to be taken', hi: 'किन मामलों में ज़मानत ली जाएगी' },
+          text: {
+            en: 'A person accused of a bailable offence must be released on bail, by the police or the court, as a matter of right. An indigent person who cannot furnish surety within a week is presumed unable to do so.',
+            hi: 'ज़मानतीय अपराध के अभियुक्त को पुलिस या न्यायालय द्वारा अधिकार के रूप में ज़मानत पर छोड़ा जाना चाहिए। जो निर्धन व्यक्ति एक सप्ताह में प्रतिभू नहीं दे पाता, उसे ऐसा करने में असमर्थ माना जाता है।',
+          },
+          keywords: ['bailable offence', 'ज़मानतीय अपराध'],
+        },
+        {
+          number: '479',
+          title: { en: 'Maximum period for which undertrial prisoner can be detained', hi: 'अधिकतम अवधि जिसके लिए विचाराधीन बंदी निरुद्ध किया जा सकता है' },
+          text: {
+            en: 'An undertrial who has been detained for half the maximum sentence for the offence must be released on bail; a first-time offender after one-third. Not available for offences punishable with death or imprisonment for life.',
+            hi: 'जो विचाराधीन बंदी अपराध के अधिकतम दंड की आधी अवधि तक निरुद्ध रहा है उसे ज़मानत पर छोड़ा जाना चाहिए; पहली बार के अपराधी को एक-तिहाई के बाद। मृत्यु या आजीवन कारावास से दंडनीय अपराधों में लागू नहीं।',
+          },
+          keywords: ['undertrial', 'विचाराधीन बंदी'],
+        },
+        {
+          number: '480',
+          title: { en: 'When bail may be taken in case of non-bailable offence', hi: 'अज़मानतीय अपराध की दशा में कब ज़मानत ली जा सकेगी' },
+          text: {
+            en: 'Police or a court other than the High Court or Sessions Court may grant bail for non-bailable offences, but not where there are reasonable grounds to believe the person committed an offence punishable with death or life imprisonment, with exceptions for women, children and the sick or infirm.',
+            hi: 'पुलिस या उच्च न्यायालय या सेशन न्यायालय से भिन्न न्यायालय अज़मानतीय अपराधों में ज़मानत दे सकता है, किंतु तब नहीं जब यह विश्वास करने के उचित आधार हों कि व्यक्ति ने मृत्यु या आजीवन कारावास से दंडनीय अपराध किया है; महिलाओं, बालकों और बीमार या अशक्त व्यक्तियों के लिए अपवाद हैं।',
+          },
+          keywords: ['regular bail', 'non-bailable', 'अज़मानतीय'],
+        },
+        {
+          number: '482',
+          title: { en: 'Direction for grant of bail to person apprehending arrest', hi: 'गिरफ्तारी की आशंका वाले व्यक्ति को ज़मानत देने के लिए निदेश' },
+          text: {
+            en: 'A person who fears arrest for a non-bailable offence may apply to the High Court or Court of Session for a direction that they be released on bail if arrested (anticipatory bail). The court may impose conditions.',
+            hi: 'अज़मानतीय अपराध में गिरफ्तारी की आशंका रखने वाला व्यक्ति उच्च न्यायालय या सेशन न्यायालय में यह निदेश मांग सकता है कि गिरफ्तार होने पर उसे ज़मानत पर छोड़ा जाए (अग्रिम ज़मानत)। न्यायालय शर्तें लगा सकता है।',
+          },
+          keywords: ['anticipatory bail', 'अग्रिम ज़मानत', 'अग्रिम जमानत'],
+        },
+        {
+          number: '483',
+          title: { en: 'Special powers of High Court or Court of Session regarding bail', hi: 'ज़मानत के बारे में उच्च न्यायालय या सेशन न्यायालय की विशेष शक्तियां' },
+          text: {
+            en: 'The High Court or Court of Session may grant bail to any person in custody, modify conditions set by a Magistrate, or order a person released on bail to be arrested again.',
+            hi: 'उच्च न्यायालय या सेशन न्यायालय हिरासत में किसी भी व्यक्ति को ज़मानत दे सकता है, मजिस्ट्रेट द्वारा लगाई शर्तें बदल सकता है, या ज़मानत पर छूटे व्यक्ति को फिर से गिरफ्तार करने का आदेश दे सकता है।',
+          },
+          keywords: ['bail high court', 'sessions court bail', 'ज़मानत'],
+        },
+      ],
+    },
+    {
+      number: 'XXXIX',
+      title: { en: 'Miscellaneous', hi: 'प्रकीर्ण' },
+      sections: [
+        {
+          number: '528',
+          title: { en: 'Saving of inherent powers of High Court', hi: 'उच्च न्यायालय की अंतर्निहित शक्तियों की व्यावृत्ति' },
+          text: {
+            en: 'Nothing in the Sanhita limits the High Court\'s inherent power to make orders needed to give effect to any order, prevent abuse of the process of any court, or secure the ends of justice. Used to quash FIRs and proceedings.',
+            hi: 'संहिता की कोई बात उच्च न्यायालय की ऐसी अंतर्निहित शक्ति को सीमित नहीं करती जो किसी आदेश को प्रभावी करने, किसी न्यायालय की प्रक्रिया के दुरुपयोग को रोकने, या न्याय के उद्देश्यों को पूरा करने के लिए आवश्यक हो। एफआईआर और कार्यवाहियां रद्द कराने में इसका प्रयोग होता है।',
+          },
+          keywords: ['quash fir', 'quashing', 'inherent powers', 'एफआईआर रद्द'],
+        },
+      ],
+    },
+  ],
+};
+
+const CRPC: StatuteAct = {
+  id: 'CRPC',
+  name: { en: ACTS.CRPC, hi: 'दंड प्रक्रिया संहिता, 1973' },
+  shortName: { en: 'CrPC', hi: 'सीआरपीसी' },
+  inForce: false,
+  chapters: [
+    {
+      number: 'V',
+      title: { en: 'Arrest of persons', hi: 'व्यक्तियों की गिरफ्तारी' },
+      sections: [
+        {
+          number: '41',
+          title: { en: 'When police may arrest without warrant', hi: 'पुलिस वारंट के बिना कब गिरफ्तार कर सकेगी' },
+          text: {
+            en: 'Lists when police may arrest without a warrant, with recorded reasons for offences punishable with up to seven years.',
+            hi: 'बताती है कि पुलिस कब वारंट के बिना गिरफ्तार कर सकती है, सात वर्ष तक से दंडनीय अपराधों में कारण दर्ज करते हुए।',
+          },
+          keywords: ['arrest without warrant', 'गिरफ्तारी'],
+        },
+        {
+          number: '41A',
+          title: { en: 'Notice of appearance before police officer', hi: 'पुलिस अधिकारी के समक्ष उपस्थिति की सूचना' },
+          text: {
+            en: 'Where arrest is not required, the police must issue a notice asking the person to appear; a person who complies is not to be arrested unless reasons are recorded.',
+            hi: 'जहां गिरफ्तारी आवश्यक नहीं है, पुलिस को उपस्थित होने की सूचना जारी करनी होगी; पालन करने वाले व्यक्ति को कारण दर्ज किए बिना गिरफ्तार नहीं किया जाएगा।',
+          },
+          keywords: ['41a notice', 'notice of appearance', 'नोटिस'],
+        },
+        {
+          number: '41D',
+          title: { en: 'Right of arrested person to meet an advocate of his choice during interrogation', hi: 'पूछताछ के दौरान अधिवक्ता से मिलने का अधिकार' },
+          text: {
+            en: 'An arrested person may meet an advocate of their choice during interrogation, though not throughout it.',
+            hi: 'गिरफ्तार व्यक्ति पूछताछ के दौरान अपनी पसंद के अधिवक्ता से मिल सकता है, यद्यपि पूरी पूछताछ के दौरान नहीं।',
+          },
+          keywords: ['lawyer', 'वकील'],
+        },
+        {
+          number: '46',
+          title: { en: 'Arrest how made', hi: 'गिरफ्तारी कैसे की जाएगी' },
+          text: {
+            en: 'How an arrest is made; no woman to be arrested between sunset and sunrise save in exceptional circumstances, with a Magistrate\'s permission.',
+            hi: 'गिरफ्तारी कैसे की जाती है; असाधारण परिस्थितियों के सिवाय और मजिस्ट्रेट की अनुमति के बिना, किसी महिला की सूर्यास्त और सूर्योदय के बीच गिरफ्तारी नहीं।',
+          },
+          keywords: ['arrest of woman', 'महिला की गिरफ्तारी'],
+        },
+        {
+          number: '50',
+          title: { en: 'Person arrested to be informed of grounds of arrest and of right to bail', hi: 'गिरफ्तार व्यक्ति को गिरफ्तारी के आधार और ज़मानत के अधिकार की सूचना' },
+          text: {
+            en: 'The arrested person must be told the grounds of arrest and, for a bailable offence, of the right to bail.',
+            hi: 'गिरफ्तार व्यक्ति को गिरफ्तारी के आधार और, ज़मानतीय अपराध में, ज़मानत के अधिकार की सूचना दी जानी चाहिए।',
+          },
+          keywords: ['grounds of arrest', 'गिरफ्तारी के आधार'],
+        },
+        {
+          number: '50A',
+          title: { en: 'Obligation of person making arrest to inform about the arrest, etc., to a nominated person', hi: 'गिरफ्तारी की सूचना नामित व्यक्ति को देने का दायित्व' },
+          text: {
+            en: 'The police must inform a friend or relative nominated by the arrested person of the arrest and the place of detention.',
+            hi: 'पुलिस को गिरफ्तार व्यक्ति द्वारा नामित मित्र या नातेदार को गिरफ्तारी और निरोध के स्थान की सूचना देनी होगी।',
+          },
+          keywords: ['inform family', 'परिवार को सूचना'],
+        },
+        {
+          number: '57',
+          title: { en: 'Person arrested not to be detained more than twenty-four hours', hi: 'गिरफ्तार व्यक्ति को चौबीस घंटे से अधिक निरुद्ध न किया जाना' },
+          text: {
+            en: 'An arrested person must be produced before a Magistrate within twenty-four hours, excluding travel time.',
+            hi: 'गिरफ्तार व्यक्ति को यात्रा के समय को छोड़कर चौबीस घंटे के भीतर मजिस्ट्रेट के सामने पेश किया जाना चाहिए।',
+          },
+          keywords: ['24 hours', '24 घंटे'],
+        },
+      ],
+    },
+    {
+      number: 'IX',
+      title: { en: 'Order for maintenance of wives, children and parents', hi: 'पत्नियों, संतान और माता-पिता के भरण-पोषण के लिए आदेश' },
+      sections: [
+        {
+          number: '125',
+          title: { en: 'Order for maintenance of wives, children and parents', hi: 'पत्नियों, संतान और माता-पिता के भरण-पोषण के लिए आदेश' },
+          text: {
+            en: 'A Magistrate may order monthly maintenance for a neglected wife, children or parents unable to maintain themselves.',
+            hi: 'मजिस्ट्रेट उपेक्षित पत्नी, संतान या माता-पिता के लिए, जो स्वयं का भरण-पोषण नहीं कर सकते, मासिक भरण-पोषण का आदेश दे सकता है।',
+          },
+          keywords: ['maintenance', 'भरण-पोषण'],
+        },
+      ],
+    },
+    {
+      number: 'XII',
+      title: { en: 'Information to the police and their powers to investigate', hi: 'पुलिस को सूचना और उनकी अन्वेषण की शक्तियां' },
+      sections: [
+        {
+          number: '154',
+          title: { en: 'Information in cognizable cases', hi: 'संज्ञेय मामलों में सूचना' },
+          text: {
+            en: 'Information about a cognizable offence must be recorded as an FIR and a free copy given to the informant; on refusal, the complaint may be sent to the Superintendent of Police.',
+            hi: 'संज्ञेय अपराध की सूचना एफआईआर के रूप में दर्ज कर उसकी निःशुल्क प्रति सूचना देने वाले को दी जानी चाहिए; मना करने पर शिकायत पुलिस अधीक्षक को भेजी जा सकती है।',
+          },
+          keywords: ['fir', 'एफआईआर'],
+        },
+        {
+          number: '155',
+          title: { en: 'Information as to non-cognizable cases and investigation of such cases', hi: 'असंज्ञेय मामलों के बारे में सूचना और अन्वेषण' },
+          text: {
+            en: 'Non-cognizable information is entered in a register and investigated only on a Magistrate\'s order.',
+            hi: 'असंज्ञेय सूचना रजिस्टर में दर्ज की जाती है और केवल मजिस्ट्रेट के आदेश पर उसका अन्वेषण होता है।',
+          },
+          keywords: ['ncr', 'non-cognizable', 'असंज्ञेय'],
+        },
+        {
+          number: '156',
+          title: { en: 'Police officer\'s power to investigate cognizable case', hi: 'संज्ञेय मामले का अन्वेषण करने की पुलिस अधिकारी की शक्ति' },
+          text: {
+            en: 'The police may investigate cognizable cases without an order; under sub-section (3) a Magistrate may order investigation.',
+            hi: 'पुलिस बिना आदेश संज्ञेय मामलों का अन्वेषण कर सकती है; उप-धारा (3) के तहत मजिस्ट्रेट अन्वेषण का आदेश दे सकता है।',
+          },
+          keywords: ['156(3)', 'मजिस्ट्रेट'],
+        },
+        {
+          number: '161',
+          title: { en: 'Examination of witnesses by police', hi: 'पुलिस द्वारा साक्षियों की परीक्षा' },
+          text: {
+            en: 'The investigating officer may examine persons acquainted with the facts and record their statements.',
+            hi: 'अन्वेषण अधिकारी तथ्यों से परिचित व्यक्तियों की परीक्षा कर उनके कथन दर्ज कर सकता है।',
+          },
+          keywords: ['161 statement', 'बयान'],
+        },
+        {
+          number: '164',
+          title: { en: 'Recording of confessions and statements', hi: 'संस्वीकृतियों और कथनों को अभिलिखित करना' },
+          text: {
+            en: 'A Magistrate may record confessions and statements during investigation, with safeguards that the confession is voluntary.',
+            hi: 'मजिस्ट्रेट अन्वेषण के दौरान संस्वीकृतियां और कथन अभिलिखित कर सकता है, इस सुरक्षा के साथ कि संस्वीकृति स्वैच्छिक हो।',
+          },
+          keywords: ['164 statement', 'confession', 'इकबालिया बयान'],
+        },
+        {
+          number: '167',
+          title: { en: 'Procedure when investigation cannot be completed in twenty-four hours', hi: 'जब अन्वेषण चौबीस घंटे में पूरा न हो सके तब प्रक्रिया' },
+          text: {
+            en: 'Remand by a Magistrate; police custody only within the first fifteen days; default bail if no charge-sheet within 60 or 90 days.',
+            hi: 'मजिस्ट्रेट द्वारा रिमांड; पुलिस हिरासत केवल पहले पंद्रह दिनों में; 60 या 90 दिन में आरोप-पत्र न आने पर डिफ़ॉल्ट ज़मानत।',
+          },
+          keywords: ['remand', 'default bail', 'रिमांड'],
+        },
+        {
+          number: '173',
+          title: { en: 'Report of police officer on completion of investigation', hi: 'अन्वेषण पूरा होने पर पुलिस अधिकारी की रिपोर्ट' },
+          text: {
+            en: 'The police report (charge-sheet or closure report) sent to the Magistrate when investigation is complete.',
+            hi: 'अन्वेषण पूरा होने पर मजिस्ट्रेट को भेजी जाने वाली पुलिस रिपोर्ट (आरोप-पत्र या क्लोज़र रिपोर्ट)।',
+          },
+          keywords: ['chargesheet', 'आरोप पत्र'],
+        },
+      ],
+    },
+    {
+      number: 'XV',
+      title: { en: 'Complaints to Magistrates', hi: 'मजिस्ट्रेटों से परिवाद' },
+      sections: [
+        {
+          number: '200',
+          title: { en: 'Examination of complainant', hi: 'परिवादी की परीक्षा' },
+          text: {
+            en: 'A Magistrate taking cognizance on a complaint examines the complainant and witnesses on oath.',
+            hi: 'परिवाद पर संज्ञान लेने वाला मजिस्ट्रेट परिवादी और साक्षियों की शपथ पर परीक्षा करता है।',
+          },
+          keywords: ['private complaint', 'परिवाद'],
+        },
+      ],
+    },
+    {
+      number: 'XXXIII',
+      title: { en: 'Provisions as to bail and bonds', hi: 'ज़मानत और बंधपत्रों के बारे में उपबंध' },
+      sections: [
+        {
+          number: '436',
+          title: { en: 'In what cases bail to be taken', hi: 'किन मामलों में ज़मानत ली जाएगी' },
+          text: {
+            en: 'Bail as of right for bailable offences.',
+            hi: 'ज़मानतीय अपराधों में अधिकार के रूप में ज़मानत।',
+          },
+          keywords: ['bailable offence', 'ज़मानतीय'],
+        },
+        {
+          number: '436A',
+          title: { en: 'Maximum period for which an undertrial prisoner can be detained', hi: 'अधिकतम अवधि जिसके लिए विचाराधीन बंदी निरुद्ध किया जा सकता है' },
+          text: {
+            en: 'An undertrial detained for half the maximum sentence is to be released on bond, except for offences punishable with death.',
+            hi: 'अधिकतम दंड की आधी अवधि तक निरुद्ध विचाराधीन बंदी बंधपत्र पर छोड़ा जाएगा, मृत्युदंड से दंडनीय अपराधों को छोड़कर।',
+          },
+          keywords: ['undertrial', 'विचाराधीन'],
+        },
+        {
+          number: '437',
+          title: { en: 'When bail may be taken in case of non-bailable offence', hi: 'अज़मानतीय अपराध की दशा में कब ज़मानत ली जा सकेगी' },
+          text: {
+            en: 'Bail by the police or a Magistrate for non-bailable offences, with limits for offences punishable with death or life imprisonment.',
+            hi: 'अज़मानतीय अपराधों में पुलिस या मजिस्ट्रेट द्वारा ज़मानत, मृत्यु या आजीवन कारावास से दंडनीय अपराधों के लिए सीमाओं के साथ।',
+          },
+          keywords: ['regular bail', 'अज़मानतीय'],
+        },
+        {
+          number: '438',
+          title: { en: 'Direction for grant of bail to person apprehending arrest', hi: 'गिरफ्तारी की आशंका वाले व्यक्ति को ज़मानत देने के लिए निदेश' },
+          text: {
+            en: 'Anticipatory bail from the High Court or Court of Session.',
+            hi: 'उच्च न्यायालय या सेशन न्यायालय से अग्रिम ज़मानत।',
+          },
+          keywords: ['anticipatory bail', 'अग्रिम ज़मानत'],
+        },
+        {
+          number: '439',
+          title: { en: 'Special powers of High Court or Court of Session regarding bail', hi: 'ज़मानत के बारे में उच्च न्यायालय या सेशन न्यायालय की विशेष शक्तियां' },
+          text: {
+            en: 'The High Court or Court of Session may grant bail to any person in custody or cancel bail.',
+            hi: 'उच्च न्यायालय या सेशन न्यायालय हिरासत में किसी भी व्यक्ति को ज़मानत दे सकता है या ज़मानत रद्द कर सकता है।',
+          },
+          keywords: ['bail high court', 'ज़मानत'],
+        },
+      ],
+    },
+    {
+      number: 'XXXVII',
+      title: { en: 'Miscellaneous', hi: 'प्रकीर्ण' },
+      sections: [
+        {
+          number: '482',
+          title: { en: 'Saving of inherent powers of High Court', hi: 'उच्च न्यायालय की अंतर्निहित शक्तियों की व्यावृत्ति' },
+          text: {
+            en: 'The High Court\'s inherent power to prevent abuse of process and secure the ends of justice, used to quash FIRs and proceedings.',
+            hi: 'प्रक्रिया के दुरुपयोग को रोकने और न्याय के उद्देश्यों को पूरा करने की उच्च न्यायालय की अंतर्निहित शक्ति, जिसका प्रयोग एफआईआर और कार्यवाहियां रद्द करने में होता है।',
+          },
+          keywords: ['quash fir', 'एफआईआर रद्द'],
+        },
+      ],
+    },
+  ],
+};
+
+const BSA: StatuteAct = {
+  id: 'BSA',
+  name: { en: ACTS.BSA, hi: 'भारतीय साक्ष्य अधिनियम, 2023' },
+  shortName: { en: 'BSA', hi: 'बीएसए' },
+  inForce: true,
+  chapters: [
+    {
+      number: 'II',
+      title: { en: 'Relevancy of facts', hi: 'तथ्यों की सुसंगति' },
+      sections: [
+        {
+          number: '22',
+          title: { en: 'Confession caused by inducement, threat, coercion or promise, when irrelevant in criminal proceeding', hi: 'उत्प्रेरणा, धमकी, प्रपीड़न या वचन द्वारा कराई गई संस्वीकृति कब आपराधिक कार्यवाही में विसंगत है' },
+          text: {
+            en: 'A confession by an accused is irrelevant if it appears to have been caused by an inducement, threat, coercion or promise from a person in authority.',
+            hi: 'अभियुक्त की संस्वीकृति विसंगत है यदि प्रतीत हो कि वह किसी प्राधिकारी व्यक्ति की उत्प्रेरणा, धमकी, प्रपीड़न या वचन से कराई गई है।',
+          },
+          keywords: ['forced confession', 'जबरन इकबाल'],
+        },
+        {
+          number: '23',
+          title: { en: 'Confession to police officer', hi: 'पुलिस अधिकारी से संस्वीकृति' },
+          text: {
+            en: 'A confession made to a police officer, or by a person in police custody other than before a Magistrate, cannot be proved against the accused. But information leading to the discovery of a fact may be proved (proviso).',
+            hi: 'पुलिस अधिकारी से की गई, या पुलिस हिरासत में मजिस्ट्रेट के समक्ष के सिवाय की गई, संस्वीकृति अभियुक्त के विरुद्ध साबित नहीं की जा सकती। किंतु जिस जानकारी से किसी तथ्य का पता चलता है वह साबित की जा सकती है (परंतुक)।',
+          },
+          keywords: ['confession to police', 'discovery', 'recovery', 'पुलिस के सामने इकबाल', 'बरामदगी'],
+        },
+        {
+          number: '26',
+          title: { en: 'Cases in which statement of relevant fact by person who is dead or cannot be found, etc., is relevant', hi: 'वे मामले जिनमें मृत या न मिल सकने वाले व्यक्ति का सुसंगत तथ्य का कथन सुसंगत है' },
+          text: {
+            en: 'Statements of persons who are dead or cannot be found are relevant in certain cases, most importantly a statement about the cause or circumstances of one\'s own death (dying declaration).',
+            hi: 'मृत या न मिल सकने वाले व्यक्तियों के कथन कुछ मामलों में सुसंगत हैं, सबसे महत्वपूर्ण अपनी मृत्यु के कारण या परिस्थितियों के बारे में कथन (मृत्युकालिक कथन)।',
+          },
+          keywords: ['dying declaration', 'मृत्युकालिक कथन'],
+        },
+        {
+          number: '39',
+          title: { en: 'Opinions of experts', hi: 'विशेषज्ञों की राय' },
+          text: {
+            en: 'When the court must form an opinion on foreign law, science, art, handwriting, finger impressions or other specialised matters, the opinions of experts are relevant, including experts on electronic evidence.',
+            hi: 'जब न्यायालय को विदेशी विधि, विज्ञान, कला, हस्तलेख, अंगुली-छाप या अन्य विशेष विषयों पर राय बनानी हो, तो विशेषज्ञों की राय सुसंगत है, जिसमें इलेक्ट्रॉनिक साक्ष्य के विशेषज्ञ शामिल हैं।',
+          },
+          keywords: ['expert opinion', 'handwriting expert', 'forensic', 'विशेषज्ञ राय'],
+        },
+      ],
+    },
+    {
+      number: 'V',
+      title: { en: 'Of documentary evidence', hi: 'दस्तावेज़ी साक्ष्य' },
+      sections: [
+        {
+          number: '61',
+          title: { en: 'Electronic or digital record', hi: 'इलेक्ट्रॉनिक या डिजिटल अभिलेख' },
+          text: {
+            en: 'An electronic or digital record cannot be denied admissibility merely because it is electronic; it has the same legal effect as a paper document, subject to Section 63.',
+            hi: 'किसी इलेक्ट्रॉनिक या डिजिटल अभिलेख की ग्राह्यता केवल इस आधार पर नकारी नहीं जा सकती कि वह इलेक्ट्रॉनिक है; धारा 63 के अधीन उसका कागज़ी दस्तावेज़ के समान विधिक प्रभाव है।',
+          },
+          explanation: {
+            en: 'New in the BSA. Electronic records such as emails, chats and server logs can also be primary evidence.',
+            hi: 'बीएसए में नई धारा। ईमेल, चैट और सर्वर लॉग जैसे इलेक्ट्रॉनिक अभिलेख प्राथमिक साक्ष्य भी हो सकते हैं।',
+          },
+          keywords: ['whatsapp', 'email', 'digital evidence', 'screenshot', 'डिजिटल साक्ष्य'],
+        },
+        {
+          number: '63',
+          title: { en: 'Admissibility of electronic records', hi: 'इलेक्ट्रॉनिक अभिलेखों की ग्राह्यता' },
+          text: {
+            en: 'Printouts and copies of electronic records are admissible as documents if the conditions in the section are met and a certificate in the format given in the Schedule is produced.',
+            hi: 'इलेक्ट्रॉनिक अभिलेखों के प्रिंटआउट और प्रतियां दस्तावेज़ के रूप में ग्राह्य हैं यदि धारा की शर्तें पूरी हों और अनुसूची में दिए प्रारूप में प्रमाणपत्र प्रस्तुत किया जाए।',
+          },
+          explanation: {
+            en: 'The certificate must be signed by the person in charge of the device and by an expert.',
+            hi: 'प्रमाणपत्र पर उपकरण के प्रभारी व्यक्ति और एक विशेषज्ञ के हस्ताक्षर होने चाहिए।',
+          },
+          keywords: ['65b certificate', 'electronic evidence', 'cctv', 'इलेक्ट्रॉनिक साक्ष्य'],
+        },
+      ],
+    },
+    {
+      number: 'VII',
+      title: { en: 'Of the burden of proof', hi: 'सबूत का भार' },
+      sections: [
+        {
+          number: '104',
+          title: { en: 'Burden of proof', hi: 'सबूत का भार' },
+          text: {
+            en: 'Whoever wants the court to give judgment on a legal right depending on facts they assert must prove those facts.',
+            hi: 'जो कोई चाहता है कि न्यायालय उसके द्वारा प्रख्यापित तथ्यों पर निर्भर किसी विधिक अधिकार के बारे में निर्णय दे, उसे वे तथ्य साबित करने होंगे।',
+          },
+          keywords: ['burden of proof', 'सबूत का भार'],
+        },
+        {
+          number: '109',
+          title: { en: 'Burden of proving fact especially within knowledge', hi: 'विशेषतः ज्ञात तथ्य को साबित करने का भार' },
+          text: {
+            en: 'When a fact is especially within a person\'s knowledge, the burden of proving it is on that person.',
+            hi: 'जब कोई तथ्य विशेष रूप से किसी व्यक्ति के ज्ञान में है, तो उसे साबित करने का भार उसी पर है।',
+          },
+          keywords: ['special knowledge', 'विशेष ज्ञान'],
+        },
+        {
+          number: '117',
+          title: { en: 'Presumption as to abetment of suicide by a married woman', hi: 'विवाहित महिला द्वारा आत्महत्या के दुष्प्रेरण के बारे में उपधारणा' },
+          text: {
+            en: 'If a woman commits suicide within seven years of marriage and her husband or his relatives had subjected her to cruelty, the court may presume they abetted the suicide.',
+            hi: 'यदि कोई महिला विवाह के सात वर्ष के भीतर आत्महत्या करती है और उसके पति या उसके नातेदारों ने उसके प्रति क्रूरता की थी, तो न्यायालय उपधारणा कर सकता है कि उन्होंने आत्महत्या का दुष्प्रेरण किया।',
+          },
+          keywords: ['presumption', 'suicide', 'उपधारणा'],
+        },
+        {
+          number: '118',
+          title: { en: 'Presumption as to dowry death', hi: 'दहेज मृत्यु के बारे में उपधारणा' },
+          text: {
+            en: 'When the question is whether a person caused the dowry death of a woman, and she was subjected to cruelty or harassment for dowry by that person soon before her death, the court shall presume that person caused it.',
+            hi: 'जब प्रश्न यह हो कि क्या किसी व्यक्ति ने महिला की दहेज मृत्यु कारित की, और मृत्यु से कुछ पहले उस व्यक्ति ने दहेज के लिए उसके प्रति क्रूरता या उत्पीड़न किया था, तो न्यायालय उपधारणा करेगा कि उसी ने मृत्यु कारित की।',
+          },
+          keywords: ['dowry death', 'presumption', 'दहेज मृत्यु'],
+        },
+        {
+          number: '119',
+          title: { en: 'Court may presume existence of certain facts', hi: 'न्यायालय कुछ तथ्यों के अस्तित्व की उपधारणा कर सकेगा' },
+          text: {
+            en: 'The court may presume facts likely to have happened in the common course of natural events, human conduct and business, e.g. that a person found with stolen goods soon after a theft is the thief or knowingly received them.',
+            hi: 'न्यायालय उन तथ्यों की उपधारणा कर सकता है जो प्राकृतिक घटनाओं, मानवीय आचरण और कारोबार के सामान्य क्रम में संभावित हैं, जैसे चोरी के तुरंत बाद चोरी का माल रखने वाला व्यक्ति चोर है या उसने जानबूझकर उसे प्राप्त किया।',
+          },
+          keywords: ['presumption', 'उपधारणा'],
+        },
+      ],
+    },
+    {
+      number: 'IX',
+      title: { en: 'Of witnesses', hi: 'साक्षी' },
+      sections: [
+        {
+          number: '124',
+          title: { en: 'Who may testify', hi: 'कौन साक्ष्य दे सकेगा' },
+          text: {
+            en: 'Everyone is competent to testify unless the court finds that, because of tender years, extreme old age or disease, they cannot understand the questions or give rational answers.',
+            hi: 'हर व्यक्ति साक्ष्य देने के लिए सक्षम है जब तक न्यायालय यह न पाए कि कम आयु, अत्यधिक वृद्धावस्था या रोग के कारण वह प्रश्नों को समझ या तर्कसंगत उत्तर नहीं दे सकता।',
+          },
+          keywords: ['child witness', 'competent witness', 'बाल साक्षी'],
+        },
+        {
+          number: '128',
+          title: { en: 'Communications during marriage', hi: 'विवाहित स्थिति के दौरान की गई संसूचनाएं' },
+          text: {
+            en: 'A spouse cannot be compelled, and is not permitted without consent, to disclose communications made during marriage by the other spouse, except in suits between them or prosecutions of one for an offence against the other.',
+            hi: 'पति या पत्नी को विवाह के दौरान दूसरे द्वारा की गई संसूचनाएं प्रकट करने के लिए विवश नहीं किया जा सकता, और सहमति के बिना अनुमति नहीं है, सिवाय उनके बीच के वादों या एक द्वारा दूसरे के विरुद्ध अपराध के अभियोजनों के।',
+          },
+          keywords: ['spousal privilege', 'पति पत्नी संसूचना'],
+        },
+        {
+          number: '132',
+          title: { en: 'Professional communications', hi: 'वृत्तिक संसूचनाएं' },
+          text: {
+            en: 'An advocate may not disclose communications made by a client in the course of their engagement, or advice given, without the client\'s consent, except for communications in furtherance of an illegal purpose.',
+            hi: 'अधिवक्ता मुवक्किल की सहमति के बिना नियोजन के दौरान मुवक्किल द्वारा की गई संसूचनाएं या दी गई सलाह प्रकट नहीं कर सकता, सिवाय अवैध प्रयोजन को अग्रसर करने वाली संसूचनाओं के।',
+          },
+          keywords: ['lawyer client privilege', 'वकील मुवक्किल'],
+        },
+        {
+          number: '138',
+          title: { en: 'Accomplice', hi: 'सह-अपराधी' },
+          text: {
+            en: 'An accomplice is a competent witness, and a conviction is not illegal merely because it rests on the uncorroborated testimony of an accomplice.',
+            hi: 'सह-अपराधी सक्षम साक्षी है, और कोई दोषसिद्धि केवल इसलिए अवैध नहीं है कि वह सह-अपराधी के असंपुष्ट परिसाक्ष्य पर आधारित है।',
+          },
+          keywords: ['accomplice', 'approver', 'सरकारी गवाह'],
+        },
+        {
+          number: '139',
+          title: { en: 'Number of witnesses', hi: 'साक्षियों की संख्या' },
+          text: {
+            en: 'No particular number of witnesses is required to prove any fact.',
+            hi: 'किसी तथ्य को साबित करने के लिए साक्षियों की कोई विशिष्ट संख्या अपेक्षित नहीं है।',
+          },
+          keywords: ['single witness', 'एक गवाह'],
+        },
+      ],
+    },
+    {
+      number: 'X',
+      title: { en: 'Of the examination of witnesses', hi: 'साक्षियों की परीक्षा' },
+      sections: [
+        {
+          number: '157',
+          title: { en: 'Question by party to his own witness', hi: 'पक्षकार द्वारा अपने ही साक्षी से प्रश्न' },
+          text: {
+            en: 'The court may allow the party calling a witness to ask them questions that the adverse party could ask in cross-examination, usually when the witness turns hostile.',
+            hi: 'न्यायालय साक्षी को बुलाने वाले पक्षकार को उससे ऐसे प्रश्न पूछने की अनुमति दे सकता है जो विरोधी पक्षकार प्रतिपरीक्षा में पूछ सकता है, सामान्यतः जब साक्षी पक्षद्रोही हो जाता है।',
+          },
+          keywords: ['hostile witness', 'पक्षद्रोही गवाह'],
+        },
+      ],
+    },
+  ],
+};
+
+const IEA: StatuteAct = {
+  id: 'IEA',
+  name: { en: ACTS.IEA, hi: 'भारतीय साक्ष्य अधिनियम, 1872' },
+  shortName: { en: 'Evidence Act', hi: 'साक्ष्य अधिनियम' },
+  inForce: false,
+  chapters: [
+    {
+      number: 'II',
+      title: { en: 'Of the relevancy of facts', hi: 'तथ्यों की सुसंगति' },
+      sections: [
+        {
+          number: '24',
+          title: { en: 'Confession caused by inducement, threat or promise, when irrelevant in criminal proceeding', hi: 'उत्प्रेरणा, धमकी या वचन द्वारा कराई गई संस्वीकृति कब आपराधिक कार्यवाही में विसंगत है' },
+          text: {
+            en: 'A confession caused by an inducement, threat or promise from a person in authority is irrelevant.',
+            hi: 'किसी प्राधिकारी व्यक्ति की उत्प्रेरणा, धमकी या वचन से कराई गई संस्वीकृति विसंगत है।',
+          },
+          keywords: ['forced confession', 'जबरन इकबाल'],
+        },
+        {
+          number: '25',
+          title: { en: 'Confession to police officer not to be proved', hi: 'पुलिस अधिकारी से की गई संस्वीकृति साबित न की जाएगी' },
+          text: {
+            en: 'No confession made to a police officer can be proved against the accused.',
+            hi: 'पुलिस अधिकारी से की गई कोई संस्वीकृति अभियुक्त के विरुद्ध साबित नहीं की जा सकती।',
+          },
+          keywords: ['confession to police', 'पुलिस के सामने इकबाल'],
+        },
+        {
+          number: '26',
+          title: { en: 'Confession by accused while in custody of police not to be proved against him', hi: 'पुलिस हिरासत में अभियुक्त की संस्वीकृति उसके विरुद्ध साबित न की जाएगी' },
+          text: {
+            en: 'A confession made in police custody is not provable unless made in the immediate presence of a Magistrate.',
+            hi: 'पुलिस हिरासत में की गई संस्वीकृति साबित नहीं की जा सकती जब तक वह मजिस्ट्रेट की साक्षात उपस्थिति में न की गई हो।',
+          },
+          keywords: ['custody confession', 'हिरासत'],
+        },
+        {
+          number: '27',
+          title: { en: 'How much of information received from accused may be proved', hi: 'अभियुक्त से प्राप्त जानकारी में से कितनी साबित की जा सकेगी' },
+          text: {
+            en: 'Information from an accused in custody that distinctly leads to the discovery of a fact may be proved.',
+            hi: 'हिरासत में अभियुक्त से प्राप्त जो जानकारी स्पष्ट रूप से किसी तथ्य का पता लगाती है, वह साबित की जा सकती है।',
+          },
+          keywords: ['discovery', 'recovery', 'बरामदगी'],
+        },
+        {
+          number: '32',
+          title: { en: 'Cases in which statement of relevant fact by person who is dead or cannot be found, etc., is relevant', hi: 'वे मामले जिनमें मृत या न मिल सकने वाले व्यक्ति का कथन सुसंगत है' },
+          text: {
+            en: 'Statements of persons who are dead or cannot be found are relevant in certain cases, including dying declarations.',
+            hi: 'मृत या न मिल सकने वाले व्यक्तियों के कथन कुछ मामलों में सुसंगत हैं, जिनमें मृत्युकालिक कथन शामिल हैं।',
+          },
+          keywords: ['dying declaration', 'मृत्युकालिक कथन'],
+        },
+        {
+          number: '45',
+          title: { en: 'Opinions of experts', hi: 'विशेषज्ञों की राय' },
+          text: {
+            en: 'Opinions of experts in foreign law, science, art, handwriting and finger impressions are relevant.',
+            hi: 'विदेशी विधि, विज्ञान, कला, हस्तलेख और अंगुली-छाप के विशेषज्ञों की राय सुसंगत है।',
+          },
+          keywords: ['expert opinion', 'विशेषज्ञ राय'],
+        },
+      ],
+    },
+    {
+      number: 'V',
+      title: { en: 'Of documentary evidence', hi: 'दस्तावेज़ी साक्ष्य' },
+      sections: [
+        {
+          number: '65B',
+          title: { en: 'Admissibility of electronic records', hi: 'इलेक्ट्रॉनिक अभिलेखों की ग्राह्यता' },
+          text: {
+            en: 'Computer output is admissible as a document if the conditions of the section are met, proved by a certificate under sub-section (4).',
+            hi: 'कंप्यूटर आउटपुट दस्तावेज़ के रूप में ग्राह्य है यदि धारा की शर्तें पूरी हों, जो उप-धारा (4) के प्रमाणपत्र से साबित की जाती हैं।',
+          },
+          keywords: ['65b certificate', 'electronic evidence', 'इलेक्ट्रॉनिक साक्ष्य'],
+        },
+      ],
+    },
+    {
+      number: 'VII',
+      title: { en: 'Of the burden of proof', hi: 'सबूत का भार' },
+      sections: [
+        {
+          number: '101',
+          title: { en: 'Burden of proof', hi: 'सबूत का भार' },
+          text: {
+            en: 'Whoever asserts facts on which a legal right depends must prove them.',
+            hi: 'जो कोई उन तथ्यों को प्रख्यापित करता है जिन पर विधिक अधिकार निर्भर है, उसे उन्हें साबित करना होगा।',
+          },
+          keywords: ['burden of proof', 'सबूत का भार'],
+        },
+        {
+          number: '106',
+          title: { en: 'Burden of proving fact especially within knowledge', hi: 'विशेषतः ज्ञात तथ्य को साबित करने का भार' },
+          text: {
+            en: 'The burden of proving a fact especially within a person\'s knowledge is on that person.',
+            hi: 'किसी व्यक्ति के विशेष ज्ञान में स्थित तथ्य को साबित करने का भार उसी पर है।',
+          },
+          keywords: ['special knowledge', 'विशेष ज्ञान'],
+        },
+        {
+          number: '113A',
+          title: { en: 'Presumption as to abetment of suicide by a married woman', hi: 'विवाहित महिला द्वारा आत्महत्या के दुष्प्रेरण के बारे में उपधारणा' },
+          text: {
+            en: 'Presumption of abetment where a married woman commits suicide within seven years of marriage after cruelty.',
+            hi: 'जहां विवाहित महिला क्रूरता के बाद विवाह के सात वर्ष के भीतर आत्महत्या करती है, वहां दुष्प्रेरण की उपधारणा।',
+          },
+          keywords: ['presumption', 'उपधारणा'],
+        },
+        {
+          number: '113B',
+          title: { en: 'Presumption as to dowry death', hi: 'दहेज मृत्यु के बारे में उपधारणा' },
+          text: {
+            en: 'Presumption that a person who subjected a woman to dowry cruelty soon before her death caused her dowry death.',
+            hi: 'उपधारणा कि जिस व्यक्ति ने मृत्यु से कुछ पहले महिला के प्रति दहेज क्रूरता की, उसी ने उसकी दहेज मृत्यु कारित की।',
+          },
+          keywords: ['dowry death', 'दहेज मृत्यु'],
+        },
+        {
+          number: '114',
+          title: { en: 'Court may presume existence of certain facts', hi: 'न्यायालय कुछ तथ्यों के अस्तित्व की उपधारणा कर सकेगा' },
+          text: {
+            en: 'The court may presume facts likely to have happened in the common course of events, human conduct and business.',
+            hi: 'न्यायालय घटनाओं, मानवीय आचरण और कारोबार के सामान्य क्रम में संभावित तथ्यों की उपधारणा कर सकता है।',
+          },
+          keywords: ['presumption', 'उपधारणा'],
+        },
+      ],
+    },
+    {
+      number: 'IX',
+      title: { en: 'Of witnesses', hi: 'साक्षी' },
+      sections: [
+        {
+          number: '118',
+          title: { en: 'Who may testify', hi: 'कौन साक्ष्य दे सकेगा' },
+          text: {
+            en: 'All persons are competent to testify unless unable to understand questions or give rational answers.',
+            hi: 'सभी व्यक्ति साक्ष्य देने के लिए सक्षम हैं जब तक वे प्रश्न समझने या तर्कसंगत उत्तर देने में असमर्थ न हों।',
+          },
+          keywords: ['child witness', 'बाल साक्षी'],
+        },
+        {
+          number: '122',
+          title: { en: 'Communications during marriage', hi: 'विवाहित स्थिति के दौरान की गई संसूचनाएं' },
+          text: {
+            en: 'Privilege for communications between spouses during marriage.',
+            hi: 'विवाह के दौरान पति-पत्नी के बीच संसूचनाओं का विशेषाधिकार।',
+          },
+          keywords: ['spousal privilege', 'पति पत्नी'],
+        },
+        {
+          number: '126',
+          title: { en: 'Professional communications', hi: 'वृत्तिक संसूचनाएं' },
+          text: {
+            en: 'Privilege for communications between an advocate and client.',
+            hi: 'अधिवक्ता और मुवक्किल के बीच संसूचनाओं का विशेषाधिकार।',
+          },
+          keywords: ['lawyer client privilege', 'वकील मुवक्किल'],
+        },
+        {
+          number: '133',
+          title: { en: 'Accomplice', hi: 'सह-अपराधी' },
+          text: {
+            en: 'An accomplice is a competent witness; a conviction on uncorroborated accomplice testimony is not illegal.',
+            hi: 'सह-अपराधी सक्षम साक्षी है; सह-अपराधी के असंपुष्ट परिसाक्ष्य पर दोषसिद्धि अवैध नहीं है।',
+          },
+          keywords: ['accomplice', 'सरकारी गवाह'],
+        },
+        {
+          number: '134',
+          title: { en: 'Number of witnesses', hi: 'साक्षियों की संख्या' },
+          text: {
+            en: 'No particular number of witnesses is required to prove a fact.',
+            hi: 'किसी तथ्य को साबित करने के लिए साक्षियों की कोई विशिष्ट संख्या अपेक्षित नहीं है।',
+          },
+          keywords: ['single witness', 'एक गवाह'],
+        },
+      ],
+    },
+    {
+      number: 'X',
+      title: { en: 'Of the examination of witnesses', hi: 'साक्षियों की परीक्षा' },
+      sections: [
+        {
+          number: '154',
+          title: { en: 'Question by party to his own witness', hi: 'पक्षकार द्वारा अपने ही साक्षी से प्रश्न' },
+          text: {
+            en: 'The court may permit a party to cross-examine its own witness, usually one who has turned hostile.',
+            hi: 'न्यायालय पक्षकार को अपने ही साक्षी की, सामान्यतः पक्षद्रोही हुए साक्षी की, प्रतिपरीक्षा की अनुमति दे सकता है।',
+          },
+          keywords: ['hostile witness', 'पक्षद्रोही गवाह'],
+        },
+      ],
+    },
+  ],
+};
+
+const NI: StatuteAct = {
+  id: 'NI',
+  name: { en: ACTS.NI, hi: 'परक्राम्य लिखत अधिनियम, 1881' },
+  shortName: { en: 'NI Act', hi: 'एनआई एक्ट' },
+  inForce: true,
+  chapters: [
+    {
+      number: 'XVII',
+      title: {
+        en: 'Of penalties in case of dishonour of certain cheques for insufficiency of funds in the accounts',
+        hi: 'खातों में अपर्याप्त निधि के कारण कुछ चेकों के अनादरण की दशा में शास्तियां',
+      },
+      sections: [
+        {
+          number: '138',
+          title: { en: 'Dishonour of cheque for insufficiency, etc., of funds in the account', hi: 'खाते में निधि की अपर्याप्तता आदि के कारण चेक का अनादरण' },
+          text: {
+            en: 'A person who issues a cheque to pay a legally enforceable debt commits an offence if the cheque bounces for lack of funds, provided the cheque was presented within three months, the payee sent a written demand within 30 days of learning of the dishonour, and the drawer did not pay within 15 days of receiving that notice.',
+            hi: 'जो व्यक्ति विधितः प्रवर्तनीय ऋण चुकाने के लिए चेक देता है, वह अपराध करता है यदि निधि की कमी से चेक लौट जाए, बशर्ते चेक तीन महीने के भीतर प्रस्तुत किया गया हो, पाने वाले ने अनादरण की जानकारी के 30 दिनों के भीतर लिखित मांग भेजी हो, और जारीकर्ता ने नोटिस मिलने के 15 दिनों के भीतर भुगतान न किया हो।',
+          },
+          explanation: {
+            en: 'The offence is complete only when the 15-day period after the notice ends without payment. A cheque given as a gift or as security for a debt not yet due is not covered.',
+            hi: 'अपराध तभी पूरा होता है जब नोटिस के बाद 15 दिन की अवधि बिना भुगतान के समाप्त हो जाए। उपहार में दिया गया चेक या ऐसे ऋण की प्रतिभूति जो अभी देय नहीं है, इसमें शामिल नहीं है।',
+          },
+          punishment: {
+            en: 'Imprisonment up to two years, or fine up to twice the cheque amount, or both.',
+            hi: 'दो वर्ष तक का कारावास, या चेक की राशि के दोगुने तक जुर्माना, या दोनों।',
+          },
+          keywords: ['cheque bounce', 'dishonour', 'bounced cheque', 'insufficient funds', 'चेक बाउंस', 'चेक अनादरण'],
+        },
+        {
+          number: '139',
+          title: { en: 'Presumption in favour of holder', hi: 'धारक के पक्ष में उपधारणा' },
+          text: {
+            en: 'The court presumes that the holder received the cheque in discharge of a debt or other liability, unless the contrary is proved.',
+            hi: 'न्यायालय यह उपधारणा करेगा कि धारक ने चेक किसी ऋण या अन्य दायित्व के उन्मोचन में प्राप्त किया था, जब तक कि इसके विपरीत साबित न हो।',
+          },
+          explanation: {
+            en: 'The accused can rebut the presumption on a preponderance of probabilities, for example by showing that no debt was owed.',
+            hi: 'अभियुक्त अधिसंभाव्यता की प्रबलता के आधार पर उपधारणा का खंडन कर सकता है, जैसे यह दिखाकर कि कोई ऋण बकाया नहीं था।',
+          },
+        },
+        {
+          number: '141',
+          title: { en: 'Offences by companies', hi: 'कंपनियों द्वारा अपराध' },
+          text: {
+            en: 'When a company\'s cheque bounces, every person who was in charge of and responsible for the conduct of its business at the time is also liable, unless they show the offence happened without their knowledge or despite due diligence.',
+            hi: 'जब किसी कंपनी का चेक लौटता है, तो उस समय उसके कारबार के संचालन का भारसाधक और उत्तरदायी हर व्यक्ति भी दायी है, जब तक वह यह न दिखाए कि अपराध उसकी जानकारी के बिना या सम्यक तत्परता के बावजूद हुआ।',
+          },
+          explanation: {
+            en: 'Nominated directors holding government or financial-corporation posts are not liable only because of that position.',
+            hi: 'सरकारी या वित्तीय निगम के पद के कारण नामनिर्दिष्ट निदेशक केवल उस पद के कारण दायी नहीं हैं।',
+          },
+          keywords: ['company cheque', 'director liability', 'कंपनी चेक', 'निदेशक'],
+        },
+        {
+          number: '142',
+          title: { en: 'Cognizance of offences', hi: 'अपराधों का संज्ञान' },
+          text: {
+            en: 'A court takes up a cheque-bounce case only on a written complaint by the payee or holder, filed within one month of the cause of action. The case is filed where the payee\'s bank branch is located.',
+            hi: 'न्यायालय चेक बाउंस का मामला केवल पाने वाले या धारक की लिखित शिकायत पर लेता है, जो वाद-हेतुक के एक महीने के भीतर दायर की जाए। मामला वहां दायर होता है जहां पाने वाले की बैंक शाखा है।',
+          },
+          explanation: {
+            en: 'The cause of action arises when the 15-day payment period after the notice expires. The court may accept a late complaint if there was sufficient cause for the delay.',
+            hi: 'वाद-हेतुक तब उत्पन्न होता है जब नोटिस के बाद भुगतान की 15 दिन की अवधि समाप्त होती है। देरी का पर्याप्त कारण होने पर न्यायालय विलंबित शिकायत स्वीकार कर सकता है।',
+          },
+          keywords: ['complaint', 'limitation', 'शिकायत', 'समय सीमा'],
+        },
+        {
+          number: '143',
+          title: { en: 'Power of court to try cases summarily', hi: 'मामलों का संक्षिप्त विचारण करने की न्यायालय की शक्ति' },
+          text: {
+            en: 'Cheque-bounce cases are tried summarily by a Magistrate, and the trial should, as far as possible, end within six months of the complaint.',
+            hi: 'चेक बाउंस के मामलों का विचारण मजिस्ट्रेट द्वारा संक्षिप्त रूप से होता है, और विचारण यथासंभव शिकायत के छह महीने के भीतर समाप्त होना चाहिए।',
+          },
+        },
+        {
+          number: '143A',
+          title: { en: 'Power to direct interim compensation', hi: 'अंतरिम प्रतिकर का निदेश देने की शक्ति' },
+          text: {
+            en: 'The court may order the drawer to pay the complainant interim compensation of up to 20% of the cheque amount, within 60 days (extendable by 30 days). It is refunded with interest if the drawer is acquitted.',
+            hi: 'न्यायालय जारीकर्ता को शिकायतकर्ता को चेक राशि के 20% तक अंतरिम प्रतिकर 60 दिनों के भीतर (30 दिन बढ़ाए जा सकते हैं) देने का आदेश दे सकता है। जारीकर्ता के दोषमुक्त होने पर यह ब्याज सहित लौटाया जाता है।',
+          },
+          keywords: ['interim compensation', 'अंतरिम मुआवजा'],
+        },
+        {
+          number: '147',
+          title: { en: 'Offences to be compoundable', hi: 'अपराधों का शमनीय होना' },
+          text: {
+            en: 'Cheque-bounce offences can be settled (compounded) between the parties at any stage of the case.',
+            hi: 'चेक बाउंस के अपराध मामले के किसी भी चरण में पक्षकारों के बीच समझौते (शमन) से निपटाए जा सकते हैं।',
+          },
+          keywords: ['settlement', 'compromise', 'समझौता'],
+        },
+        {
+          number: '148',
+          title: { en: 'Power of appellate court to order payment pending appeal', hi: 'अपील लंबित रहने के दौरान भुगतान का आदेश देने की अपील न्यायालय की शक्ति' },
+          text: {
+            en: 'When a convicted drawer appeals, the appellate court may order a deposit of at least 20% of the fine or compensation awarded by the trial court.',
+            hi: 'जब दोषसिद्ध जारीकर्ता अपील करता है, तो अपील न्यायालय विचारण न्यायालय द्वारा अधिनिर्णीत जुर्माने या प्रतिकर के कम से कम 20% के जमा का आदेश दे सकता है।',
+          },
+        },
+      ],
+    },
+  ],
+};
+
+const COI: StatuteAct = {
+  id: 'COI',
+  name: { en: ACTS.COI, hi: 'भारत का संविधान' },
+  shortName: { en: 'Constitution', hi: 'संविधान' },
+  inForce: true,
+  labels: {
+    chapter: { en: 'Part', hi: 'भाग' },
+    section: { en: 'Article', hi: 'अनुच्छेद' },
+  },
+  chapters: [
+    {
+      number: 'III',
+      title: { en: 'Fundamental Rights', hi: 'मूल अधिकार' },
+      sections: [
+        {
+          number: '14',
+          title: { en: 'Equality before law', hi: 'विधि के समक्ष समता' },
+          text: {
+            en: 'The State shall not deny to any person equality before the law or the equal protection of the laws within India.',
+            hi: 'राज्य भारत के राज्यक्षेत्र में किसी व्यक्ति को विधि के समक्ष समता से या विधियों के समान संरक्षण से वंचित नहीं करेगा।',
+          },
+          explanation: {
+            en: 'Reasonable classification is allowed, but arbitrary State action violates this Article.',
+            hi: 'युक्तियुक्त वर्गीकरण की अनुमति है, परंतु राज्य की मनमानी कार्रवाई इस अनुच्छेद का उल्लंघन है।',
+          },
+          keywords: ['equality', 'समानता'],
+        },
+        {
+          number: '15',
+          title: { en: 'Prohibition of discrimination', hi: 'विभेद का प्रतिषेध' },
+          text: {
+            en: 'The State shall not discriminate against any citizen only on grounds of religion, race, caste, sex or place of birth. Special provisions for women, children and backward classes are allowed.',
+            hi: 'राज्य किसी नागरिक के विरुद्ध केवल धर्म, मूलवंश, जाति, लिंग या जन्मस्थान के आधार पर विभेद नहीं करेगा। स्त्रियों, बालकों और पिछड़े वर्गों के लिए विशेष उपबंधों की अनुमति है।',
+          },
+          keywords: ['discrimination', 'भेदभाव'],
+        },
+        {
+          number: '19',
+          title: { en: 'Protection of certain rights regarding freedom of speech, etc.', hi: 'वाक्-स्वातंत्र्य आदि विषयक कुछ अधिकारों का संरक्षण' },
+          text: {
+            en: 'Citizens have the right to freedom of speech and expression, to assemble peacefully, to form associations, to move freely and reside anywhere in India, and to practise any profession or business, subject to reasonable restrictions by law.',
+            hi: 'नागरिकों को वाक् और अभिव्यक्ति की स्वतंत्रता, शांतिपूर्वक सम्मेलन, संगम बनाने, भारत में कहीं भी स्वतंत्र रूप से आने-जाने और निवास करने, और कोई भी वृत्ति या कारबार करने का अधिकार है, विधि द्वारा युक्तियुक्त निर्बंधनों के अधीन।',
+          },
+          keywords: ['free speech', 'freedom of expression', 'अभिव्यक्ति की स्वतंत्रता'],
+        },
+        {
+          number: '20',
+          title: { en: 'Protection in respect of conviction for offences', hi: 'अपराधों के लिए दोषसिद्धि के संबंध में संरक्षण' },
+          text: {
+            en: 'No one can be convicted under a law made after the act was done, punished more than once for the same offence, or compelled to be a witness against themselves.',
+            hi: 'किसी को कार्य किए जाने के बाद बनी विधि के अधीन दोषसिद्ध नहीं किया जा सकता, एक ही अपराध के लिए एक से अधिक बार दंडित नहीं किया जा सकता, या स्वयं अपने विरुद्ध साक्षी बनने के लिए विवश नहीं किया जा सकता।',
+          },
+          keywords: ['double jeopardy', 'self-incrimination', 'दोहरा दंड'],
+        },
+        {
+          number: '21',
+          title: { en: 'Protection of life and personal liberty', hi: 'प्राण और दैहिक स्वतंत्रता का संरक्षण' },
+          text: {
+            en: 'No person shall be deprived of their life or personal liberty except according to procedure established by law.',
+            hi: 'किसी व्यक्ति को उसके प्राण या दैहिक स्वतंत्रता से विधि द्वारा स्थापित प्रक्रिया के अनुसार ही वंचित किया जाएगा, अन्यथा नहीं।',
+          },
+          explanation: {
+            en: 'Courts read this to include the rights to privacy, dignity, a speedy trial, legal aid, shelter and a clean environment; the procedure itself must be fair and reasonable.',
+            hi: 'न्यायालय इसमें निजता, गरिमा, शीघ्र विचारण, विधिक सहायता, आश्रय और स्वच्छ पर्यावरण के अधिकार शामिल मानते हैं; प्रक्रिया स्वयं भी निष्पक्ष और युक्तियुक्त होनी चाहिए।',
+          },
+          keywords: ['right to life', 'personal liberty', 'privacy', 'जीवन का अधिकार', 'निजता'],
+        },
+        {
+          number: '21A',
+          title: { en: 'Right to education', hi: 'शिक्षा का अधिकार' },
+          text: {
+            en: 'The State shall provide free and compulsory education to all children aged six to fourteen years, in the manner it decides by law.',
+            hi: 'राज्य छह से चौदह वर्ष की आयु के सभी बालकों के लिए निःशुल्क और अनिवार्य शिक्षा उपलब्ध कराएगा, उस रीति से जो वह विधि द्वारा अवधारित करे।',
+          },
+          keywords: ['education', 'rte', 'शिक्षा'],
+        },
+        {
+          number: '22',
+          title: { en: 'Protection against arrest and detention in certain cases', hi: 'कुछ दशाओं में गिरफ्तारी और निरोध से संरक्षण' },
+          text: {
+            en: 'A person who is arrested must be told the grounds of arrest as soon as possible, may consult and be defended by a lawyer of their choice, and must be produced before the nearest Magistrate within 24 hours.',
+            hi: 'गिरफ्तार व्यक्ति को गिरफ्तारी के आधार यथाशीघ्र बताए जाने चाहिए, वह अपनी पसंद के वकील से परामर्श और प्रतिरक्षा करा सकता है, और उसे 24 घंटे के भीतर निकटतम मजिस्ट्रेट के समक्ष पेश किया जाना चाहिए।',
+          },
+          explanation: {
+            en: 'These safeguards apply with changes to preventive detention laws.',
+            hi: 'निवारक निरोध की विधियों पर ये रक्षोपाय परिवर्तनों के साथ लागू होते हैं।',
+          },
+          keywords: ['arrest rights', 'गिरफ्तारी के अधिकार'],
+        },
+        {
+          number: '32',
+          title: { en: 'Remedies for enforcement of fundamental rights', hi: 'मूल अधिकारों को प्रवर्तित कराने के लिए उपचार' },
+          text: {
+            en: 'Anyone can move the Supreme Court directly to enforce a fundamental right. The Court can issue writs such as habeas corpus, mandamus, prohibition, quo warranto and certiorari.',
+            hi: 'कोई भी मूल अधिकार प्रवर्तित कराने के लिए सीधे सर्वोच्च न्यायालय जा सकता है। न्यायालय बंदी प्रत्यक्षीकरण, परमादेश, प्रतिषेध, अधिकार पृच्छा और उत्प्रेषण जैसी रिट जारी कर सकता है।',
+          },
+          keywords: ['writ petition', 'habeas corpus', 'रिट याचिका'],
+        },
+      ],
+    },
+    {
+      number: 'IV',
+      title: { en: 'Directive Principles of State Policy', hi: 'राज्य की नीति के निदेशक तत्व' },
+      sections: [
+        {
+          number: '39A',
+          title: { en: 'Equal justice and free legal aid', hi: 'समान न्याय और निःशुल्क विधिक सहायता' },
+          text: {
+            en: 'The State shall ensure that the legal system promotes justice on equal opportunity, and shall provide free legal aid so that no citizen is denied justice because of economic or other disabilities.',
+            hi: 'राज्य सुनिश्चित करेगा कि विधिक तंत्र समान अवसर के आधार पर न्याय को बढ़ावा दे, और निःशुल्क विधिक सहायता देगा ताकि कोई नागरिक आर्थिक या अन्य निर्योग्यता के कारण न्याय से वंचित न रहे।',
+          },
+          explanation: {
+            en: 'Free legal aid is given through the Legal Services Authorities Act, 1987 (NALSA, state and district authorities).',
+            hi: 'निःशुल्क विधिक सहायता विधिक सेवा प्राधिकरण अधिनियम, 1987 (नालसा, राज्य और जिला प्राधिकरण) के माध्यम से दी जाती है।',
+          },
+          keywords: ['legal aid', 'free lawyer', 'nalsa', 'मुफ्त वकील', 'विधिक सहायता'],
+        },
+      ],
+    },
+    {
+      number: 'VI',
+      title: { en: 'The States: the High Courts', hi: 'राज्य: उच्च न्यायालय' },
+      sections: [
+        {
+          number: '226',
+          title: { en: 'Power of High Courts to issue certain writs', hi: 'कुछ रिट निकालने की उच्च न्यायालयों की शक्ति' },
+          text: {
+            en: 'Every High Court can issue writs within its territory to enforce fundamental rights and for any other purpose, such as against unlawful action by a government authority.',
+            hi: 'प्रत्येक उच्च न्यायालय अपने राज्यक्षेत्र में मूल अधिकारों को प्रवर्तित कराने और किसी अन्य प्रयोजन के लिए, जैसे किसी सरकारी प्राधिकारी की अवैध कार्रवाई के विरुद्ध, रिट जारी कर सकता है।',
+          },
+          explanation: {
+            en: 'Wider than Article 32, since it also covers legal rights that are not fundamental rights.',
+            hi: 'अनुच्छेद 32 से व्यापक, क्योंकि इसमें वे विधिक अधिकार भी आते हैं जो मूल अधिकार नहीं हैं।',
+          },
+          keywords: ['writ petition', 'high court', 'रिट याचिका', 'उच्च न्यायालय'],
+        },
+      ],
+    },
+    {
+      number: 'XII',
+      title: { en: 'Finance, Property, Contracts and Suits', hi: 'वित्त, संपत्ति, संविदाएं और वाद' },
+      sections: [
+        {
+          number: '300A',
+          title: { en: 'Persons not to be deprived of property save by authority of law', hi: 'विधि के प्राधिकार के बिना व्यक्तियों को संपत्ति से वंचित न किया जाना' },
+          text: {
+            en: 'No person shall be deprived of their property except by authority of law.',
+            hi: 'किसी व्यक्ति को उसकी संपत्ति से विधि के प्राधिकार से ही वंचित किया जाएगा, अन्यथा नहीं।',
+          },
+          explanation: {
+            en: 'The right to property is no longer a fundamental right (since 1978) but remains a constitutional right.',
+            hi: 'संपत्ति का अधिकार (1978 से) मूल अधिकार नहीं है, परंतु संवैधानिक अधिकार बना हुआ है।',
+          },
+          keywords: ['right to property', 'संपत्ति का अधिकार'],
+        },
+      ],
+    },
+  ],
+};
+
+export const STATUTES: Record<StatuteActId, StatuteAct> = { BNS, IPC, BNSS, CRPC, BSA, IEA, NI, COI };
@@ -0,0 +1,39 @@
+/* --- Offline Outbox ---
+   User messages sent without connectivity are queued here instead of
+   being answered by the mock fallback. Each entry points at the user
+   message (shown with status "pending") and the conversation it was
+   asked in, so the reply is reconciled into that conversation even if
+   the user has switched chats by the time the network returns.
+
+   Stored in localStorage under key: "jurisly_outbox_<userEmail>"
+   Entries are processed oldest first by ChatPage.
+--- */
+
+export interface OutboxEntry {
+  messageId: string;
+  conversationId: string;
+  text: string;
+  queuedAt: string;
+  // The question already used a message of the quota (the connection dropped mid-request)
+  charged?: boolean;
+}
+
+const storageKey = (userEmail: string) => `jurisly_outbox_${userEmail}`;
+
+export function loadOutbox(userEmail: string): OutboxEntry[] {
+  try {
+    const saved = localStorage.getItem(storageKey(userEmail));
+    return saved ? (JSON.parse(saved) as OutboxEntry[]) : [];
+  } catch (error) {
+    console.error('Error loading outbox:', error);
+    return [];
+  }
+}
+
+export function saveOutbox(userEmail: string, entries: OutboxEntry[]) {
+  if (entries.length === 0) {
+    localStorage.removeItem(storageKey(userEmail));
+  } else {
+    localStorage.setItem(storageKey(userEmail), JSON.stringify(entries));
+  }
+}
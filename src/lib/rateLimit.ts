@@ -0,0 +1,127 @@
+/* --- Send Rate Limiting ---
+   Keeps a user (or a script driving the page) from firing messages faster
+   than anyone types and burning the AI backend's budget. Checked before a
+   message is added to the chat:
+
+   - Oversized input: more than MAX_MESSAGE_LENGTH characters
+   - Repeats: the same text (ignoring case and spacing) sent again within
+     DUPLICATE_WINDOW_MS
+   - Token buckets: one per tab, in memory, for bursts; one per user,
+     shared by all tabs through localStorage, for the sustained rate
+
+   A refused send consumes nothing and reports when it may be retried.
+   Stored in localStorage under key: "jurisly_send_limit_<userEmail>"
+   (bucket level and hashes of recent messages, never the text itself).
+   This is a courtesy limit; the server-side quota (billing/usage.ts)
+   is what is enforced.
+--- */
+
+export const MAX_MESSAGE_LENGTH = 4000;
+
+const DUPLICATE_WINDOW_MS = 2 * 60 * 1000;
+const RECENT_MESSAGES_KEPT = 5;
+
+interface BucketConfig {
+  capacity: number;
+  // Time for one token to come back
+  refillMs: number;
+}
+
+// 4 quick messages, then one every 5 seconds
+const TAB_BUCKET: BucketConfig = { capacity: 4, refillMs: 5000 };
+// 8 quick messages across all tabs, then one every 7.5 seconds
+const USER_BUCKET: BucketConfig = { capacity: 8, refillMs: 7500 };
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface RecentMessage {
+  hash: number;
+  sentAt: number;
+}
+
+interface StoredLimit {
+  bucket: TokenBucket;
+  recent: RecentMessage[];
+}
+
+export type SendRejection =
+  | { reason: 'too_long'; length: number; maxLength: number }
+  | { reason: 'duplicate'; retryAt: number }
+  | { reason: 'rate_limited'; retryAt: number };
+
+export interface SendLimiter {
+  // Records the send and returns null when allowed. Retries and
+  // regenerations pass no text and only use the token buckets.
+  admit: (message?: string, now?: number) => SendRejection | null;
+}
+
+const fullBucket = (config: BucketConfig, now: number): TokenBucket => ({ tokens: config.capacity, updatedAt: now });
+
+function refill(bucket: TokenBucket, config: BucketConfig, now: number): TokenBucket {
+  const restored = (now - bucket.updatedAt) / config.refillMs;
+  return { tokens: Math.min(config.capacity, bucket.tokens + Math.max(0, restored)), updatedAt: now };
+}
+
+// When the bucket will hold a whole token again
+function nextTokenAt(bucket: TokenBucket, config: BucketConfig): number {
+  return bucket.updatedAt + Math.ceil((1 - bucket.tokens) * config.refillMs);
+}
+
+// Case and spacing do not make a message different
+function hashMessage(message: string): number {
+  const normalized = message.trim().toLowerCase().replace(/\s+/g, ' ');
+  let hash = 5381;
+  for (let i = 0; i < normalized.length; i++) {
+    hash = ((hash << 5) + hash + normalized.charCodeAt(i)) | 0;
+  }
+  return hash;
+}
+
+export function createSendLimiter(userEmail: string): SendLimiter {
+  const storageKey = `jurisly_send_limit_${userEmail}`;
+  let tabBucket = fullBucket(TAB_BUCKET, Date.now());
+
+  const load = (now: number): StoredLimit => {
+    try {
+      const saved = localStorage.getItem(storageKey);
+      if (saved) return JSON.parse(saved) as StoredLimit;
+    } catch (error) {
+      console.error('Error loading send limit:', error);
+    }
+    return { bucket: fullBucket(USER_BUCKET, now), recent: [] };
+  };
+
+  const admit = (message?: string, now: number = Date.now()): SendRejection | null => {
+    if (message !== undefined && message.length > MAX_MESSAGE_LENGTH) {
+      return { reason: 'too_long', length: message.length, maxLength: MAX_MESSAGE_LENGTH };
+    }
+
+    const stored = load(now);
+    const recent = stored.recent.filter((entry) => now - entry.sentAt < DUPLICATE_WINDOW_MS);
+    const hash = message !== undefined ? hashMessage(message) : undefined;
+    const repeat = hash !== undefined ? recent.find((entry) => entry.hash === hash) : undefined;
+    if (repeat) {
+      return { reason: 'duplicate', retryAt: repeat.sentAt + DUPLICATE_WINDOW_MS };
+    }
+
+    const tab = refill(tabBucket, TAB_BUCKET, now);
+    const user = refill(stored.bucket, USER_BUCKET, now);
+    if (tab.tokens < 1 || user.tokens < 1) {
+      const waits = [tab.tokens < 1 ? nextTokenAt(tab, TAB_BUCKET) : 0, user.tokens < 1 ? nextTokenAt(user, USER_BUCKET) : 0];
+      return { reason: 'rate_limited', retryAt: Math.max(...waits) };
+    }
+
+    tabBucket = { ...tab, tokens: tab.tokens - 1 };
+    const next: StoredLimit = {
+      bucket: { ...user, tokens: user.tokens - 1 },
+      recent: hash !== undefined ? [...recent, { hash, sentAt: now }].slice(-RECENT_MESSAGES_KEPT) : recent,
+    };
+    localStorage.setItem(storageKey, JSON.stringify(next));
+    return null;
+  };
+
+  return { admit };
+}
@@ -8,3 +8,11 @@ if (!import.meta.env.VITE_SUPABASE_URL || !import.meta.env.VITE_SUPABASE_ANON_KE
 }
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+// Check if Supabase is properly configured
+export const isSupabaseConfigured = () => {
+  return import.meta.env.VITE_SUPABASE_URL && 
+         import.meta.env.VITE_SUPABASE_ANON_KEY &&
+         import.meta.env.VITE_SUPABASE_URL !== 'https://placeholder.supabase.co' &&
+         import.meta.env.VITE_SUPABASE_ANON_KEY !== 'placeholder-key';
+};
@@ -3,6 +3,27 @@
 interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string;
   readonly VITE_SUPABASE_ANON_KEY: string;
+  readonly VITE_AI_PROVIDER?: string;
+  readonly VITE_N8N_WEBHOOK_URL?: string;
+  readonly VITE_N8N_FEEDBACK_URL?: string;
+  readonly VITE_N8N_SIGNING?: string;
+  readonly VITE_N8N_SIGNING_SECRET?: string;
+  readonly VITE_OPENAI_BASE_URL?: string;
+  readonly VITE_OPENAI_API_KEY?: string;
+  readonly VITE_OPENAI_MODEL?: string;
+  readonly VITE_AI_FALLBACK_TO_MOCK?: string;
+  readonly VITE_AI_TIMEOUT_MS?: string;
+  readonly VITE_AI_MAX_RETRIES?: string;
+  readonly VITE_AI_RETRY_BASE_DELAY_MS?: string;
+  readonly VITE_AI_CACHE_TTL_HOURS?: string;
+  readonly VITE_AI_SUMMARIZE_HISTORY?: string;
+  readonly VITE_N8N_CONTEXT_TURNS?: string;
+  readonly VITE_N8N_CONTEXT_CHARS?: string;
+  readonly VITE_OPENAI_CONTEXT_TURNS?: string;
+  readonly VITE_OPENAI_CONTEXT_CHARS?: string;
+  readonly VITE_MOCK_CONTEXT_TURNS?: string;
+  readonly VITE_MOCK_CONTEXT_CHARS?: string;
+  readonly VITE_BILLING_PROVIDER?: string;
 }
 
 interface ImportMeta {
@@ -0,0 +1,46 @@
+-- ============================================================
+-- Conversation Branches (active branch sync)
+-- ============================================================
+-- Run this in Supabase Dashboard → Database → SQL Editor
+--
+-- Chats are branching trees: editing a sent message starts a new
+-- branch. ChatContext keeps every branch in localStorage and upserts
+-- only the active branch (root to leaf) of each conversation here.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.conversation_branches (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  conversation_id TEXT NOT NULL,
+  title TEXT NOT NULL DEFAULT 'New Chat',
+  active_leaf_id TEXT,
+  messages JSONB NOT NULL DEFAULT '[]'::jsonb,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_id, conversation_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_branches_updated_at
+  ON public.conversation_branches(user_id, updated_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.conversation_branches ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: Users can only access their own conversations
+CREATE POLICY "Users can view own conversation branches"
+  ON public.conversation_branches
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own conversation branches"
+  ON public.conversation_branches
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own conversation branches"
+  ON public.conversation_branches
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own conversation branches"
+  ON public.conversation_branches
+  FOR DELETE
+  USING (auth.uid() = user_id);
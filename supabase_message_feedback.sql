@@ -0,0 +1,55 @@
+-- ============================================================
+-- Message Feedback
+-- ============================================================
+-- Run this in Supabase Dashboard → Database → SQL Editor
+--
+-- Thumbs up/down ratings on AI answers, with reason categories
+-- (wrong_law, outdated, unclear, incomplete, other) and comments.
+-- One row per rated answer; regenerated answers are told apart by
+-- variant_index. The question and answer are copied in so bad answers
+-- can be reviewed without the user's chat history.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.message_feedback (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  conversation_id TEXT NOT NULL,
+  message_id TEXT NOT NULL,
+  variant_index INTEGER NOT NULL DEFAULT 0,
+  rating TEXT NOT NULL CHECK (rating IN ('up', 'down')),
+  reasons TEXT[] NOT NULL DEFAULT '{}',
+  comment TEXT,
+  question TEXT,
+  answer TEXT NOT NULL,
+  citations JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, conversation_id, message_id, variant_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_feedback_rating
+  ON public.message_feedback(rating, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.message_feedback ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: Users manage their own feedback; reviewers use the service role
+CREATE POLICY "Users can view own feedback"
+  ON public.message_feedback
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own feedback"
+  ON public.message_feedback
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own feedback"
+  ON public.message_feedback
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own feedback"
+  ON public.message_feedback
+  FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,158 @@
+-- ============================================================
+-- Plan Tiers & Message Quotas
+-- ============================================================
+-- Run this in Supabase Dashboard → Database → SQL Editor
+--
+-- plan_tiers:    daily / monthly message limits per plan (mirror of
+--                src/lib/billing/plans.ts; keep the two in sync)
+-- user_plans:    each user's plan, written by the billing webhook with
+--                the service role. Users without a row are on 'standard'.
+-- message_usage: messages used per user per day (Indian time)
+--
+-- The app calls consume_message_quota() before every AI request; it
+-- checks and counts in one transaction, so several tabs or devices
+-- cannot go over the limit together. n8n workflows can call the same
+-- RPC with the user's access token to enforce quotas on their side.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.plan_tiers (
+  plan TEXT PRIMARY KEY,
+  daily_limit INTEGER NOT NULL CHECK (daily_limit >= 0),
+  monthly_limit INTEGER NOT NULL CHECK (monthly_limit >= 0)
+);
+
+INSERT INTO public.plan_tiers (plan, daily_limit, monthly_limit) VALUES
+  ('standard', 25, 300),
+  ('plus', 150, 3000),
+  ('pro', 1000, 20000)
+ON CONFLICT (plan) DO UPDATE
+  SET daily_limit = EXCLUDED.daily_limit,
+      monthly_limit = EXCLUDED.monthly_limit;
+
+CREATE TABLE IF NOT EXISTS public.user_plans (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  plan TEXT NOT NULL DEFAULT 'standard' REFERENCES public.plan_tiers(plan),
+  -- NULL for plans that do not expire
+  current_period_end TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.message_usage (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  usage_date DATE NOT NULL,
+  message_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, usage_date)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.plan_tiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.message_usage ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: read-only for users; plans are written by billing,
+-- usage only through the functions below
+CREATE POLICY "Anyone signed in can view plan tiers"
+  ON public.plan_tiers
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can view own plan"
+  ON public.user_plans
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own usage"
+  ON public.message_usage
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Current plan, limits and usage of the calling user
+CREATE OR REPLACE FUNCTION public.get_message_usage()
+RETURNS TABLE (
+  plan TEXT,
+  daily_limit INTEGER,
+  monthly_limit INTEGER,
+  daily_used INTEGER,
+  monthly_used INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH today AS (
+    SELECT (NOW() AT TIME ZONE 'Asia/Kolkata')::date AS d
+  ),
+  tier AS (
+    SELECT t.plan, t.daily_limit, t.monthly_limit
+    FROM plan_tiers t
+    WHERE t.plan = COALESCE(
+      (
+        SELECT up.plan FROM user_plans up
+        WHERE up.user_id = auth.uid()
+          AND (up.current_period_end IS NULL OR up.current_period_end > NOW())
+      ),
+      'standard'
+    )
+  )
+  SELECT
+    tier.plan,
+    tier.daily_limit,
+    tier.monthly_limit,
+    COALESCE((
+      SELECT mu.message_count FROM message_usage mu, today
+      WHERE mu.user_id = auth.uid() AND mu.usage_date = today.d
+    ), 0),
+    COALESCE((
+      SELECT SUM(mu.message_count)::INTEGER FROM message_usage mu, today
+      WHERE mu.user_id = auth.uid() AND mu.usage_date >= date_trunc('month', today.d)::date
+    ), 0)
+  FROM tier;
+$$;
+
+-- Count one message if the quota allows it; allowed = false counts nothing
+CREATE OR REPLACE FUNCTION public.consume_message_quota()
+RETURNS TABLE (
+  allowed BOOLEAN,
+  plan TEXT,
+  daily_limit INTEGER,
+  monthly_limit INTEGER,
+  daily_used INTEGER,
+  monthly_used INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_usage RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Serialise concurrent calls from the same user
+  PERFORM pg_advisory_xact_lock(hashtext(auth.uid()::text));
+
+  SELECT * INTO current_usage FROM get_message_usage();
+
+  IF current_usage.daily_used >= current_usage.daily_limit
+     OR current_usage.monthly_used >= current_usage.monthly_limit THEN
+    RETURN QUERY SELECT FALSE, current_usage.plan, current_usage.daily_limit, current_usage.monthly_limit,
+      current_usage.daily_used, current_usage.monthly_used;
+    RETURN;
+  END IF;
+
+  INSERT INTO message_usage AS mu (user_id, usage_date, message_count)
+  VALUES (auth.uid(), (NOW() AT TIME ZONE 'Asia/Kolkata')::date, 1)
+  ON CONFLICT (user_id, usage_date) DO UPDATE SET message_count = mu.message_count + 1;
+
+  RETURN QUERY SELECT TRUE, current_usage.plan, current_usage.daily_limit, current_usage.monthly_limit,
+    current_usage.daily_used + 1, current_usage.monthly_used + 1;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_message_usage() FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.consume_message_quota() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_message_usage() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_message_quota() TO authenticated;
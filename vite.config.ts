@@ -60,6 +60,14 @@ export default defineConfig({
     host: '0.0.0.0',
     port: 5000,
     strictPort: true,
+    // Local mock AI backend (npm run mock:ai), see mock-server/server.js
+    proxy: {
+      '/mock-ai': {
+        target: `http://localhost:${process.env.MOCK_AI_PORT || 8787}`,
+        changeOrigin: true,
+        rewrite: (path) => path.replace(/^\/mock-ai/, ''),
+      },
+    },
     hmr: {
       clientPort: 443,
       protocol: 'wss',